@@ -0,0 +1,16 @@
+-- Record every order and fuel order status transition
+CREATE TABLE IF NOT EXISTS "order_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer REFERENCES "orders"("id"),
+	"fuel_order_id" integer REFERENCES "fuel_orders"("id"),
+	"from_status" "order_status",
+	"to_status" "order_status" NOT NULL,
+	"actor_id" integer REFERENCES "users"("id"),
+	"actor_role" text,
+	"reason" text,
+	"metadata" jsonb DEFAULT '{}',
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "order_status_history_order_id_idx" ON "order_status_history" ("order_id");
+CREATE INDEX IF NOT EXISTS "order_status_history_fuel_order_id_idx" ON "order_status_history" ("fuel_order_id");
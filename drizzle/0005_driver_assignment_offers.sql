@@ -0,0 +1,23 @@
+-- Track dispatcher offers made to drivers for each order
+DO $$ BEGIN
+ CREATE TYPE "assignment_offer_status" AS ENUM('OFFERED', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'WITHDRAWN');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "driver_assignment_offers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL REFERENCES "orders"("id"),
+	"driver_id" integer NOT NULL REFERENCES "users"("id"),
+	"status" "assignment_offer_status" DEFAULT 'OFFERED',
+	"score" numeric(8, 2),
+	"distance_km" numeric(8, 2),
+	"expires_at" timestamp NOT NULL,
+	"responded_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "driver_assignment_offers_order_id_idx" ON "driver_assignment_offers" ("order_id");
+CREATE INDEX IF NOT EXISTS "driver_assignment_offers_driver_id_idx" ON "driver_assignment_offers" ("driver_id");
+CREATE INDEX IF NOT EXISTS "driver_assignment_offers_status_idx" ON "driver_assignment_offers" ("status");
@@ -0,0 +1,2 @@
+-- Broadcast offers record which radius ring they were sent in
+ALTER TABLE "driver_assignment_offers" ADD COLUMN IF NOT EXISTS "ring" integer;
@@ -0,0 +1,30 @@
+-- Optimized multi-stop routes for drivers with batched orders
+CREATE TABLE IF NOT EXISTS "driver_routes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"driver_id" integer NOT NULL REFERENCES "users"("id"),
+	"status" text DEFAULT 'ACTIVE',
+	"start_latitude" numeric(10, 8),
+	"start_longitude" numeric(11, 8),
+	"total_distance" numeric(10, 2),
+	"total_duration" numeric(10, 2),
+	"warnings" jsonb DEFAULT '[]',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "driver_route_stops" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"route_id" integer NOT NULL REFERENCES "driver_routes"("id"),
+	"order_id" integer NOT NULL REFERENCES "orders"("id"),
+	"stop_type" text NOT NULL,
+	"sequence" integer NOT NULL,
+	"latitude" numeric(10, 8) NOT NULL,
+	"longitude" numeric(11, 8) NOT NULL,
+	"planned_arrival" timestamp,
+	"minutes_late" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "driver_routes_driver_id_idx" ON "driver_routes" ("driver_id");
+CREATE INDEX IF NOT EXISTS "driver_route_stops_route_id_idx" ON "driver_route_stops" ("route_id");
+CREATE INDEX IF NOT EXISTS "driver_route_stops_order_id_idx" ON "driver_route_stops" ("order_id");
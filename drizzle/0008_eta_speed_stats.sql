@@ -0,0 +1,12 @@
+-- Learned average speeds used by the ETA model, recomputed nightly
+CREATE TABLE IF NOT EXISTS "eta_speed_stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"bucket_type" text NOT NULL,
+	"bucket_key" text NOT NULL,
+	"avg_speed_kmh" numeric(8, 2) NOT NULL,
+	"std_dev_kmh" numeric(8, 2) NOT NULL,
+	"sample_count" integer NOT NULL,
+	"computed_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "eta_speed_stats_bucket_unique_idx" ON "eta_speed_stats" ("bucket_type", "bucket_key");
@@ -0,0 +1,15 @@
+-- Record when a driver enters the pickup or drop-off geofence of an order
+CREATE TABLE IF NOT EXISTS "geofence_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL REFERENCES "orders"("id"),
+	"driver_id" integer NOT NULL REFERENCES "users"("id"),
+	"fence" text NOT NULL,
+	"event" text NOT NULL,
+	"distance_meters" integer,
+	"latitude" numeric(10, 8) NOT NULL,
+	"longitude" numeric(11, 8) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "geofence_events_order_id_idx" ON "geofence_events" ("order_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "geofence_events_order_fence_event_unique_idx" ON "geofence_events" ("order_id", "fence", "event");
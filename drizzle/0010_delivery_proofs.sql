@@ -0,0 +1,22 @@
+-- Proof-of-delivery records and the merchant setting for which proofs are mandatory
+ALTER TABLE "merchant_profiles" ADD COLUMN IF NOT EXISTS "delivery_proof_settings" jsonb DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS "delivery_proofs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL UNIQUE REFERENCES "orders"("id"),
+	"driver_id" integer REFERENCES "users"("id"),
+	"photo_keys" jsonb DEFAULT '[]',
+	"signature_key" text,
+	"latitude" numeric(10, 8),
+	"longitude" numeric(11, 8),
+	"location_captured_at" timestamp,
+	"delivery_code" text NOT NULL,
+	"code_attempts" integer DEFAULT 0,
+	"code_verified_at" timestamp,
+	"required_proofs" jsonb DEFAULT '[]',
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "delivery_proofs_order_id_idx" ON "delivery_proofs" ("order_id");
@@ -0,0 +1,17 @@
+-- Single-use nonces backing signed QR handoff tokens
+CREATE TABLE IF NOT EXISTS "qr_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"nonce" text NOT NULL UNIQUE,
+	"purpose" text NOT NULL,
+	"order_id" integer NOT NULL REFERENCES "orders"("id"),
+	"issued_by" integer NOT NULL REFERENCES "users"("id"),
+	"scanner_role" "role" NOT NULL,
+	"toll_gate_id" integer REFERENCES "toll_gates"("id"),
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"used_by" integer REFERENCES "users"("id"),
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "qr_tokens_order_id_idx" ON "qr_tokens" ("order_id");
+CREATE INDEX IF NOT EXISTS "qr_tokens_expires_at_idx" ON "qr_tokens" ("expires_at");
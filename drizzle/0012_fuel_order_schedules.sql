@@ -0,0 +1,33 @@
+-- Recurring fuel delivery schedules, materialised into fuel_orders ahead of time
+CREATE TABLE IF NOT EXISTS "fuel_order_schedules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"customer_id" integer NOT NULL REFERENCES "users"("id"),
+	"station_id" integer REFERENCES "users"("id"),
+	"fuel_type" text NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_price" numeric(10, 2),
+	"delivery_address" text NOT NULL,
+	"delivery_latitude" numeric(10, 8),
+	"delivery_longitude" numeric(11, 8),
+	"notes" text,
+	"frequency" text NOT NULL,
+	"days_of_week" jsonb DEFAULT '[]',
+	"day_of_month" integer,
+	"time_of_day" text NOT NULL,
+	"utc_offset_minutes" integer DEFAULT 60,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"status" text DEFAULT 'ACTIVE',
+	"next_run_at" timestamp,
+	"skipped_occurrences" jsonb DEFAULT '[]',
+	"last_materialized_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "fuel_order_schedules_customer_id_idx" ON "fuel_order_schedules" ("customer_id");
+CREATE INDEX IF NOT EXISTS "fuel_order_schedules_status_next_run_idx" ON "fuel_order_schedules" ("status", "next_run_at");
+
+ALTER TABLE "fuel_orders" ADD COLUMN IF NOT EXISTS "schedule_id" integer REFERENCES "fuel_order_schedules"("id");
+ALTER TABLE "fuel_orders" ADD COLUMN IF NOT EXISTS "reminder_sent_at" timestamp;
+CREATE UNIQUE INDEX IF NOT EXISTS "fuel_orders_schedule_occurrence_unique_idx" ON "fuel_orders" ("schedule_id", "scheduled_delivery_time");
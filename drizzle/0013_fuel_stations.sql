@@ -0,0 +1,60 @@
+-- Fuel stations with per-fuel stock levels and price history; fuel orders now point at stations
+CREATE TABLE IF NOT EXISTS "fuel_stations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_id" integer NOT NULL REFERENCES "users"("id"),
+	"name" text NOT NULL,
+	"address" text,
+	"latitude" numeric(10, 8),
+	"longitude" numeric(11, 8),
+	"phone" text,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "fuel_stations_owner_id_idx" ON "fuel_stations" ("owner_id");
+CREATE INDEX IF NOT EXISTS "fuel_stations_location_idx" ON "fuel_stations" ("latitude", "longitude");
+
+CREATE TABLE IF NOT EXISTS "fuel_station_stock" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL REFERENCES "fuel_stations"("id"),
+	"fuel_type" text NOT NULL,
+	"quantity_litres" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "fuel_station_stock_station_fuel_unique_idx" ON "fuel_station_stock" ("station_id", "fuel_type");
+
+CREATE TABLE IF NOT EXISTS "fuel_prices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"station_id" integer NOT NULL REFERENCES "fuel_stations"("id"),
+	"fuel_type" text NOT NULL,
+	"price_per_litre" numeric(10, 2) NOT NULL,
+	"effective_from" timestamp NOT NULL,
+	"created_by" integer REFERENCES "users"("id"),
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "fuel_prices_station_fuel_effective_idx" ON "fuel_prices" ("station_id", "fuel_type", "effective_from");
+
+-- Existing rows point at the station operator's user: give each operator a station and repoint
+ALTER TABLE "fuel_orders" DROP CONSTRAINT IF EXISTS "fuel_orders_station_id_users_id_fk";
+ALTER TABLE "fuel_order_schedules" DROP CONSTRAINT IF EXISTS "fuel_order_schedules_station_id_fkey";
+
+INSERT INTO "fuel_stations" ("owner_id", "name")
+SELECT u."id", u."full_name" FROM "users" u
+WHERE u."id" IN (
+	SELECT "station_id" FROM "fuel_orders" WHERE "station_id" IS NOT NULL
+	UNION
+	SELECT "station_id" FROM "fuel_order_schedules" WHERE "station_id" IS NOT NULL
+);
+
+UPDATE "fuel_orders" f SET "station_id" = s."id" FROM "fuel_stations" s WHERE s."owner_id" = f."station_id";
+UPDATE "fuel_order_schedules" f SET "station_id" = s."id" FROM "fuel_stations" s WHERE s."owner_id" = f."station_id";
+
+ALTER TABLE "fuel_orders" ADD CONSTRAINT "fuel_orders_station_id_fuel_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "fuel_stations"("id");
+ALTER TABLE "fuel_order_schedules" ADD CONSTRAINT "fuel_order_schedules_station_id_fuel_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "fuel_stations"("id");
+
+-- Scheduled orders are priced when they are created, not when the schedule is
+ALTER TABLE "fuel_order_schedules" DROP COLUMN IF EXISTS "unit_price";
@@ -0,0 +1,23 @@
+-- Server-side checkout quotes, redeemed once by POST /api/checkout before they expire
+CREATE TABLE IF NOT EXISTS "price_quotes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" text NOT NULL UNIQUE,
+	"customer_id" integer NOT NULL REFERENCES "users"("id"),
+	"vehicle_type" text NOT NULL,
+	"delivery_latitude" numeric(10, 8) NOT NULL,
+	"delivery_longitude" numeric(11, 8) NOT NULL,
+	"items" jsonb NOT NULL,
+	"breakdown" jsonb NOT NULL,
+	"subtotal" numeric(12, 2) NOT NULL,
+	"delivery_fee" numeric(12, 2) NOT NULL,
+	"service_fee" numeric(12, 2) NOT NULL,
+	"tax" numeric(12, 2) NOT NULL,
+	"total" numeric(12, 2) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"redeemed_at" timestamp,
+	"order_number" text,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "price_quotes_customer_id_idx" ON "price_quotes" ("customer_id");
+CREATE INDEX IF NOT EXISTS "price_quotes_expires_at_idx" ON "price_quotes" ("expires_at");
@@ -0,0 +1,60 @@
+-- Promo codes and automatic discount campaigns, with per-order discount line items
+CREATE TABLE IF NOT EXISTS "promotions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text UNIQUE,
+	"name" text NOT NULL,
+	"description" text,
+	"discount_type" text NOT NULL,
+	"value" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"max_discount_amount" numeric(12, 2),
+	"is_automatic" boolean DEFAULT false,
+	"first_order_only" boolean DEFAULT false,
+	"funded_by" text DEFAULT 'PLATFORM' NOT NULL,
+	"funding_merchant_id" integer REFERENCES "users"("id"),
+	"merchant_ids" jsonb DEFAULT '[]',
+	"category_ids" jsonb DEFAULT '[]',
+	"min_basket_amount" numeric(12, 2),
+	"usage_limit" integer,
+	"per_user_limit" integer DEFAULT 1,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"is_active" boolean DEFAULT true,
+	"created_by" integer REFERENCES "users"("id"),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "promotions_automatic_idx" ON "promotions" ("is_automatic", "is_active");
+
+CREATE TABLE IF NOT EXISTS "promotion_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"promotion_id" integer NOT NULL REFERENCES "promotions"("id"),
+	"user_id" integer NOT NULL REFERENCES "users"("id"),
+	"quote_id" text NOT NULL,
+	"order_number" text,
+	"amount" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "promotion_redemptions_promotion_user_idx" ON "promotion_redemptions" ("promotion_id", "user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "promotion_redemptions_promotion_quote_unique_idx" ON "promotion_redemptions" ("promotion_id", "quote_id");
+
+CREATE TABLE IF NOT EXISTS "order_discounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL REFERENCES "orders"("id"),
+	"promotion_id" integer NOT NULL REFERENCES "promotions"("id"),
+	"code" text,
+	"description" text NOT NULL,
+	"discount_type" text NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"funded_by" text NOT NULL,
+	"funding_merchant_id" integer REFERENCES "users"("id"),
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "order_discounts_order_id_idx" ON "order_discounts" ("order_id");
+
+ALTER TABLE "price_quotes" ADD COLUMN IF NOT EXISTS "discount" numeric(12, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "price_quotes" ADD COLUMN IF NOT EXISTS "promo_code" text;
@@ -0,0 +1,19 @@
+-- Parent checkout group over the per-merchant orders paid for together
+CREATE TABLE IF NOT EXISTS "checkout_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_number" text NOT NULL UNIQUE,
+	"customer_id" integer NOT NULL REFERENCES "users"("id"),
+	"quote_id" text,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"payment_method" text NOT NULL,
+	"payment_reference" text UNIQUE,
+	"payment_status" text DEFAULT 'PENDING' NOT NULL,
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "checkout_groups_customer_id_idx" ON "checkout_groups" ("customer_id");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "checkout_group_id" integer REFERENCES "checkout_groups"("id");
+CREATE INDEX IF NOT EXISTS "orders_checkout_group_id_idx" ON "orders" ("checkout_group_id");
@@ -0,0 +1,19 @@
+-- Product stock held for a checkout until its payment arrives or the hold expires
+CREATE TABLE IF NOT EXISTS "stock_reservations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reference" text NOT NULL,
+	"product_id" integer NOT NULL REFERENCES "products"("id"),
+	"user_id" integer NOT NULL REFERENCES "users"("id"),
+	"quantity" integer NOT NULL,
+	"status" text DEFAULT 'HELD' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"committed_at" timestamp,
+	"released_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "stock_reservations_positive_quantity" CHECK ("quantity" > 0)
+);
+
+CREATE INDEX IF NOT EXISTS "stock_reservations_reference_idx" ON "stock_reservations" ("reference");
+CREATE INDEX IF NOT EXISTS "stock_reservations_product_id_idx" ON "stock_reservations" ("product_id");
+CREATE INDEX IF NOT EXISTS "stock_reservations_status_expires_at_idx" ON "stock_reservations" ("status", "expires_at");
@@ -0,0 +1,62 @@
+-- Product variants (size, colour, pack size) with their own SKU, price and stock,
+-- and add-on option groups; carts, order items and stock holds record the choice
+CREATE TABLE IF NOT EXISTS "product_variants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL REFERENCES "products"("id"),
+	"sku" text NOT NULL UNIQUE,
+	"name" text NOT NULL,
+	"attributes" jsonb DEFAULT '{}',
+	"price" numeric(15, 2) NOT NULL,
+	"stock_quantity" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"sort_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp,
+	CONSTRAINT "product_variants_positive_price" CHECK ("price" > 0)
+);
+
+CREATE INDEX IF NOT EXISTS "product_variants_product_id_idx" ON "product_variants" ("product_id");
+
+CREATE TABLE IF NOT EXISTS "product_option_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL REFERENCES "products"("id"),
+	"name" text NOT NULL,
+	"min_selections" integer DEFAULT 0 NOT NULL,
+	"max_selections" integer DEFAULT 1 NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"sort_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "product_option_groups_product_id_idx" ON "product_option_groups" ("product_id");
+
+CREATE TABLE IF NOT EXISTS "product_options" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL REFERENCES "product_option_groups"("id"),
+	"name" text NOT NULL,
+	"price_delta" numeric(15, 2) DEFAULT '0' NOT NULL,
+	"is_available" boolean DEFAULT true,
+	"sort_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "product_options_group_id_idx" ON "product_options" ("group_id");
+
+-- A cart can now hold the same item in several variants, so one row per commodity no longer holds
+DROP INDEX IF EXISTS "cart_items_user_commodity_unique_idx";
+ALTER TABLE "cart_items" ALTER COLUMN "commodity_id" DROP NOT NULL;
+ALTER TABLE "cart_items" ADD COLUMN IF NOT EXISTS "product_id" integer REFERENCES "products"("id");
+ALTER TABLE "cart_items" ADD COLUMN IF NOT EXISTS "variant_id" integer REFERENCES "product_variants"("id");
+ALTER TABLE "cart_items" ADD COLUMN IF NOT EXISTS "selected_options" jsonb DEFAULT '[]';
+CREATE INDEX IF NOT EXISTS "cart_items_product_idx" ON "cart_items" ("product_id");
+
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "variant_id" integer REFERENCES "product_variants"("id");
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "variant_name" text;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "selected_options" jsonb DEFAULT '[]';
+
+ALTER TABLE "stock_reservations" ADD COLUMN IF NOT EXISTS "variant_id" integer REFERENCES "product_variants"("id");
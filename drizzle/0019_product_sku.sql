@@ -0,0 +1,3 @@
+-- Merchant SKU on products, the key for bulk CSV import
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "sku" text;
+CREATE UNIQUE INDEX IF NOT EXISTS "products_merchant_sku_unique_idx" ON "products" ("merchant_id", "sku");
@@ -0,0 +1,4 @@
+-- Per-product reorder thresholds, low-stock alert state and automatic out-of-stock toggling
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "reorder_threshold" integer;
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "low_stock_alerted_at" timestamp;
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "stocked_out_at" timestamp;
@@ -0,0 +1,2 @@
+-- Orders placed ahead of time for when a closed merchant opens
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "scheduled_for" timestamp;
@@ -0,0 +1,13 @@
+-- Full-text search documents and trigram indexes for ranked, typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')) STORED;
+ALTER TABLE "merchant_profiles" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("business_name", '')), 'A') || setweight(to_tsvector('english', coalesce("business_type", '')), 'B') || setweight(to_tsvector('english', coalesce("description", '')), 'C')) STORED;
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')) STORED;
+
+CREATE INDEX IF NOT EXISTS "products_search_vector_idx" ON "products" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "products_name_trgm_idx" ON "products" USING gin ("name" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "merchant_profiles_search_vector_idx" ON "merchant_profiles" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "merchant_profiles_business_name_trgm_idx" ON "merchant_profiles" USING gin ("business_name" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "categories_search_vector_idx" ON "categories" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "categories_name_trgm_idx" ON "categories" USING gin ("name" gin_trgm_ops);
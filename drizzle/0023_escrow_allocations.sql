@@ -0,0 +1,47 @@
+-- Escrow allocation lines per party, and an append-only log of every movement against them
+CREATE TABLE IF NOT EXISTS "escrow_allocations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"escrow_id" integer NOT NULL REFERENCES "escrows"("id"),
+	"party" text NOT NULL,
+	"payee_id" integer REFERENCES "users"("id"),
+	"amount" numeric(15, 2) NOT NULL,
+	"released_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"refunded_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"status" text DEFAULT 'HELD' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "escrow_allocations_settled_within_amount" CHECK ("released_amount" + "refunded_amount" <= "amount")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "escrow_allocations_escrow_party_unique_idx" ON "escrow_allocations" ("escrow_id", "party");
+CREATE INDEX IF NOT EXISTS "escrow_allocations_payee_id_idx" ON "escrow_allocations" ("payee_id");
+
+CREATE TABLE IF NOT EXISTS "escrow_movements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"escrow_id" integer NOT NULL REFERENCES "escrows"("id"),
+	"allocation_id" integer NOT NULL REFERENCES "escrow_allocations"("id"),
+	"type" text NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"balance_before" numeric(15, 2) NOT NULL,
+	"balance_after" numeric(15, 2) NOT NULL,
+	"escrow_balance_before" numeric(15, 2) NOT NULL,
+	"escrow_balance_after" numeric(15, 2) NOT NULL,
+	"actor_id" integer REFERENCES "users"("id"),
+	"reason" text,
+	"reference" text,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "escrow_movements_escrow_id_idx" ON "escrow_movements" ("escrow_id");
+CREATE INDEX IF NOT EXISTS "escrow_movements_allocation_id_idx" ON "escrow_movements" ("allocation_id");
+
+-- The movement log is history: corrections are new movements, never edits
+CREATE OR REPLACE FUNCTION "escrow_movements_immutable"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'escrow_movements is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "escrow_movements_immutable" ON "escrow_movements";
+CREATE TRIGGER "escrow_movements_immutable" BEFORE UPDATE OR DELETE ON "escrow_movements"
+	FOR EACH ROW EXECUTE FUNCTION "escrow_movements_immutable"();
@@ -0,0 +1,78 @@
+-- Double-entry ledger: accounts, journal entries and their debit/credit lines
+ALTER TYPE "transaction_type" ADD VALUE IF NOT EXISTS 'TOLL_PAYMENT';
+
+CREATE TABLE IF NOT EXISTS "ledger_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"category" text NOT NULL,
+	"owner_id" integer REFERENCES "users"("id"),
+	"currency" text DEFAULT 'NGN' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "ledger_accounts_code_unique" UNIQUE("code")
+);
+
+CREATE INDEX IF NOT EXISTS "ledger_accounts_category_owner_idx" ON "ledger_accounts" ("category", "owner_id");
+
+CREATE TABLE IF NOT EXISTS "journal_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reference" text NOT NULL,
+	"description" text NOT NULL,
+	"source_type" text NOT NULL,
+	"source_id" integer,
+	"created_by" integer REFERENCES "users"("id"),
+	"posted_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "journal_entries_reference_unique" UNIQUE("reference")
+);
+
+CREATE INDEX IF NOT EXISTS "journal_entries_source_idx" ON "journal_entries" ("source_type", "source_id");
+CREATE INDEX IF NOT EXISTS "journal_entries_posted_at_idx" ON "journal_entries" ("posted_at");
+
+CREATE TABLE IF NOT EXISTS "journal_lines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entry_id" integer NOT NULL REFERENCES "journal_entries"("id"),
+	"account_id" integer NOT NULL REFERENCES "ledger_accounts"("id"),
+	"debit" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"credit" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "journal_lines_one_sided" CHECK ("debit" >= 0 AND "credit" >= 0 AND ("debit" = 0) <> ("credit" = 0))
+);
+
+CREATE INDEX IF NOT EXISTS "journal_lines_entry_id_idx" ON "journal_lines" ("entry_id");
+CREATE INDEX IF NOT EXISTS "journal_lines_account_id_idx" ON "journal_lines" ("account_id");
+
+-- Posted entries are history: mistakes are corrected with a reversing entry, never edited
+CREATE OR REPLACE FUNCTION "journal_immutable"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "journal_entries_immutable" ON "journal_entries";
+CREATE TRIGGER "journal_entries_immutable" BEFORE UPDATE OR DELETE ON "journal_entries"
+	FOR EACH ROW EXECUTE FUNCTION "journal_immutable"();
+
+DROP TRIGGER IF EXISTS "journal_lines_immutable" ON "journal_lines";
+CREATE TRIGGER "journal_lines_immutable" BEFORE UPDATE OR DELETE ON "journal_lines"
+	FOR EACH ROW EXECUTE FUNCTION "journal_immutable"();
+
+-- Checked at commit, once every line of the entry is in
+CREATE OR REPLACE FUNCTION "journal_entry_balanced"() RETURNS trigger AS $$
+DECLARE
+	difference numeric;
+BEGIN
+	SELECT COALESCE(SUM("debit"), 0) - COALESCE(SUM("credit"), 0) INTO difference
+		FROM "journal_lines" WHERE "entry_id" = NEW."entry_id";
+	IF difference <> 0 THEN
+		RAISE EXCEPTION 'journal entry % does not balance (debits - credits = %)', NEW."entry_id", difference;
+	END IF;
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "journal_lines_balanced" ON "journal_lines";
+CREATE CONSTRAINT TRIGGER "journal_lines_balanced" AFTER INSERT ON "journal_lines"
+	DEFERRABLE INITIALLY DEFERRED
+	FOR EACH ROW EXECUTE FUNCTION "journal_entry_balanced"();
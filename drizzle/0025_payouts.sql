@@ -0,0 +1,65 @@
+-- Verified payout bank accounts, and batched Paystack payouts of released escrow shares
+CREATE TABLE IF NOT EXISTS "bank_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id"),
+	"bank_code" text,
+	"bank_name" text,
+	"account_number" text NOT NULL,
+	"account_name" text NOT NULL,
+	"verified_at" timestamp NOT NULL,
+	"paystack_recipient_code" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "bank_accounts_user_id_idx" ON "bank_accounts" ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "bank_accounts_user_live_unique_idx" ON "bank_accounts" ("user_id") WHERE "deleted_at" IS NULL;
+
+-- Carry over payout details kept on users before bank_accounts; they were paid through their
+-- existing transfer recipient, so no bank code is needed. Skipped where the columns are gone.
+DO $$ BEGIN
+ IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'paystack_recipient_code') THEN
+  INSERT INTO "bank_accounts" ("user_id", "bank_name", "account_number", "account_name", "verified_at", "paystack_recipient_code")
+  SELECT "id", "bank_name", "account_number", COALESCE("account_name", "full_name"), now(), "paystack_recipient_code"
+  FROM "users"
+  WHERE "paystack_recipient_code" IS NOT NULL
+   AND "account_number" IS NOT NULL
+   AND NOT EXISTS (SELECT 1 FROM "bank_accounts" WHERE "bank_accounts"."user_id" = "users"."id" AND "bank_accounts"."deleted_at" IS NULL);
+ END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "payouts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payee_id" integer NOT NULL REFERENCES "users"("id"),
+	"party" text NOT NULL,
+	"bank_account_id" integer NOT NULL REFERENCES "bank_accounts"("id"),
+	"amount" numeric(15, 2) NOT NULL,
+	"status" text DEFAULT 'PENDING' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"reference" text,
+	"transfer_code" text,
+	"last_error" text,
+	"next_attempt_at" timestamp,
+	"initiated_at" timestamp,
+	"paid_at" timestamp,
+	"flagged_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "payouts_payee_id_idx" ON "payouts" ("payee_id");
+CREATE INDEX IF NOT EXISTS "payouts_status_idx" ON "payouts" ("status");
+CREATE UNIQUE INDEX IF NOT EXISTS "payouts_reference_unique_idx" ON "payouts" ("reference");
+
+CREATE TABLE IF NOT EXISTS "payout_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payout_id" integer NOT NULL REFERENCES "payouts"("id"),
+	"escrow_movement_id" integer NOT NULL REFERENCES "escrow_movements"("id"),
+	"order_id" integer REFERENCES "orders"("id"),
+	"amount" numeric(15, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "payout_items_payout_id_idx" ON "payout_items" ("payout_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "payout_items_escrow_movement_unique_idx" ON "payout_items" ("escrow_movement_id");
@@ -0,0 +1,39 @@
+-- Paystack reconciliation runs and the discrepancies each one found
+CREATE TABLE IF NOT EXISTS "reconciliation_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"trigger" text DEFAULT 'SCHEDULED' NOT NULL,
+	"triggered_by" integer REFERENCES "users"("id"),
+	"status" text DEFAULT 'RUNNING' NOT NULL,
+	"summary" jsonb DEFAULT '{}',
+	"error" text,
+	"started_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "reconciliation_runs_period_start_idx" ON "reconciliation_runs" ("period_start");
+
+CREATE TABLE IF NOT EXISTS "reconciliation_discrepancies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"run_id" integer NOT NULL REFERENCES "reconciliation_runs"("id"),
+	"type" text NOT NULL,
+	"reference" text NOT NULL,
+	"transaction_id" integer REFERENCES "transactions"("id"),
+	"paystack_id" text,
+	"local_amount" numeric(15, 2),
+	"remote_amount" numeric(15, 2),
+	"local_status" text,
+	"remote_status" text,
+	"details" jsonb DEFAULT '{}',
+	"status" text DEFAULT 'OPEN' NOT NULL,
+	"resolution" text,
+	"resolution_note" text,
+	"resolved_by" integer REFERENCES "users"("id"),
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "reconciliation_discrepancies_run_id_idx" ON "reconciliation_discrepancies" ("run_id");
+CREATE INDEX IF NOT EXISTS "reconciliation_discrepancies_type_reference_idx" ON "reconciliation_discrepancies" ("type", "reference");
+CREATE INDEX IF NOT EXISTS "reconciliation_discrepancies_status_idx" ON "reconciliation_discrepancies" ("status");
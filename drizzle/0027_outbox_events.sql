@@ -0,0 +1,20 @@
+-- Transactional outbox for WebSocket, email, SMS, Firebase and outbound webhook deliveries
+CREATE TABLE IF NOT EXISTS "outbox_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"channel" text NOT NULL,
+	"event_type" text NOT NULL,
+	"aggregate_type" text,
+	"aggregate_id" integer,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'PENDING' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"locked_at" timestamp,
+	"delivered_at" timestamp,
+	"dead_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "outbox_events_status_next_attempt_idx" ON "outbox_events" ("status", "next_attempt_at");
+CREATE INDEX IF NOT EXISTS "outbox_events_aggregate_idx" ON "outbox_events" ("aggregate_type", "aggregate_id");
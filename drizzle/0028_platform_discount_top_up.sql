@@ -0,0 +1,7 @@
+-- A platform allocation line goes negative when the platform tops an escrow up for a discount it funded;
+-- what is taken back of the top-up is recorded as a negative refund on that line
+ALTER TABLE "escrow_allocations" DROP CONSTRAINT IF EXISTS "escrow_allocations_settled_within_amount";
+ALTER TABLE "escrow_allocations" ADD CONSTRAINT "escrow_allocations_settled_within_amount" CHECK (
+	("amount" >= 0 AND "released_amount" + "refunded_amount" <= "amount")
+	OR ("party" = 'PLATFORM' AND "amount" < 0 AND "released_amount" = 0 AND "refunded_amount" BETWEEN "amount" AND 0)
+);
@@ -0,0 +1,11 @@
+-- One live escrow per payment reference; a webhook and a verify call for the same payment
+-- could each insert one, so later duplicates are soft-deleted before the index is built
+UPDATE "escrows" SET "deleted_at" = now(), "updated_at" = now()
+WHERE "deleted_at" IS NULL
+	AND "transaction_ref" IS NOT NULL
+	AND "id" NOT IN (
+		SELECT MIN("id") FROM "escrows"
+		WHERE "deleted_at" IS NULL AND "transaction_ref" IS NOT NULL
+		GROUP BY "transaction_ref"
+	);
+CREATE UNIQUE INDEX IF NOT EXISTS "escrows_transaction_ref_unique_idx" ON "escrows" ("transaction_ref") WHERE "deleted_at" IS NULL;
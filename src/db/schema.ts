@@ -9,12 +9,13 @@ export const roleEnum = pgEnum('role', ['CONSUMER', 'MERCHANT', 'DRIVER', 'ADMIN
 export const verificationStatusEnum = pgEnum('verification_status', ['PENDING', 'APPROVED', 'REJECTED']);
 export const orderStatusEnum = pgEnum('order_status', ['PENDING', 'CONFIRMED', 'ACCEPTED', 'PICKED_UP', 'IN_TRANSIT', 'DELIVERED', 'CANCELLED']);
 export const paymentStatusEnum = pgEnum('payment_status', ['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED']);
-export const transactionTypeEnum = pgEnum('transaction_type', ['PAYMENT', 'DELIVERY_EARNINGS', 'REFUND', 'ESCROW_RELEASE', 'TRANSFER_IN', 'TRANSFER_OUT']);
+export const transactionTypeEnum = pgEnum('transaction_type', ['PAYMENT', 'DELIVERY_EARNINGS', 'REFUND', 'ESCROW_RELEASE', 'TRANSFER_IN', 'TRANSFER_OUT', 'TOLL_PAYMENT']);
 export const kycStatusEnum = pgEnum('kyc_status', ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'REQUIRES_RESUBMISSION']);
 export const driverTierEnum = pgEnum('driver_tier', ['STANDARD', 'PREMIUM', 'ELITE']);
 export const supportStatusEnum = pgEnum('support_status', ['OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']);
 export const escrowStatusEnum = pgEnum('escrow_status', ['HELD', 'RELEASED', 'REFUNDED', 'DISPUTED']);
 export const invoiceStatusEnum = pgEnum('invoice_status', ['DUE', 'PAID', 'OVERDUE']);
+export const assignmentOfferStatusEnum = pgEnum('assignment_offer_status', ['OFFERED', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'WITHDRAWN']);
 
 // ---------------- Users ----------------
 export const users = pgTable("users", {
@@ -80,7 +81,9 @@ export const categories = pgTable("categories", {
   createdAt: timestamp("created_at").defaultNow(),
   deletedAt: timestamp("deleted_at")
 }, (table) => ({
-  nameIdx: index("categories_name_idx").on(table.name)
+  nameIdx: index("categories_name_idx").on(table.name),
+  searchVectorIdx: index("categories_search_vector_idx").using('gin', sql`"search_vector"`),
+  nameTrgmIdx: index("categories_name_trgm_idx").using('gin', table.name.op('gin_trgm_ops'))
 }));
 
 // ---------------- Products ----------------
@@ -89,6 +92,7 @@ export const products = pgTable("products", {
   merchantId: integer("merchant_id").references(() => users.id),
   sellerId: integer("seller_id").references(() => users.id).notNull(),
   commodityId: integer("commodity_id").references(() => commodities.id),
+  sku: text("sku"), // merchant's own SKU, unique per merchant
   name: text("name").notNull(),
   description: text("description"),
   price: decimal("price", { precision: 15, scale: 2 }).notNull(),
@@ -96,6 +100,9 @@ export const products = pgTable("products", {
   unit: text("unit"),
   stockQuantity: integer("stock_quantity").default(0),
   stockLevel: integer("stock_level").default(0),
+  reorderThreshold: integer("reorder_threshold"), // alert the merchant when stock falls below this
+  lowStockAlertedAt: timestamp("low_stock_alerted_at"), // set while below the threshold so the alert goes out once
+  stockedOutAt: timestamp("stocked_out_at"), // set when running out took the product off sale
   imageUrl: text("image_url"),
   images: jsonb("images").default('[]'),
   isAvailable: boolean("is_available").default(true),
@@ -109,14 +116,72 @@ export const products = pgTable("products", {
   merchantIdIdx: index("products_merchant_id_idx").on(table.merchantId),
   sellerIdIdx: index("products_seller_id_idx").on(table.sellerId),
   categoryIdIdx: index("products_category_id_idx").on(table.categoryId),
+  merchantSkuIdx: uniqueIndex("products_merchant_sku_unique_idx").on(table.merchantId, table.sku),
+  // search_vector is a generated tsvector column (see the full-text search migration), left out of
+  // the model so that plain row selects do not carry it
+  searchVectorIdx: index("products_search_vector_idx").using('gin', sql`"search_vector"`),
+  nameTrgmIdx: index("products_name_trgm_idx").using('gin', table.name.op('gin_trgm_ops')),
   positivePrice: check("positive_price", sql`${table.price} > 0`)
 }));
 
+// ---------------- Product Variants ----------------
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  sku: text("sku").notNull().unique(),
+  name: text("name").notNull(),
+  attributes: jsonb("attributes").default('{}'), // e.g. { size, colour, packSize }
+  price: decimal("price", { precision: 15, scale: 2 }).notNull(),
+  stockQuantity: integer("stock_quantity").notNull().default(0),
+  isActive: boolean("is_active").default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at")
+}, (table) => ({
+  productIdIdx: index("product_variants_product_id_idx").on(table.productId),
+  positivePrice: check("product_variants_positive_price", sql`${table.price} > 0`)
+}));
+
+// ---------------- Product Option Groups ----------------
+export const productOptionGroups = pgTable("product_option_groups", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  name: text("name").notNull(),
+  minSelections: integer("min_selections").notNull().default(0),
+  maxSelections: integer("max_selections").notNull().default(1),
+  isActive: boolean("is_active").default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at")
+}, (table) => ({
+  productIdIdx: index("product_option_groups_product_id_idx").on(table.productId)
+}));
+
+// ---------------- Product Options ----------------
+export const productOptions = pgTable("product_options", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").references(() => productOptionGroups.id).notNull(),
+  name: text("name").notNull(),
+  priceDelta: decimal("price_delta", { precision: 15, scale: 2 }).notNull().default('0'),
+  isAvailable: boolean("is_available").default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at")
+}, (table) => ({
+  groupIdIdx: index("product_options_group_id_idx").on(table.groupId)
+}));
+
 // ---------------- Cart Items ----------------
 export const cartItems = pgTable("cart_items", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
-  commodityId: integer("commodity_id").notNull().references(() => commodities.id),
+  commodityId: integer("commodity_id").references(() => commodities.id),
+  productId: integer("product_id").references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  selectedOptions: jsonb("selected_options").default('[]'), // product option ids
   quantity: integer("quantity").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -124,7 +189,7 @@ export const cartItems = pgTable("cart_items", {
 }, (table) => ({
   userIdx: index("cart_items_user_idx").on(table.userId),
   commodityIdx: index("cart_items_commodity_idx").on(table.commodityId),
-  uniqueUserCommodity: uniqueIndex("cart_items_user_commodity_unique_idx").on(table.userId, table.commodityId)
+  productIdx: index("cart_items_product_idx").on(table.productId)
 }));
 
 // ---------------- Orders ----------------
@@ -143,6 +208,8 @@ export const orders = pgTable("orders", {
   deliveryLatitude: decimal("delivery_latitude", { precision: 10, scale: 8 }),
   deliveryLongitude: decimal("delivery_longitude", { precision: 11, scale: 8 }),
   orderData: jsonb("order_data").default('{}'),
+  checkoutGroupId: integer("checkout_group_id").references(() => checkoutGroups.id),
+  scheduledFor: timestamp("scheduled_for"), // set when ordered ahead for a merchant's opening hours
   acceptedAt: timestamp("accepted_at"),
   pickedUpAt: timestamp("picked_up_at"),
   deliveredAt: timestamp("delivered_at"),
@@ -155,6 +222,7 @@ export const orders = pgTable("orders", {
   merchantIdIdx: index("orders_merchant_id_idx").on(table.merchantId),
   driverIdIdx: index("orders_driver_id_idx").on(table.driverId),
   orderNumberIdx: index("orders_order_number_idx").on(table.orderNumber),
+  checkoutGroupIdIdx: index("orders_checkout_group_id_idx").on(table.checkoutGroupId),
   positiveTotalAmount: check("positive_total_amount", sql`${table.totalAmount} > 0`)
 }));
 
@@ -217,6 +285,7 @@ export const merchantProfiles = pgTable("merchant_profiles", {
   phone: text("phone"),
   description: text("description"),
   operatingHours: jsonb("operating_hours").default('{}'),
+  deliveryProofSettings: jsonb("delivery_proof_settings").default('{}'),
   isOpen: boolean("is_open").default(true),
   isVerified: boolean("is_verified").default(false),
   isActive: boolean("is_active").default(true),
@@ -231,7 +300,9 @@ export const merchantProfiles = pgTable("merchant_profiles", {
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at")
 }, (table) => ({
-  userIdIdx: index("merchant_profiles_user_id_idx").on(table.userId)
+  userIdIdx: index("merchant_profiles_user_id_idx").on(table.userId),
+  searchVectorIdx: index("merchant_profiles_search_vector_idx").using('gin', sql`"search_vector"`),
+  businessNameTrgmIdx: index("merchant_profiles_business_name_trgm_idx").using('gin', table.businessName.op('gin_trgm_ops'))
 }));
 
 // ---------------- Ratings ----------------
@@ -322,7 +393,217 @@ export const escrows = pgTable("escrows", {
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at")
 }, (table) => ({
-  orderIdIdx: index("escrows_order_id_idx").on(table.orderId)
+  orderIdIdx: index("escrows_order_id_idx").on(table.orderId),
+  liveTransactionRefIdx: uniqueIndex("escrows_transaction_ref_unique_idx").on(table.transactionRef).where(sql`${table.deletedAt} IS NULL`)
+}));
+
+// ---------------- Escrow Allocations ----------------
+// One line per party paid out of an escrow; amount = released + refunded + what is still held
+export const escrowAllocations = pgTable("escrow_allocations", {
+  id: serial("id").primaryKey(),
+  escrowId: integer("escrow_id").references(() => escrows.id).notNull(),
+  party: text("party").notNull(), // MERCHANT, DRIVER, PLATFORM
+  payeeId: integer("payee_id").references(() => users.id), // null for the platform, and for the driver until one is assigned
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // negative on a platform line topping up a platform-funded discount
+  releasedAmount: decimal("released_amount", { precision: 15, scale: 2 }).notNull().default('0.00'),
+  refundedAmount: decimal("refunded_amount", { precision: 15, scale: 2 }).notNull().default('0.00'),
+  status: text("status").notNull().default('HELD'), // HELD, PARTIALLY_SETTLED, RELEASED, REFUNDED, SETTLED
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  escrowPartyIdx: uniqueIndex("escrow_allocations_escrow_party_unique_idx").on(table.escrowId, table.party),
+  payeeIdIdx: index("escrow_allocations_payee_id_idx").on(table.payeeId),
+  // A negative platform line is a top-up for a platform-funded discount; taking it back is a negative refund
+  settledWithinAmount: check("escrow_allocations_settled_within_amount", sql`(${table.amount} >= 0 AND ${table.releasedAmount} + ${table.refundedAmount} <= ${table.amount}) OR (${table.party} = 'PLATFORM' AND ${table.amount} < 0 AND ${table.releasedAmount} = 0 AND ${table.refundedAmount} BETWEEN ${table.amount} AND 0)`)
+}));
+
+// ---------------- Escrow Movements ----------------
+// Append-only: a trigger rejects updates and deletes
+export const escrowMovements = pgTable("escrow_movements", {
+  id: serial("id").primaryKey(),
+  escrowId: integer("escrow_id").references(() => escrows.id).notNull(),
+  allocationId: integer("allocation_id").references(() => escrowAllocations.id).notNull(),
+  type: text("type").notNull(), // FUND, RELEASE, REFUND
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  balanceBefore: decimal("balance_before", { precision: 15, scale: 2 }).notNull(), // held on the allocation line
+  balanceAfter: decimal("balance_after", { precision: 15, scale: 2 }).notNull(),
+  escrowBalanceBefore: decimal("escrow_balance_before", { precision: 15, scale: 2 }).notNull(), // held on the whole escrow
+  escrowBalanceAfter: decimal("escrow_balance_after", { precision: 15, scale: 2 }).notNull(),
+  actorId: integer("actor_id").references(() => users.id),
+  reason: text("reason"),
+  reference: text("reference"), // transfer or refund transaction reference
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  escrowIdIdx: index("escrow_movements_escrow_id_idx").on(table.escrowId),
+  allocationIdIdx: index("escrow_movements_allocation_id_idx").on(table.allocationId)
+}));
+
+// ---------------- Ledger Accounts ----------------
+// Double-entry chart of accounts: a few platform accounts plus one per customer, merchant and driver
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // PAYSTACK_CLEARING, ESCROW_HOLDING, MERCHANT_42, ...
+  name: text("name").notNull(),
+  type: text("type").notNull(), // ASSET, LIABILITY, REVENUE, EXPENSE
+  category: text("category").notNull(), // PAYSTACK_CLEARING, CASH_COLLECTIONS, ESCROW_HOLDING, PLATFORM_REVENUE, DISCOUNT_FUNDING, CUSTOMER, MERCHANT, DRIVER
+  ownerId: integer("owner_id").references(() => users.id), // null for platform accounts
+  currency: text("currency").notNull().default('NGN'),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  categoryOwnerIdx: index("ledger_accounts_category_owner_idx").on(table.category, table.ownerId)
+}));
+
+// ---------------- Journal Entries ----------------
+// Append-only, and the lines of each entry must balance when its transaction commits (enforced by triggers)
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  reference: text("reference").notNull().unique(), // one entry per business event, so reposting is a no-op
+  description: text("description").notNull(),
+  sourceType: text("source_type").notNull(), // PAYMENT, PAYMENT_REVERSAL, ESCROW_MOVEMENT, PAYOUT, PAYOUT_REVERSAL, REFUND, TOLL, ADJUSTMENT
+  sourceId: integer("source_id"), // transaction, escrow movement or reconciliation discrepancy id
+  createdBy: integer("created_by").references(() => users.id),
+  postedAt: timestamp("posted_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  sourceIdx: index("journal_entries_source_idx").on(table.sourceType, table.sourceId),
+  postedAtIdx: index("journal_entries_posted_at_idx").on(table.postedAt)
+}));
+
+// ---------------- Journal Lines ----------------
+export const journalLines = pgTable("journal_lines", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => journalEntries.id).notNull(),
+  accountId: integer("account_id").references(() => ledgerAccounts.id).notNull(),
+  debit: decimal("debit", { precision: 15, scale: 2 }).notNull().default('0.00'),
+  credit: decimal("credit", { precision: 15, scale: 2 }).notNull().default('0.00'),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  entryIdIdx: index("journal_lines_entry_id_idx").on(table.entryId),
+  accountIdIdx: index("journal_lines_account_id_idx").on(table.accountId),
+  oneSided: check("journal_lines_one_sided", sql`${table.debit} >= 0 AND ${table.credit} >= 0 AND (${table.debit} = 0) <> (${table.credit} = 0)`)
+}));
+
+// ---------------- Bank Accounts ----------------
+// Payout account of a merchant or driver; one live account each, older ones are soft-deleted
+export const bankAccounts = pgTable("bank_accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  bankCode: text("bank_code"), // null on accounts carried over from users, which already have a recipient code
+  bankName: text("bank_name"),
+  accountNumber: text("account_number").notNull(),
+  accountName: text("account_name").notNull(), // as resolved by Paystack
+  verifiedAt: timestamp("verified_at").notNull(),
+  paystackRecipientCode: text("paystack_recipient_code"), // created on the first payout
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at")
+}, (table) => ({
+  userIdIdx: index("bank_accounts_user_id_idx").on(table.userId),
+  liveAccountIdx: uniqueIndex("bank_accounts_user_live_unique_idx").on(table.userId).where(sql`${table.deletedAt} IS NULL`)
+}));
+
+// ---------------- Payouts ----------------
+// One transfer of a payee's released escrow shares to their bank account
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  payeeId: integer("payee_id").references(() => users.id).notNull(),
+  party: text("party").notNull(), // MERCHANT, DRIVER
+  bankAccountId: integer("bank_account_id").references(() => bankAccounts.id).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  status: text("status").notNull().default('PENDING'), // PENDING, PROCESSING, PAID, FAILED, FLAGGED
+  attempts: integer("attempts").notNull().default(0),
+  reference: text("reference"), // transfer reference of the latest attempt
+  transferCode: text("transfer_code"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  initiatedAt: timestamp("initiated_at"),
+  paidAt: timestamp("paid_at"),
+  flaggedAt: timestamp("flagged_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  payeeIdIdx: index("payouts_payee_id_idx").on(table.payeeId),
+  statusIdx: index("payouts_status_idx").on(table.status),
+  referenceIdx: uniqueIndex("payouts_reference_unique_idx").on(table.reference)
+}));
+
+// ---------------- Payout Items ----------------
+// The escrow releases a payout pays; each release is paid by exactly one payout
+export const payoutItems = pgTable("payout_items", {
+  id: serial("id").primaryKey(),
+  payoutId: integer("payout_id").references(() => payouts.id).notNull(),
+  escrowMovementId: integer("escrow_movement_id").references(() => escrowMovements.id).notNull(),
+  orderId: integer("order_id").references(() => orders.id),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  payoutIdIdx: index("payout_items_payout_id_idx").on(table.payoutId),
+  escrowMovementIdx: uniqueIndex("payout_items_escrow_movement_unique_idx").on(table.escrowMovementId)
+}));
+
+// ---------------- Reconciliation Runs ----------------
+// One comparison of our payment records with what Paystack says happened over a period
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  trigger: text("trigger").notNull().default('SCHEDULED'), // SCHEDULED, MANUAL
+  triggeredBy: integer("triggered_by").references(() => users.id),
+  status: text("status").notNull().default('RUNNING'), // RUNNING, COMPLETED, FAILED
+  summary: jsonb("summary").default('{}'), // record counts and discrepancies by type
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at")
+}, (table) => ({
+  periodStartIdx: index("reconciliation_runs_period_start_idx").on(table.periodStart)
+}));
+
+// ---------------- Reconciliation Discrepancies ----------------
+export const reconciliationDiscrepancies = pgTable("reconciliation_discrepancies", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").references(() => reconciliationRuns.id).notNull(),
+  type: text("type").notNull(), // MISSING_LOCAL, MISSING_REMOTE, DUPLICATE, AMOUNT_MISMATCH, STATUS_MISMATCH
+  reference: text("reference").notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  paystackId: text("paystack_id"),
+  localAmount: decimal("local_amount", { precision: 15, scale: 2 }),
+  remoteAmount: decimal("remote_amount", { precision: 15, scale: 2 }),
+  localStatus: text("local_status"),
+  remoteStatus: text("remote_status"),
+  details: jsonb("details").default('{}'), // Paystack's record, duplicate ids, settlement
+  status: text("status").notNull().default('OPEN'), // OPEN, RESOLVED, DISMISSED
+  resolution: text("resolution"), // APPLY_PAYMENT, MARK_FAILED, IMPORT, CORRECT_AMOUNT, DISMISS
+  resolutionNote: text("resolution_note"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  runIdIdx: index("reconciliation_discrepancies_run_id_idx").on(table.runId),
+  typeReferenceIdx: index("reconciliation_discrepancies_type_reference_idx").on(table.type, table.reference),
+  statusIdx: index("reconciliation_discrepancies_status_idx").on(table.status)
+}));
+
+// ---------------- Outbox Events ----------------
+// Side effects (WebSocket, email, SMS, Firebase, outbound webhooks) written in the same
+// transaction as the change that causes them, then delivered by the outbox dispatcher
+export const outboxEvents = pgTable("outbox_events", {
+  id: serial("id").primaryKey(),
+  channel: text("channel").notNull(), // WEBSOCKET, EMAIL, SMS, FIREBASE, WEBHOOK
+  eventType: text("event_type").notNull(),
+  aggregateType: text("aggregate_type"), // ORDER, TRANSACTION...
+  aggregateId: integer("aggregate_id"),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default('PENDING'), // PENDING, PROCESSING, DELIVERED, DEAD
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  deliveredAt: timestamp("delivered_at"),
+  deadAt: timestamp("dead_at"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  statusNextAttemptIdx: index("outbox_events_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  aggregateIdx: index("outbox_events_aggregate_idx").on(table.aggregateType, table.aggregateId)
 }));
 
 // ---------------- Notifications ----------------
@@ -345,6 +626,9 @@ export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
   orderId: integer("order_id").references(() => orders.id).notNull(),
   productId: integer("product_id").references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  variantName: text("variant_name"),
+  selectedOptions: jsonb("selected_options").default('[]'), // snapshot of chosen add-ons and their prices
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 15, scale: 2 }).notNull(),
   subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull(),
@@ -517,7 +801,7 @@ export const fuelOrders = pgTable("fuel_orders", {
   id: serial("id").primaryKey(),
   customerId: integer("customer_id").references(() => users.id).notNull(),
   driverId: integer("driver_id").references(() => users.id),
-  stationId: integer("station_id").references(() => users.id),
+  stationId: integer("station_id").references(() => fuelStations.id),
   fuelType: text("fuel_type").notNull(),
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }),
@@ -533,10 +817,14 @@ export const fuelOrders = pgTable("fuel_orders", {
   pickedUpAt: timestamp("picked_up_at"),
   deliveredAt: timestamp("delivered_at"),
   confirmationDeadline: timestamp("confirmation_deadline"),
+  scheduleId: integer("schedule_id").references(() => fuelOrderSchedules.id),
+  reminderSentAt: timestamp("reminder_sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at")
-});
+}, (table) => ({
+  scheduleOccurrenceIdx: uniqueIndex("fuel_orders_schedule_occurrence_unique_idx").on(table.scheduleId, table.scheduledDeliveryTime)
+}));
 
 // ---------------- Moderation Responses ----------------
 export const moderationResponses = pgTable("moderation_responses", {
@@ -574,6 +862,338 @@ export const tracking = pgTable("tracking", {
   orderIdIdx: index("tracking_order_id_idx").on(table.orderId)
 }));
 
+// ---------------- Order Status History ----------------
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id),
+  fuelOrderId: integer("fuel_order_id").references(() => fuelOrders.id),
+  fromStatus: orderStatusEnum("from_status"),
+  toStatus: orderStatusEnum("to_status").notNull(),
+  actorId: integer("actor_id").references(() => users.id),
+  actorRole: text("actor_role"),
+  reason: text("reason"),
+  metadata: jsonb("metadata").default('{}'),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  orderIdIdx: index("order_status_history_order_id_idx").on(table.orderId),
+  fuelOrderIdIdx: index("order_status_history_fuel_order_id_idx").on(table.fuelOrderId)
+}));
+
+// ---------------- Driver Assignment Offers ----------------
+export const driverAssignmentOffers = pgTable("driver_assignment_offers", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  driverId: integer("driver_id").references(() => users.id).notNull(),
+  status: assignmentOfferStatusEnum("status").default('OFFERED'),
+  score: decimal("score", { precision: 8, scale: 2 }),
+  distanceKm: decimal("distance_km", { precision: 8, scale: 2 }),
+  ring: integer("ring"),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  orderIdIdx: index("driver_assignment_offers_order_id_idx").on(table.orderId),
+  driverIdIdx: index("driver_assignment_offers_driver_id_idx").on(table.driverId),
+  statusIdx: index("driver_assignment_offers_status_idx").on(table.status)
+}));
+
+// ---------------- Driver Routes ----------------
+export const driverRoutes = pgTable("driver_routes", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").references(() => users.id).notNull(),
+  status: text("status").default('ACTIVE'), // ACTIVE, SUPERSEDED
+  startLatitude: decimal("start_latitude", { precision: 10, scale: 8 }),
+  startLongitude: decimal("start_longitude", { precision: 11, scale: 8 }),
+  totalDistance: decimal("total_distance", { precision: 10, scale: 2 }),
+  totalDuration: decimal("total_duration", { precision: 10, scale: 2 }),
+  warnings: jsonb("warnings").default('[]'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  driverIdIdx: index("driver_routes_driver_id_idx").on(table.driverId)
+}));
+
+// ---------------- Driver Route Stops ----------------
+export const driverRouteStops = pgTable("driver_route_stops", {
+  id: serial("id").primaryKey(),
+  routeId: integer("route_id").references(() => driverRoutes.id).notNull(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  stopType: text("stop_type").notNull(), // PICKUP, DELIVERY
+  sequence: integer("sequence").notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  plannedArrival: timestamp("planned_arrival"),
+  minutesLate: integer("minutes_late").default(0),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  routeIdIdx: index("driver_route_stops_route_id_idx").on(table.routeId),
+  orderIdIdx: index("driver_route_stops_order_id_idx").on(table.orderId)
+}));
+
+// ---------------- ETA Speed Stats ----------------
+export const etaSpeedStats = pgTable("eta_speed_stats", {
+  id: serial("id").primaryKey(),
+  bucketType: text("bucket_type").notNull(), // GLOBAL, HOUR_OF_WEEK, CELL
+  bucketKey: text("bucket_key").notNull(),
+  avgSpeedKmh: decimal("avg_speed_kmh", { precision: 8, scale: 2 }).notNull(),
+  stdDevKmh: decimal("std_dev_kmh", { precision: 8, scale: 2 }).notNull(),
+  sampleCount: integer("sample_count").notNull(),
+  computedAt: timestamp("computed_at").defaultNow()
+}, (table) => ({
+  bucketUniqueIdx: uniqueIndex("eta_speed_stats_bucket_unique_idx").on(table.bucketType, table.bucketKey)
+}));
+
+// ---------------- Geofence Events ----------------
+export const geofenceEvents = pgTable("geofence_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  driverId: integer("driver_id").references(() => users.id).notNull(),
+  fence: text("fence").notNull(), // PICKUP, DROPOFF
+  event: text("event").notNull(), // ARRIVING, ARRIVED
+  distanceMeters: integer("distance_meters"),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  orderIdIdx: index("geofence_events_order_id_idx").on(table.orderId),
+  uniqueOrderFenceEvent: uniqueIndex("geofence_events_order_fence_event_unique_idx").on(table.orderId, table.fence, table.event)
+}));
+
+// ---------------- Delivery Proofs ----------------
+export const deliveryProofs = pgTable("delivery_proofs", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull().unique(),
+  driverId: integer("driver_id").references(() => users.id),
+  photoKeys: jsonb("photo_keys").default('[]'),
+  signatureKey: text("signature_key"),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  locationCapturedAt: timestamp("location_captured_at"),
+  deliveryCode: text("delivery_code").notNull(),
+  codeAttempts: integer("code_attempts").default(0),
+  codeVerifiedAt: timestamp("code_verified_at"),
+  requiredProofs: jsonb("required_proofs").default('[]'), // Snapshot of the merchant's settings when delivered
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  orderIdIdx: index("delivery_proofs_order_id_idx").on(table.orderId)
+}));
+
+// ---------------- QR Tokens ----------------
+export const qrTokens = pgTable("qr_tokens", {
+  id: serial("id").primaryKey(),
+  nonce: text("nonce").notNull().unique(),
+  purpose: text("purpose").notNull(), // MERCHANT_PICKUP, CUSTOMER_DELIVERY, TOLL_GATE
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  issuedBy: integer("issued_by").references(() => users.id).notNull(),
+  scannerRole: roleEnum("scanner_role").notNull(),
+  tollGateId: integer("toll_gate_id").references(() => tollGates.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  orderIdIdx: index("qr_tokens_order_id_idx").on(table.orderId),
+  expiresAtIdx: index("qr_tokens_expires_at_idx").on(table.expiresAt)
+}));
+
+// ---------------- Fuel Order Schedules ----------------
+export const fuelOrderSchedules = pgTable("fuel_order_schedules", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  stationId: integer("station_id").references(() => fuelStations.id),
+  fuelType: text("fuel_type").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  deliveryAddress: text("delivery_address").notNull(),
+  deliveryLatitude: decimal("delivery_latitude", { precision: 10, scale: 8 }),
+  deliveryLongitude: decimal("delivery_longitude", { precision: 11, scale: 8 }),
+  notes: text("notes"),
+  frequency: text("frequency").notNull(), // DAILY, WEEKLY, MONTHLY
+  daysOfWeek: jsonb("days_of_week").default('[]'), // 0 = Sunday, for WEEKLY
+  dayOfMonth: integer("day_of_month"), // 1-28, for MONTHLY
+  timeOfDay: text("time_of_day").notNull(), // HH:MM local time
+  utcOffsetMinutes: integer("utc_offset_minutes").default(60), // WAT
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  status: text("status").default('ACTIVE'), // ACTIVE, PAUSED, CANCELLED, COMPLETED
+  nextRunAt: timestamp("next_run_at"),
+  skippedOccurrences: jsonb("skipped_occurrences").default('[]'), // ISO timestamps
+  lastMaterializedAt: timestamp("last_materialized_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  customerIdIdx: index("fuel_order_schedules_customer_id_idx").on(table.customerId),
+  statusNextRunIdx: index("fuel_order_schedules_status_next_run_idx").on(table.status, table.nextRunAt)
+}));
+
+// ---------------- Fuel Stations ----------------
+export const fuelStations = pgTable("fuel_stations", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  address: text("address"),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  phone: text("phone"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at")
+}, (table) => ({
+  ownerIdIdx: index("fuel_stations_owner_id_idx").on(table.ownerId),
+  locationIdx: index("fuel_stations_location_idx").on(table.latitude, table.longitude)
+}));
+
+// ---------------- Fuel Station Stock ----------------
+export const fuelStationStock = pgTable("fuel_station_stock", {
+  id: serial("id").primaryKey(),
+  stationId: integer("station_id").references(() => fuelStations.id).notNull(),
+  fuelType: text("fuel_type").notNull(), // PMS, AGO, DPK
+  quantityLitres: decimal("quantity_litres", { precision: 12, scale: 2 }).notNull().default('0'),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  uniqueStationFuel: uniqueIndex("fuel_station_stock_station_fuel_unique_idx").on(table.stationId, table.fuelType)
+}));
+
+// ---------------- Fuel Prices ----------------
+export const fuelPrices = pgTable("fuel_prices", {
+  id: serial("id").primaryKey(),
+  stationId: integer("station_id").references(() => fuelStations.id).notNull(),
+  fuelType: text("fuel_type").notNull(),
+  pricePerLitre: decimal("price_per_litre", { precision: 10, scale: 2 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  stationFuelEffectiveIdx: index("fuel_prices_station_fuel_effective_idx").on(table.stationId, table.fuelType, table.effectiveFrom)
+}));
+
+// ---------------- Price Quotes ----------------
+export const priceQuotes = pgTable("price_quotes", {
+  id: serial("id").primaryKey(),
+  quoteId: text("quote_id").notNull().unique(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  vehicleType: text("vehicle_type").notNull(), // MOTORCYCLE, CAR, VAN, TRUCK
+  deliveryLatitude: decimal("delivery_latitude", { precision: 10, scale: 8 }).notNull(),
+  deliveryLongitude: decimal("delivery_longitude", { precision: 11, scale: 8 }).notNull(),
+  items: jsonb("items").notNull(),
+  breakdown: jsonb("breakdown").notNull(),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  deliveryFee: decimal("delivery_fee", { precision: 12, scale: 2 }).notNull(),
+  serviceFee: decimal("service_fee", { precision: 12, scale: 2 }).notNull(),
+  tax: decimal("tax", { precision: 12, scale: 2 }).notNull(),
+  discount: decimal("discount", { precision: 12, scale: 2 }).notNull().default('0'),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  promoCode: text("promo_code"),
+  expiresAt: timestamp("expires_at").notNull(),
+  redeemedAt: timestamp("redeemed_at"),
+  orderNumber: text("order_number"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  customerIdIdx: index("price_quotes_customer_id_idx").on(table.customerId),
+  expiresAtIdx: index("price_quotes_expires_at_idx").on(table.expiresAt)
+}));
+
+// ---------------- Checkout Groups ----------------
+export const checkoutGroups = pgTable("checkout_groups", {
+  id: serial("id").primaryKey(),
+  groupNumber: text("group_number").notNull().unique(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  quoteId: text("quote_id"),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  paymentMethod: text("payment_method").notNull(),
+  paymentReference: text("payment_reference").unique(),
+  paymentStatus: text("payment_status").notNull().default('PENDING'), // PENDING, PAID, FAILED
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  customerIdIdx: index("checkout_groups_customer_id_idx").on(table.customerId)
+}));
+
+// ---------------- Stock Reservations ----------------
+export const stockReservations = pgTable("stock_reservations", {
+  id: serial("id").primaryKey(),
+  reference: text("reference").notNull(), // checkout group number
+  productId: integer("product_id").references(() => products.id).notNull(),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  status: text("status").notNull().default('HELD'), // HELD, COMMITTED, RELEASED, EXPIRED
+  expiresAt: timestamp("expires_at").notNull(),
+  committedAt: timestamp("committed_at"),
+  releasedAt: timestamp("released_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  referenceIdx: index("stock_reservations_reference_idx").on(table.reference),
+  productIdIdx: index("stock_reservations_product_id_idx").on(table.productId),
+  statusExpiresAtIdx: index("stock_reservations_status_expires_at_idx").on(table.status, table.expiresAt),
+  positiveQuantity: check("stock_reservations_positive_quantity", sql`${table.quantity} > 0`)
+}));
+
+// ---------------- Promotions ----------------
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  code: text("code").unique(), // null for automatic campaigns
+  name: text("name").notNull(),
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // PERCENTAGE, FIXED, FREE_DELIVERY
+  value: decimal("value", { precision: 12, scale: 2 }).notNull().default('0'),
+  maxDiscountAmount: decimal("max_discount_amount", { precision: 12, scale: 2 }),
+  isAutomatic: boolean("is_automatic").default(false),
+  firstOrderOnly: boolean("first_order_only").default(false),
+  fundedBy: text("funded_by").notNull().default('PLATFORM'), // PLATFORM, MERCHANT
+  fundingMerchantId: integer("funding_merchant_id").references(() => users.id),
+  merchantIds: jsonb("merchant_ids").default('[]'),
+  categoryIds: jsonb("category_ids").default('[]'),
+  minBasketAmount: decimal("min_basket_amount", { precision: 12, scale: 2 }),
+  usageLimit: integer("usage_limit"),
+  perUserLimit: integer("per_user_limit").default(1),
+  usageCount: integer("usage_count").notNull().default(0),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at")
+}, (table) => ({
+  automaticIdx: index("promotions_automatic_idx").on(table.isAutomatic, table.isActive)
+}));
+
+// ---------------- Promotion Redemptions ----------------
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").references(() => promotions.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  quoteId: text("quote_id").notNull(),
+  orderNumber: text("order_number"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  promotionUserIdx: index("promotion_redemptions_promotion_user_idx").on(table.promotionId, table.userId),
+  uniquePromotionQuote: uniqueIndex("promotion_redemptions_promotion_quote_unique_idx").on(table.promotionId, table.quoteId)
+}));
+
+// ---------------- Order Discounts ----------------
+export const orderDiscounts = pgTable("order_discounts", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  promotionId: integer("promotion_id").references(() => promotions.id).notNull(),
+  code: text("code"),
+  description: text("description").notNull(),
+  discountType: text("discount_type").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  fundedBy: text("funded_by").notNull(), // PLATFORM, MERCHANT
+  fundingMerchantId: integer("funding_merchant_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  orderIdIdx: index("order_discounts_order_id_idx").on(table.orderId)
+}));
+
 // ---------------- Admin Users ----------------
 export const adminUsers = pgTable("admin_users", {
   id: serial("id").primaryKey(),
@@ -13,6 +13,7 @@ import authRouter from './routes/auth';
 import userRouter from './routes/users';
 import categoriesRouter from './routes/categories';
 import productsRouter from './routes/products';
+import productVariantsRouter from './routes/product-variants';
 import ordersRouter from './routes/orders';
 import escrowsRouter from './routes/escrows';
 import transactionsRouter from './routes/transactions';
@@ -20,6 +21,9 @@ import driverRegistrationRoutes from './routes/driver-registration';
 import driversRouter from './routes/drivers';
 import merchantsRouter from './routes/merchants';
 import fuelOrdersRouter from './routes/fuel-orders';
+import fuelSchedulesRouter from './routes/fuel-schedules';
+import fuelStationsRouter from './routes/fuel-stations';
+import promotionsRouter from './routes/promotions';
 import ratingsRouter from './routes/ratings';
 import deliveryFeedbackRouter from './routes/delivery-feedback';
 import supportTicketsRouter from './routes/support-tickets';
@@ -38,9 +42,12 @@ import driverLocationRoutes from './routes/driver-location';
 import qrProcessingRoutes from './routes/qr-processing';
 import autoAssignmentRoutes from './routes/auto-assignment';
 import adminReportsRoutes from './routes/admin-reports';
+import adminReconciliationRoutes from './routes/admin-reconciliation';
+import adminOutboxRoutes from './routes/admin-outbox';
 import adminSystemMetricsRoutes from './routes/admin-system-metrics';
 import { responseTimeMiddleware } from './services/realtime-analytics';
 import bankAccountsRouter from './routes/bank-accounts';
+import payoutsRouter from './routes/payouts';
 import supportTicketMessagesRouter from './routes/support-ticket-messages';
 import notificationsRouter from './routes/notifications';
 import identityVerificationsRouter from './routes/identity-verifications';
@@ -106,6 +113,13 @@ import firebaseSyncRouter from './routes/firebase-sync';
 import { errorHandler } from './middleware/errorHandler';
 import MonitoringService from './services/monitoring';
 import { startFirebaseSyncService } from './services/firebase-sync';
+import { startDriverDispatchService } from './services/driver-dispatch';
+import { startEtaModelService } from './services/eta-model';
+import { startFuelScheduleService } from './services/fuel-schedules';
+import { startStockReservationService } from './services/stock-reservations';
+import { startPayoutService } from './services/payouts';
+import { startReconciliationService } from './services/reconciliation';
+import { startOutboxDispatcher } from './services/outbox';
 
 const app = express();
 const server = createServer(app);
@@ -180,6 +194,7 @@ app.use('/api/categories', categoriesRouter);
 
 // Products management routes
 app.use('/api/products', productsRouter);
+app.use('/api/products', productVariantsRouter);
 
 // Orders management routes
 app.use('/api/orders', ordersRouter);
@@ -202,6 +217,15 @@ app.use('/api/merchants', merchantsRouter);
 // Fuel orders management routes
 app.use('/api/fuel-orders', fuelOrdersRouter);
 
+// Recurring fuel delivery schedules
+app.use('/api/fuel-schedules', fuelSchedulesRouter);
+
+// Fuel stations, stock and per-litre prices
+app.use('/api/fuel-stations', fuelStationsRouter);
+
+// Promo codes and discount campaigns
+app.use('/api/promotions', promotionsRouter);
+
 // Delivery feedback management routes
 app.use('/api/delivery-feedback', deliveryFeedbackRouter);
 
@@ -336,6 +360,7 @@ app.use('/api/checkout', checkoutRoutes);
 
 // Bank accounts management routes
 app.use('/api/bank-accounts', bankAccountsRouter);
+app.use('/api/payouts', payoutsRouter);
 
 // Paystack webhook routes
 app.use('/api/paystack', paystackWebhooksRouter);
@@ -344,7 +369,10 @@ app.use('/api/paystack', paystackWebhooksRouter);
 app.use('/api/driver/location', driverLocationRoutes);
 app.use('/api/qr', qrProcessingRoutes);
 app.use('/api/orders/auto-assign', autoAssignmentRoutes);
+app.use('/api/auto-assignment', autoAssignmentRoutes);
 app.use('/api/admin/reports', adminReportsRoutes);
+app.use('/api/admin/reconciliation', adminReconciliationRoutes);
+app.use('/api/admin/outbox', adminOutboxRoutes);
 app.use('/api/admin/system-metrics', adminSystemMetricsRoutes);
 
 // Register escrow status route
@@ -436,6 +464,27 @@ startEscrowAutoReleaseService();
 // Start Firebase sync service
 startFirebaseSyncService();
 
+// Start driver dispatch offer expiry sweep
+startDriverDispatchService();
+
+// Start ETA model (loads learned speeds, recomputes nightly)
+startEtaModelService();
+
+// Start fuel schedule materialiser and delivery reminders
+startFuelScheduleService();
+
+// Start stock reservation expiry sweep
+startStockReservationService();
+
+// Start scheduled merchant and driver payouts and their retries
+startPayoutService();
+
+// Start daily Paystack settlement reconciliation
+startReconciliationService();
+
+// Start outbox dispatcher for WebSocket, email, SMS, Firebase and webhook deliveries
+startOutboxDispatcher();
+
 // Start server with error handling
 server.listen(PORT, '0.0.0.0', async () => {
   console.log(`🚀 Server running on port ${PORT}`);
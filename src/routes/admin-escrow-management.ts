@@ -4,6 +4,7 @@ import { db } from '../db/config';
 import { escrows, orders, users, transactions } from '../db/schema';
 import { eq, and, desc, sql, count, sum, isNull } from 'drizzle-orm';
 import { requireAuth, requireAdmin } from '../utils/auth';
+import EscrowLedgerService from '../services/escrow-ledger';
 
 const router = express.Router();
 
@@ -101,17 +102,22 @@ router.post('/:escrowId/action', requireAuth, requireAdmin, async (req, res) =>
       return res.status(404).json({ success: false, message: 'Escrow not found' });
     }
 
-    const newStatus = validatedData.action === 'RELEASE' ? 'RELEASED' : 
-                      validatedData.action === 'REFUND' ? 'REFUNDED' : 
-                      validatedData.action === 'DISPUTE' ? 'DISPUTED' : 'PENDING';
+    // Releases and refunds settle whatever is still held on every allocation line
+    if (validatedData.action === 'RELEASE' || validatedData.action === 'REFUND') {
+      const options = { actorId: req.user!.id, reason: validatedData.reason, allowDisputed: true };
+      const result = validatedData.action === 'RELEASE'
+        ? await EscrowLedgerService.release(escrowId, null, options)
+        : await EscrowLedgerService.refund(escrowId, null, options);
 
-    await db
-      .update(escrows)
-      .set({
-        status: newStatus,
-        releasedAt: validatedData.action === 'RELEASE' ? new Date() : undefined
-      })
-      .where(eq(escrows.id, escrowId));
+      if (!result.success) {
+        return res.status(result.status).json({ success: false, message: result.message });
+      }
+    } else {
+      await db
+        .update(escrows)
+        .set({ status: validatedData.action === 'DISPUTE' ? 'DISPUTED' : 'HELD' })
+        .where(eq(escrows.id, escrowId));
+    }
 
     res.json({
       success: true,
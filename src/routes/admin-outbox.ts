@@ -0,0 +1,173 @@
+import express from 'express';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../utils/auth';
+import OutboxService, { OUTBOX_CHANNELS, OUTBOX_STATUSES } from '../services/outbox';
+
+const router = express.Router();
+
+const outboxQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(OUTBOX_STATUSES).optional(),
+  channel: z.enum(OUTBOX_CHANNELS).optional(),
+  eventType: z.string().optional()
+});
+
+// GET /api/admin/outbox - Outbox messages, newest first
+router.get('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const query = outboxQuerySchema.parse(req.query);
+
+    const { events, total } = await OutboxService.list(query, query.limit, (query.page - 1) * query.limit);
+
+    res.json({
+      success: true,
+      data: events,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get outbox events error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve outbox events'
+    });
+  }
+});
+
+// GET /api/admin/outbox/dead-letter - Messages that ran out of delivery attempts
+router.get('/dead-letter', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const query = outboxQuerySchema.parse(req.query);
+
+    const { events, total } = await OutboxService.list(
+      { ...query, status: 'DEAD' },
+      query.limit,
+      (query.page - 1) * query.limit
+    );
+
+    res.json({
+      success: true,
+      data: events,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get dead-letter outbox events error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve dead-letter events'
+    });
+  }
+});
+
+// GET /api/admin/outbox/stats - Message counts by channel and status
+router.get('/stats', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const stats = await OutboxService.stats();
+
+    res.json({
+      success: true,
+      data: stats
+    });
+  } catch (error) {
+    console.error('Get outbox stats error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve outbox stats'
+    });
+  }
+});
+
+// GET /api/admin/outbox/:id - Outbox message with its payload and last error
+router.get('/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid outbox event ID'
+      });
+    }
+
+    const event = await OutboxService.getEvent(eventId);
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        message: 'Outbox event not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: event
+    });
+  } catch (error) {
+    console.error('Get outbox event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve outbox event'
+    });
+  }
+});
+
+// POST /api/admin/outbox/:id/retry - Queue a dead-lettered message for delivery again
+router.post('/:id/retry', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid outbox event ID'
+      });
+    }
+
+    const event = await OutboxService.retry(eventId, req.user!.id);
+
+    if (!event) {
+      return res.status(409).json({
+        success: false,
+        message: 'Only dead-lettered events can be retried'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Outbox event queued for delivery',
+      data: event
+    });
+  } catch (error) {
+    console.error('Retry outbox event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retry outbox event'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,235 @@
+import express from 'express';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../utils/auth';
+import ReconciliationService, { DISCREPANCY_TYPES, RESOLUTIONS } from '../services/reconciliation';
+
+const router = express.Router();
+
+const startRunSchema = z.object({
+  // A WAT calendar day; defaults to yesterday
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional()
+});
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20)
+});
+
+const discrepancyQuerySchema = listQuerySchema.extend({
+  type: z.enum(DISCREPANCY_TYPES).optional(),
+  status: z.enum(['OPEN', 'RESOLVED', 'DISMISSED']).optional()
+});
+
+const resolveSchema = z.object({
+  action: z.enum(RESOLUTIONS),
+  note: z.string().trim().min(1).max(1000).optional()
+});
+
+// POST /api/admin/reconciliation/runs - Reconcile one day against Paystack now
+router.post('/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = startRunSchema.parse(req.body || {});
+
+    const date = validatedData.date || new Date(Date.now() - 23 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { start, end } = ReconciliationService.dayPeriod(date);
+
+    if (start.getTime() > Date.now()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot reconcile a day that has not started'
+      });
+    }
+
+    const run = await ReconciliationService.run(start, end, 'MANUAL', req.user!.id);
+
+    res.status(run.status === 'FAILED' ? 502 : 201).json({
+      success: run.status !== 'FAILED',
+      message: run.status === 'FAILED' ? `Reconciliation failed: ${run.error}` : 'Reconciliation completed',
+      data: run
+    });
+  } catch (error) {
+    console.error('Start reconciliation error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run reconciliation'
+    });
+  }
+});
+
+// GET /api/admin/reconciliation/runs - Reconciliation run history
+router.get('/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const query = listQuerySchema.parse(req.query);
+
+    const { runs, total } = await ReconciliationService.listRuns(query.limit, (query.page - 1) * query.limit);
+
+    res.json({
+      success: true,
+      data: runs,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get reconciliation runs error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve reconciliation runs'
+    });
+  }
+});
+
+// GET /api/admin/reconciliation/runs/:id - Run report with the discrepancies it found
+router.get('/runs/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const runId = parseInt(req.params.id);
+
+    if (isNaN(runId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid run ID'
+      });
+    }
+
+    const query = discrepancyQuerySchema.parse(req.query);
+
+    const run = await ReconciliationService.getRun(runId);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reconciliation run not found'
+      });
+    }
+
+    const { discrepancies, total } = await ReconciliationService.listDiscrepancies(
+      { runId, type: query.type, status: query.status },
+      query.limit,
+      (query.page - 1) * query.limit
+    );
+
+    res.json({
+      success: true,
+      data: { run, discrepancies },
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get reconciliation run error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve reconciliation run'
+    });
+  }
+});
+
+// GET /api/admin/reconciliation/discrepancies - Discrepancies across runs (open ones by default)
+router.get('/discrepancies', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const query = discrepancyQuerySchema.parse(req.query);
+
+    const { discrepancies, total } = await ReconciliationService.listDiscrepancies(
+      { type: query.type, status: query.status || 'OPEN' },
+      query.limit,
+      (query.page - 1) * query.limit
+    );
+
+    res.json({
+      success: true,
+      data: discrepancies,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get reconciliation discrepancies error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve discrepancies'
+    });
+  }
+});
+
+// POST /api/admin/reconciliation/discrepancies/:id/resolve - Fix or dismiss a discrepancy
+router.post('/discrepancies/:id/resolve', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const discrepancyId = parseInt(req.params.id);
+
+    if (isNaN(discrepancyId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid discrepancy ID'
+      });
+    }
+
+    const validatedData = resolveSchema.parse(req.body);
+
+    const result = await ReconciliationService.resolve(discrepancyId, validatedData.action, req.user!.id, validatedData.note);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Discrepancy resolved',
+      data: result.discrepancy
+    });
+  } catch (error) {
+    console.error('Resolve discrepancy error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resolve discrepancy'
+    });
+  }
+});
+
+export default router;
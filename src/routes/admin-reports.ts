@@ -4,6 +4,7 @@ import { db } from '../db/config';
 import { users, orders, transactions } from '../db/schema';
 import { eq, desc, count, sum, gte, lte, and, sql } from 'drizzle-orm';
 import { requireAuth, requireAdmin } from '../utils/auth';
+import AccountingService from '../services/accounting';
 
 const router = express.Router();
 
@@ -73,6 +74,34 @@ router.get('/financial', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// Trial Balance: debit and credit totals per ledger account as of a date (default now)
+router.get('/trial-balance', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { asOf, format } = req.query;
+
+    const at = asOf ? new Date(asOf as string) : new Date();
+    if (isNaN(at.getTime())) {
+      return res.status(400).json({ success: false, message: 'asOf must be a valid date' });
+    }
+
+    const trialBalance = await AccountingService.trialBalance(at);
+
+    if (format === 'csv') {
+      res.header('Content-Type', 'text/csv');
+      res.attachment(`trial_balance_${at.toISOString().slice(0, 10)}.csv`);
+      return res.send(jsonToCsv(trialBalance.accounts));
+    }
+
+    res.json({
+      success: true,
+      data: trialBalance
+    });
+  } catch (error) {
+    console.error('Trial balance error:', error);
+    res.status(500).json({ success: false, message: 'Failed to generate trial balance' });
+  }
+});
+
 // User Growth Reports
 router.get('/user-growth', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -1,37 +1,118 @@
-
 import { Router } from 'express';
+import { z } from 'zod';
 import { db } from '../db/config';
+import { orders, driverAssignmentOffers } from '../db/schema';
+import { eq, and, isNull, desc, gt } from 'drizzle-orm';
+import { requireAuth, requireRole } from '../utils/auth';
+import DriverDispatchService from '../services/driver-dispatch';
 
 const router = Router();
 
-const requireAuth = (req: any, res: any, next: any) => {
-  if (!req.session?.userId) {
-    return res.status(401).json({ success: false, message: 'Authentication required' });
-  }
-  next();
-};
+const requestAssignmentSchema = z.object({
+  mode: z.enum(['single', 'broadcast']).optional().default('single'),
+  radius: z.number().positive().max(50).optional()
+});
 
 // Request driver assignment for an order
 router.post('/:orderId/request-assignment', requireAuth, async (req, res) => {
   try {
-    const { orderId } = req.params;
-    const userId = req.session.userId;
+    const orderId = parseInt(req.params.orderId);
+    const currentUser = req.user!;
+    const validatedData = requestAssignmentSchema.parse(req.body || {});
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order ID'
+      });
+    }
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    if (currentUser.role !== 'ADMIN' &&
+        currentUser.id !== order.customerId &&
+        currentUser.id !== order.merchantId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    if (order.driverId) {
+      return res.status(409).json({
+        success: false,
+        message: 'Order already has a driver assigned'
+      });
+    }
 
-    // Mock assignment logic
-    const assignment = {
-      orderId,
-      driverId: Math.floor(Math.random() * 1000),
-      distance: Math.random() * 10,
-      estimatedArrival: new Date(Date.now() + 15 * 60 * 1000).toISOString()
-    };
+    if (validatedData.mode === 'broadcast') {
+      const offers = await DriverDispatchService.broadcastOrder(orderId);
+
+      if (!offers.length) {
+        return res.status(404).json({
+          success: false,
+          message: 'No available drivers found nearby'
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: `Order offered to ${offers.length} drivers`,
+        assignment: {
+          orderId,
+          ring: offers[0].ring,
+          radius: DriverDispatchService.BROADCAST_RINGS_KM[offers[0].ring!],
+          offers: offers.map(offer => ({
+            offerId: offer.id,
+            driverId: offer.driverId,
+            distance: offer.distanceKm ? parseFloat(offer.distanceKm) : null
+          })),
+          expiresAt: offers[0].expiresAt
+        }
+      });
+    }
+
+    const offer = await DriverDispatchService.dispatchOrder(orderId, validatedData.radius);
+
+    if (!offer) {
+      return res.status(404).json({
+        success: false,
+        message: 'No available drivers found nearby'
+      });
+    }
 
     res.json({
       success: true,
-      message: 'Driver assigned successfully',
-      assignment
+      message: 'Order offered to driver',
+      assignment: {
+        offerId: offer.id,
+        orderId,
+        driverId: offer.driverId,
+        distance: offer.distanceKm ? parseFloat(offer.distanceKm) : null,
+        status: offer.status,
+        expiresAt: offer.expiresAt
+      }
     });
   } catch (error) {
     console.error('Auto assignment error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
     res.status(500).json({
       success: false,
       message: 'Failed to assign driver'
@@ -39,4 +120,135 @@ router.post('/:orderId/request-assignment', requireAuth, async (req, res) => {
   }
 });
 
+// Get the dispatch history of an order
+router.get('/:orderId/offers', requireAuth, requireRole(['CONSUMER', 'MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    const currentUser = req.user!;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order ID'
+      });
+    }
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    if (currentUser.role !== 'ADMIN' &&
+        currentUser.id !== order.customerId &&
+        currentUser.id !== order.merchantId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const offers = await db
+      .select()
+      .from(driverAssignmentOffers)
+      .where(eq(driverAssignmentOffers.orderId, orderId))
+      .orderBy(desc(driverAssignmentOffers.createdAt));
+
+    res.json({
+      success: true,
+      data: offers
+    });
+  } catch (error) {
+    console.error('Get assignment offers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch assignment offers'
+    });
+  }
+});
+
+// Open offers for the current driver, for clients that missed the WebSocket push
+router.get('/offers/pending', requireAuth, requireRole(['DRIVER']), async (req, res) => {
+  try {
+    const offers = await db
+      .select()
+      .from(driverAssignmentOffers)
+      .where(and(
+        eq(driverAssignmentOffers.driverId, req.user!.id),
+        eq(driverAssignmentOffers.status, 'OFFERED'),
+        gt(driverAssignmentOffers.expiresAt, new Date())
+      ))
+      .orderBy(desc(driverAssignmentOffers.createdAt));
+
+    res.json({
+      success: true,
+      data: offers
+    });
+  } catch (error) {
+    console.error('Get pending offers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch pending offers'
+    });
+  }
+});
+
+// Driver accepts or declines an offer
+router.post('/offers/:offerId/:response', requireAuth, requireRole(['DRIVER']), async (req, res) => {
+  try {
+    const offerId = parseInt(req.params.offerId);
+    const { response } = req.params;
+
+    if (isNaN(offerId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid offer ID'
+      });
+    }
+
+    if (response !== 'accept' && response !== 'decline') {
+      return res.status(404).json({
+        success: false,
+        message: 'Unknown offer response'
+      });
+    }
+
+    const result = await DriverDispatchService.respondToOffer(
+      offerId,
+      req.user!.id,
+      req.user!.role,
+      response === 'accept'
+    );
+
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    res.json({
+      success: true,
+      message: response === 'accept' ? 'Offer accepted' : 'Offer declined',
+      data: {
+        offer: result.offer,
+        order: result.order
+      }
+    });
+  } catch (error) {
+    console.error('Offer response error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to respond to offer'
+    });
+  }
+});
+
 export default router;
@@ -1,8 +1,9 @@
 
 import express from 'express';
 import { db } from '../db/config';
-import { users, auditLogs } from '../db/schema';
-import { eq, isNull } from 'drizzle-orm';
+import { bankAccounts, auditLogs } from '../db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
 import { z } from 'zod';
 import { requireAuth, requireRole } from '../utils/auth';
 import PaystackService from '../services/paystack';
@@ -12,8 +13,9 @@ const router = express.Router();
 // Validation schema
 const addBankAccountSchema = z.object({
   bankCode: z.string().min(3),
+  bankName: z.string().min(1).optional(),
   accountNumber: z.string().min(10).max(10),
-  accountName: z.string().min(1)
+  accountName: z.string().min(1).optional()
 });
 
 // GET /api/bank-accounts/banks - Get list of banks
@@ -87,41 +89,44 @@ router.post('/', requireAuth, requireRole(['MERCHANT', 'DRIVER']), async (req, r
     const currentUser = req.user!;
     const validatedData = addBankAccountSchema.parse(req.body);
 
-    // Create Paystack transfer recipient
-    const recipientResult = await PaystackService.createTransferRecipient({
-      type: 'nuban',
-      name: validatedData.accountName,
-      account_number: validatedData.accountNumber,
-      bank_code: validatedData.bankCode,
-      currency: 'NGN',
-      description: `${currentUser.role} payout account`
-    });
+    // Payouts only go to accounts Paystack resolves; the resolved name is the one kept
+    const resolved = await PaystackService.resolveAccountNumber(validatedData.accountNumber, validatedData.bankCode);
 
-    if (!recipientResult.success) {
+    if (!resolved.success || !resolved.account_name) {
       return res.status(400).json({
         success: false,
-        message: recipientResult.error || 'Failed to create transfer recipient'
+        message: resolved.error || 'Account verification failed'
       });
     }
 
-    // Update user with bank account details
-    const updatedUser = await db
-      .update(users)
-      .set({
-        paystackRecipientCode: recipientResult.recipient_code,
-        accountNumber: validatedData.accountNumber,
-        accountName: validatedData.accountName,
-        bankName: validatedData.bankCode // Store bank code for now
-      })
-      .where(eq(users.id, currentUser.id))
-      .returning();
+    // Replaces any earlier payout account; the transfer recipient is created on the first payout
+    const bankAccount = await withTransaction(async (tx) => {
+      await tx
+        .update(bankAccounts)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(bankAccounts.userId, currentUser.id), isNull(bankAccounts.deletedAt)));
+
+      const [created] = await tx
+        .insert(bankAccounts)
+        .values({
+          userId: currentUser.id,
+          bankCode: validatedData.bankCode,
+          bankName: validatedData.bankName || null,
+          accountNumber: validatedData.accountNumber,
+          accountName: resolved.account_name,
+          verifiedAt: new Date()
+        })
+        .returning();
+
+      return created;
+    });
 
     // Log audit event
     await db.insert(auditLogs).values({
       userId: currentUser.id,
       action: 'BANK_ACCOUNT_ADDED',
-      entityType: 'USER',
-      entityId: currentUser.id,
+      entityType: 'BANK_ACCOUNT',
+      entityId: bankAccount.id,
       details: {
         accountNumber: validatedData.accountNumber,
         bankCode: validatedData.bankCode
@@ -132,9 +137,11 @@ router.post('/', requireAuth, requireRole(['MERCHANT', 'DRIVER']), async (req, r
       success: true,
       message: 'Bank account added successfully',
       data: {
-        accountNumber: updatedUser[0].accountNumber,
-        accountName: updatedUser[0].accountName,
-        bankName: updatedUser[0].bankName
+        accountNumber: bankAccount.accountNumber,
+        accountName: bankAccount.accountName,
+        bankCode: bankAccount.bankCode,
+        bankName: bankAccount.bankName,
+        verifiedAt: bankAccount.verifiedAt
       }
     });
   } catch (error) {
@@ -160,20 +167,22 @@ router.get('/', requireAuth, async (req, res) => {
   try {
     const currentUser = req.user!;
 
-    const user = await db
+    const [bankAccount] = await db
       .select({
-        accountNumber: users.accountNumber,
-        accountName: users.accountName,
-        bankName: users.bankName,
-        paystackRecipientCode: users.paystackRecipientCode
+        accountNumber: bankAccounts.accountNumber,
+        accountName: bankAccounts.accountName,
+        bankCode: bankAccounts.bankCode,
+        bankName: bankAccounts.bankName,
+        verifiedAt: bankAccounts.verifiedAt,
+        paystackRecipientCode: bankAccounts.paystackRecipientCode
       })
-      .from(users)
-      .where(eq(users.id, currentUser.id))
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.userId, currentUser.id), isNull(bankAccounts.deletedAt)))
       .limit(1);
 
     res.json({
       success: true,
-      data: user[0] || null
+      data: bankAccount || null
     });
   } catch (error) {
     console.error('Get bank account error:', error);
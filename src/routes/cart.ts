@@ -5,19 +5,79 @@ import { cartItems, commodities, users } from '../db/schema';
 import { eq, and, isNull, desc } from 'drizzle-orm';
 import { z } from 'zod';
 import { firebaseAuth, AuthRequest } from '../middleware/firebaseAuth';
+import ProductVariantService, { ResolvedSelection } from '../services/product-variants';
 
 const router = express.Router();
 
 // Validation schemas
+// A product line can name its variant and add-ons; a commodity line is just the commodity
 const addToCartSchema = z.object({
-  commodityId: z.number().int().positive(),
+  commodityId: z.number().int().positive().optional(),
+  productId: z.number().int().positive().optional(),
+  variantId: z.number().int().positive().optional(),
+  optionIds: z.array(z.number().int().positive()).default([]),
   quantity: z.number().int().min(1).default(1)
+}).refine((data) => data.commodityId || data.productId || data.variantId, {
+  message: "commodityId, productId or variantId is required"
 });
 
 const updateCartItemSchema = z.object({
   quantity: z.number().int().min(1)
 });
 
+interface CartLinePrice {
+  unitPrice: string;
+  stockQuantity: number;
+  selection: ResolvedSelection | null;
+  unavailableReason?: string;
+}
+
+// Price and stock of a cart line: from its product, variant and add-ons as they
+// are now, or from the commodity for plain commodity lines
+const priceCartLine = async (item: {
+  productId: number | null;
+  variantId: number | null;
+  selectedOptions: unknown;
+  commodity: { price: string; stockQuantity: number | null } | null;
+}): Promise<CartLinePrice> => {
+  if (!item.productId) {
+    return { unitPrice: item.commodity!.price, stockQuantity: item.commodity!.stockQuantity || 0, selection: null };
+  }
+
+  const result = await ProductVariantService.resolveSelection(item.productId, item.variantId, (item.selectedOptions || []) as number[]);
+  if (!result.success) {
+    return { unitPrice: '0.00', stockQuantity: 0, selection: null, unavailableReason: result.message };
+  }
+
+  return { unitPrice: result.selection!.unitPrice, stockQuantity: result.selection!.stockQuantity, selection: result.selection! };
+};
+
+const describeCartLine = (quantity: number, line: CartLinePrice) => ({
+  product: line.selection
+    ? { id: line.selection.productId, name: line.selection.productName, imageUrl: line.selection.imageUrl, merchantId: line.selection.merchantId }
+    : null,
+  variant: line.selection?.variantId
+    ? { id: line.selection.variantId, name: line.selection.variantName, sku: line.selection.sku }
+    : null,
+  options: line.selection?.options || [],
+  unitPrice: line.unitPrice,
+  itemTotal: (Number(line.unitPrice) * quantity).toFixed(2),
+  isAvailable: !line.unavailableReason && line.stockQuantity >= quantity,
+  stockStatus: line.unavailableReason
+    ? 'unavailable'
+    : line.stockQuantity < quantity
+      ? 'insufficient_stock'
+      : 'in_stock',
+  ...(line.unavailableReason && { unavailableReason: line.unavailableReason })
+});
+
+// Live commodity for commodity lines; product lines may have none
+const commodityJoin = and(
+  eq(cartItems.commodityId, commodities.id),
+  isNull(commodities.deletedAt),
+  eq(commodities.isActive, true)
+);
+
 // GET /api/cart - Get user's cart (READ)
 router.get('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
   try {
@@ -35,10 +95,13 @@ router.get('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ success: false, message: 'User not found' });
     }
 
-    const cart = await db
+    const rows = await db
       .select({
         id: cartItems.id,
         commodityId: cartItems.commodityId,
+        productId: cartItems.productId,
+        variantId: cartItems.variantId,
+        selectedOptions: cartItems.selectedOptions,
         quantity: cartItems.quantity,
         commodity: {
           id: commodities.id,
@@ -55,34 +118,26 @@ router.get('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
         updatedAt: cartItems.updatedAt
       })
       .from(cartItems)
-      .innerJoin(commodities, eq(cartItems.commodityId, commodities.id))
+      .leftJoin(commodities, commodityJoin)
       .where(and(
         eq(cartItems.userId, userRecord.id),
-        isNull(cartItems.deletedAt),
-        isNull(commodities.deletedAt),
-        eq(commodities.isActive, true)
+        isNull(cartItems.deletedAt)
       ))
       .orderBy(desc(cartItems.createdAt));
 
+    const cart = rows.filter(item => item.productId || item.commodity);
+
     // Calculate totals and check availability
     let subtotal = 0;
     let unavailableItems = 0;
-    const items = cart.map(item => {
-      const itemTotal = Number(item.commodity.price) * item.quantity;
-      subtotal += itemTotal;
-
-      const isAvailable = item.commodity.stockQuantity >= item.quantity;
-      if (!isAvailable) unavailableItems++;
-
-      return {
-        ...item,
-        itemTotal: itemTotal.toFixed(2),
-        isAvailable,
-        stockStatus: item.commodity.stockQuantity < item.quantity
-          ? 'insufficient_stock'
-          : 'in_stock'
-      };
-    });
+    const items = [];
+    for (const item of cart) {
+      const line = describeCartLine(item.quantity, await priceCartLine(item));
+      subtotal += Number(line.itemTotal);
+      if (!line.isAvailable) unavailableItems++;
+
+      items.push({ ...item, ...line });
+    }
 
     res.json({
       success: true,
@@ -136,6 +191,9 @@ router.get('/:id', firebaseAuth, async (req: AuthRequest, res: Response) => {
       .select({
         id: cartItems.id,
         commodityId: cartItems.commodityId,
+        productId: cartItems.productId,
+        variantId: cartItems.variantId,
+        selectedOptions: cartItems.selectedOptions,
         quantity: cartItems.quantity,
         commodity: {
           id: commodities.id,
@@ -151,7 +209,7 @@ router.get('/:id', firebaseAuth, async (req: AuthRequest, res: Response) => {
         updatedAt: cartItems.updatedAt
       })
       .from(cartItems)
-      .innerJoin(commodities, eq(cartItems.commodityId, commodities.id))
+      .leftJoin(commodities, eq(cartItems.commodityId, commodities.id))
       .where(and(
         eq(cartItems.id, cartItemId),
         eq(cartItems.userId, userRecord.id),
@@ -159,25 +217,18 @@ router.get('/:id', firebaseAuth, async (req: AuthRequest, res: Response) => {
       ))
       .limit(1);
 
-    if (!cartItem) {
+    if (!cartItem || (!cartItem.productId && !cartItem.commodity)) {
       return res.status(404).json({
         success: false,
         message: 'Cart item not found'
       });
     }
 
-    const itemTotal = Number(cartItem.commodity.price) * cartItem.quantity;
-    const isAvailable = cartItem.commodity.stockQuantity >= cartItem.quantity;
-
     res.json({
       success: true,
       data: {
         ...cartItem,
-        itemTotal: itemTotal.toFixed(2),
-        isAvailable,
-        stockStatus: cartItem.commodity.stockQuantity < cartItem.quantity
-          ? 'insufficient_stock'
-          : 'in_stock'
+        ...describeCartLine(cartItem.quantity, await priceCartLine(cartItem))
       }
     });
   } catch (error) {
@@ -208,43 +259,112 @@ router.post('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
 
     const validatedData = addToCartSchema.parse(req.body);
 
-    // Check if commodity exists and is available
-    const [commodity] = await db
-      .select()
-      .from(commodities)
-      .where(and(
-        eq(commodities.id, validatedData.commodityId),
-        isNull(commodities.deletedAt),
-        eq(commodities.isActive, true)
-      ))
-      .limit(1);
+    // What is being added: a product (with its variant and add-ons) or a plain commodity
+    let line: {
+      commodityId: number | null;
+      productId: number | null;
+      variantId: number | null;
+      selectedOptions: number[];
+      name: string;
+      imageUrl: string | null;
+      unitPrice: string;
+      stockQuantity: number;
+      selection: ResolvedSelection | null;
+    };
+
+    if (validatedData.productId || validatedData.variantId) {
+      const result = await ProductVariantService.resolveSelection(
+        validatedData.productId || null,
+        validatedData.variantId || null,
+        validatedData.optionIds
+      );
+
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message
+        });
+      }
 
-    if (!commodity) {
-      return res.status(404).json({
-        success: false,
-        message: 'Commodity not found or has been removed'
-      });
+      const selection = result.selection!;
+      if (validatedData.commodityId && selection.commodityId !== validatedData.commodityId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Product is not a listing of this commodity'
+        });
+      }
+
+      line = {
+        commodityId: selection.commodityId,
+        productId: selection.productId,
+        variantId: selection.variantId,
+        selectedOptions: selection.options.map(option => option.optionId),
+        name: selection.productName,
+        imageUrl: selection.imageUrl,
+        unitPrice: selection.unitPrice,
+        stockQuantity: selection.stockQuantity,
+        selection
+      };
+    } else {
+      if (validatedData.optionIds.length) {
+        return res.status(400).json({
+          success: false,
+          message: 'Options can only be chosen for a product'
+        });
+      }
+
+      // Check if commodity exists and is available
+      const [commodity] = await db
+        .select()
+        .from(commodities)
+        .where(and(
+          eq(commodities.id, validatedData.commodityId!),
+          isNull(commodities.deletedAt),
+          eq(commodities.isActive, true)
+        ))
+        .limit(1);
+
+      if (!commodity) {
+        return res.status(404).json({
+          success: false,
+          message: 'Commodity not found or has been removed'
+        });
+      }
+
+      line = {
+        commodityId: commodity.id,
+        productId: null,
+        variantId: null,
+        selectedOptions: [],
+        name: commodity.name,
+        imageUrl: commodity.imageUrl,
+        unitPrice: commodity.price,
+        stockQuantity: commodity.stockQuantity || 0,
+        selection: null
+      };
     }
 
     // Check stock availability
-    if (commodity.stockQuantity < validatedData.quantity) {
+    if (line.stockQuantity < validatedData.quantity) {
       return res.status(400).json({
         success: false,
-        message: `Only ${commodity.stockQuantity} units available in stock`,
-        availableStock: commodity.stockQuantity
+        message: `Only ${line.stockQuantity} units available in stock`,
+        availableStock: line.stockQuantity
       });
     }
 
-    // Check if item already exists in cart
-    const [existingCartItem] = await db
+    // Check if the same item (same variant and add-ons) is already in the cart
+    const sameItemRows = await db
       .select()
       .from(cartItems)
       .where(and(
         eq(cartItems.userId, userRecord.id),
-        eq(cartItems.commodityId, validatedData.commodityId),
+        line.productId
+          ? eq(cartItems.productId, line.productId)
+          : and(eq(cartItems.commodityId, line.commodityId!), isNull(cartItems.productId)),
         isNull(cartItems.deletedAt)
-      ))
-      .limit(1);
+      ));
+    const existingCartItem = sameItemRows.find(item => ProductVariantService.sameSelection(item, line));
 
     let cartItem;
     let isUpdate = false;
@@ -253,11 +373,11 @@ router.post('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
       // Update quantity
       const newQuantity = existingCartItem.quantity + validatedData.quantity;
 
-      if (commodity.stockQuantity < newQuantity) {
+      if (line.stockQuantity < newQuantity) {
         return res.status(400).json({
           success: false,
-          message: `Cannot add ${validatedData.quantity} more. Only ${commodity.stockQuantity} units available (${existingCartItem.quantity} already in cart)`,
-          availableStock: commodity.stockQuantity,
+          message: `Cannot add ${validatedData.quantity} more. Only ${line.stockQuantity} units available (${existingCartItem.quantity} already in cart)`,
+          availableStock: line.stockQuantity,
           currentQuantity: existingCartItem.quantity
         });
       }
@@ -278,7 +398,10 @@ router.post('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
         .insert(cartItems)
         .values({
           userId: userRecord.id,
-          commodityId: validatedData.commodityId,
+          commodityId: line.commodityId,
+          productId: line.productId,
+          variantId: line.variantId,
+          selectedOptions: line.selectedOptions,
           quantity: validatedData.quantity
         })
         .returning();
@@ -289,13 +412,10 @@ router.post('/', firebaseAuth, async (req: AuthRequest, res: Response) => {
       message: isUpdate ? 'Cart quantity updated' : 'Item added to cart',
       data: {
         ...cartItem,
-        commodity: {
-          id: commodity.id,
-          name: commodity.name,
-          price: commodity.price,
-          imageUrl: commodity.imageUrl
-        },
-        itemTotal: (Number(commodity.price) * cartItem.quantity).toFixed(2)
+        ...(!line.selection && {
+          commodity: { id: line.commodityId, name: line.name, price: line.unitPrice, imageUrl: line.imageUrl }
+        }),
+        ...describeCartLine(cartItem.quantity, { unitPrice: line.unitPrice, stockQuantity: line.stockQuantity, selection: line.selection })
       }
     });
   } catch (error) {
@@ -350,28 +470,35 @@ router.put('/:id', firebaseAuth, async (req: AuthRequest, res: Response) => {
         commodity: commodities
       })
       .from(cartItems)
-      .innerJoin(commodities, eq(cartItems.commodityId, commodities.id))
+      .leftJoin(commodities, and(eq(cartItems.commodityId, commodities.id), isNull(commodities.deletedAt)))
       .where(and(
         eq(cartItems.id, cartItemId),
         eq(cartItems.userId, userRecord.id),
-        isNull(cartItems.deletedAt),
-        isNull(commodities.deletedAt)
+        isNull(cartItems.deletedAt)
       ))
       .limit(1);
 
-    if (!existingItem) {
+    if (!existingItem || (!existingItem.cartItem.productId && !existingItem.commodity)) {
       return res.status(404).json({
         success: false,
         message: 'Cart item not found'
       });
     }
 
+    const line = await priceCartLine({ ...existingItem.cartItem, commodity: existingItem.commodity });
+    if (line.unavailableReason) {
+      return res.status(409).json({
+        success: false,
+        message: line.unavailableReason
+      });
+    }
+
     // Check stock availability
-    if (existingItem.commodity.stockQuantity < validatedData.quantity) {
+    if (line.stockQuantity < validatedData.quantity) {
       return res.status(400).json({
         success: false,
-        message: `Only ${existingItem.commodity.stockQuantity} units available`,
-        availableStock: existingItem.commodity.stockQuantity
+        message: `Only ${line.stockQuantity} units available`,
+        availableStock: line.stockQuantity
       });
     }
 
@@ -384,20 +511,20 @@ router.put('/:id', firebaseAuth, async (req: AuthRequest, res: Response) => {
       .where(eq(cartItems.id, cartItemId))
       .returning();
 
-    const itemTotal = Number(existingItem.commodity.price) * validatedData.quantity;
-
     res.json({
       success: true,
       message: 'Cart item updated successfully',
       data: {
         ...updatedItem,
-        commodity: {
-          id: existingItem.commodity.id,
-          name: existingItem.commodity.name,
-          price: existingItem.commodity.price,
-          imageUrl: existingItem.commodity.imageUrl
-        },
-        itemTotal: itemTotal.toFixed(2)
+        ...(existingItem.commodity && {
+          commodity: {
+            id: existingItem.commodity.id,
+            name: existingItem.commodity.name,
+            price: existingItem.commodity.price,
+            imageUrl: existingItem.commodity.imageUrl
+          }
+        }),
+        ...describeCartLine(validatedData.quantity, line)
       }
     });
   } catch (error) {
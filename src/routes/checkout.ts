@@ -1,19 +1,37 @@
 import express from 'express';
 import { db } from '../db/config';
-import { cartItems, products, orders, orderItems, transactions, users } from '../db/schema';
-import { eq, and, isNull, inArray, sql } from 'drizzle-orm';
+import { cartItems, products, orders, orderItems, transactions, users, checkoutGroups, merchantProfiles } from '../db/schema';
+import { eq, and, isNull, inArray, sql, desc } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth } from '../utils/auth';
+import PricingService, { CartLine, MerchantQuote, VEHICLE_TYPES } from '../services/pricing';
+import PromotionService from '../services/promotions';
+import CheckoutGroupService from '../services/checkout-groups';
+import StockReservationService from '../services/stock-reservations';
+import ProductVariantService, { ResolvedSelection } from '../services/product-variants';
+import OperatingHoursService from '../services/operating-hours';
 
 const router = express.Router();
 
 // Validation schemas
+// Delivery coordinates come from the quote, which was priced for them
 const checkoutSchema = z.object({
+  quoteId: z.string().min(1),
   deliveryAddress: z.string().min(1),
-  deliveryLatitude: z.string().optional(),
-  deliveryLongitude: z.string().optional(),
   deliveryInstructions: z.string().optional(),
   paymentMethod: z.enum(['CARD', 'CASH', 'BANK_TRANSFER']),
+  // Ordering ahead for when every merchant in the cart is open
+  scheduledFor: z.coerce.date().optional()
+});
+
+// How far ahead an order may be scheduled
+const MAX_SCHEDULE_DAYS = 7;
+
+const previewSchema = z.object({
+  deliveryLatitude: z.coerce.number().min(-90).max(90),
+  deliveryLongitude: z.coerce.number().min(-180).max(180),
+  vehicleType: z.enum(VEHICLE_TYPES).default('MOTORCYCLE'),
+  promoCode: z.string().min(1).optional()
 });
 
 // Helper function to generate order number
@@ -23,16 +41,73 @@ const generateOrderNumber = (): string => {
   return `ORD${timestamp}${random}`;
 };
 
+type CartRow = { productId: number | null; variantId: number | null; selectedOptions: unknown; quantity: number };
+
+// Prices each cart line from its product, variant and add-ons as they are now
+const resolveCart = async <T extends CartRow>(cart: T[]): Promise<{ success: boolean; status?: number; message?: string; lines?: Array<T & { selection: ResolvedSelection }> }> => {
+  const lines: Array<T & { selection: ResolvedSelection }> = [];
+  for (const item of cart) {
+    const result = await ProductVariantService.resolveSelection(item.productId, item.variantId, (item.selectedOptions || []) as number[]);
+    if (!result.success) {
+      return { success: false, status: 409, message: `${result.message}. Please update your cart` };
+    }
+    lines.push({ ...item, selection: result.selection! });
+  }
+  return { success: true, lines };
+};
+
+// The merchants in the cart that are closed at the given time, with when they next open
+const findClosedMerchants = async (merchantIds: Array<number | null>, at: Date) => {
+  const ids = Array.from(new Set(merchantIds.filter((id): id is number => !!id)));
+  if (!ids.length) return [];
+
+  const profiles = await db
+    .select({
+      userId: merchantProfiles.userId,
+      businessName: merchantProfiles.businessName,
+      isOpen: merchantProfiles.isOpen,
+      operatingHours: merchantProfiles.operatingHours
+    })
+    .from(merchantProfiles)
+    .where(and(inArray(merchantProfiles.userId, ids), isNull(merchantProfiles.deletedAt)));
+
+  return profiles
+    .map(profile => ({ profile, status: OperatingHoursService.getStatus(profile, at) }))
+    .filter(({ status }) => !status.openNow)
+    .map(({ profile, status }) => ({
+      merchantId: profile.userId,
+      businessName: profile.businessName,
+      reason: status.reason,
+      nextOpenAt: status.nextOpenAt,
+      ...(status.note ? { note: status.note } : {})
+    }));
+};
+
+const toCartLines = (cart: Array<{ quantity: number; selection: ResolvedSelection }>): CartLine[] =>
+  cart.map(({ quantity, selection }) => ({
+    productId: selection.productId,
+    variantId: selection.variantId,
+    optionIds: selection.options.map(option => option.optionId),
+    name: [selection.productName, ProductVariantService.describe(selection)].filter(Boolean).join(' - '),
+    price: selection.unitPrice,
+    quantity,
+    merchantId: selection.merchantId,
+    categoryId: selection.categoryId
+  }));
+
 // GET /api/checkout/preview - Preview checkout summary
 router.get('/preview', requireAuth, async (req, res) => {
   try {
     const currentUser = req.user!;
+    const { deliveryLatitude, deliveryLongitude, vehicleType, promoCode } = previewSchema.parse(req.query);
 
     // Get cart items with product details
-    const cart = await db
+    const cartRows = await db
       .select({
         id: cartItems.id,
         productId: cartItems.productId,
+        variantId: cartItems.variantId,
+        selectedOptions: cartItems.selectedOptions,
         quantity: cartItems.quantity,
         product: {
           id: products.id,
@@ -40,6 +115,7 @@ router.get('/preview', requireAuth, async (req, res) => {
           price: products.price,
           unit: products.unit,
           merchantId: products.merchantId,
+          categoryId: products.categoryId,
           stockQuantity: products.stockQuantity,
           isAvailable: products.isAvailable
         }
@@ -54,62 +130,91 @@ router.get('/preview', requireAuth, async (req, res) => {
         eq(products.isAvailable, true)
       ));
 
-    if (!cart.length) {
+    if (!cartRows.length) {
       return res.status(400).json({
         success: false,
         message: 'Cart is empty'
       });
     }
 
+    const resolved = await resolveCart(cartRows);
+    if (!resolved.success) {
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.message
+      });
+    }
+    const cart = resolved.lines!;
+
     // Check stock availability
-    const unavailableItems = cart.filter(item => item.product.stockQuantity < item.quantity);
+    const unavailableItems = cart.filter(item => item.selection.stockQuantity < item.quantity);
     if (unavailableItems.length > 0) {
       return res.status(400).json({
         success: false,
         message: 'Some items are out of stock',
         unavailableItems: unavailableItems.map(item => ({
-          productId: item.productId,
-          name: item.product.name,
+          productId: item.selection.productId,
+          variantId: item.selection.variantId,
+          name: item.selection.productName,
           requested: item.quantity,
-          available: item.product.stockQuantity
+          available: item.selection.stockQuantity
         }))
       });
     }
 
-    // Calculate totals
-    let subtotal = 0;
-    const items = cart.map(item => {
-      const itemTotal = Number(item.product.price) * item.quantity;
-      subtotal += itemTotal;
-      return {
-        productId: item.productId,
-        name: item.product.name,
-        price: item.product.price,
-        quantity: item.quantity,
-        itemTotal: itemTotal.toFixed(2)
-      };
-    });
+    const result = await PricingService.createQuote(
+      currentUser.id,
+      toCartLines(cart),
+      { latitude: deliveryLatitude, longitude: deliveryLongitude },
+      vehicleType as typeof VEHICLE_TYPES[number],
+      promoCode
+    );
 
-    const deliveryFee = 5.00; // Fixed delivery fee for now
-    const serviceFee = subtotal * 0.05; // 5% service fee
-    const total = subtotal + deliveryFee + serviceFee;
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    const quote = result.quote!;
+    const breakdown = quote.breakdown as MerchantQuote[];
+    const closedMerchants = await findClosedMerchants(cart.map(item => item.selection.merchantId), new Date());
 
     res.json({
       success: true,
       data: {
-        items,
+        quoteId: quote.quoteId,
+        expiresAt: quote.expiresAt,
+        vehicleType: quote.vehicleType,
+        promoCode: quote.promoCode,
+        items: breakdown.flatMap(group => group.items),
+        discounts: breakdown.flatMap(group => group.discounts),
         pricing: {
-          subtotal: subtotal.toFixed(2),
-          deliveryFee: deliveryFee.toFixed(2),
-          serviceFee: serviceFee.toFixed(2),
-          total: total.toFixed(2)
+          subtotal: quote.subtotal,
+          deliveryFee: quote.deliveryFee,
+          serviceFee: quote.serviceFee,
+          tax: quote.tax,
+          discount: quote.discount,
+          total: quote.total
         },
-        itemCount: items.length,
+        merchants: breakdown,
+        closedMerchants,
+        itemCount: cart.length,
         totalQuantity: cart.reduce((sum, item) => sum + item.quantity, 0)
       }
     });
   } catch (error) {
     console.error('Checkout preview error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to generate checkout preview'
@@ -124,16 +229,19 @@ router.post('/', requireAuth, async (req, res) => {
     const validatedData = checkoutSchema.parse(req.body);
 
     // Get cart items
-    const cart = await db
+    const cartRows = await db
       .select({
         id: cartItems.id,
         productId: cartItems.productId,
+        variantId: cartItems.variantId,
+        selectedOptions: cartItems.selectedOptions,
         quantity: cartItems.quantity,
         product: {
           id: products.id,
           name: products.name,
           price: products.price,
           merchantId: products.merchantId,
+          categoryId: products.categoryId,
           stockQuantity: products.stockQuantity,
           isAvailable: products.isAvailable
         }
@@ -148,37 +256,60 @@ router.post('/', requireAuth, async (req, res) => {
         eq(products.isAvailable, true)
       ));
 
-    if (!cart.length) {
+    if (!cartRows.length) {
       return res.status(400).json({
         success: false,
         message: 'Cart is empty'
       });
     }
 
+    const resolved = await resolveCart(cartRows);
+    if (!resolved.success) {
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.message
+      });
+    }
+    const cart = resolved.lines!;
+
     // Verify stock availability
-    const unavailableItems = cart.filter(item => item.product.stockQuantity < item.quantity);
+    const unavailableItems = cart.filter(item => item.selection.stockQuantity < item.quantity);
     if (unavailableItems.length > 0) {
       return res.status(400).json({
         success: false,
         message: 'Some items are out of stock',
         unavailableItems: unavailableItems.map(item => ({
-          productId: item.productId,
-          name: item.product.name,
+          productId: item.selection.productId,
+          variantId: item.selection.variantId,
+          name: item.selection.productName,
           requested: item.quantity,
-          available: item.product.stockQuantity
+          available: item.selection.stockQuantity
         }))
       });
     }
 
-    // Calculate totals
-    let subtotal = 0;
-    cart.forEach(item => {
-      subtotal += Number(item.product.price) * item.quantity;
-    });
+    // A closed merchant only takes orders scheduled for when it is open
+    const scheduledFor = validatedData.scheduledFor || null;
+    if (scheduledFor) {
+      const latest = Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000;
+      if (scheduledFor.getTime() <= Date.now() || scheduledFor.getTime() > latest) {
+        return res.status(400).json({
+          success: false,
+          message: `Orders can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`
+        });
+      }
+    }
 
-    const deliveryFee = 5.00;
-    const serviceFee = subtotal * 0.05;
-    const totalAmount = subtotal + deliveryFee + serviceFee;
+    const closedMerchants = await findClosedMerchants(cart.map(item => item.selection.merchantId), scheduledFor || new Date());
+    if (closedMerchants.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: scheduledFor
+          ? 'Some merchants are closed at the requested time'
+          : 'Some merchants are closed. Schedule the order for when they open',
+        closedMerchants
+      });
+    }
 
     // Generate unique order number
     let orderNumber: string;
@@ -197,117 +328,183 @@ router.post('/', requireAuth, async (req, res) => {
       attempts++;
     } while (!isUnique && attempts < 10);
 
-    // Group items by merchant
-    const merchantGroups = cart.reduce((groups: any, item) => {
-      const merchantId = item.product.merchantId;
-      if (!groups[merchantId]) {
-        groups[merchantId] = [];
-      }
-      groups[merchantId].push(item);
-      return groups;
-    }, {});
+    // Hold the stock until payment arrives; the sweeper returns it if it never does
+    const reservation = await StockReservationService.reserve(
+      currentUser.id,
+      orderNumber,
+      cart.map(item => ({ productId: item.selection.productId, variantId: item.selection.variantId, quantity: item.quantity }))
+    );
+    if (!reservation.success) {
+      return res.status(reservation.status).json({
+        success: false,
+        message: reservation.message,
+        unavailableItems: reservation.unavailableItems
+      });
+    }
 
-    // Create orders (one per merchant)
-    const createdOrders = [];
+    // The quote fixes what is charged; it must match the cart being checked out
+    const redemption = await PricingService.redeem(validatedData.quoteId, currentUser.id, toCartLines(cart), orderNumber);
+    if (!redemption.success) {
+      await StockReservationService.release(orderNumber, 'QUOTE_REJECTED');
+      return res.status(redemption.status).json({
+        success: false,
+        message: redemption.message
+      });
+    }
 
-    for (const [merchantId, items] of Object.entries(merchantGroups) as Array<[string, any[]]>) {
-      const merchantSubtotal = items.reduce((sum, item) =>
-        sum + (Number(item.product.price) * item.quantity), 0
-      );
+    const quote = redemption.quote!;
+    const totalAmount = Number(quote.total);
 
-      const merchantTotal = merchantSubtotal + (deliveryFee / Object.keys(merchantGroups).length);
+    // Nothing has been charged until the customer follows the payment link, so
+    // a failure from here on gives back the stock hold, the quote and its
+    // promotion uses, and cancels whatever was created
+    const createdOrders: Array<typeof orders.$inferSelect> = [];
 
-      const newOrder = await db.insert(orders).values({
-        orderNumber: `${orderNumber}-${merchantId}`,
+    try {
+      // One checkout group carries the combined payment for all the merchants' orders
+      const [checkoutGroup] = await db.insert(checkoutGroups).values({
+        groupNumber: orderNumber,
         customerId: currentUser.id,
-        merchantId: parseInt(merchantId),
-        orderType: 'PRODUCT_DELIVERY',
-        totalAmount: merchantTotal.toFixed(2),
-        deliveryAddress: validatedData.deliveryAddress,
-        deliveryLatitude: validatedData.deliveryLatitude || null,
-        deliveryLongitude: validatedData.deliveryLongitude || null,
-        orderData: {
-          deliveryInstructions: validatedData.deliveryInstructions,
-          paymentMethod: validatedData.paymentMethod
-        },
-        status: 'PENDING',
-        confirmationDeadline: new Date(Date.now() + 48 * 60 * 60 * 1000)
+        quoteId: quote.quoteId,
+        totalAmount: quote.total,
+        paymentMethod: validatedData.paymentMethod
       }).returning();
 
-      // Create order items
-      for (const item of items) {
-        await db.insert(orderItems).values({
-          orderId: newOrder[0].id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.product.price,
-          subtotal: (Number(item.product.price) * item.quantity).toFixed(2)
-        });
-
-        // Update product stock
-        await db
-          .update(products)
-          .set({
-            stockQuantity: item.product.stockQuantity - item.quantity,
-            updatedAt: new Date()
-          })
-          .where(eq(products.id, item.productId));
-      }
-
-      createdOrders.push(newOrder[0]);
-    }
+      // Create orders (one per merchant), each priced from its part of the quote
+      const splits: Record<number, { merchantAmount: string; driverAmount: string }> = {};
+
+      for (const group of quote.breakdown as MerchantQuote[]) {
+        const items = cart.filter(item => item.selection.merchantId === group.merchantId);
+        const merchantId = group.merchantId;
+
+        const newOrder = await db.insert(orders).values({
+          orderNumber: `${orderNumber}-${merchantId}`,
+          customerId: currentUser.id,
+          merchantId,
+          orderType: 'PRODUCT_DELIVERY',
+          totalAmount: group.total,
+          driverEarnings: group.deliveryFee,
+          checkoutGroupId: checkoutGroup.id,
+          scheduledFor,
+          deliveryAddress: validatedData.deliveryAddress,
+          deliveryLatitude: quote.deliveryLatitude,
+          deliveryLongitude: quote.deliveryLongitude,
+          orderData: {
+            deliveryInstructions: validatedData.deliveryInstructions,
+            paymentMethod: validatedData.paymentMethod,
+            pricing: {
+              quoteId: quote.quoteId,
+              vehicleType: quote.vehicleType,
+              subtotal: group.subtotal,
+              deliveryFee: group.deliveryFee,
+              serviceFee: group.serviceFee,
+              tax: group.tax,
+              discount: group.discount,
+              delivery: group.delivery
+            }
+          },
+          status: 'PENDING',
+          confirmationDeadline: new Date((scheduledFor || new Date()).getTime() + 48 * 60 * 60 * 1000)
+        }).returning();
+
+        await PromotionService.recordOrderDiscounts(newOrder[0].id, group.discounts);
+
+        // What each order's escrow pays out; fees and tax stay with the platform
+        splits[newOrder[0].id] = { merchantAmount: group.subtotal, driverAmount: group.deliveryFee };
+
+        // Create order items
+        for (const item of items) {
+          await db.insert(orderItems).values({
+            orderId: newOrder[0].id,
+            productId: item.selection.productId,
+            variantId: item.selection.variantId,
+            variantName: item.selection.variantName,
+            selectedOptions: item.selection.options,
+            quantity: item.quantity,
+            price: item.selection.unitPrice,
+            subtotal: (Number(item.selection.unitPrice) * item.quantity).toFixed(2)
+          });
+        }
 
-    // Initialize Paystack payment
-    const PaystackService = (await import('../services/paystack')).default;
-    const paymentInit = await PaystackService.initializePayment(
-      currentUser.email,
-      totalAmount,
-      `${orderNumber}_${Date.now()}`,
-      {
-        orderIds: createdOrders.map(o => o.id),
-        orderNumber,
-        customerId: currentUser.id
+        createdOrders.push(newOrder[0]);
       }
-    );
 
-    // Create transaction record
-    const [transaction] = await db.insert(transactions).values({
-      userId: currentUser.id,
-      amount: totalAmount.toFixed(2),
-      type: 'PAYMENT',
-      status: 'PENDING',
-      paymentMethod: validatedData.paymentMethod,
-      transactionRef: paymentInit.reference,
-      paystackTransactionId: paymentInit.reference,
-      description: `Order payment for ${orderNumber}`,
-      metadata: {
-        orderIds: createdOrders.map(o => o.id),
-        orderNumber
-      }
-    }).returning();
+      // Initialize Paystack payment
+      const PaystackService = (await import('../services/paystack')).default;
+      const paymentInit = await PaystackService.initializePayment(
+        currentUser.email,
+        totalAmount,
+        `${orderNumber}_${Date.now()}`,
+        {
+          orderIds: createdOrders.map(o => o.id),
+          orderNumber,
+          checkoutGroupId: checkoutGroup.id,
+          quoteId: quote.quoteId,
+          customerId: currentUser.id
+        }
+      );
 
-    // Clear cart
-    await db
-      .update(cartItems)
-      .set({ deletedAt: new Date() })
-      .where(and(
-        eq(cartItems.userId, currentUser.id),
-        isNull(cartItems.deletedAt)
-      ));
+      await db
+        .update(checkoutGroups)
+        .set({ paymentReference: paymentInit.reference, updatedAt: new Date() })
+        .where(eq(checkoutGroups.id, checkoutGroup.id));
 
-    res.status(201).json({
-      success: true,
-      message: 'Order placed successfully',
-      data: {
-        orders: createdOrders,
-        orderNumber,
-        totalAmount: totalAmount.toFixed(2),
+      // Create transaction record
+      await db.insert(transactions).values({
+        userId: currentUser.id,
+        amount: totalAmount.toFixed(2),
+        type: 'PAYMENT',
+        status: 'PENDING',
         paymentMethod: validatedData.paymentMethod,
-        status: 'PENDING_PAYMENT',
-        paymentUrl: paymentInit.authorization_url,
-        paymentReference: paymentInit.reference
-      }
-    });
+        transactionRef: paymentInit.reference,
+        paystackTransactionId: paymentInit.reference,
+        description: `Order payment for ${orderNumber}`,
+        metadata: {
+          orderIds: createdOrders.map(o => o.id),
+          orderNumber,
+          checkoutGroupId: checkoutGroup.id,
+          quoteId: quote.quoteId,
+          splits
+        }
+      });
+
+      // Clear cart
+      await db
+        .update(cartItems)
+        .set({ deletedAt: new Date() })
+        .where(and(
+          eq(cartItems.userId, currentUser.id),
+          isNull(cartItems.deletedAt)
+        ));
+
+      res.status(201).json({
+        success: true,
+        message: 'Order placed successfully',
+        data: {
+          checkoutGroupId: checkoutGroup.id,
+          orders: createdOrders,
+          orderNumber,
+          totalAmount: totalAmount.toFixed(2),
+          pricing: {
+            subtotal: quote.subtotal,
+            deliveryFee: quote.deliveryFee,
+            serviceFee: quote.serviceFee,
+            tax: quote.tax,
+            discount: quote.discount,
+            total: quote.total
+          },
+          paymentMethod: validatedData.paymentMethod,
+          status: 'PENDING_PAYMENT',
+          scheduledFor,
+          stockReservedUntil: reservation.expiresAt,
+          paymentUrl: paymentInit.authorization_url,
+          paymentReference: paymentInit.reference
+        }
+      });
+    } catch (error) {
+      await CheckoutGroupService.abandon(orderNumber, 'CHECKOUT_FAILED');
+      throw error;
+    }
   } catch (error) {
     console.error('Checkout error:', error);
 
@@ -326,4 +523,90 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/checkout/groups - List the current user's checkouts
+router.get('/groups', requireAuth, async (req, res) => {
+  try {
+    const currentUser = req.user!;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    const groups = await db
+      .select()
+      .from(checkoutGroups)
+      .where(eq(checkoutGroups.customerId, currentUser.id))
+      .orderBy(desc(checkoutGroups.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const childOrders = groups.length
+      ? await db
+          .select({ checkoutGroupId: orders.checkoutGroupId, status: orders.status })
+          .from(orders)
+          .where(and(inArray(orders.checkoutGroupId, groups.map(g => g.id)), isNull(orders.deletedAt)))
+      : [];
+
+    res.json({
+      success: true,
+      data: groups.map(group => {
+        const groupOrders = childOrders.filter(order => order.checkoutGroupId === group.id);
+        return {
+          ...group,
+          status: CheckoutGroupService.summarizeStatus(group, groupOrders),
+          orderCount: groupOrders.length
+        };
+      }),
+      pagination: {
+        page,
+        limit
+      }
+    });
+  } catch (error) {
+    console.error('Get checkout groups error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch checkouts'
+    });
+  }
+});
+
+// GET /api/checkout/groups/:id - Aggregated view of a checkout and its per-merchant orders
+router.get('/groups/:id', requireAuth, async (req, res) => {
+  try {
+    const groupId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(groupId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid checkout ID'
+      });
+    }
+
+    const [group] = await db
+      .select()
+      .from(checkoutGroups)
+      .where(eq(checkoutGroups.id, groupId))
+      .limit(1);
+
+    if (!group || (currentUser.role !== 'ADMIN' && group.customerId !== currentUser.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Checkout not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await CheckoutGroupService.getGroupView(group)
+    });
+  } catch (error) {
+    console.error('Get checkout group error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch checkout'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
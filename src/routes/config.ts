@@ -1,5 +1,6 @@
 import express from 'express';
 import { requireAuth, requireAdmin } from '../utils/auth';
+import PricingService from '../services/pricing';
 
 const router = express.Router();
 
@@ -44,10 +45,9 @@ router.get('/delivery', async (req, res) => {
   res.json({
     success: true,
     config: {
-      maxDeliveryRadius: 50, // km
       averageDeliveryTime: 45, // minutes
-      deliveryFeePerKm: 50, // NGN
-      minimumDeliveryFee: 500 // NGN
+      // Rates the pricing engine quotes from; checkout charges the quote, not these
+      ...PricingService.getConfig()
     }
   });
 });
@@ -8,6 +8,9 @@ import { requireAuth, requireRole } from '../utils/auth';
 import GeolocationService from '../services/geolocation';
 import RouteOptimizationService from '../services/routeOptimization';
 import { getWebSocketService } from '../services/websocket';
+import { resolveTransition, sendTransitionConflict } from '../services/order-state-machine';
+import { recordStatusChange } from '../services/order-status-history';
+import DriverDispatchService from '../services/driver-dispatch';
 
 const router = express.Router();
 
@@ -51,94 +54,17 @@ router.post('/find-drivers', requireAuth, requireRole(['MERCHANT', 'ADMIN']), as
       });
     }
 
-    // Validate address if coordinates not available
-    let orderLat = parseFloat(order.deliveryLatitude || '0');
-    let orderLng = parseFloat(order.deliveryLongitude || '0');
-
-    if (!orderLat || !orderLng) {
-      const addressResult = await GeolocationService.validateAddress(order.deliveryAddress || '');
-      if (addressResult.isValid && addressResult.coordinates) {
-        orderLat = addressResult.coordinates.latitude;
-        orderLng = addressResult.coordinates.longitude;
-        
-        // Update order with coordinates
-        await db
-          .update(orders)
-          .set({
-            deliveryLatitude: orderLat.toString(),
-            deliveryLongitude: orderLng.toString()
-          })
-          .where(eq(orders.id, order.id));
-      }
-    }
+    const orderLocation = await DriverDispatchService.resolveDeliveryLocation(order);
+    const orderLat = orderLocation?.latitude || 0;
+    const orderLng = orderLocation?.longitude || 0;
 
-    // Find available drivers within radius
-    const availableDrivers = await db
-      .select({
-        driver: driverProfiles,
-        user: {
-          id: users.id,
-          fullName: users.fullName,
-          phone: users.phone,
-          averageRating: users.averageRating,
-          totalRatings: users.totalRatings
-        }
-      })
-      .from(driverProfiles)
-      .innerJoin(users, eq(driverProfiles.userId, users.id))
-      .where(and(
-        eq(driverProfiles.isOnline, true),
-        eq(driverProfiles.isAvailable, true),
-        eq(driverProfiles.verificationStatus, 'APPROVED'),
-        isNull(driverProfiles.deletedAt),
-        isNull(users.deletedAt)
-      ));
-
-    // Filter by distance and calculate metrics
-    const driversWithMetrics = [];
-    
-    for (const driverData of availableDrivers) {
-      const driver = driverData.driver;
-      if (!driver.currentLatitude || !driver.currentLongitude) continue;
-
-      const driverLat = parseFloat(driver.currentLatitude);
-      const driverLng = parseFloat(driver.currentLongitude);
-      
-      const distance = GeolocationService.haversineDistance(
-        { latitude: orderLat, longitude: orderLng },
-        { latitude: driverLat, longitude: driverLng }
-      );
-
-      if (distance <= validatedData.radius) {
-        // Calculate estimated travel time
-        const travelTime = (distance / 30) * 60; // Assuming 30 km/h average speed
-        
-        // Calculate driver score
-        const rating = parseFloat(driverData.user.averageRating || '0');
-        const completedDeliveries = driver.totalDeliveries || 0;
-        const score = calculateDriverScore(rating, completedDeliveries, distance, travelTime);
-
-        driversWithMetrics.push({
-          driverId: driver.userId,
-          driverName: driverData.user.fullName,
-          phone: driverData.user.phone,
-          rating: rating,
-          totalDeliveries: completedDeliveries,
-          distance: Math.round(distance * 100) / 100,
-          estimatedTravelTime: Math.round(travelTime),
-          vehicleType: driver.vehicleType,
-          vehiclePlate: driver.vehiclePlate,
-          currentLocation: driver.currentLocation,
-          score: score,
-          tier: driver.tier
-        });
-      }
-    }
-
-    // Sort by score (highest first) and limit results
-    const sortedDrivers = driversWithMetrics
-      .sort((a, b) => b.score - a.score)
-      .slice(0, validatedData.maxDrivers);
+    // Find available drivers within radius, best score first
+    const sortedDrivers = orderLocation
+      ? await DriverDispatchService.findCandidateDrivers(orderLocation, {
+          radius: validatedData.radius,
+          maxDrivers: validatedData.maxDrivers
+        })
+      : [];
 
     res.json({
       success: true,
@@ -201,6 +127,12 @@ router.post('/assign', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (r
       });
     }
 
+    // Assigning a driver accepts the order
+    const transition = resolveTransition(order.status, 'ACCEPTED', req.user!.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
     // Verify driver is available and qualified
     const [driverProfile] = await db
       .select()
@@ -234,11 +166,9 @@ router.post('/assign', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (r
     await db
       .update(orders)
       .set({
+        ...transition.updates,
         driverId: validatedData.driverId,
-        driverEarnings: estimatedEarnings.toString(),
-        status: 'ACCEPTED',
-        acceptedAt: new Date(),
-        updatedAt: new Date()
+        driverEarnings: estimatedEarnings.toString()
       })
       .where(eq(orders.id, validatedData.orderId));
 
@@ -251,6 +181,15 @@ router.post('/assign', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (r
       })
       .where(eq(driverProfiles.userId, validatedData.driverId));
 
+    await recordStatusChange({
+      orderId: validatedData.orderId,
+      fromStatus: order.status,
+      toStatus: 'ACCEPTED',
+      actorId: userId,
+      actorRole: req.user!.role,
+      metadata: { driverId: validatedData.driverId }
+    });
+
     // Log audit event
     await db.insert(auditLogs).values({
       userId: userId,
@@ -427,6 +366,13 @@ router.post('/:orderId/respond', requireAuth, requireRole(['DRIVER']), async (re
       });
     }
 
+    // Accepting the assignment means the driver has the goods
+    const responseStatus = { ACCEPTED: 'PICKED_UP', REJECTED: 'PENDING', CANCELLED: 'CANCELLED' } as const;
+    const transition = resolveTransition(order.status, responseStatus[validatedData.status], req.user!.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
     let newOrderStatus: string;
     let driverAvailable = true;
 
@@ -471,10 +417,7 @@ router.post('/:orderId/respond', requireAuth, requireRole(['DRIVER']), async (re
     // Update order status
     await db
       .update(orders)
-      .set({
-        status: newOrderStatus as any,
-        updatedAt: new Date()
-      })
+      .set(transition.updates)
       .where(eq(orders.id, orderId));
 
     // Update driver availability
@@ -486,6 +429,15 @@ router.post('/:orderId/respond', requireAuth, requireRole(['DRIVER']), async (re
       })
       .where(eq(driverProfiles.userId, driverId));
 
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: transition.to,
+      actorId: driverId,
+      actorRole: req.user!.role,
+      reason: validatedData.rejectionReason
+    });
+
     // Log audit event
     await db.insert(auditLogs).values({
       userId: driverId,
@@ -552,26 +504,4 @@ router.post('/:orderId/respond', requireAuth, requireRole(['DRIVER']), async (re
   }
 });
 
-// Helper function to calculate driver score
-function calculateDriverScore(
-  rating: number,
-  completedDeliveries: number,
-  distance: number,
-  travelTime: number
-): number {
-  // Base score from rating (0-50 points)
-  const ratingScore = rating * 10;
-  
-  // Experience bonus (0-25 points)
-  const experienceScore = Math.min(completedDeliveries * 0.5, 25);
-  
-  // Distance penalty (closer is better)
-  const distanceScore = Math.max(25 - distance * 2, 0);
-  
-  // Time penalty (faster is better)
-  const timeScore = Math.max(15 - travelTime * 0.1, 0);
-  
-  return ratingScore + experienceScore + distanceScore + timeScore;
-}
-
 export default router;
@@ -2,6 +2,7 @@
 import { Router } from 'express';
 import { db } from '../db/config';
 import { eq } from 'drizzle-orm';
+import GeofenceService from '../services/geofence';
 
 const router = Router();
 
@@ -104,9 +105,13 @@ router.post('/update', requireAuth, async (req, res) => {
       (global as any).io.to('admin_monitoring').emit('driver_location_update', locationUpdate);
     }
 
+    // Fire pickup/drop-off geofence events for the driver's active orders
+    const geofenceEvents = await GeofenceService.checkDriverLocation(userId, Number(latitude), Number(longitude));
+
     res.json({
       success: true,
       message: 'Location updated successfully',
+      geofenceEvents,
       location: {
         latitude,
         longitude,
@@ -6,6 +6,13 @@ import { orders, driverProfiles, users, auditLogs, tracking } from '../db/schema
 import { eq, and, desc, isNull, or } from 'drizzle-orm';
 import { requireAuth, requireRole } from '../utils/auth';
 import { getWebSocketService } from '../services/websocket';
+import { resolveTransition, sendTransitionConflict } from '../services/order-state-machine';
+import { recordStatusChange } from '../services/order-status-history';
+import DriverRouteService from '../services/driver-routes';
+import DriverDispatchService from '../services/driver-dispatch';
+import DeliveryProofService, { submitProofSchema, hasSubmission, sendMissingProofs } from '../services/delivery-proof';
+import OutboxService from '../services/outbox';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
@@ -22,6 +29,11 @@ const updateLocationSchema = z.object({
   speed: z.number().optional()
 });
 
+const optimizeRouteSchema = z.object({
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional()
+});
+
 const rejectReasonSchema = z.object({
   reason: z.string().min(1, 'Rejection reason is required')
 });
@@ -43,6 +55,22 @@ const logAuditEvent = async (userId: number, action: string, entityId: number, d
   }
 };
 
+// Helper function to update an order and queue its status-change notifications in the same transaction
+const updateOrder = (order: typeof orders.$inferSelect, updates: Partial<typeof orders.$inferInsert>) =>
+  withTransaction(async (tx): Promise<(typeof orders.$inferSelect)[]> => {
+    const updated: (typeof orders.$inferSelect)[] = await tx
+      .update(orders)
+      .set(updates)
+      .where(eq(orders.id, order.id))
+      .returning();
+
+    if (updated[0] && updated[0].status !== order.status) {
+      await OutboxService.enqueue(OutboxService.orderStatusMessages(order, updated[0]), tx);
+    }
+
+    return updated;
+  });
+
 // GET /driver/orders - Get all orders for the authenticated driver
 router.get('/orders', requireAuth, requireRole(['DRIVER']), async (req, res) => {
   try {
@@ -155,32 +183,16 @@ router.post('/orders/:id/accept', requireAuth, requireRole(['DRIVER']), async (r
     const order = existingOrder[0];
 
     // Check if order is in the right status to be accepted
-    if (order.status !== 'PENDING' && order.status !== 'CONFIRMED') {
-      return res.status(400).json({
-        success: false,
-        message: `Order cannot be accepted in current status: ${order.status}`
-      });
+    const transition = resolveTransition(order.status, 'ACCEPTED', req.user!.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Update order status to ACCEPTED
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'ACCEPTED',
-        acceptedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, transition.updates);
 
     // Update driver availability
-    await db
-      .update(driverProfiles)
-      .set({
-        isAvailable: false,
-        updatedAt: new Date()
-      })
-      .where(eq(driverProfiles.userId, driverId));
+    await DriverDispatchService.markBusyIfFull(driverId);
 
     // Create initial tracking entry
     const driverProfile = await db
@@ -200,6 +212,14 @@ router.post('/orders/:id/accept', requireAuth, requireRole(['DRIVER']), async (r
       });
     }
 
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'ACCEPTED',
+      actorId: driverId,
+      actorRole: req.user!.role
+    });
+
     // Log audit event
     await logAuditEvent(
       driverId,
@@ -268,24 +288,17 @@ router.post('/orders/:id/reject', requireAuth, requireRole(['DRIVER']), async (r
     const order = existingOrder[0];
 
     // Check if order can be rejected
-    if (order.status === 'DELIVERED' || order.status === 'CANCELLED') {
-      return res.status(400).json({
-        success: false,
-        message: `Order cannot be rejected in current status: ${order.status}`
-      });
+    const transition = resolveTransition(order.status, 'PENDING', req.user!.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Update order - clear driver assignment and set status back to PENDING
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        driverId: null,
-        driverEarnings: null,
-        status: 'PENDING',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, {
+      ...transition.updates,
+      driverId: null,
+      driverEarnings: null
+    });
 
     // Update driver availability back to available
     await db
@@ -296,6 +309,15 @@ router.post('/orders/:id/reject', requireAuth, requireRole(['DRIVER']), async (r
       })
       .where(eq(driverProfiles.userId, driverId));
 
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'PENDING',
+      actorId: driverId,
+      actorRole: req.user!.role,
+      reason: validatedData.reason
+    });
+
     // Log audit event
     await logAuditEvent(
       driverId,
@@ -497,24 +519,35 @@ router.post('/orders/:id/mark-delivered', requireAuth, requireRole(['DRIVER']),
     const order = existingOrder[0];
 
     // Check if order is in the right status
-    if (order.status !== 'PICKED_UP' && order.status !== 'IN_TRANSIT') {
-      return res.status(400).json({
-        success: false,
-        message: `Order must be picked up before marking as delivered. Current status: ${order.status}`
-      });
+    const transition = resolveTransition(order.status, 'DELIVERED', req.user!.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
+    // Proofs may be sent along with the delivery instead of beforehand
+    const proofData = submitProofSchema.parse(req.body || {});
+    if (hasSubmission(proofData)) {
+      const submitted = await DeliveryProofService.submitProof(order, driverId, proofData);
+      if (!submitted.success) {
+        return res.status(submitted.status).json({
+          success: false,
+          message: submitted.message
+        });
+      }
+    }
+
+    const proofCheck = await DeliveryProofService.checkRequirements(order);
+    if (proofCheck.missingProofs.length) {
+      return sendMissingProofs(res, proofCheck);
     }
 
     // Update order status to DELIVERED
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'DELIVERED',
-        deliveredAt: new Date(),
-        confirmationDeadline: new Date(Date.now() + 48 * 60 * 60 * 1000), // 48 hours for confirmation
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, {
+      ...transition.updates,
+      confirmationDeadline: new Date(Date.now() + 48 * 60 * 60 * 1000) // 48 hours for confirmation
+    });
+
+    await DeliveryProofService.markComplete(orderId, proofCheck.requiredProofs);
 
     // Update driver availability back to available
     // Get current total deliveries first
@@ -551,6 +584,15 @@ router.post('/orders/:id/mark-delivered', requireAuth, requireRole(['DRIVER']),
       });
     }
 
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'DELIVERED',
+      actorId: driverId,
+      actorRole: req.user!.role,
+      metadata: { notes: notes || null }
+    });
+
     // Log audit event
     await logAuditEvent(
       driverId,
@@ -584,6 +626,15 @@ router.post('/orders/:id/mark-delivered', requireAuth, requireRole(['DRIVER']),
     });
   } catch (error) {
     console.error('Mark delivered error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to mark order as delivered'
@@ -591,4 +642,86 @@ router.post('/orders/:id/mark-delivered', requireAuth, requireRole(['DRIVER']),
   }
 });
 
+// POST /driver/route/optimize - Plan a pickup-before-delivery route over the driver's accepted orders
+router.post('/route/optimize', requireAuth, requireRole(['DRIVER']), async (req, res) => {
+  try {
+    const driverId = req.user!.id;
+    const validatedData = optimizeRouteSchema.parse(req.body || {});
+    const location = validatedData.latitude !== undefined && validatedData.longitude !== undefined
+      ? { latitude: validatedData.latitude, longitude: validatedData.longitude }
+      : undefined;
+
+    const result = await DriverRouteService.planRoute(driverId, location);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Route optimized successfully',
+      data: {
+        routeId: result.route!.id,
+        stops: result.optimized!.schedule.map(stop => ({
+          sequence: stop.sequence,
+          orderId: stop.point.orderId,
+          type: stop.point.type,
+          address: stop.point.address,
+          latitude: stop.point.latitude,
+          longitude: stop.point.longitude,
+          timeWindow: stop.point.timeWindow || null,
+          plannedArrival: stop.arrival.toISOString(),
+          minutesLate: stop.minutesLate
+        })),
+        totalDistance: Math.round(result.optimized!.totalDistance * 100) / 100,
+        totalDuration: Math.round(result.optimized!.totalDuration),
+        estimatedFuelCost: Math.round(result.optimized!.estimatedFuelCost),
+        warnings: result.optimized!.warnings,
+        skippedOrderIds: result.skippedOrderIds
+      }
+    });
+  } catch (error) {
+    console.error('Optimize route error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to optimize route'
+    });
+  }
+});
+
+// GET /driver/route - Get the driver's active route
+router.get('/route', requireAuth, requireRole(['DRIVER']), async (req, res) => {
+  try {
+    const route = await DriverRouteService.getActiveRoute(req.user!.id);
+
+    if (!route) {
+      return res.status(404).json({
+        success: false,
+        message: 'No active route'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: route
+    });
+  } catch (error) {
+    console.error('Get route error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch route'
+    });
+  }
+});
+
 export default router;
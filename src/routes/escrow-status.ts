@@ -4,6 +4,7 @@ import { db } from '../db/config';
 import { escrows, orders, transactions } from '../db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
 import { requireAuth } from '../utils/auth';
+import EscrowLedgerService from '../services/escrow-ledger';
 
 const router = express.Router();
 
@@ -69,6 +70,10 @@ router.get('/:orderId', requireAuth, async (req, res) => {
       .from(transactions)
       .where(eq(transactions.transactionRef, escrow.transactionRef!));
 
+    // Where each party's share stands, and every movement that got it there
+    const allocations = await EscrowLedgerService.allocate(escrow.id);
+    const movements = await EscrowLedgerService.getMovements(escrow.id);
+
     // Calculate time until auto-release
     let hoursUntilAutoRelease = null;
     if (order.confirmationDeadline && escrow.status === 'HELD') {
@@ -83,9 +88,24 @@ router.get('/:orderId', requireAuth, async (req, res) => {
           id: escrow.id,
           status: escrow.status,
           amount: escrow.amount,
+          ...EscrowLedgerService.totals(allocations),
           createdAt: escrow.createdAt,
           releasedAt: escrow.releasedAt
         },
+        parties: EscrowLedgerService.describeParties(allocations),
+        movements: movements.map(movement => ({
+          id: movement.id,
+          party: allocations.find(a => a.id === movement.allocationId)?.party,
+          type: movement.type,
+          amount: movement.amount,
+          balanceBefore: movement.balanceBefore,
+          balanceAfter: movement.balanceAfter,
+          escrowBalanceBefore: movement.escrowBalanceBefore,
+          escrowBalanceAfter: movement.escrowBalanceAfter,
+          reason: movement.reason,
+          reference: movement.reference,
+          createdAt: movement.createdAt
+        })),
         order: {
           id: order.id,
           orderNumber: order.orderNumber,
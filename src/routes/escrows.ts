@@ -1,9 +1,12 @@
 import express from 'express';
 import { db } from '../db/config';
-import { escrows, orders, users, auditLogs, transactions } from '../db/schema';
+import { escrows, orders, auditLogs, transactions } from '../db/schema';
 import { eq, isNull, desc, and, or } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireRole } from '../utils/auth';
+import DeliveryProofService, { sendMissingProofs } from '../services/delivery-proof';
+import CheckoutGroupService from '../services/checkout-groups';
+import EscrowLedgerService, { ESCROW_PARTIES, SettlementRequest } from '../services/escrow-ledger';
 
 const router = express.Router();
 
@@ -26,6 +29,28 @@ const confirmDeliverySchema = z.object({
   orderId: z.number().int().positive()
 });
 
+const amountSchema = z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+  message: "Amount must be a positive number"
+});
+
+// Without allocations, everything still held is settled; without an amount, all of that party's line
+const settlementLinesSchema = z.array(z.object({
+  party: z.enum(ESCROW_PARTIES),
+  amount: amountSchema.optional()
+})).min(1).optional();
+
+const releaseEscrowSchema = z.object({
+  allocations: settlementLinesSchema,
+  // Older clients name the merchant and driver amounts directly
+  merchantAmount: amountSchema.optional(),
+  driverAmount: amountSchema.optional()
+});
+
+const refundEscrowSchema = z.object({
+  allocations: settlementLinesSchema,
+  reason: z.string().min(3)
+});
+
 const disputeEscrowSchema = z.object({
   escrowId: z.number().int().positive(),
   reason: z.string().min(10),
@@ -130,6 +155,8 @@ router.post('/', requireAuth, async (req, res) => {
       createdAt: new Date()
     });
 
+    const allocations = await EscrowLedgerService.allocate(newEscrow[0].id);
+
     await logAuditEvent(
       currentUser.id,
       'ESCROW_CREATED',
@@ -140,7 +167,10 @@ router.post('/', requireAuth, async (req, res) => {
     res.status(201).json({
       success: true,
       message: 'Escrow created and payment held',
-      data: newEscrow[0]
+      data: {
+        ...newEscrow[0],
+        parties: EscrowLedgerService.describeParties(allocations)
+      }
     });
   } catch (error) {
     console.error('Create escrow error:', error);
@@ -190,6 +220,11 @@ router.post('/delivery/complete', requireAuth, requireRole(['DRIVER']), async (r
       });
     }
 
+    const proofCheck = await DeliveryProofService.checkRequirements(order[0]);
+    if (proofCheck.missingProofs.length) {
+      return sendMissingProofs(res, proofCheck);
+    }
+
     // Update order status
     await db
       .update(orders)
@@ -200,6 +235,8 @@ router.post('/delivery/complete', requireAuth, requireRole(['DRIVER']), async (r
       })
       .where(eq(orders.id, orderId));
 
+    await DeliveryProofService.markComplete(orderId, proofCheck.requiredProofs);
+
     await logAuditEvent(
       currentUser.id,
       'DELIVERY_COMPLETED',
@@ -286,7 +323,7 @@ router.post('/delivery/confirm', requireAuth, async (req, res) => {
     const releaseResult = await releaseEscrowFunds(orderId, currentUser.id);
 
     if (!releaseResult.success) {
-      return res.status(500).json({
+      return res.status(releaseResult.status || 500).json({
         success: false,
         message: releaseResult.message || 'Failed to release escrow funds'
       });
@@ -379,6 +416,9 @@ router.post('/dispute', requireAuth, async (req, res) => {
       .where(eq(escrows.id, validatedData.escrowId))
       .returning();
 
+    // Attach whatever proof of delivery was collected so both sides see the same evidence
+    const proof = await DeliveryProofService.getProof(escrow[0].orderId);
+
     // Create audit log with dispute details
     await logAuditEvent(
       currentUser.id,
@@ -390,14 +430,18 @@ router.post('/dispute', requireAuth, async (req, res) => {
         disputedByRole: isConsumer ? 'CONSUMER' : 'DRIVER',
         orderId: escrow[0].orderId,
         orderNumber: order[0].orderNumber,
-        escrowAmount: escrow[0].amount
+        escrowAmount: escrow[0].amount,
+        proofOfDeliveryId: proof?.id || null
       }
     );
 
     res.json({
       success: true,
       message: 'Dispute raised successfully. Payment will remain in escrow until admin resolves the case.',
-      data: updatedEscrow[0]
+      data: {
+        ...updatedEscrow[0],
+        proofOfDelivery: DeliveryProofService.toPublicView(proof)
+      }
     });
   } catch (error) {
     console.error('Dispute escrow error:', error);
@@ -417,12 +461,104 @@ router.post('/dispute', requireAuth, async (req, res) => {
   }
 });
 
-// POST /api/escrows/:id/release - Admin manual release
+// GET /api/escrows/:id/dispute - Dispute history with the order's proof of delivery
+router.get('/:id/dispute', requireAuth, async (req, res) => {
+  try {
+    const escrowId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(escrowId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid escrow ID'
+      });
+    }
+
+    const escrow = await db
+      .select()
+      .from(escrows)
+      .where(and(
+        eq(escrows.id, escrowId),
+        isNull(escrows.deletedAt)
+      ))
+      .limit(1);
+
+    if (!escrow.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Escrow not found'
+      });
+    }
+
+    const order = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, escrow[0].orderId))
+      .limit(1);
+
+    if (!order.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Associated order not found'
+      });
+    }
+
+    // Admins and the parties to the order can review the evidence
+    if (currentUser.role !== 'ADMIN' &&
+        currentUser.id !== order[0].customerId &&
+        currentUser.id !== order[0].merchantId &&
+        currentUser.id !== order[0].driverId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const [disputes, proofCheck] = await Promise.all([
+      db
+        .select()
+        .from(auditLogs)
+        .where(and(
+          eq(auditLogs.entityType, 'ESCROW'),
+          eq(auditLogs.entityId, escrowId),
+          eq(auditLogs.action, 'ESCROW_DISPUTED')
+        ))
+        .orderBy(desc(auditLogs.createdAt)),
+      DeliveryProofService.checkRequirements(order[0])
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        escrowId,
+        status: escrow[0].status,
+        orderId: order[0].id,
+        orderNumber: order[0].orderNumber,
+        disputes: disputes.map(dispute => ({
+          raisedBy: dispute.userId,
+          details: dispute.details,
+          createdAt: dispute.createdAt
+        })),
+        proofOfDelivery: DeliveryProofService.toPublicView(proofCheck.proof),
+        requiredProofs: proofCheck.requiredProofs,
+        missingProofs: proofCheck.missingProofs
+      }
+    });
+  } catch (error) {
+    console.error('Get escrow dispute error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch dispute details'
+    });
+  }
+});
+
+// POST /api/escrows/:id/release - Admin release, in full or of part of some parties' lines
 router.post('/:id/release', requireAuth, requireRole(['ADMIN']), async (req, res) => {
   try {
     const escrowId = parseInt(req.params.id);
     const currentUser = req.user!;
-    const { merchantAmount, driverAmount } = req.body;
+    const validatedData = releaseEscrowSchema.parse(req.body);
 
     if (isNaN(escrowId)) {
       return res.status(400).json({
@@ -447,10 +583,18 @@ router.post('/:id/release', requireAuth, requireRole(['ADMIN']), async (req, res
       });
     }
 
-    const releaseResult = await releaseEscrowFunds(escrow[0].orderId, currentUser.id, true, merchantAmount, driverAmount);
+    let requests: SettlementRequest[] | null = validatedData.allocations || null;
+    if (!requests && (validatedData.merchantAmount || validatedData.driverAmount)) {
+      requests = [
+        ...(validatedData.merchantAmount ? [{ party: 'MERCHANT' as const, amount: validatedData.merchantAmount }] : []),
+        ...(validatedData.driverAmount ? [{ party: 'DRIVER' as const, amount: validatedData.driverAmount }] : [])
+      ];
+    }
+
+    const releaseResult = await releaseEscrowFunds(escrow[0].orderId, currentUser.id, true, requests);
 
     if (!releaseResult.success) {
-      return res.status(500).json({
+      return res.status(releaseResult.status || 500).json({
         success: false,
         message: releaseResult.message || 'Failed to release escrow funds'
       });
@@ -463,6 +607,15 @@ router.post('/:id/release', requireAuth, requireRole(['ADMIN']), async (req, res
     });
   } catch (error) {
     console.error('Admin release error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to release escrow'
@@ -470,6 +623,100 @@ router.post('/:id/release', requireAuth, requireRole(['ADMIN']), async (req, res
   }
 });
 
+// POST /api/escrows/:id/refund - Admin refund to the customer, in full or of part of some parties' lines
+router.post('/:id/refund', requireAuth, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const escrowId = parseInt(req.params.id);
+    const currentUser = req.user!;
+    const validatedData = refundEscrowSchema.parse(req.body);
+
+    if (isNaN(escrowId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid escrow ID'
+      });
+    }
+
+    const refund = await EscrowLedgerService.refund(escrowId, validatedData.allocations || null, {
+      actorId: currentUser.id,
+      reason: validatedData.reason
+    });
+
+    if (!refund.success) {
+      return res.status(refund.status).json({
+        success: false,
+        message: refund.message
+      });
+    }
+
+    const escrow = refund.escrow!;
+    const order = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, escrow.orderId))
+      .limit(1);
+
+    // The customer is owed each refunded amount; finance pays it back against these records
+    for (const { movement, amount } of EscrowLedgerService.customerRefunds(refund.movements!)) {
+      const allocation = refund.allocations!.find(a => a.id === movement.allocationId)!;
+      await db.insert(transactions).values({
+        userId: escrow.payerId,
+        orderId: escrow.orderId,
+        amount,
+        netAmount: amount,
+        currency: 'NGN',
+        type: 'REFUND',
+        status: 'PENDING',
+        transactionRef: movement.reference!,
+        description: `Refund of the ${allocation.party.toLowerCase()} share of order ${order[0]?.orderNumber || escrow.orderId}`,
+        metadata: {
+          escrowId,
+          escrowMovementId: movement.id,
+          party: allocation.party,
+          reason: validatedData.reason
+        },
+        createdAt: new Date()
+      });
+    }
+
+    await logAuditEvent(
+      currentUser.id,
+      'ESCROW_REFUNDED',
+      escrowId,
+      {
+        orderId: escrow.orderId,
+        reason: validatedData.reason,
+        refunds: refund.movements!.map(m => ({ allocationId: m.allocationId, amount: m.amount, reference: m.reference }))
+      }
+    );
+
+    res.json({
+      success: true,
+      message: 'Refund recorded',
+      data: {
+        escrow,
+        parties: EscrowLedgerService.describeParties(refund.allocations!),
+        refunds: refund.movements
+      }
+    });
+  } catch (error) {
+    console.error('Escrow refund error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refund escrow'
+    });
+  }
+});
+
 // GET /api/escrows - List escrows
 router.get('/', requireAuth, async (req, res) => {
   try {
@@ -520,8 +767,8 @@ router.get('/', requireAuth, async (req, res) => {
   }
 });
 
-// Helper function to release escrow funds
-async function releaseEscrowFunds(orderId: number, releasedBy: number, isAdmin: boolean = false, merchantAmountOverride?: string, driverAmountOverride?: string) {
+// Helper function to release escrow funds: settles the ledger lines and credits each party for the next payout
+async function releaseEscrowFunds(orderId: number, releasedBy: number, isAdmin: boolean = false, requests: SettlementRequest[] | null = null) {
   try {
     const escrow = await db
       .select()
@@ -533,28 +780,9 @@ async function releaseEscrowFunds(orderId: number, releasedBy: number, isAdmin:
       .limit(1);
 
     if (!escrow.length) {
-      return { success: false, message: 'Escrow not found' };
-    }
-
-    if (escrow[0].status === 'RELEASED') {
-      return { success: false, message: 'Escrow already released' };
+      return { success: false, status: 404, message: 'Escrow not found' };
     }
 
-    // Get transaction metadata for split amounts
-    const transaction = await db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.transactionRef, escrow[0].transactionRef!))
-      .limit(1);
-
-    if (!transaction.length) {
-      return { success: false, message: 'Transaction not found' };
-    }
-
-    const metadata = transaction[0].metadata as any || {};
-    const merchantAmount = merchantAmountOverride || metadata.merchantAmount || '0';
-    const driverAmount = driverAmountOverride || metadata.driverAmount || '0';
-
     // Get order
     const order = await db
       .select()
@@ -563,115 +791,79 @@ async function releaseEscrowFunds(orderId: number, releasedBy: number, isAdmin:
       .limit(1);
 
     if (!order.length) {
-      return { success: false, message: 'Order not found' };
+      return { success: false, status: 404, message: 'Order not found' };
     }
 
-    // Get merchant details for payout
-    const merchant = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, order[0].merchantId!))
-      .limit(1);
-
-    // Get driver details for payout
-    const driver = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, order[0].driverId!))
-      .limit(1);
+    const release = await EscrowLedgerService.release(escrow[0].id, requests, {
+      actorId: releasedBy,
+      reason: isAdmin ? 'Released by admin' : 'Delivery confirmed',
+      allowDisputed: isAdmin
+    });
 
-    // Initiate Paystack transfer to merchant if they have bank account
-    let merchantTransferStatus = 'PENDING';
-    if (merchant[0]?.paystackRecipientCode) {
-      try {
-        const PaystackService = (await import('../services/paystack')).default;
-        const transferResult = await PaystackService.initiateTransfer({
-          source: 'balance',
-          amount: parseFloat(merchantAmount) * 100, // Convert to kobo
-          recipient: merchant[0].paystackRecipientCode,
-          reason: `Payment for order ${order[0].orderNumber}`,
-          reference: `MERCHANT_${escrow[0].transactionRef}`
-        });
-
-        if (transferResult.status) {
-          merchantTransferStatus = 'COMPLETED';
-        }
-      } catch (error) {
-        console.error('Merchant transfer failed:', error);
-        merchantTransferStatus = 'FAILED';
-      }
+    if (!release.success) {
+      return { success: false, status: release.status, message: release.message };
     }
 
-    // Initiate Paystack transfer to driver if they have bank account
-    let driverTransferStatus = 'PENDING';
-    if (driver[0]?.paystackRecipientCode) {
-      try {
-        const PaystackService = (await import('../services/paystack')).default;
-        const transferResult = await PaystackService.initiateTransfer({
-          source: 'balance',
-          amount: parseFloat(driverAmount) * 100, // Convert to kobo
-          recipient: driver[0].paystackRecipientCode,
-          reason: `Delivery fee for order ${order[0].orderNumber}`,
-          reference: `DRIVER_${escrow[0].transactionRef}`
-        });
-
-        if (transferResult.status) {
-          driverTransferStatus = 'COMPLETED';
-        }
-      } catch (error) {
-        console.error('Driver transfer failed:', error);
-        driverTransferStatus = 'FAILED';
+    const payouts = [];
+    for (const movement of release.movements!) {
+      const allocation = release.allocations!.find(a => a.id === movement.allocationId)!;
+
+      // The platform's share (fees and tax) stays in the balance
+      if (allocation.party === 'PLATFORM' || !allocation.payeeId) {
+        payouts.push({ party: allocation.party, amount: movement.amount, reference: movement.reference, status: 'RETAINED' });
+        continue;
       }
-    }
 
-    // Record merchant transaction
-    await db.insert(transactions).values({
-      userId: order[0].merchantId!,
-      orderId,
-      amount: merchantAmount,
-      netAmount: merchantAmount,
-      currency: 'NGN',
-      type: 'ESCROW_RELEASE',
-      status: merchantTransferStatus as any,
-      transactionRef: `MERCHANT_${escrow[0].transactionRef}`,
-      description: `Payment for order ${order[0].orderNumber}`,
-      completedAt: merchantTransferStatus === 'COMPLETED' ? new Date() : null,
-      createdAt: new Date()
-    });
+      const description = allocation.party === 'DRIVER'
+        ? `Delivery fee for order ${order[0].orderNumber}`
+        : `Payment for order ${order[0].orderNumber}`;
 
-    // Record driver transaction
-    await db.insert(transactions).values({
-      userId: order[0].driverId!,
-      orderId,
-      amount: driverAmount,
-      netAmount: driverAmount,
-      currency: 'NGN',
-      type: 'ESCROW_RELEASE',
-      status: driverTransferStatus as any,
-      transactionRef: `DRIVER_${escrow[0].transactionRef}`,
-      description: `Delivery fee for order ${order[0].orderNumber}`,
-      completedAt: driverTransferStatus === 'COMPLETED' ? new Date() : null,
-      createdAt: new Date()
-    });
+      // Credited to the payee's balance; the payout service transfers it with their next payout
+      await db.insert(transactions).values({
+        userId: allocation.payeeId,
+        orderId,
+        amount: movement.amount,
+        netAmount: movement.amount,
+        currency: 'NGN',
+        type: 'ESCROW_RELEASE',
+        status: 'COMPLETED',
+        transactionRef: movement.reference!,
+        description,
+        metadata: { escrowId: escrow[0].id, escrowMovementId: movement.id, party: allocation.party },
+        completedAt: new Date(),
+        createdAt: new Date()
+      });
 
-    // Update escrow status
-    const updatedEscrow = await db
-      .update(escrows)
-      .set({
-        status: 'RELEASED',
-        releasedAt: new Date()
-      })
-      .where(eq(escrows.id, escrow[0].id))
-      .returning();
+      payouts.push({ party: allocation.party, amount: movement.amount, reference: movement.reference, status: 'SCHEDULED' });
+    }
+
+    // Orders from a multi-merchant checkout share the group's payment
+    let transaction = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.transactionRef, escrow[0].transactionRef!))
+      .limit(1);
+
+    if (!transaction.length) {
+      const groupPayment = await CheckoutGroupService.findOrderPayment(order[0]);
+      if (groupPayment) transaction = [groupPayment.transaction];
+    }
 
     // Update original transaction
-    await db
-      .update(transactions)
-      .set({
-        status: 'COMPLETED',
-        completedAt: new Date()
-      })
-      .where(eq(transactions.id, transaction[0].id));
+    if (transaction.length) {
+      await db
+        .update(transactions)
+        .set({
+          status: 'COMPLETED',
+          completedAt: new Date()
+        })
+        .where(eq(transactions.id, transaction[0].id));
+    }
+
+    const amountFor = (party: string) => payouts
+      .filter(payout => payout.party === party)
+      .reduce((sum, payout) => sum + parseFloat(payout.amount), 0)
+      .toFixed(2);
 
     await logAuditEvent(
       releasedBy,
@@ -679,8 +871,7 @@ async function releaseEscrowFunds(orderId: number, releasedBy: number, isAdmin:
       escrow[0].id,
       { 
         orderId,
-        merchantAmount,
-        driverAmount,
+        payouts,
         isAdmin
       }
     );
@@ -688,14 +879,16 @@ async function releaseEscrowFunds(orderId: number, releasedBy: number, isAdmin:
     return { 
       success: true, 
       data: {
-        escrow: updatedEscrow[0],
-        merchantAmount,
-        driverAmount
+        escrow: release.escrow,
+        merchantAmount: amountFor('MERCHANT'),
+        driverAmount: amountFor('DRIVER'),
+        payouts,
+        parties: EscrowLedgerService.describeParties(release.allocations!)
       }
     };
   } catch (error) {
     console.error('Release escrow error:', error);
-    return { success: false, message: 'Failed to release funds' };
+    return { success: false, status: 500, message: 'Failed to release funds' };
   }
 }
 
@@ -5,22 +5,21 @@ import { fuelOrders, users, auditLogs } from '../db/schema';
 import { eq, isNull, desc, and, or, ilike } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireRole, requireAdmin } from '../utils/auth';
+import { resolveTransition, sendTransitionConflict } from '../services/order-state-machine';
+import { recordStatusChange } from '../services/order-status-history';
+import FuelStationService, { FUEL_TYPES } from '../services/fuel-stations';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
 // Validation schemas
+// Prices are set by the station; unitPrice and totalAmount are computed server-side
 const createFuelOrderSchema = z.object({
-  stationId: z.string().min(1),
-  fuelType: z.enum(['PMS', 'AGO', 'DPK']),
+  stationId: z.number().int().positive(),
+  fuelType: z.enum(FUEL_TYPES),
   quantity: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
     message: "Quantity must be a positive number"
   }),
-  unitPrice: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: "Unit price must be a positive number"
-  }),
-  totalAmount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: "Total amount must be a positive number"
-  }),
   deliveryAddress: z.string().min(1),
   deliveryLatitude: z.string().optional().refine((val) => !val || !isNaN(Number(val)), {
     message: "Delivery latitude must be a valid number"
@@ -34,17 +33,11 @@ const createFuelOrderSchema = z.object({
 });
 
 const updateFuelOrderSchema = z.object({
-  stationId: z.string().min(1).optional(),
-  fuelType: z.enum(['PMS', 'AGO', 'DPK']).optional(),
+  stationId: z.number().int().positive().optional(),
+  fuelType: z.enum(FUEL_TYPES).optional(),
   quantity: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
     message: "Quantity must be a positive number"
   }).optional(),
-  unitPrice: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: "Unit price must be a positive number"
-  }).optional(),
-  totalAmount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: "Total amount must be a positive number"
-  }).optional(),
   deliveryAddress: z.string().min(1).optional(),
   deliveryLatitude: z.string().optional().refine((val) => !val || !isNaN(Number(val)), {
     message: "Delivery latitude must be a valid number"
@@ -101,26 +94,57 @@ router.post('/', requireAuth, async (req, res) => {
       }
     }
 
+    const quantity = Number(validatedData.quantity);
+    const quote = await FuelStationService.quote(validatedData.stationId, validatedData.fuelType, quantity);
+    if (!quote.success) {
+      return res.status(quote.status).json({
+        success: false,
+        message: quote.message,
+        ...(quote.availableLitres !== undefined && { availableLitres: quote.availableLitres })
+      });
+    }
+
     // Set confirmation deadline (48 hours from now)
     const confirmationDeadline = new Date(Date.now() + 48 * 60 * 60 * 1000);
 
-    const newFuelOrder = await db.insert(fuelOrders).values({
-      customerId: currentUser.id,
-      driverId: validatedData.driverId || null,
-      stationId: validatedData.stationId,
-      fuelType: validatedData.fuelType,
-      quantity: validatedData.quantity,
-      unitPrice: validatedData.unitPrice,
-      totalAmount: validatedData.totalAmount,
-      deliveryAddress: validatedData.deliveryAddress,
-      deliveryLatitude: validatedData.deliveryLatitude || null,
-      deliveryLongitude: validatedData.deliveryLongitude || null,
-      scheduledDeliveryTime: validatedData.scheduledDeliveryTime || null,
-      notes: validatedData.notes || null,
-      confirmationDeadline,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }).returning();
+    // Stock is taken in the same transaction so two orders cannot both get the last litres
+    const newFuelOrder = await withTransaction(async (tx) => {
+      const reserved = await FuelStationService.reserveStock(tx, validatedData.stationId, validatedData.fuelType, quantity);
+      if (!reserved) return null;
+
+      return tx.insert(fuelOrders).values({
+        customerId: currentUser.id,
+        driverId: validatedData.driverId || null,
+        stationId: validatedData.stationId,
+        fuelType: validatedData.fuelType,
+        quantity: validatedData.quantity,
+        unitPrice: quote.unitPrice,
+        totalAmount: quote.totalAmount,
+        deliveryAddress: validatedData.deliveryAddress,
+        deliveryLatitude: validatedData.deliveryLatitude || null,
+        deliveryLongitude: validatedData.deliveryLongitude || null,
+        scheduledDeliveryTime: validatedData.scheduledDeliveryTime ? new Date(validatedData.scheduledDeliveryTime) : null,
+        notes: validatedData.notes || null,
+        confirmationDeadline,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }).returning();
+    });
+
+    if (!newFuelOrder) {
+      return res.status(409).json({
+        success: false,
+        message: 'Not enough fuel left at this station'
+      });
+    }
+
+    await recordStatusChange({
+      fuelOrderId: newFuelOrder[0].id,
+      fromStatus: null,
+      toStatus: 'PENDING',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -131,7 +155,8 @@ router.post('/', requireAuth, async (req, res) => {
         stationId: validatedData.stationId, 
         fuelType: validatedData.fuelType,
         quantity: validatedData.quantity,
-        totalAmount: validatedData.totalAmount
+        unitPrice: quote.unitPrice,
+        totalAmount: quote.totalAmount
       }
     );
 
@@ -395,14 +420,90 @@ router.put('/:id', requireAuth, async (req, res) => {
       }
     }
 
-    const updatedFuelOrder = await db
-      .update(fuelOrders)
-      .set({
-        ...validatedData,
-        updatedAt: new Date()
-      })
-      .where(eq(fuelOrders.id, fuelOrderId))
-      .returning();
+    // Status changes must follow the order state machine
+    let statusUpdates = {};
+    if (validatedData.status && validatedData.status !== fuelOrder.status) {
+      const transition = resolveTransition(fuelOrder.status, validatedData.status, currentUser.role);
+      if (!transition.allowed) {
+        return sendTransitionConflict(res, transition);
+      }
+      statusUpdates = transition.updates;
+    }
+
+    // Changing what is ordered re-prices the order and moves its reserved stock
+    const stationId = validatedData.stationId ?? fuelOrder.stationId;
+    const fuelType = validatedData.fuelType ?? fuelOrder.fuelType;
+    const quantity = Number(validatedData.quantity ?? fuelOrder.quantity);
+    const previousQuantity = Number(fuelOrder.quantity);
+    const sameStock = stationId === fuelOrder.stationId && fuelType === fuelOrder.fuelType;
+    const reprice = !sameStock || quantity !== previousQuantity;
+
+    let pricingUpdates = {};
+    if (reprice) {
+      if (fuelOrder.status !== 'PENDING') {
+        return res.status(409).json({
+          success: false,
+          message: 'Station, fuel type and quantity can only be changed while the order is pending'
+        });
+      }
+
+      const quote = await FuelStationService.quote(stationId, fuelType, quantity, sameStock ? previousQuantity : 0);
+      if (!quote.success) {
+        return res.status(quote.status).json({
+          success: false,
+          message: quote.message,
+          ...(quote.availableLitres !== undefined && { availableLitres: quote.availableLitres })
+        });
+      }
+      pricingUpdates = { unitPrice: quote.unitPrice, totalAmount: quote.totalAmount };
+    }
+
+    const updatedFuelOrder = await withTransaction(async (tx) => {
+      if (reprice) {
+        // Reserve first so a failed reservation leaves the old one untouched
+        const needed = sameStock ? quantity - previousQuantity : quantity;
+        if (needed > 0 && !await FuelStationService.reserveStock(tx, stationId, fuelType, needed)) {
+          return null;
+        }
+        if (sameStock && needed < 0) {
+          await FuelStationService.releaseStock(tx, stationId, fuelType, -needed);
+        } else if (!sameStock && fuelOrder.stationId) {
+          await FuelStationService.releaseStock(tx, fuelOrder.stationId, fuelOrder.fuelType, previousQuantity);
+        }
+      }
+
+      return tx
+        .update(fuelOrders)
+        .set({
+          ...validatedData,
+          ...pricingUpdates,
+          ...statusUpdates,
+          updatedAt: new Date()
+        })
+        .where(eq(fuelOrders.id, fuelOrderId))
+        .returning();
+    });
+
+    if (!updatedFuelOrder) {
+      return res.status(409).json({
+        success: false,
+        message: 'Not enough fuel left at this station'
+      });
+    }
+
+    if (validatedData.status === 'CANCELLED' && fuelOrder.status !== 'CANCELLED') {
+      await FuelStationService.releaseForOrder(updatedFuelOrder[0]);
+    }
+
+    if (validatedData.status && validatedData.status !== fuelOrder.status) {
+      await recordStatusChange({
+        fuelOrderId,
+        fromStatus: fuelOrder.status,
+        toStatus: validatedData.status,
+        actorId: currentUser.id,
+        actorRole: currentUser.role
+      });
+    }
 
     // Log audit event
     await logAuditEvent(
@@ -468,11 +569,9 @@ router.post('/:id/accept', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
     const fuelOrder = existingFuelOrder[0];
 
     // Check if fuel order is in the right status
-    if (fuelOrder.status !== 'PENDING' && fuelOrder.status !== 'CONFIRMED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Fuel order cannot be accepted in current status'
-      });
+    const transition = resolveTransition(fuelOrder.status, 'ACCEPTED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // For drivers, they can accept any unassigned order or their own assigned order
@@ -484,11 +583,7 @@ router.post('/:id/accept', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
     }
 
     // Update fuel order status and assign driver if not already assigned
-    const updateData: any = {
-      status: 'ACCEPTED',
-      acceptedAt: new Date(),
-      updatedAt: new Date()
-    };
+    const updateData: any = { ...transition.updates };
 
     // If no driver is assigned and current user is a driver, assign them
     if (!fuelOrder.driverId && currentUser.role === 'DRIVER') {
@@ -501,6 +596,14 @@ router.post('/:id/accept', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
       .where(eq(fuelOrders.id, fuelOrderId))
       .returning();
 
+    await recordStatusChange({
+      fuelOrderId,
+      fromStatus: fuelOrder.status,
+      toStatus: 'ACCEPTED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
@@ -523,6 +626,170 @@ router.post('/:id/accept', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
   }
 });
 
+// POST /api/fuel-orders/:id/pickup - Mark fuel order as picked up from the station
+router.post('/:id/pickup', requireAuth, requireRole(['DRIVER', 'ADMIN']), async (req, res) => {
+  try {
+    const fuelOrderId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(fuelOrderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel order ID'
+      });
+    }
+
+    // Check if fuel order exists
+    const existingFuelOrder = await db
+      .select()
+      .from(fuelOrders)
+      .where(and(
+        eq(fuelOrders.id, fuelOrderId),
+        isNull(fuelOrders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existingFuelOrder.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel order not found'
+      });
+    }
+
+    const fuelOrder = existingFuelOrder[0];
+
+    // Check if fuel order is in the right status
+    const transition = resolveTransition(fuelOrder.status, 'PICKED_UP', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
+    // Check permissions (only assigned driver or admin)
+    if (currentUser.role !== 'ADMIN' && currentUser.id !== fuelOrder.driverId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the assigned driver can mark fuel order as picked up'
+      });
+    }
+
+    const updatedFuelOrder = await db
+      .update(fuelOrders)
+      .set(transition.updates)
+      .where(eq(fuelOrders.id, fuelOrderId))
+      .returning();
+
+    await recordStatusChange({
+      fuelOrderId,
+      fromStatus: fuelOrder.status,
+      toStatus: 'PICKED_UP',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
+
+    // Log audit event
+    await logAuditEvent(
+      currentUser.id,
+      'FUEL_ORDER_PICKED_UP',
+      fuelOrderId,
+      { stationId: fuelOrder.stationId }
+    );
+
+    res.json({
+      success: true,
+      message: 'Fuel order marked as picked up successfully',
+      data: updatedFuelOrder[0]
+    });
+  } catch (error) {
+    console.error('Pickup fuel order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark fuel order as picked up'
+    });
+  }
+});
+
+// POST /api/fuel-orders/:id/deliver - Mark fuel order as delivered
+router.post('/:id/deliver', requireAuth, requireRole(['DRIVER', 'ADMIN']), async (req, res) => {
+  try {
+    const fuelOrderId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(fuelOrderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel order ID'
+      });
+    }
+
+    // Check if fuel order exists
+    const existingFuelOrder = await db
+      .select()
+      .from(fuelOrders)
+      .where(and(
+        eq(fuelOrders.id, fuelOrderId),
+        isNull(fuelOrders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existingFuelOrder.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel order not found'
+      });
+    }
+
+    const fuelOrder = existingFuelOrder[0];
+
+    // Check if fuel order is in the right status
+    const transition = resolveTransition(fuelOrder.status, 'DELIVERED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
+    // Check permissions (only assigned driver or admin)
+    if (currentUser.role !== 'ADMIN' && currentUser.id !== fuelOrder.driverId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the assigned driver can mark fuel order as delivered'
+      });
+    }
+
+    const updatedFuelOrder = await db
+      .update(fuelOrders)
+      .set(transition.updates)
+      .where(eq(fuelOrders.id, fuelOrderId))
+      .returning();
+
+    await recordStatusChange({
+      fuelOrderId,
+      fromStatus: fuelOrder.status,
+      toStatus: 'DELIVERED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
+
+    // Log audit event
+    await logAuditEvent(
+      currentUser.id,
+      'FUEL_ORDER_DELIVERED',
+      fuelOrderId,
+      { stationId: fuelOrder.stationId }
+    );
+
+    res.json({
+      success: true,
+      message: 'Fuel order marked as delivered successfully',
+      data: updatedFuelOrder[0]
+    });
+  } catch (error) {
+    console.error('Deliver fuel order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark fuel order as delivered'
+    });
+  }
+});
+
 // POST /api/fuel-orders/:id/cancel - Cancel a fuel order
 router.post('/:id/cancel', requireAuth, async (req, res) => {
   try {
@@ -557,11 +824,9 @@ router.post('/:id/cancel', requireAuth, async (req, res) => {
     const fuelOrder = existingFuelOrder[0];
 
     // Check if fuel order can be cancelled
-    if (fuelOrder.status === 'DELIVERED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Delivered fuel orders cannot be cancelled'
-      });
+    const transition = resolveTransition(fuelOrder.status, 'CANCELLED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Check permissions (customer, admin, or assigned driver can cancel)
@@ -576,13 +841,21 @@ router.post('/:id/cancel', requireAuth, async (req, res) => {
 
     const updatedFuelOrder = await db
       .update(fuelOrders)
-      .set({
-        status: 'CANCELLED',
-        updatedAt: new Date()
-      })
+      .set(transition.updates)
       .where(eq(fuelOrders.id, fuelOrderId))
       .returning();
 
+    await FuelStationService.releaseForOrder(fuelOrder);
+
+    await recordStatusChange({
+      fuelOrderId,
+      fromStatus: fuelOrder.status,
+      toStatus: 'CANCELLED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role,
+      reason
+    });
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
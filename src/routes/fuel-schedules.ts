@@ -0,0 +1,428 @@
+import express from 'express';
+import { db } from '../db/config';
+import { fuelOrderSchedules, fuelOrders, auditLogs } from '../db/schema';
+import { eq, isNull, desc, and, asc, gt } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import FuelScheduleService, { ScheduleActionResult } from '../services/fuel-schedules';
+import FuelStationService, { FUEL_TYPES } from '../services/fuel-stations';
+
+const router = express.Router();
+
+// Validation schemas
+const createScheduleSchema = z.object({
+  stationId: z.number().int().positive(),
+  fuelType: z.enum(FUEL_TYPES),
+  quantity: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+    message: "Quantity must be a positive number"
+  }),
+  deliveryAddress: z.string().min(1),
+  deliveryLatitude: z.string().optional().refine((val) => !val || !isNaN(Number(val)), {
+    message: "Delivery latitude must be a valid number"
+  }),
+  deliveryLongitude: z.string().optional().refine((val) => !val || !isNaN(Number(val)), {
+    message: "Delivery longitude must be a valid number"
+  }),
+  notes: z.string().optional(),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  dayOfMonth: z.number().int().min(1).max(28).optional(),
+  timeOfDay: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time of day must be HH:MM'),
+  utcOffsetMinutes: z.number().int().min(-720).max(840).default(60),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional()
+}).refine((data) => data.frequency !== 'WEEKLY' || (data.daysOfWeek && data.daysOfWeek.length > 0), {
+  message: "Weekly schedules need at least one day of the week",
+  path: ['daysOfWeek']
+}).refine((data) => data.frequency !== 'MONTHLY' || data.dayOfMonth, {
+  message: "Monthly schedules need a day of the month",
+  path: ['dayOfMonth']
+});
+
+const skipScheduleSchema = z.object({
+  occurrence: z.string().datetime().optional()
+});
+
+// Helper function to log audit events
+const logAuditEvent = async (userId: number, action: string, entityId: number, details: any = {}) => {
+  try {
+    await db.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'FUEL_ORDER_SCHEDULE',
+      entityId,
+      details,
+      ipAddress: '',
+      userAgent: ''
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
+
+// Loads a schedule the current user may manage (its customer, or an admin)
+const findSchedule = async (scheduleId: number, currentUser: { id: number; role: string }) => {
+  const conditions = [eq(fuelOrderSchedules.id, scheduleId)];
+
+  if (currentUser.role !== 'ADMIN') {
+    conditions.push(eq(fuelOrderSchedules.customerId, currentUser.id));
+  }
+
+  const [schedule] = await db
+    .select()
+    .from(fuelOrderSchedules)
+    .where(and(...conditions))
+    .limit(1);
+
+  return schedule || null;
+};
+
+const sendActionResult = (res: express.Response, result: ScheduleActionResult, message: string) => {
+  if (!result.success) {
+    return res.status(result.status).json({
+      success: false,
+      message: result.message
+    });
+  }
+
+  res.json({
+    success: true,
+    message,
+    data: {
+      schedule: result.schedule,
+      ...(result.skippedOccurrence && { skippedOccurrence: result.skippedOccurrence }),
+      ...(result.cancelledFuelOrderIds && { cancelledFuelOrderIds: result.cancelledFuelOrderIds })
+    }
+  });
+};
+
+// POST /api/fuel-schedules - Create a recurring fuel delivery schedule
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const validatedData = createScheduleSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    // Each delivery is priced when it is created; the station only has to sell the fuel today
+    const station = await FuelStationService.getStation(validatedData.stationId);
+    if (!station || !station.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel station not found'
+      });
+    }
+
+    if (!await FuelStationService.getCurrentPrice(station.id, validatedData.fuelType)) {
+      return res.status(409).json({
+        success: false,
+        message: `${station.name} does not currently sell ${validatedData.fuelType}`
+      });
+    }
+
+    const rule = {
+      frequency: validatedData.frequency,
+      daysOfWeek: validatedData.daysOfWeek || [],
+      dayOfMonth: validatedData.dayOfMonth || null,
+      timeOfDay: validatedData.timeOfDay,
+      utcOffsetMinutes: validatedData.utcOffsetMinutes,
+      startDate: validatedData.startDate ? new Date(validatedData.startDate) : new Date(),
+      endDate: validatedData.endDate ? new Date(validatedData.endDate) : null
+    };
+
+    const nextRunAt = FuelScheduleService.nextOccurrence(rule, new Date());
+    if (!nextRunAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Schedule has no upcoming deliveries'
+      });
+    }
+
+    const [schedule] = await db
+      .insert(fuelOrderSchedules)
+      .values({
+        customerId: currentUser.id,
+        stationId: validatedData.stationId,
+        fuelType: validatedData.fuelType,
+        quantity: validatedData.quantity,
+        deliveryAddress: validatedData.deliveryAddress,
+        deliveryLatitude: validatedData.deliveryLatitude || null,
+        deliveryLongitude: validatedData.deliveryLongitude || null,
+        notes: validatedData.notes || null,
+        ...rule,
+        nextRunAt
+      })
+      .returning();
+
+    await logAuditEvent(
+      currentUser.id,
+      'FUEL_SCHEDULE_CREATED',
+      schedule.id,
+      { frequency: schedule.frequency, fuelType: schedule.fuelType, quantity: schedule.quantity }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Fuel delivery schedule created successfully',
+      data: schedule
+    });
+  } catch (error) {
+    console.error('Create fuel schedule error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create fuel delivery schedule'
+    });
+  }
+});
+
+// GET /api/fuel-schedules - List the current user's schedules (all schedules for admins)
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const currentUser = req.user!;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const status = req.query.status as string;
+    const offset = (page - 1) * limit;
+
+    const conditions = [];
+    if (currentUser.role !== 'ADMIN') {
+      conditions.push(eq(fuelOrderSchedules.customerId, currentUser.id));
+    }
+    if (status) {
+      conditions.push(eq(fuelOrderSchedules.status, status));
+    }
+
+    const schedules = await db
+      .select()
+      .from(fuelOrderSchedules)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(fuelOrderSchedules.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    res.json({
+      success: true,
+      data: schedules,
+      pagination: {
+        currentPage: page,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    console.error('Get fuel schedules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch fuel delivery schedules'
+    });
+  }
+});
+
+// GET /api/fuel-schedules/:id - Get a schedule with its upcoming fuel orders
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid schedule ID'
+      });
+    }
+
+    const schedule = await findSchedule(scheduleId, req.user!);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    const upcomingOrders = await db
+      .select()
+      .from(fuelOrders)
+      .where(and(
+        eq(fuelOrders.scheduleId, scheduleId),
+        gt(fuelOrders.scheduledDeliveryTime, new Date()),
+        isNull(fuelOrders.deletedAt)
+      ))
+      .orderBy(asc(fuelOrders.scheduledDeliveryTime));
+
+    res.json({
+      success: true,
+      data: {
+        ...schedule,
+        upcomingOrders
+      }
+    });
+  } catch (error) {
+    console.error('Get fuel schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch fuel delivery schedule'
+    });
+  }
+});
+
+// POST /api/fuel-schedules/:id/pause - Stop creating orders until resumed
+router.post('/:id/pause', requireAuth, async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid schedule ID'
+      });
+    }
+
+    const schedule = await findSchedule(scheduleId, req.user!);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    const result = await FuelScheduleService.pause(schedule);
+    if (result.success) {
+      await logAuditEvent(req.user!.id, 'FUEL_SCHEDULE_PAUSED', scheduleId);
+    }
+
+    sendActionResult(res, result, 'Fuel delivery schedule paused');
+  } catch (error) {
+    console.error('Pause fuel schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to pause fuel delivery schedule'
+    });
+  }
+});
+
+// POST /api/fuel-schedules/:id/resume - Resume a paused schedule from the next occurrence
+router.post('/:id/resume', requireAuth, async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid schedule ID'
+      });
+    }
+
+    const schedule = await findSchedule(scheduleId, req.user!);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    const result = await FuelScheduleService.resume(schedule);
+    if (result.success) {
+      await logAuditEvent(req.user!.id, 'FUEL_SCHEDULE_RESUMED', scheduleId, { nextRunAt: result.schedule!.nextRunAt });
+    }
+
+    sendActionResult(res, result, 'Fuel delivery schedule resumed');
+  } catch (error) {
+    console.error('Resume fuel schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resume fuel delivery schedule'
+    });
+  }
+});
+
+// POST /api/fuel-schedules/:id/skip - Skip the next (or a given) delivery
+router.post('/:id/skip', requireAuth, async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+    const { occurrence } = skipScheduleSchema.parse(req.body || {});
+
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid schedule ID'
+      });
+    }
+
+    const schedule = await findSchedule(scheduleId, req.user!);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    const result = await FuelScheduleService.skip(schedule, req.user!, occurrence ? new Date(occurrence) : undefined);
+    if (result.success) {
+      await logAuditEvent(req.user!.id, 'FUEL_SCHEDULE_SKIPPED', scheduleId, {
+        occurrence: result.skippedOccurrence,
+        cancelledFuelOrderIds: result.cancelledFuelOrderIds || []
+      });
+    }
+
+    sendActionResult(res, result, 'Scheduled delivery skipped');
+  } catch (error) {
+    console.error('Skip fuel schedule error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to skip scheduled delivery'
+    });
+  }
+});
+
+// POST /api/fuel-schedules/:id/cancel - Cancel the schedule and its upcoming orders
+router.post('/:id/cancel', requireAuth, async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid schedule ID'
+      });
+    }
+
+    const schedule = await findSchedule(scheduleId, req.user!);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    const result = await FuelScheduleService.cancel(schedule, req.user!);
+    if (result.success) {
+      await logAuditEvent(req.user!.id, 'FUEL_SCHEDULE_CANCELLED', scheduleId, {
+        cancelledFuelOrderIds: result.cancelledFuelOrderIds
+      });
+    }
+
+    sendActionResult(res, result, 'Fuel delivery schedule cancelled');
+  } catch (error) {
+    console.error('Cancel fuel schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to cancel fuel delivery schedule'
+    });
+  }
+});
+
+export default router;
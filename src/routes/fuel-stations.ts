@@ -0,0 +1,482 @@
+import express from 'express';
+import { db } from '../db/config';
+import { fuelStations, fuelPrices, auditLogs } from '../db/schema';
+import { eq, isNull, desc, and, ilike, count } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireAuth, requireRole } from '../utils/auth';
+import FuelStationService, { FUEL_TYPES } from '../services/fuel-stations';
+
+const router = express.Router();
+
+// Validation schemas
+const coordinate = (label: string) => z.string().optional().refine((val) => !val || !isNaN(Number(val)), {
+  message: `${label} must be a valid number`
+});
+
+const createStationSchema = z.object({
+  name: z.string().min(1),
+  address: z.string().optional(),
+  latitude: coordinate('Latitude'),
+  longitude: coordinate('Longitude'),
+  phone: z.string().optional()
+});
+
+const updateStationSchema = createStationSchema.partial().extend({
+  isActive: z.boolean().optional()
+});
+
+const setStockSchema = z.object({
+  fuelType: z.enum(FUEL_TYPES),
+  quantityLitres: z.number().min(0)
+});
+
+const setPriceSchema = z.object({
+  fuelType: z.enum(FUEL_TYPES),
+  pricePerLitre: z.number().positive(),
+  effectiveFrom: z.string().datetime().optional()
+});
+
+const nearbySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  radius: z.coerce.number().positive().max(100).default(10),
+  fuelType: z.enum(FUEL_TYPES).optional()
+});
+
+const quoteSchema = z.object({
+  fuelType: z.enum(FUEL_TYPES),
+  quantity: z.coerce.number().positive()
+});
+
+// Helper function to log audit events
+const logAuditEvent = async (userId: number, action: string, entityId: number, details: any = {}) => {
+  try {
+    await db.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'FUEL_STATION',
+      entityId,
+      details,
+      ipAddress: '',
+      userAgent: ''
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
+
+// Loads a station the current user may manage (its owner, or an admin)
+const findManagedStation = async (stationId: number, currentUser: { id: number; role: string }) => {
+  const station = await FuelStationService.getStation(stationId);
+  if (!station) return null;
+  if (currentUser.role !== 'ADMIN' && station.ownerId !== currentUser.id) return null;
+  return station;
+};
+
+// POST /api/fuel-stations - Register a fuel station
+router.post('/', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const validatedData = createStationSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    const [station] = await db
+      .insert(fuelStations)
+      .values({
+        ownerId: currentUser.id,
+        name: validatedData.name,
+        address: validatedData.address || null,
+        latitude: validatedData.latitude || null,
+        longitude: validatedData.longitude || null,
+        phone: validatedData.phone || null
+      })
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'FUEL_STATION_CREATED', station.id, { name: station.name });
+
+    res.status(201).json({
+      success: true,
+      message: 'Fuel station created successfully',
+      data: station
+    });
+  } catch (error) {
+    console.error('Create fuel station error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create fuel station'
+    });
+  }
+});
+
+// GET /api/fuel-stations - List active fuel stations with their current prices and stock
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const conditions = [isNull(fuelStations.deletedAt), eq(fuelStations.isActive, true)];
+    if (search) {
+      conditions.push(ilike(fuelStations.name, `%${search}%`));
+    }
+
+    const stations = await db
+      .select()
+      .from(fuelStations)
+      .where(and(...conditions))
+      .orderBy(fuelStations.name)
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(fuelStations)
+      .where(and(...conditions));
+
+    const offers = await FuelStationService.getOffers(stations.map(station => station.id));
+
+    res.json({
+      success: true,
+      data: stations.map(station => ({ ...station, offers: offers.get(station.id) || [] })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get fuel stations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch fuel stations'
+    });
+  }
+});
+
+// GET /api/fuel-stations/nearby - Stations within a radius, nearest first
+router.get('/nearby', requireAuth, async (req, res) => {
+  try {
+    const { latitude, longitude, radius, fuelType } = nearbySchema.parse(req.query);
+
+    const stations = await FuelStationService.findNearby(latitude, longitude, radius, fuelType);
+
+    res.json({
+      success: true,
+      data: stations
+    });
+  } catch (error) {
+    console.error('Nearby fuel stations error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to find nearby fuel stations'
+    });
+  }
+});
+
+// GET /api/fuel-stations/:id - Get a station with its current prices and stock
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const stationId = parseInt(req.params.id);
+    if (isNaN(stationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel station ID'
+      });
+    }
+
+    const station = await FuelStationService.getStation(stationId);
+    if (!station) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel station not found'
+      });
+    }
+
+    const offers = await FuelStationService.getOffers([station.id]);
+
+    res.json({
+      success: true,
+      data: { ...station, offers: offers.get(station.id) || [] }
+    });
+  } catch (error) {
+    console.error('Get fuel station error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch fuel station'
+    });
+  }
+});
+
+// PUT /api/fuel-stations/:id - Update a station's profile
+router.put('/:id', requireAuth, async (req, res) => {
+  try {
+    const stationId = parseInt(req.params.id);
+    if (isNaN(stationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel station ID'
+      });
+    }
+
+    const validatedData = updateStationSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    const station = await findManagedStation(stationId, currentUser);
+    if (!station) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel station not found'
+      });
+    }
+
+    const [updated] = await db
+      .update(fuelStations)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(eq(fuelStations.id, stationId))
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'FUEL_STATION_UPDATED', stationId, { updatedFields: Object.keys(validatedData) });
+
+    res.json({
+      success: true,
+      message: 'Fuel station updated successfully',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Update fuel station error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update fuel station'
+    });
+  }
+});
+
+// PUT /api/fuel-stations/:id/stock - Set the litres on hand for a fuel type
+router.put('/:id/stock', requireAuth, async (req, res) => {
+  try {
+    const stationId = parseInt(req.params.id);
+    if (isNaN(stationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel station ID'
+      });
+    }
+
+    const { fuelType, quantityLitres } = setStockSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    const station = await findManagedStation(stationId, currentUser);
+    if (!station) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel station not found'
+      });
+    }
+
+    const level = await FuelStationService.setStock(stationId, fuelType, quantityLitres);
+
+    await logAuditEvent(currentUser.id, 'FUEL_STOCK_UPDATED', stationId, { fuelType, quantityLitres });
+
+    res.json({
+      success: true,
+      message: 'Fuel stock updated successfully',
+      data: level
+    });
+  } catch (error) {
+    console.error('Update fuel stock error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update fuel stock'
+    });
+  }
+});
+
+// POST /api/fuel-stations/:id/prices - Publish a per-litre price, now or from a future time
+router.post('/:id/prices', requireAuth, async (req, res) => {
+  try {
+    const stationId = parseInt(req.params.id);
+    if (isNaN(stationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel station ID'
+      });
+    }
+
+    const validatedData = setPriceSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    const station = await findManagedStation(stationId, currentUser);
+    if (!station) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fuel station not found'
+      });
+    }
+
+    // Prices are never edited in place so past orders keep an auditable trail
+    const [price] = await db
+      .insert(fuelPrices)
+      .values({
+        stationId,
+        fuelType: validatedData.fuelType,
+        pricePerLitre: validatedData.pricePerLitre.toFixed(2),
+        effectiveFrom: validatedData.effectiveFrom ? new Date(validatedData.effectiveFrom) : new Date(),
+        createdBy: currentUser.id
+      })
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'FUEL_PRICE_SET', stationId, {
+      fuelType: price.fuelType,
+      pricePerLitre: price.pricePerLitre,
+      effectiveFrom: price.effectiveFrom
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Fuel price set successfully',
+      data: price
+    });
+  } catch (error) {
+    console.error('Set fuel price error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to set fuel price'
+    });
+  }
+});
+
+// GET /api/fuel-stations/:id/prices - Price history, newest first
+router.get('/:id/prices', requireAuth, async (req, res) => {
+  try {
+    const stationId = parseInt(req.params.id);
+    if (isNaN(stationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel station ID'
+      });
+    }
+
+    const fuelType = req.query.fuelType as string;
+    const conditions = [eq(fuelPrices.stationId, stationId)];
+    if (fuelType) {
+      conditions.push(eq(fuelPrices.fuelType, fuelType));
+    }
+
+    const prices = await db
+      .select()
+      .from(fuelPrices)
+      .where(and(...conditions))
+      .orderBy(desc(fuelPrices.effectiveFrom), desc(fuelPrices.id))
+      .limit(100);
+
+    res.json({
+      success: true,
+      data: prices
+    });
+  } catch (error) {
+    console.error('Get fuel prices error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch fuel prices'
+    });
+  }
+});
+
+// GET /api/fuel-stations/:id/quote - Price a fuel order before placing it
+router.get('/:id/quote', requireAuth, async (req, res) => {
+  try {
+    const stationId = parseInt(req.params.id);
+    if (isNaN(stationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid fuel station ID'
+      });
+    }
+
+    const { fuelType, quantity } = quoteSchema.parse(req.query);
+
+    const quote = await FuelStationService.quote(stationId, fuelType, quantity);
+    if (!quote.success) {
+      return res.status(quote.status).json({
+        success: false,
+        message: quote.message,
+        ...(quote.availableLitres !== undefined && { availableLitres: quote.availableLitres })
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        stationId,
+        fuelType,
+        quantity,
+        unitPrice: quote.unitPrice,
+        totalAmount: quote.totalAmount,
+        availableLitres: quote.availableLitres
+      }
+    });
+  } catch (error) {
+    console.error('Fuel quote error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to price fuel order'
+    });
+  }
+});
+
+export default router;
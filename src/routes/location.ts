@@ -6,6 +6,7 @@ import { eq, and, desc } from 'drizzle-orm';
 import { requireAuth } from '../utils/auth';
 import { adminRealtimeDb } from '../config/firebase-admin';
 import { z } from 'zod';
+import GeofenceService from '../services/geofence';
 
 const router = express.Router();
 
@@ -73,10 +74,16 @@ router.put('/live', requireAuth, async (req, res) => {
         });
     }
 
+    // Fire pickup/drop-off geofence events for the driver's active orders
+    const geofenceEvents = driver
+      ? await GeofenceService.checkDriverLocation(userId, latitude, longitude)
+      : [];
+
     res.json({
       success: true,
       message: 'Location updated successfully',
-      data: locationData
+      data: locationData,
+      geofenceEvents
     });
   } catch (error) {
     console.error('Update location error:', error);
@@ -1,8 +1,8 @@
 
 import express from 'express';
 import { db } from '../db/config';
-import { orders, ratings, products, users, merchantProfiles } from '../db/schema';
-import { eq, and, desc, sql, gte, lte, isNull } from 'drizzle-orm';
+import { orders, ratings, products, users, merchantProfiles, orderItems, categories } from '../db/schema';
+import { eq, and, desc, sql, gte, lte, isNull, ne, or, isNotNull, inArray } from 'drizzle-orm';
 import { requireAuth, requireRole } from '../utils/auth';
 
 const router = express.Router();
@@ -95,6 +95,98 @@ router.get('/:id/analytics', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/merchants/:id/low-stock - Products out of stock or below their reorder threshold
+router.get('/:id/low-stock', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const merchantId = parseInt(req.params.id);
+
+    if (isNaN(merchantId)) {
+      return res.status(400).json({ success: false, message: 'Invalid merchant ID' });
+    }
+
+    if (req.user!.role !== 'ADMIN' && req.user!.id !== merchantId) {
+      return res.status(403).json({ success: false, message: 'Access denied' });
+    }
+
+    const lowStock = await db
+      .select({
+        id: products.id,
+        sku: products.sku,
+        name: products.name,
+        categoryName: categories.name,
+        stockQuantity: products.stockQuantity,
+        reorderThreshold: products.reorderThreshold,
+        isAvailable: products.isAvailable,
+        stockedOutAt: products.stockedOutAt,
+        lowStockAlertedAt: products.lowStockAlertedAt
+      })
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .where(and(
+        eq(products.merchantId, merchantId),
+        isNull(products.deletedAt),
+        eq(products.isActive, true),
+        or(
+          lte(products.stockQuantity, 0),
+          and(isNotNull(products.reorderThreshold), sql`${products.stockQuantity} < ${products.reorderThreshold}`)
+        )
+      ));
+
+    // Recent sales give each product a rough number of days its stock will last
+    const salesWindowDays = 30;
+    const since = new Date(Date.now() - salesWindowDays * 24 * 60 * 60 * 1000);
+    const sales = lowStock.length
+      ? await db
+          .select({
+            productId: orderItems.productId,
+            unitsSold: sql<number>`COALESCE(SUM(${orderItems.quantity}), 0)::int`
+          })
+          .from(orderItems)
+          .innerJoin(orders, eq(orderItems.orderId, orders.id))
+          .where(and(
+            inArray(orderItems.productId, lowStock.map(product => product.id)),
+            ne(orders.status, 'CANCELLED'),
+            gte(orders.createdAt, since),
+            isNull(orderItems.deletedAt)
+          ))
+          .groupBy(orderItems.productId)
+      : [];
+
+    const report = lowStock
+      .map(product => {
+        const unitsSold = sales.find(sale => sale.productId === product.id)?.unitsSold || 0;
+        const dailySales = unitsSold / salesWindowDays;
+        const stock = Math.max(product.stockQuantity || 0, 0);
+
+        return {
+          ...product,
+          status: stock === 0 ? 'OUT_OF_STOCK' : 'LOW_STOCK',
+          unitsSoldLast30Days: unitsSold,
+          daysOfStockLeft: dailySales > 0 ? Math.floor(stock / dailySales) : null,
+          // Enough to get back to the threshold plus a month of recent sales
+          suggestedReorderQuantity: Math.max((product.reorderThreshold || 0) - stock, 0) + unitsSold
+        };
+      })
+      // Out of stock first, then whatever will run out soonest
+      .sort((a, b) =>
+        Number(b.status === 'OUT_OF_STOCK') - Number(a.status === 'OUT_OF_STOCK') ||
+        (a.daysOfStockLeft ?? Infinity) - (b.daysOfStockLeft ?? Infinity) ||
+        (a.stockQuantity || 0) - (b.stockQuantity || 0));
+
+    res.json({
+      success: true,
+      data: {
+        outOfStock: report.filter(product => product.status === 'OUT_OF_STOCK').length,
+        lowStock: report.filter(product => product.status === 'LOW_STOCK').length,
+        products: report
+      }
+    });
+  } catch (error) {
+    console.error('Get low stock report error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get low stock report' });
+  }
+});
+
 // GET /api/merchants/:id/reviews - Get merchant reviews
 router.get('/:id/reviews', async (req, res) => {
   try {
@@ -1,8 +1,13 @@
 import express from 'express';
+import multer from 'multer';
+import { once } from 'events';
 import { db } from '../db/config';
-import { products, merchantProfiles } from '../db/schema';
-import { eq, and, isNull } from 'drizzle-orm';
+import { products, merchantProfiles, categories, auditLogs } from '../db/schema';
+import { eq, and, isNull, gt, asc } from 'drizzle-orm';
 import { requireAuth, requireRole } from '../utils/auth';
+import { withTransaction } from '../utils/db-transaction';
+import { parseCsv, toCsvRow } from '../utils/csv';
+import StockAlertService from '../services/stock-alerts';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -15,6 +20,42 @@ const inventoryItemSchema = z.object({
   categoryId: z.number().int().positive(),
 });
 
+// A CSV row is an inventory item plus the merchant SKU that identifies it
+const inventoryRowSchema = inventoryItemSchema.extend({
+  sku: z.string().min(1).max(64),
+});
+
+const MAX_IMPORT_ROWS = 5000;
+const EXPORT_BATCH_SIZE = 500;
+const EXPORT_COLUMNS = ['sku', 'name', 'description', 'price', 'quantity', 'categoryId', 'category', 'unit', 'isAvailable'];
+
+// The CSV comes either as a multipart file upload ("file") or as a text/csv body
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
+const csvBody = express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' });
+
+interface ImportRowResult {
+  row: number;
+  sku: string | null;
+  action: 'CREATE' | 'UPDATE' | 'ERROR';
+  errors: Array<{ field: string; message: string }>;
+  data?: z.infer<typeof inventoryRowSchema>;
+}
+
+// Helper function to log audit events
+const logAuditEvent = async (userId: number, action: string, entityId: number, details: any) => {
+  try {
+    await db.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'MERCHANT_INVENTORY',
+      entityId,
+      details
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
+
 // Add an item to a merchant's inventory
 router.post('/merchants/:id/inventory', requireAuth, requireRole(['MERCHANT']), async (req, res) => {
   try {
@@ -68,4 +109,267 @@ router.get('/merchants/:id/inventory', requireAuth, async (req, res) => {
   }
 });
 
+// POST /api/merchants/:id/inventory/import?dryRun=true - Create or update products from a CSV, keyed by SKU
+router.post('/merchants/:id/inventory/import', requireAuth, requireRole(['MERCHANT']), upload.single('file'), csvBody, async (req, res) => {
+  try {
+    const currentUser = req.user!;
+    const merchantId = parseInt(req.params.id);
+    const dryRun = req.query.dryRun === 'true';
+
+    const [merchantProfile] = await db.select().from(merchantProfiles).where(and(eq(merchantProfiles.userId, currentUser.id), eq(merchantProfiles.id, merchantId)));
+
+    if (!merchantProfile) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. You can only import inventory to your own merchant profile.'
+      });
+    }
+
+    const text = req.file ? req.file.buffer.toString('utf8') : typeof req.body === 'string' ? req.body : '';
+    const [header, ...records] = parseCsv(text);
+
+    if (!header || !records.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a CSV file with a header row and at least one product'
+      });
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        message: `A CSV import can hold at most ${MAX_IMPORT_ROWS} products`
+      });
+    }
+
+    const columns = header.map(column => column.trim());
+    const missing = ['sku', 'name', 'price', 'quantity'].filter(column => !columns.includes(column));
+    if (!columns.includes('categoryId') && !columns.includes('category')) missing.push('categoryId or category');
+    if (missing.length) {
+      return res.status(400).json({
+        success: false,
+        message: `CSV is missing columns: ${missing.join(', ')}`
+      });
+    }
+
+    const categoryRows = await db
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .where(isNull(categories.deletedAt));
+    const categoryIdsByName = new Map(categoryRows.map(category => [category.name.trim().toLowerCase(), category.id]));
+    const categoryIds = new Set(categoryRows.map(category => category.id));
+
+    // Deleted products keep their SKU, so an import brings them back rather than clashing
+    const existing = await db
+      .select({ id: products.id, sku: products.sku })
+      .from(products)
+      .where(eq(products.merchantId, currentUser.id));
+    const productIdsBySku = new Map(existing.filter(product => product.sku).map(product => [product.sku!, product.id]));
+
+    const seenSkus = new Set<string>();
+    const results: ImportRowResult[] = records.map((record, i) => {
+      const raw: Record<string, string> = Object.fromEntries(columns.map((column, c) => [column, (record[c] ?? '').trim()]));
+      const errors: ImportRowResult['errors'] = [];
+
+      let categoryId: number | undefined = raw.categoryId ? Number(raw.categoryId) : undefined;
+      if (categoryId === undefined && raw.category) {
+        categoryId = categoryIdsByName.get(raw.category.toLowerCase());
+        if (categoryId === undefined) {
+          errors.push({ field: 'category', message: `Unknown category "${raw.category}"` });
+        }
+      }
+
+      const parsed = inventoryRowSchema.safeParse({
+        sku: raw.sku,
+        name: raw.name,
+        description: raw.description || undefined,
+        price: raw.price === '' ? undefined : Number(raw.price),
+        quantity: raw.quantity === '' ? undefined : Number(raw.quantity),
+        categoryId
+      });
+
+      if (!parsed.success) {
+        errors.push(...parsed.error.issues
+          .filter(issue => !(issue.path[0] === 'categoryId' && errors.length))
+          .map(issue => ({ field: issue.path.join('.'), message: issue.message })));
+      } else if (!categoryIds.has(parsed.data.categoryId)) {
+        errors.push({ field: 'categoryId', message: 'Category not found' });
+      }
+
+      if (raw.sku && seenSkus.has(raw.sku)) {
+        errors.push({ field: 'sku', message: 'SKU appears more than once in the file' });
+      }
+      seenSkus.add(raw.sku);
+
+      return {
+        // Line 1 is the header
+        row: i + 2,
+        sku: raw.sku || null,
+        action: errors.length ? 'ERROR' : productIdsBySku.has(raw.sku) ? 'UPDATE' : 'CREATE',
+        errors,
+        ...(!errors.length && { data: parsed.data })
+      };
+    });
+
+    const summary = {
+      dryRun,
+      total: results.length,
+      created: results.filter(result => result.action === 'CREATE').length,
+      updated: results.filter(result => result.action === 'UPDATE').length,
+      failed: results.filter(result => result.action === 'ERROR').length,
+      rows: results.map(({ data, ...result }) => result)
+    };
+
+    // All or nothing: a file with any bad row changes nothing
+    if (summary.failed && !dryRun) {
+      return res.status(400).json({
+        success: false,
+        message: `${summary.failed} row(s) have errors; nothing was imported`,
+        data: summary
+      });
+    }
+
+    if (dryRun) {
+      return res.json({
+        success: true,
+        message: summary.failed ? `${summary.failed} row(s) have errors` : 'All rows are valid',
+        data: summary
+      });
+    }
+
+    const importedIds = await withTransaction(async (tx) => {
+      const ids: number[] = [];
+      for (const result of results) {
+        const item = result.data!;
+        const values = {
+          name: item.name,
+          description: item.description ?? null,
+          price: item.price.toFixed(2),
+          categoryId: item.categoryId,
+          stockQuantity: item.quantity,
+          stockLevel: item.quantity,
+          updatedAt: new Date()
+        };
+
+        if (result.action === 'UPDATE') {
+          const productId = productIdsBySku.get(item.sku)!;
+          await tx
+            .update(products)
+            .set({ ...values, isActive: true, deletedAt: null })
+            .where(eq(products.id, productId));
+          ids.push(productId);
+        } else {
+          const [created] = await tx.insert(products).values({
+            ...values,
+            merchantId: currentUser.id,
+            sellerId: currentUser.id,
+            sku: item.sku
+          }).returning({ id: products.id });
+          ids.push(created.id);
+        }
+      }
+      return ids;
+    });
+
+    await StockAlertService.checkProducts(importedIds);
+
+    await logAuditEvent(currentUser.id, 'INVENTORY_IMPORTED', merchantId, {
+      total: summary.total,
+      created: summary.created,
+      updated: summary.updated
+    });
+
+    res.json({
+      success: true,
+      message: `Imported ${summary.total} product(s)`,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Import inventory error:', error);
+    res.status(500).json({ success: false, message: 'Failed to import inventory' });
+  }
+});
+
+// GET /api/merchants/:id/inventory/export - Download the merchant's full catalogue as CSV
+router.get('/merchants/:id/inventory/export', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const currentUser = req.user!;
+    const merchantId = parseInt(req.params.id);
+
+    const [merchantProfile] = await db.select().from(merchantProfiles).where(and(eq(merchantProfiles.id, merchantId), isNull(merchantProfiles.deletedAt)));
+
+    if (!merchantProfile) {
+      return res.status(404).json({ success: false, message: 'Merchant not found' });
+    }
+
+    if (currentUser.role !== 'ADMIN' && merchantProfile.userId !== currentUser.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. You can only export your own inventory.'
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="inventory-${merchantId}.csv"`);
+    res.write(toCsvRow(EXPORT_COLUMNS));
+
+    // Streamed in batches so large catalogues never sit in memory at once
+    let lastId = 0;
+    for (;;) {
+      const batch = await db
+        .select({
+          id: products.id,
+          sku: products.sku,
+          name: products.name,
+          description: products.description,
+          price: products.price,
+          stockQuantity: products.stockQuantity,
+          categoryId: products.categoryId,
+          categoryName: categories.name,
+          unit: products.unit,
+          isAvailable: products.isAvailable
+        })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .where(and(
+          eq(products.merchantId, merchantProfile.userId),
+          isNull(products.deletedAt),
+          gt(products.id, lastId)
+        ))
+        .orderBy(asc(products.id))
+        .limit(EXPORT_BATCH_SIZE);
+
+      if (!batch.length) break;
+
+      const chunk = batch
+        .map(product => toCsvRow([
+          product.sku,
+          product.name,
+          product.description,
+          product.price,
+          product.stockQuantity,
+          product.categoryId,
+          product.categoryName,
+          product.unit,
+          product.isAvailable
+        ]))
+        .join('');
+
+      if (!res.write(chunk)) {
+        await once(res, 'drain');
+      }
+
+      lastId = batch[batch.length - 1].id;
+    }
+
+    res.end();
+  } catch (error) {
+    console.error('Export inventory error:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({ success: false, message: 'Failed to export inventory' });
+  }
+});
+
 export default router;
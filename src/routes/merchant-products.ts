@@ -4,6 +4,7 @@ import { db } from '../db/config';
 import { products, users, categories } from '../db/schema';
 import { eq, and, isNull, desc } from 'drizzle-orm';
 import { requireAuth, requireRole } from '../utils/auth';
+import ProductVariantService from '../services/product-variants';
 
 const router = express.Router();
 
@@ -48,9 +49,12 @@ router.get('/:merchantId/products', requireAuth, async (req, res) => {
         isNull(products.deletedAt)
       ));
 
+    // Each product with its variants (own SKU, price, stock) and add-on groups
+    const catalogue = await ProductVariantService.getCatalogue(merchantProducts.map(row => row.product.id));
+
     res.json({
       success: true,
-      data: merchantProducts,
+      data: merchantProducts.map(row => ({ ...row, ...catalogue.get(row.product.id) })),
       pagination: {
         page,
         limit,
@@ -5,6 +5,10 @@ import { merchantProfiles, users, auditLogs, orders } from '../db/schema';
 import { eq, isNull, desc, and, or, ilike, gte, lte } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireRole, requireAdmin } from '../utils/auth';
+import { deliveryProofSettingsSchema } from '../services/delivery-proof';
+import ProductVariantService from '../services/product-variants';
+import StockAlertService from '../services/stock-alerts';
+import OperatingHoursService, { operatingHoursSchema } from '../services/operating-hours';
 
 const router = express.Router();
 
@@ -24,7 +28,7 @@ const createMerchantProfileSchema = z.object({
   }),
   phone: z.string().optional(),
   description: z.string().optional(),
-  operatingHours: z.any().default({}),
+  operatingHours: operatingHoursSchema.optional(),
   isOpen: z.boolean().default(true),
   isVerified: z.boolean().default(false),
   isActive: z.boolean().default(true),
@@ -47,7 +51,8 @@ const updateMerchantProfileSchema = z.object({
   }),
   phone: z.string().optional(),
   description: z.string().optional(),
-  operatingHours: z.any().optional(),
+  operatingHours: operatingHoursSchema.optional(),
+  deliveryProofSettings: deliveryProofSettingsSchema.optional(),
   isOpen: z.boolean().optional(),
   isVerified: z.boolean().optional(),
   isActive: z.boolean().optional(),
@@ -143,7 +148,7 @@ router.post('/', requireAuth, requireRole(['ADMIN', 'MERCHANT']), async (req, re
       longitude: validatedData.longitude || null,
       phone: validatedData.phone || null,
       description: validatedData.description || null,
-      operatingHours: validatedData.operatingHours,
+      operatingHours: validatedData.operatingHours || {},
       isOpen: validatedData.isOpen,
       isVerified: validatedData.isVerified,
       isActive: validatedData.isActive,
@@ -285,7 +290,10 @@ router.get('/', requireAuth, async (req, res) => {
 
     res.json({
       success: true,
-      data: merchantsList,
+      data: merchantsList.map(merchant => ({
+        ...merchant,
+        openingStatus: OperatingHoursService.getStatus(merchant.profile)
+      })),
       pagination: {
         page,
         limit,
@@ -363,7 +371,10 @@ router.get('/:id', requireAuth, async (req, res) => {
 
     res.json({
       success: true,
-      data: profile[0]
+      data: {
+        ...profile[0],
+        openingStatus: OperatingHoursService.getStatus(profile[0].profile)
+      }
     });
   } catch (error) {
     console.error('Get merchant profile error:', error);
@@ -374,6 +385,59 @@ router.get('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/merchants/:id/hours - Get a merchant's opening hours and whether it is open now
+router.get('/:id/hours', async (req, res) => {
+  try {
+    const profileId = parseInt(req.params.id);
+
+    if (isNaN(profileId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid merchant profile ID'
+      });
+    }
+
+    const [profile] = await db
+      .select({
+        id: merchantProfiles.id,
+        businessName: merchantProfiles.businessName,
+        isOpen: merchantProfiles.isOpen,
+        operatingHours: merchantProfiles.operatingHours
+      })
+      .from(merchantProfiles)
+      .where(and(
+        eq(merchantProfiles.id, profileId),
+        isNull(merchantProfiles.deletedAt),
+        eq(merchantProfiles.isActive, true)
+      ))
+      .limit(1);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        message: 'Merchant profile not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: profile.id,
+        businessName: profile.businessName,
+        isOpen: profile.isOpen,
+        schedule: OperatingHoursService.parse(profile.operatingHours),
+        ...OperatingHoursService.getStatus(profile)
+      }
+    });
+  } catch (error) {
+    console.error('Get merchant hours error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve merchant hours'
+    });
+  }
+});
+
 // PUT /api/merchants/:id - Update merchant profile details
 router.put('/:id', requireAuth, async (req, res) => {
   try {
@@ -530,7 +594,7 @@ router.get('/nearby', async (req, res) => {
     // Support both lat/lng and latitude/longitude parameter formats
     const lat = (req.query.lat || req.query.latitude) as string;
     const lng = (req.query.lng || req.query.longitude) as string;
-    const { radius = '10', type } = req.query;
+    const { radius = '10', type, openNow } = req.query;
 
     if (!lat || !lng) {
       return res.status(400).json({
@@ -572,6 +636,7 @@ router.get('/nearby', async (req, res) => {
         longitude: merchantProfiles.longitude,
         description: merchantProfiles.description,
         isOpen: merchantProfiles.isOpen,
+        operatingHours: merchantProfiles.operatingHours,
         user: {
           fullName: users.fullName,
           averageRating: users.averageRating,
@@ -584,8 +649,9 @@ router.get('/nearby', async (req, res) => {
 
     // Calculate distance for each merchant
     const GeolocationService = await import('../services/geolocation');
-    const nearbyMerchants = merchants
+    const nearbyMerchants = OperatingHoursService.annotate(merchants)
       .filter(m => m.latitude && m.longitude)
+      .filter(m => openNow !== 'true' || m.openNow)
       .map(m => {
         const distance = GeolocationService.default.haversineDistance(
           { latitude, longitude },
@@ -635,6 +701,7 @@ router.get('/nearby/live', requireAuth, async (req, res) => {
         latitude: merchantProfiles.latitude,
         longitude: merchantProfiles.longitude,
         isOpen: merchantProfiles.isOpen,
+        operatingHours: merchantProfiles.operatingHours,
         user: {
           fullName: users.fullName,
           averageRating: users.averageRating
@@ -649,8 +716,8 @@ router.get('/nearby/live', requireAuth, async (req, res) => {
       ));
 
     const GeolocationService = await import('../services/geolocation');
-    const nearbyMerchants = merchants
-      .filter(m => m.latitude && m.longitude)
+    const nearbyMerchants = OperatingHoursService.annotate(merchants)
+      .filter(m => m.openNow && m.latitude && m.longitude)
       .map(m => {
         const distance = GeolocationService.default.haversineDistance(
           { latitude, longitude },
@@ -887,9 +954,11 @@ router.get('/:merchantId/commodities', async (req, res) => {
         isNull(productsTable.deletedAt)
       ));
 
+    const catalogue = await ProductVariantService.getCatalogue(merchantCommodities.map(row => row.id));
+
     res.json({
       success: true,
-      data: merchantCommodities
+      data: merchantCommodities.map(row => ({ ...row, ...catalogue.get(row.id) }))
     });
   } catch (error) {
     console.error('Get merchant commodities error:', error);
@@ -1029,6 +1098,8 @@ router.put('/:merchantId/commodities/:commodityId', requireAuth, async (req, res
       });
     }
 
+    await StockAlertService.checkProducts([updatedProduct.id]);
+
     res.json({
       success: true,
       message: 'Commodity updated successfully',
@@ -1,9 +1,16 @@
 import express from 'express';
 import { db } from '../db/config';
-import { orders, users, auditLogs, products } from '../db/schema';
+import { orders, users, auditLogs, products, transactions } from '../db/schema';
 import { eq, isNull, desc, and, or, ilike } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireRole, requireAdmin } from '../utils/auth';
+import { resolveTransition, sendTransitionConflict } from '../services/order-state-machine';
+import { recordStatusChange, getOrderTimeline } from '../services/order-status-history';
+import DriverRouteService from '../services/driver-routes';
+import DeliveryProofService, { submitProofSchema, hasSubmission, sendMissingProofs } from '../services/delivery-proof';
+import PromotionService from '../services/promotions';
+import OutboxService from '../services/outbox';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
@@ -75,6 +82,22 @@ const logAuditEvent = async (userId: number, action: string, entityId: number, d
   }
 };
 
+// Helper function to update an order and queue its status-change notifications in the same transaction
+const updateOrder = (order: typeof orders.$inferSelect, updates: Partial<typeof orders.$inferInsert>) =>
+  withTransaction(async (tx): Promise<(typeof orders.$inferSelect)[]> => {
+    const updated: (typeof orders.$inferSelect)[] = await tx
+      .update(orders)
+      .set(updates)
+      .where(eq(orders.id, order.id))
+      .returning();
+
+    if (updated[0] && updated[0].status !== order.status) {
+      await OutboxService.enqueue(OutboxService.orderStatusMessages(order, updated[0]), tx);
+    }
+
+    return updated;
+  });
+
 // POST /api/orders - Create a new order
 router.post('/', requireAuth, async (req, res) => {
   try {
@@ -166,6 +189,14 @@ router.post('/', requireAuth, async (req, res) => {
       updatedAt: new Date()
     }).returning();
 
+    await recordStatusChange({
+      orderId: newOrder[0].id,
+      fromStatus: null,
+      toStatus: 'PENDING',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
@@ -357,9 +388,11 @@ router.get('/:id', requireAuth, async (req, res) => {
       });
     }
 
+    const discounts = await PromotionService.getOrderDiscounts(order.id);
+
     res.json({
       success: true,
-      data: order
+      data: { ...order, discounts }
     });
   } catch (error) {
     console.error('Get order error:', error);
@@ -455,14 +488,31 @@ router.put('/:id', requireAuth, async (req, res) => {
       }
     }
 
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        ...validatedData,
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    // Status changes must follow the order state machine
+    let statusUpdates = {};
+    if (validatedData.status && validatedData.status !== order.status) {
+      const transition = resolveTransition(order.status, validatedData.status, currentUser.role);
+      if (!transition.allowed) {
+        return sendTransitionConflict(res, transition);
+      }
+      statusUpdates = transition.updates;
+    }
+
+    const updatedOrder = await updateOrder(order, {
+      ...validatedData,
+      ...statusUpdates,
+      updatedAt: new Date()
+    });
+
+    if (validatedData.status && validatedData.status !== order.status) {
+      await recordStatusChange({
+        orderId,
+        fromStatus: order.status,
+        toStatus: validatedData.status,
+        actorId: currentUser.id,
+        actorRole: currentUser.role
+      });
+    }
 
     // Log audit event
     await logAuditEvent(
@@ -535,15 +585,27 @@ router.delete('/:id', requireAuth, async (req, res) => {
       });
     }
 
-    // Soft delete the order
+    // Soft delete the order, cancelling it only if it is still open
+    const cancellation = resolveTransition(order.status, 'CANCELLED', currentUser.role);
     await db
       .update(orders)
       .set({
         deletedAt: new Date(),
-        status: 'CANCELLED'
+        ...(cancellation.allowed ? { status: 'CANCELLED' as const } : {})
       })
       .where(eq(orders.id, orderId));
 
+    if (cancellation.allowed) {
+      await recordStatusChange({
+        orderId,
+        fromStatus: order.status,
+        toStatus: 'CANCELLED',
+        actorId: currentUser.id,
+        actorRole: currentUser.role,
+        reason: 'Order deleted'
+      });
+    }
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
@@ -598,11 +660,9 @@ router.post('/:id/accept', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMI
     const order = existingOrder[0];
 
     // Check if order is in the right status
-    if (order.status !== 'PENDING' && order.status !== 'CONFIRMED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Order cannot be accepted in current status'
-      });
+    const transition = resolveTransition(order.status, 'ACCEPTED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Check permissions
@@ -616,15 +676,15 @@ router.post('/:id/accept', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMI
     }
 
     // Update order status and acceptance time
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'ACCEPTED',
-        acceptedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, transition.updates);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'ACCEPTED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -682,11 +742,9 @@ router.post('/:id/reject', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMI
     const order = existingOrder[0];
 
     // Check if order can be rejected
-    if (order.status === 'DELIVERED' || order.status === 'CANCELLED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Order cannot be rejected in current status'
-      });
+    const transition = resolveTransition(order.status, 'PENDING', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Check permissions
@@ -700,10 +758,7 @@ router.post('/:id/reject', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMI
     }
 
     // Clear assignment if rejected by merchant/driver
-    let updateData: any = {
-      status: 'PENDING',
-      updatedAt: new Date()
-    };
+    let updateData: any = { ...transition.updates };
 
     if (currentUser.id === order.merchantId) {
       updateData.merchantId = null;
@@ -712,11 +767,16 @@ router.post('/:id/reject', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMI
       updateData.driverId = null;
     }
 
-    const updatedOrder = await db
-      .update(orders)
-      .set(updateData)
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, updateData);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'PENDING',
+      actorId: currentUser.id,
+      actorRole: currentUser.role,
+      reason
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -774,11 +834,9 @@ router.post('/:id/cancel', requireAuth, async (req, res) => {
     const order = existingOrder[0];
 
     // Check if order can be cancelled
-    if (order.status === 'DELIVERED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Delivered orders cannot be cancelled'
-      });
+    const transition = resolveTransition(order.status, 'CANCELLED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Check permissions (customer, admin, or assigned merchant/driver can cancel)
@@ -792,14 +850,16 @@ router.post('/:id/cancel', requireAuth, async (req, res) => {
       });
     }
 
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'CANCELLED',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, transition.updates);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'CANCELLED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role,
+      reason
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -856,11 +916,9 @@ router.post('/:id/pickup', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
     const order = existingOrder[0];
 
     // Check if order is in the right status
-    if (order.status !== 'ACCEPTED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Order must be accepted before pickup'
-      });
+    const transition = resolveTransition(order.status, 'PICKED_UP', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Check permissions (only assigned driver or admin)
@@ -871,15 +929,15 @@ router.post('/:id/pickup', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
       });
     }
 
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'PICKED_UP',
-        pickedUpAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, transition.updates);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'PICKED_UP',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -936,11 +994,9 @@ router.post('/:id/deliver', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
     const order = existingOrder[0];
 
     // Check if order is in the right status
-    if (order.status !== 'PICKED_UP' && order.status !== 'IN_TRANSIT') {
-      return res.status(400).json({
-        success: false,
-        message: 'Order must be picked up before delivery'
-      });
+    const transition = resolveTransition(order.status, 'DELIVERED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
     // Check permissions (only assigned driver or admin)
@@ -951,15 +1007,39 @@ router.post('/:id/deliver', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
       });
     }
 
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'DELIVERED',
-        deliveredAt: new Date(),
-        updatedAt: new Date()
+    // Proofs may be sent along with the delivery instead of beforehand
+    const proofData = submitProofSchema.parse(req.body || {});
+    if (currentUser.id === order.driverId && hasSubmission(proofData)) {
+      const submitted = await DeliveryProofService.submitProof(order, currentUser.id, proofData);
+      if (!submitted.success) {
+        return res.status(submitted.status).json({
+          success: false,
+          message: submitted.message
+        });
+      }
+    }
+
+    // Admins may override missing proofs, which is recorded in the status history
+    const proofCheck = await DeliveryProofService.checkRequirements(order);
+    if (proofCheck.missingProofs.length && currentUser.role !== 'ADMIN') {
+      return sendMissingProofs(res, proofCheck);
+    }
+
+    const updatedOrder = await updateOrder(order, transition.updates);
+
+    await DeliveryProofService.markComplete(orderId, proofCheck.requiredProofs);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'DELIVERED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role,
+      ...(proofCheck.missingProofs.length > 0 && {
+        reason: 'Delivered without mandatory proofs',
+        metadata: { missingProofs: proofCheck.missingProofs }
       })
-      .where(eq(orders.id, orderId))
-      .returning();
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -976,6 +1056,15 @@ router.post('/:id/deliver', requireAuth, requireRole(['DRIVER', 'ADMIN']), async
     });
   } catch (error) {
     console.error('Deliver order error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to mark order as delivered'
@@ -1031,6 +1120,12 @@ router.post('/:id/assign-driver', requireAuth, requireRole(['MERCHANT', 'ADMIN']
       });
     }
 
+    // Assigning a driver accepts the order
+    const transition = resolveTransition(order.status, 'ACCEPTED', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
     // Verify driver exists and is available
     const driver = await db
       .select()
@@ -1050,16 +1145,19 @@ router.post('/:id/assign-driver', requireAuth, requireRole(['MERCHANT', 'ADMIN']
     }
 
     // Update order with driver assignment
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        driverId: parseInt(driverId),
-        status: 'ACCEPTED',
-        acceptedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, {
+      ...transition.updates,
+      driverId: parseInt(driverId)
+    });
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'ACCEPTED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role,
+      metadata: { driverId: parseInt(driverId) }
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -1124,21 +1222,20 @@ router.post('/:id/mark-ready', requireAuth, requireRole(['MERCHANT', 'ADMIN']),
     }
 
     // Check if order is in the right status
-    if (order.status !== 'CONFIRMED' && order.status !== 'ACCEPTED') {
-      return res.status(400).json({
-        success: false,
-        message: 'Order must be confirmed or accepted to mark as ready'
-      });
+    const transition = resolveTransition(order.status, 'IN_TRANSIT', currentUser.role);
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
     }
 
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'IN_TRANSIT',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, transition.updates);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'IN_TRANSIT',
+      actorId: currentUser.id,
+      actorRole: currentUser.role
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -1362,23 +1459,42 @@ router.post('/:id/pay', requireAuth, async (req, res) => {
       });
     }
 
-    // Check if order is in the right status
-    if (order.status !== 'PENDING' && order.status !== 'CONFIRMED') {
-      return res.status(400).json({
+    // The order is only confirmed once its payment has come through Paystack
+    const [payment] = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(
+        eq(transactions.orderId, order.id),
+        eq(transactions.type, 'PAYMENT'),
+        eq(transactions.status, 'COMPLETED'),
+        isNull(transactions.deletedAt)
+      ))
+      .limit(1);
+
+    if (!payment) {
+      return res.status(402).json({
         success: false,
-        message: 'Order cannot be paid in current status'
+        message: 'Payment has not been received for this order'
       });
     }
 
+    // Check if order is in the right status
+    const transition = resolveTransition(order.status, 'CONFIRMED', 'SYSTEM');
+    if (!transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
     // Update order status to confirmed
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status: 'CONFIRMED',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const updatedOrder = await updateOrder(order, transition.updates);
+
+    await recordStatusChange({
+      orderId,
+      fromStatus: order.status,
+      toStatus: 'CONFIRMED',
+      actorId: currentUser.id,
+      actorRole: currentUser.role,
+      metadata: { paymentMethod, paystackReference }
+    });
 
     // Log audit event
     await logAuditEvent(
@@ -1658,6 +1774,294 @@ router.post('/:id/refund', requireAuth, async (req, res) => {
   }
 });
 
+// POST /api/orders/:id/proof-of-delivery - Driver submits photos, signature, handoff location or the customer's code
+router.post('/:id/proof-of-delivery', requireAuth, requireRole(['DRIVER']), async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order ID'
+      });
+    }
+
+    const proofData = submitProofSchema.parse(req.body);
+
+    const existingOrder = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.id, orderId),
+        isNull(orders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existingOrder.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const order = existingOrder[0];
+
+    if (currentUser.id !== order.driverId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the assigned driver can submit proof of delivery'
+      });
+    }
+
+    if (!['PICKED_UP', 'IN_TRANSIT'].includes(order.status || '')) {
+      return res.status(409).json({
+        success: false,
+        message: 'Proof of delivery can only be submitted for orders out for delivery'
+      });
+    }
+
+    const submitted = await DeliveryProofService.submitProof(order, currentUser.id, proofData);
+    if (!submitted.success) {
+      return res.status(submitted.status).json({
+        success: false,
+        message: submitted.message
+      });
+    }
+
+    const proofCheck = await DeliveryProofService.checkRequirements(order);
+
+    await logAuditEvent(
+      currentUser.id,
+      'DELIVERY_PROOF_SUBMITTED',
+      orderId,
+      {
+        orderNumber: order.orderNumber,
+        photoCount: proofData.photoKeys?.length || 0,
+        signature: !!proofData.signatureKey,
+        location: proofData.latitude !== undefined,
+        codeVerified: !!submitted.proof!.codeVerifiedAt
+      }
+    );
+
+    res.json({
+      success: true,
+      message: 'Proof of delivery recorded',
+      data: {
+        proof: DeliveryProofService.toPublicView(submitted.proof!),
+        requiredProofs: proofCheck.requiredProofs,
+        missingProofs: proofCheck.missingProofs
+      }
+    });
+  } catch (error) {
+    console.error('Submit proof of delivery error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record proof of delivery'
+    });
+  }
+});
+
+// GET /api/orders/:id/proof-of-delivery - View the proof collected for an order
+router.get('/:id/proof-of-delivery', requireAuth, async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order ID'
+      });
+    }
+
+    const existingOrder = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.id, orderId),
+        isNull(orders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existingOrder.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const order = existingOrder[0];
+
+    // Check permissions
+    if (currentUser.role !== 'ADMIN' &&
+        currentUser.id !== order.customerId &&
+        currentUser.id !== order.merchantId &&
+        currentUser.id !== order.driverId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const proofCheck = await DeliveryProofService.checkRequirements(order);
+
+    res.json({
+      success: true,
+      data: {
+        orderId,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        proof: DeliveryProofService.toPublicView(proofCheck.proof),
+        requiredProofs: proofCheck.requiredProofs,
+        missingProofs: proofCheck.missingProofs
+      }
+    });
+  } catch (error) {
+    console.error('Get proof of delivery error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch proof of delivery'
+    });
+  }
+});
+
+// GET /api/orders/:id/delivery-code - Customer's one-time code to hand to the driver at delivery
+router.get('/:id/delivery-code', requireAuth, async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order ID'
+      });
+    }
+
+    const existingOrder = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.id, orderId),
+        isNull(orders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existingOrder.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const order = existingOrder[0];
+
+    if (currentUser.id !== order.customerId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the customer can view the delivery code'
+      });
+    }
+
+    if (order.status === 'DELIVERED' || order.status === 'CANCELLED') {
+      return res.status(409).json({
+        success: false,
+        message: 'Order is no longer awaiting delivery'
+      });
+    }
+
+    const proof = await DeliveryProofService.getOrCreateProof(order);
+
+    res.json({
+      success: true,
+      data: {
+        orderId,
+        orderNumber: order.orderNumber,
+        code: proof.deliveryCode,
+        verified: !!proof.codeVerifiedAt
+      }
+    });
+  } catch (error) {
+    console.error('Get delivery code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch delivery code'
+    });
+  }
+});
+
+// GET /api/orders/:id/timeline - Chronological feed of status changes, tracking and escrow events
+router.get('/:id/timeline', requireAuth, async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order ID'
+      });
+    }
+
+    const existingOrder = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.id, orderId),
+        isNull(orders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existingOrder.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const order = existingOrder[0];
+
+    // Check permissions
+    if (currentUser.role !== 'ADMIN' &&
+        currentUser.id !== order.customerId &&
+        currentUser.id !== order.merchantId &&
+        currentUser.id !== order.driverId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const timeline = await getOrderTimeline(orderId);
+
+    res.json({
+      success: true,
+      data: {
+        orderId,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        timeline
+      }
+    });
+  } catch (error) {
+    console.error('Get order timeline error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch order timeline'
+    });
+  }
+});
+
 // GET /api/orders/:id/tracking - Get tracking information for order
 router.get('/:id/tracking', requireAuth, async (req, res) => {
   try {
@@ -1826,6 +2230,21 @@ router.post('/:id/notify', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMI
       });
     }
 
+    // Delivered by the outbox dispatcher along with the order's status notifications
+    await OutboxService.enqueue({
+      channel: 'WEBSOCKET',
+      eventType: 'order.notification',
+      aggregateType: 'ORDER',
+      aggregateId: orderId,
+      payload: {
+        userId: order.customerId,
+        message: {
+          type: 'ORDER_NOTIFICATION',
+          data: { orderId, orderNumber: order.orderNumber, message, notificationType, sentBy: currentUser.role }
+        }
+      }
+    });
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
@@ -2077,20 +2496,34 @@ router.get('/:id/eta', requireAuth, async (req, res) => {
     // Import route optimization service
     const RouteOptimizationService = (await import('../services/routeOptimization')).default;
 
-    // Build route points from active orders
-    const routePoints = driverActiveOrders.map((o, index) => ({
-      id: o.id,
-      orderId: o.id,
-      address: o.deliveryAddress,
-      latitude: parseFloat(o.deliveryLatitude || '0'),
-      longitude: parseFloat(o.deliveryLongitude || '0'),
-      priority: o.id === orderId ? 'HIGH' as const : 'MEDIUM' as const,
-      estimatedDuration: 5, // 5 minutes per delivery
-      type: o.status === 'ACCEPTED' ? 'PICKUP' as const : 'DELIVERY' as const
-    }));
+    // Prefer the driver's optimized batch route, falling back to acceptance order
+    const plannedStops = await DriverRouteService.getRemainingStopsForOrder(orderId);
+    const routePoints = plannedStops
+      ? plannedStops.map(stop => ({
+          id: stop.id,
+          orderId: stop.orderId,
+          address: '',
+          latitude: parseFloat(stop.latitude),
+          longitude: parseFloat(stop.longitude),
+          priority: 'MEDIUM' as const,
+          estimatedDuration: 5,
+          type: stop.stopType as 'PICKUP' | 'DELIVERY'
+        }))
+      : driverActiveOrders.map((o, index) => ({
+          id: o.id,
+          orderId: o.id,
+          address: o.deliveryAddress,
+          latitude: parseFloat(o.deliveryLatitude || '0'),
+          longitude: parseFloat(o.deliveryLongitude || '0'),
+          priority: o.id === orderId ? 'HIGH' as const : 'MEDIUM' as const,
+          estimatedDuration: 5, // 5 minutes per delivery
+          type: o.status === 'ACCEPTED' ? 'PICKUP' as const : 'DELIVERY' as const
+        }));
 
     // Calculate ETA for this specific order
-    const deliveryPoint = routePoints.find(p => p.orderId === orderId);
+    const deliveryPoint = plannedStops
+      ? routePoints.find(p => p.orderId === orderId && p.type === 'DELIVERY')
+      : routePoints.find(p => p.orderId === orderId);
 
     if (deliveryPoint) {
       const etaResult = await RouteOptimizationService.calculateDeliveryETA(
@@ -2108,9 +2541,14 @@ router.get('/:id/eta', requireAuth, async (req, res) => {
           eta: etaResult.eta.toISOString(),
           estimatedTravelTime: Math.round(etaResult.estimatedTravelTime),
           confidence: Math.round(etaResult.confidence * 100),
+          etaRange: {
+            earliest: etaResult.etaRange.earliest.toISOString(),
+            latest: etaResult.etaRange.latest.toISOString()
+          },
           driverLocation,
-          routePosition: routePoints.findIndex(p => p.orderId === orderId) + 1,
-          totalStops: routePoints.length
+          routePosition: routePoints.indexOf(deliveryPoint) + 1,
+          totalStops: routePoints.length,
+          optimizedRoute: !!plannedStops
         }
       });
     } else {
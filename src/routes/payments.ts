@@ -5,6 +5,8 @@ import PaystackService from '../services/paystack';
 import { db } from '../db/config';
 import { transactions, users, auditLogs, orders, securityLogs } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import AccountingService from '../services/accounting';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
@@ -89,13 +91,20 @@ router.get('/verify/:reference', requireAuth, async (req, res) => {
     const result = await PaystackService.verifyTransaction(reference);
 
     if (result.status && result.data.status === 'success') {
-      // Update transaction status
-      await db
-        .update(transactions)
-        .set({
-          status: 'COMPLETED'
-        })
-        .where(eq(transactions.paystackTransactionId, reference));
+      // Update transaction status and book the payment
+      await withTransaction(async (tx) => {
+        const completed = await tx
+          .update(transactions)
+          .set({
+            status: 'COMPLETED'
+          })
+          .where(eq(transactions.paystackTransactionId, reference))
+          .returning();
+
+        for (const transaction of completed) {
+          await AccountingService.recordPayment(transaction, tx);
+        }
+      });
 
       res.json({
         success: true,
@@ -472,14 +481,19 @@ router.post('/process', requireAuth, async (req, res) => {
     const result = await PaystackService.verifyTransaction(reference);
 
     if (result.status && result.data.status === 'success') {
-      // Update transaction status
-      await db
-        .update(transactions)
-        .set({
-          status: 'COMPLETED',
-          completedAt: new Date()
-        })
-        .where(eq(transactions.id, transaction.id));
+      // Update transaction status and book the payment
+      await withTransaction(async (tx) => {
+        const [completed] = await tx
+          .update(transactions)
+          .set({
+            status: 'COMPLETED',
+            completedAt: new Date()
+          })
+          .where(eq(transactions.id, transaction.id))
+          .returning();
+
+        await AccountingService.recordPayment(completed, tx);
+      });
 
       // If orderId is in transaction, verify order ownership and update
       if (transaction.orderId) {
@@ -0,0 +1,160 @@
+import express from 'express';
+import { z } from 'zod';
+import { requireAuth, requireRole } from '../utils/auth';
+import PayoutService from '../services/payouts';
+
+const router = express.Router();
+
+const payoutQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(['PENDING', 'PROCESSING', 'PAID', 'FAILED', 'FLAGGED']).optional(),
+  payeeId: z.coerce.number().int().positive().optional()
+});
+
+const runPayoutsSchema = z.object({
+  payeeId: z.number().int().positive().optional()
+});
+
+// GET /api/payouts - Payout history (merchants and drivers see their own; admins any payee)
+router.get('/', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMIN']), async (req, res) => {
+  try {
+    const currentUser = req.user!;
+    const query = payoutQuerySchema.parse(req.query);
+
+    const payeeId = currentUser.role === 'ADMIN' ? query.payeeId || null : currentUser.id;
+    const { payouts, total } = await PayoutService.history(payeeId, {
+      status: query.status,
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit
+    });
+
+    res.json({
+      success: true,
+      data: {
+        payouts,
+        // What has been released but not paid out yet
+        pending: payeeId ? await PayoutService.pendingBalance(payeeId) : null
+      },
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get payouts error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve payouts'
+    });
+  }
+});
+
+// POST /api/payouts/run - Batch and send payouts now, ignoring the schedule and minimum (admin)
+router.post('/run', requireAuth, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const validatedData = runPayoutsSchema.parse(req.body || {});
+
+    const result = await PayoutService.runBatch({ force: true, payeeId: validatedData.payeeId });
+
+    res.json({
+      success: true,
+      message: `${result.created} payout(s) created`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Run payouts error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run payouts'
+    });
+  }
+});
+
+// GET /api/payouts/:id - Payout detail with the orders it pays for
+router.get('/:id', requireAuth, requireRole(['MERCHANT', 'DRIVER', 'ADMIN']), async (req, res) => {
+  try {
+    const currentUser = req.user!;
+    const payoutId = parseInt(req.params.id);
+
+    if (isNaN(payoutId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid payout ID'
+      });
+    }
+
+    const payout = await PayoutService.getPayout(payoutId);
+
+    if (!payout || (currentUser.role !== 'ADMIN' && payout.payeeId !== currentUser.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payout not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: payout
+    });
+  } catch (error) {
+    console.error('Get payout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve payout'
+    });
+  }
+});
+
+// POST /api/payouts/:id/retry - Retry a failed or flagged payout now (admin)
+router.post('/:id/retry', requireAuth, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const payoutId = parseInt(req.params.id);
+
+    if (isNaN(payoutId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid payout ID'
+      });
+    }
+
+    const payout = await PayoutService.retry(payoutId, req.user!.id);
+
+    if (!payout) {
+      return res.status(409).json({
+        success: false,
+        message: 'Only failed or flagged payouts can be retried'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: payout.status === 'FAILED' || payout.status === 'FLAGGED' ? 'Payout retry failed' : 'Payout transfer started',
+      data: payout
+    });
+  } catch (error) {
+    console.error('Retry payout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retry payout'
+    });
+  }
+});
+
+export default router;
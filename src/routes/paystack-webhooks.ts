@@ -3,7 +3,13 @@ import crypto from 'crypto';
 import { db } from '../db/config';
 import { transactions, orders, escrows, auditLogs, users } from '../db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
-import EmailService from '../services/email';
+import CheckoutGroupService from '../services/checkout-groups';
+import EscrowLedgerService from '../services/escrow-ledger';
+import AccountingService from '../services/accounting';
+import PayoutService from '../services/payouts';
+import OutboxService from '../services/outbox';
+import { resolveTransition } from '../services/order-state-machine';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
@@ -84,59 +90,103 @@ async function handlePaymentSuccess(paymentData: any) {
       return;
     }
 
-    // Update transaction status
-    await db
-      .update(transactions)
-      .set({ 
-        status: 'COMPLETED',
-        paymentGatewayRef: reference,
-        paystackTransactionId: paymentData.id?.toString(),
-        completedAt: new Date()
-      })
-      .where(eq(transactions.id, transaction.id));
-
-    // Update order and create escrow if order exists
-    if (transaction.orderId) {
-      const [order] = await db
+    // Update transaction status, book the payment and confirm the order together,
+    // queueing their notifications so a crash after commit cannot lose them
+    const order = await withTransaction(async (tx): Promise<typeof orders.$inferSelect | null> => {
+      const [completed] = await tx
+        .update(transactions)
+        .set({ 
+          status: 'COMPLETED',
+          paymentGatewayRef: reference,
+          paystackTransactionId: paymentData.id?.toString(),
+          completedAt: new Date()
+        })
+        .where(eq(transactions.id, transaction.id))
+        .returning();
+
+      await AccountingService.recordPayment(completed, tx);
+
+      // A redelivered webhook has been announced already
+      if (transaction.status !== 'COMPLETED') {
+        const data = { transactionId: transaction.id, reference, amount: completed.amount, orderId: transaction.orderId };
+        await OutboxService.enqueue([
+          {
+            channel: 'WEBSOCKET',
+            eventType: 'payment.succeeded',
+            aggregateType: 'TRANSACTION',
+            aggregateId: transaction.id,
+            payload: { userId: transaction.userId, message: { type: 'PAYMENT_SUCCESS', data } }
+          },
+          ...OutboxService.webhooks('payment.succeeded', data, { type: 'TRANSACTION', id: transaction.id })
+        ], tx);
+      }
+
+      if (!transaction.orderId) return null;
+
+      const [current] = await tx
         .select()
         .from(orders)
         .where(eq(orders.id, transaction.orderId))
         .limit(1);
 
-      if (order) {
-        await db
-          .update(orders)
-          .set({ 
-            status: 'CONFIRMED',
-            updatedAt: new Date()
-          })
-          .where(eq(orders.id, order.id));
-
-        // Create escrow to hold funds
-        const existingEscrow = await db
-          .select()
-          .from(escrows)
-          .where(and(
-            eq(escrows.orderId, order.id),
-            isNull(escrows.deletedAt)
-          ))
-          .limit(1);
+      if (!current) return null;
+
+      // A redelivered webhook, or an order that has moved on or been cancelled, is left as it is
+      const transition = resolveTransition(current.status, 'CONFIRMED', 'SYSTEM');
+      if (!transition.allowed) return current;
+
+      const [confirmed] = await tx
+        .update(orders)
+        .set(transition.updates)
+        .where(eq(orders.id, current.id))
+        .returning();
+
+      await OutboxService.enqueue(OutboxService.orderStatusMessages(current, confirmed), tx);
 
-        if (!existingEscrow.length && order.merchantId) {
-          await db.insert(escrows).values({
-            orderId: order.id,
-            payerId: order.customerId,
-            payeeId: order.merchantId,
-            amount: transaction.amount,
-            status: 'HELD',
-            paystackEscrowId: reference,
-            transactionRef: reference,
-            createdAt: new Date()
+      return confirmed;
+    });
+
+    // Create escrow to hold funds for the confirmed order
+    if (order) {
+      const existingEscrow = await db
+        .select()
+        .from(escrows)
+        .where(and(
+          eq(escrows.orderId, order.id),
+          isNull(escrows.deletedAt)
+        ))
+        .limit(1);
+
+      if (!existingEscrow.length && order.merchantId) {
+        const [escrow] = await db.insert(escrows).values({
+          orderId: order.id,
+          payerId: order.customerId,
+          payeeId: order.merchantId,
+          amount: transaction.amount,
+          status: 'HELD',
+          paystackEscrowId: reference,
+          transactionRef: reference,
+          createdAt: new Date()
+        })
+          // A concurrent delivery of the same event that inserted first wins on the transaction_ref index
+          .onConflictDoNothing()
+          .returning();
+
+        if (escrow) {
+          // Merchant, driver and platform shares of the payment
+          await EscrowLedgerService.allocate(escrow.id).catch(error => {
+            console.error('Escrow allocation error:', error);
           });
         }
       }
     }
 
+    // A multi-merchant checkout pays for several orders at once
+    const checkoutGroup = await CheckoutGroupService.getByPaymentReference(reference);
+    if (checkoutGroup) {
+      await CheckoutGroupService.confirmPayment(checkoutGroup, reference);
+    }
+
     // Log audit event
     await db.insert(auditLogs).values({
       userId: transaction.userId,
@@ -153,6 +203,8 @@ async function handlePaymentSuccess(paymentData: any) {
     console.log(`Payment successful for transaction ${transaction.id}`);
   } catch (error) {
     console.error('Error handling payment success:', error);
+    // Answering 5xx makes Paystack deliver the event again
+    throw error;
   }
 }
 
@@ -171,13 +223,34 @@ async function handlePaymentFailure(paymentData: any) {
       return;
     }
 
-    await db
-      .update(transactions)
-      .set({ 
-        status: 'FAILED',
-        paymentGatewayRef: reference
-      })
-      .where(eq(transactions.id, transaction.id));
+    await withTransaction(async (tx) => {
+      await tx
+        .update(transactions)
+        .set({ 
+          status: 'FAILED',
+          paymentGatewayRef: reference
+        })
+        .where(eq(transactions.id, transaction.id));
+
+      if (transaction.status !== 'FAILED') {
+        const data = { transactionId: transaction.id, reference, reason: paymentData.gateway_response, orderId: transaction.orderId };
+        await OutboxService.enqueue([
+          {
+            channel: 'WEBSOCKET',
+            eventType: 'payment.failed',
+            aggregateType: 'TRANSACTION',
+            aggregateId: transaction.id,
+            payload: { userId: transaction.userId, message: { type: 'PAYMENT_FAILED', data } }
+          },
+          ...OutboxService.webhooks('payment.failed', data, { type: 'TRANSACTION', id: transaction.id })
+        ], tx);
+      }
+    });
+
+    const checkoutGroup = await CheckoutGroupService.getByPaymentReference(reference);
+    if (checkoutGroup) {
+      await CheckoutGroupService.markPaymentFailed(checkoutGroup);
+    }
 
     await db.insert(auditLogs).values({
       userId: transaction.userId,
@@ -193,6 +266,7 @@ async function handlePaymentFailure(paymentData: any) {
     console.log(`Payment failed: ${reference}`);
   } catch (error) {
     console.error('Error handling payment failure:', error);
+    throw error;
   }
 }
 
@@ -212,14 +286,22 @@ async function handleTransferSuccess(transferData: any) {
       return;
     }
 
-    // Update the transaction status to COMPLETED
-    await db
-      .update(transactions)
-      .set({ 
-        status: 'COMPLETED',
-        completedAt: new Date()
-      })
-      .where(eq(transactions.id, transaction.id));
+    // Update the transaction status to COMPLETED and book the payout
+    await withTransaction(async (tx) => {
+      const [completed] = await tx
+        .update(transactions)
+        .set({ 
+          status: 'COMPLETED',
+          completedAt: new Date()
+        })
+        .where(eq(transactions.id, transaction.id))
+        .returning();
+
+      await AccountingService.recordPayout(completed, tx);
+    });
+
+    // A scheduled payout is marked paid; the escrow handling below is for older per-order transfers
+    await PayoutService.handleTransferSuccess(reference);
 
     // If there is an associated order, find the escrow and update it
     if (transaction.orderId) {
@@ -230,11 +312,6 @@ async function handleTransferSuccess(transferData: any) {
         .limit(1);
 
       if (escrow) {
-        await db
-          .update(escrows)
-          .set({ status: 'RELEASED' })
-          .where(eq(escrows.id, escrow.id));
-
         // Get merchant details for email notification
         const [merchant] = await db
           .select()
@@ -242,14 +319,27 @@ async function handleTransferSuccess(transferData: any) {
           .where(eq(users.id, escrow.payeeId))
           .limit(1);
 
-        // Send email to the merchant
-        if (merchant?.email) {
-          await EmailService.sendEmail(
-            merchant.email,
-            'Funds Transferred to Your Account',
-            `<p>Hello ${merchant.fullName},</p><p>We have successfully transferred ₦${(amount / 100).toLocaleString()} to your account for order #${transaction.orderId}.</p><p>Thank you for your business!</p>`
-          );
-        }
+        // The merchant's email is queued with the escrow change and sent once it commits
+        await withTransaction(async (tx) => {
+          await tx
+            .update(escrows)
+            .set({ status: 'RELEASED' })
+            .where(eq(escrows.id, escrow.id));
+
+          if (merchant?.email) {
+            await OutboxService.enqueue({
+              channel: 'EMAIL',
+              eventType: 'transfer.succeeded',
+              aggregateType: 'TRANSACTION',
+              aggregateId: transaction.id,
+              payload: {
+                to: merchant.email,
+                subject: 'Funds Transferred to Your Account',
+                html: `<p>Hello ${merchant.fullName},</p><p>We have successfully transferred ₦${(amount / 100).toLocaleString()} to your account for order #${transaction.orderId}.</p><p>Thank you for your business!</p>`
+              }
+            }, tx);
+          }
+        });
       }
     }
 
@@ -266,7 +356,7 @@ async function handleTransferSuccess(transferData: any) {
 
   } catch (error) {
     console.error('Error handling transfer success:', error);
-    // Optionally, you could add more robust error handling here, like retrying or sending an admin alert
+    throw error;
   }
 }
 
@@ -285,10 +375,17 @@ async function handleTransferFailure(transferData: any) {
       return;
     }
 
-    await db
-      .update(transactions)
-      .set({ status: 'FAILED' })
-      .where(eq(transactions.id, transaction.id));
+    await withTransaction(async (tx) => {
+      await tx
+        .update(transactions)
+        .set({ status: 'FAILED' })
+        .where(eq(transactions.id, transaction.id));
+
+      // Only undoes a payout that was booked when the transfer was queued
+      await AccountingService.reversePayout(transaction, tx);
+    });
+
+    await PayoutService.handleTransferFailure(reference, reason);
 
     if (transaction.orderId) {
       const [escrow] = await db
@@ -298,24 +395,33 @@ async function handleTransferFailure(transferData: any) {
         .limit(1);
 
       if (escrow) {
-        await db
-          .update(escrows)
-          .set({ status: 'REFUNDED' })
-          .where(eq(escrows.id, escrow.id));
-
         const [merchant] = await db
           .select()
           .from(users)
           .where(eq(users.id, escrow.payeeId))
           .limit(1);
 
-        if (merchant?.email) {
-          await EmailService.sendEmail(
-            merchant.email,
-            'Transfer Failed',
-            `<p>Hello ${merchant.fullName},</p><p>The transfer for order #${transaction.orderId} has failed. Please check your account details or contact support.</p><p>Reason: ${reason}</p>`
-          );
-        }
+        // The merchant's email is queued with the escrow change and sent once it commits
+        await withTransaction(async (tx) => {
+          await tx
+            .update(escrows)
+            .set({ status: 'REFUNDED' })
+            .where(eq(escrows.id, escrow.id));
+
+          if (merchant?.email) {
+            await OutboxService.enqueue({
+              channel: 'EMAIL',
+              eventType: 'transfer.failed',
+              aggregateType: 'TRANSACTION',
+              aggregateId: transaction.id,
+              payload: {
+                to: merchant.email,
+                subject: 'Transfer Failed',
+                html: `<p>Hello ${merchant.fullName},</p><p>The transfer for order #${transaction.orderId} has failed. Please check your account details or contact support.</p><p>Reason: ${reason}</p>`
+              }
+            }, tx);
+          }
+        });
       }
     }
 
@@ -331,6 +437,7 @@ async function handleTransferFailure(transferData: any) {
 
   } catch (error) {
     console.error('Error handling transfer failure:', error);
+    throw error;
   }
 }
 
@@ -349,10 +456,16 @@ async function handleTransferReversed(transferData: any) {
       return;
     }
 
-    await db
-      .update(transactions)
-      .set({ status: 'REFUNDED' })
-      .where(eq(transactions.id, transaction.id));
+    await withTransaction(async (tx) => {
+      await tx
+        .update(transactions)
+        .set({ status: 'REFUNDED' })
+        .where(eq(transactions.id, transaction.id));
+
+      await AccountingService.reversePayout(transaction, tx);
+    });
+
+    await PayoutService.handleTransferFailure(reference, reason || 'Transfer reversed');
 
     if (transaction.orderId) {
       const [escrow] = await db
@@ -362,24 +475,33 @@ async function handleTransferReversed(transferData: any) {
         .limit(1);
 
       if (escrow) {
-        await db
-      .update(escrows)
-      .set({ status: 'REFUNDED' })
-      .where(eq(escrows.id, escrow.id));
-
         const [merchant] = await db
           .select()
           .from(users)
           .where(eq(users.id, escrow.payeeId))
           .limit(1);
 
-        if (merchant?.email) {
-          await EmailService.sendEmail(
-            merchant.email,
-            'Transfer Reversed',
-            `<p>Hello ${merchant.fullName},</p><p>The transfer for order #${transaction.orderId} has been reversed. Please contact support for more details.</p><p>Reason: ${reason}</p>`
-          );
-        }
+        // The merchant's email is queued with the escrow change and sent once it commits
+        await withTransaction(async (tx) => {
+          await tx
+            .update(escrows)
+            .set({ status: 'REFUNDED' })
+            .where(eq(escrows.id, escrow.id));
+
+          if (merchant?.email) {
+            await OutboxService.enqueue({
+              channel: 'EMAIL',
+              eventType: 'transfer.reversed',
+              aggregateType: 'TRANSACTION',
+              aggregateId: transaction.id,
+              payload: {
+                to: merchant.email,
+                subject: 'Transfer Reversed',
+                html: `<p>Hello ${merchant.fullName},</p><p>The transfer for order #${transaction.orderId} has been reversed. Please contact support for more details.</p><p>Reason: ${reason}</p>`
+              }
+            }, tx);
+          }
+        });
       }
     }
 
@@ -395,6 +517,7 @@ async function handleTransferReversed(transferData: any) {
 
   } catch (error) {
     console.error('Error handling transfer reversal:', error);
+    throw error;
   }
 }
 
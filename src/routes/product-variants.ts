@@ -0,0 +1,578 @@
+import express from 'express';
+import { db } from '../db/config';
+import { products, productVariants, productOptionGroups, productOptions, auditLogs } from '../db/schema';
+import { eq, and, isNull, ne, notInArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireAuth, requireRole } from '../utils/auth';
+import ProductVariantService from '../services/product-variants';
+
+const router = express.Router();
+
+// Validation schemas
+const priceString = z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+  message: "Price must be a positive number"
+});
+
+const priceDeltaString = z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
+  message: "Price delta must be zero or a positive number"
+});
+
+const createVariantSchema = z.object({
+  sku: z.string().min(1).max(64),
+  name: z.string().min(1).max(255),
+  attributes: z.record(z.string(), z.string()).default({}),
+  price: priceString,
+  stockQuantity: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  sortOrder: z.number().int().default(0)
+});
+
+// No defaults here: fields left out keep their current value
+const updateVariantSchema = z.object({
+  sku: z.string().min(1).max(64).optional(),
+  name: z.string().min(1).max(255).optional(),
+  attributes: z.record(z.string(), z.string()).optional(),
+  price: priceString.optional(),
+  stockQuantity: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional()
+});
+
+const optionSchema = z.object({
+  id: z.number().int().positive().optional(),
+  name: z.string().min(1).max(255),
+  priceDelta: priceDeltaString.default('0'),
+  isAvailable: z.boolean().default(true),
+  sortOrder: z.number().int().default(0)
+});
+
+const optionGroupFields = {
+  name: z.string().min(1).max(255),
+  minSelections: z.number().int().min(0).default(0),
+  maxSelections: z.number().int().min(1).default(1),
+  isActive: z.boolean().default(true),
+  sortOrder: z.number().int().default(0)
+};
+
+const createOptionGroupSchema = z.object({
+  ...optionGroupFields,
+  options: z.array(optionSchema).min(1)
+}).refine((data) => data.minSelections <= data.maxSelections, {
+  message: "minSelections cannot be more than maxSelections"
+});
+
+// Options listed on update replace the group's options; ones left out are removed
+const updateOptionGroupSchema = z.object({
+  name: optionGroupFields.name.optional(),
+  minSelections: z.number().int().min(0).optional(),
+  maxSelections: z.number().int().min(1).optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+  options: z.array(optionSchema).min(1).optional()
+});
+
+// Helper function to log audit events
+const logAuditEvent = async (userId: number, action: string, entityId: number, details: any) => {
+  try {
+    await db.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'PRODUCT',
+      entityId,
+      details
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
+
+// Loads a product the current user may manage (merchants only their own)
+const findManagedProduct = async (productId: number, user: { id: number; role: string }) => {
+  const [product] = await db
+    .select()
+    .from(products)
+    .where(and(eq(products.id, productId), isNull(products.deletedAt)))
+    .limit(1);
+
+  if (!product) {
+    return { status: 404, message: 'Product not found' };
+  }
+
+  if (user.role === 'MERCHANT' && product.merchantId !== user.id) {
+    return { status: 403, message: 'You can only manage your own products' };
+  }
+
+  return { product };
+};
+
+const isSkuTaken = async (sku: string, exceptVariantId?: number) => {
+  const [existing] = await db
+    .select({ id: productVariants.id })
+    .from(productVariants)
+    .where(and(
+      eq(productVariants.sku, sku),
+      ...(exceptVariantId ? [ne(productVariants.id, exceptVariantId)] : [])
+    ))
+    .limit(1);
+
+  return !!existing;
+};
+
+// GET /api/products/:id/variants - Variants and option groups of a product
+router.get('/:id/variants', async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    if (isNaN(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product ID'
+      });
+    }
+
+    const catalogue = await ProductVariantService.getCatalogue([productId]);
+
+    res.json({
+      success: true,
+      data: catalogue.get(productId)
+    });
+  } catch (error) {
+    console.error('Get product variants error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch product variants'
+    });
+  }
+});
+
+// POST /api/products/:id/variants - Add a variant
+router.post('/:id/variants', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product ID'
+      });
+    }
+
+    const validatedData = createVariantSchema.parse(req.body);
+
+    const managed = await findManagedProduct(productId, currentUser);
+    if (!managed.product) {
+      return res.status(managed.status).json({
+        success: false,
+        message: managed.message
+      });
+    }
+
+    if (await isSkuTaken(validatedData.sku)) {
+      return res.status(409).json({
+        success: false,
+        message: 'SKU is already in use'
+      });
+    }
+
+    const [variant] = await db
+      .insert(productVariants)
+      .values({ productId, ...validatedData })
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'PRODUCT_VARIANT_CREATED', productId, {
+      variantId: variant.id,
+      sku: variant.sku,
+      name: variant.name
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Variant created successfully',
+      data: variant
+    });
+  } catch (error) {
+    console.error('Create product variant error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create variant'
+    });
+  }
+});
+
+// PUT /api/products/:id/variants/:variantId - Update a variant's price, stock or details
+router.put('/:id/variants/:variantId', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    const variantId = parseInt(req.params.variantId);
+    const currentUser = req.user!;
+
+    if (isNaN(productId) || isNaN(variantId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product or variant ID'
+      });
+    }
+
+    const validatedData = updateVariantSchema.parse(req.body);
+
+    const managed = await findManagedProduct(productId, currentUser);
+    if (!managed.product) {
+      return res.status(managed.status).json({
+        success: false,
+        message: managed.message
+      });
+    }
+
+    if (validatedData.sku && await isSkuTaken(validatedData.sku, variantId)) {
+      return res.status(409).json({
+        success: false,
+        message: 'SKU is already in use'
+      });
+    }
+
+    const [variant] = await db
+      .update(productVariants)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(and(
+        eq(productVariants.id, variantId),
+        eq(productVariants.productId, productId),
+        isNull(productVariants.deletedAt)
+      ))
+      .returning();
+
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Variant not found'
+      });
+    }
+
+    await logAuditEvent(currentUser.id, 'PRODUCT_VARIANT_UPDATED', productId, {
+      variantId,
+      changes: validatedData
+    });
+
+    res.json({
+      success: true,
+      message: 'Variant updated successfully',
+      data: variant
+    });
+  } catch (error) {
+    console.error('Update product variant error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update variant'
+    });
+  }
+});
+
+// DELETE /api/products/:id/variants/:variantId - Remove a variant
+router.delete('/:id/variants/:variantId', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    const variantId = parseInt(req.params.variantId);
+    const currentUser = req.user!;
+
+    if (isNaN(productId) || isNaN(variantId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product or variant ID'
+      });
+    }
+
+    const managed = await findManagedProduct(productId, currentUser);
+    if (!managed.product) {
+      return res.status(managed.status).json({
+        success: false,
+        message: managed.message
+      });
+    }
+
+    const [variant] = await db
+      .update(productVariants)
+      .set({ deletedAt: new Date(), isActive: false, updatedAt: new Date() })
+      .where(and(
+        eq(productVariants.id, variantId),
+        eq(productVariants.productId, productId),
+        isNull(productVariants.deletedAt)
+      ))
+      .returning();
+
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Variant not found'
+      });
+    }
+
+    await logAuditEvent(currentUser.id, 'PRODUCT_VARIANT_DELETED', productId, {
+      variantId,
+      sku: variant.sku
+    });
+
+    res.json({
+      success: true,
+      message: 'Variant deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete product variant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete variant'
+    });
+  }
+});
+
+// POST /api/products/:id/option-groups - Add an add-on option group with its options
+router.post('/:id/option-groups', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    const currentUser = req.user!;
+
+    if (isNaN(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product ID'
+      });
+    }
+
+    const { options, ...groupData } = createOptionGroupSchema.parse(req.body);
+
+    const managed = await findManagedProduct(productId, currentUser);
+    if (!managed.product) {
+      return res.status(managed.status).json({
+        success: false,
+        message: managed.message
+      });
+    }
+
+    const [group] = await db
+      .insert(productOptionGroups)
+      .values({ productId, ...groupData })
+      .returning();
+
+    const createdOptions = await db
+      .insert(productOptions)
+      .values(options.map(({ id, ...option }) => ({ groupId: group.id, ...option })))
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'PRODUCT_OPTION_GROUP_CREATED', productId, {
+      groupId: group.id,
+      name: group.name,
+      options: createdOptions.length
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Option group created successfully',
+      data: { ...group, options: createdOptions }
+    });
+  } catch (error) {
+    console.error('Create option group error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create option group'
+    });
+  }
+});
+
+// PUT /api/products/:id/option-groups/:groupId - Update an option group and its options
+router.put('/:id/option-groups/:groupId', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    const groupId = parseInt(req.params.groupId);
+    const currentUser = req.user!;
+
+    if (isNaN(productId) || isNaN(groupId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product or option group ID'
+      });
+    }
+
+    const { options, ...groupData } = updateOptionGroupSchema.parse(req.body);
+
+    const managed = await findManagedProduct(productId, currentUser);
+    if (!managed.product) {
+      return res.status(managed.status).json({
+        success: false,
+        message: managed.message
+      });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(productOptionGroups)
+      .where(and(
+        eq(productOptionGroups.id, groupId),
+        eq(productOptionGroups.productId, productId),
+        isNull(productOptionGroups.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Option group not found'
+      });
+    }
+
+    const minSelections = groupData.minSelections ?? existing.minSelections;
+    const maxSelections = groupData.maxSelections ?? existing.maxSelections;
+    if (minSelections > maxSelections) {
+      return res.status(400).json({
+        success: false,
+        message: 'minSelections cannot be more than maxSelections'
+      });
+    }
+
+    const [group] = await db
+      .update(productOptionGroups)
+      .set({ ...groupData, updatedAt: new Date() })
+      .where(eq(productOptionGroups.id, groupId))
+      .returning();
+
+    if (options) {
+      // Keep ids of options that stay so cart lines choosing them still resolve
+      const keptIds = options.filter(option => option.id).map(option => option.id!);
+
+      await db
+        .update(productOptions)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(productOptions.groupId, groupId),
+          isNull(productOptions.deletedAt),
+          ...(keptIds.length ? [notInArray(productOptions.id, keptIds)] : [])
+        ));
+
+      for (const { id, ...option } of options) {
+        if (id) {
+          await db
+            .update(productOptions)
+            .set({ ...option, updatedAt: new Date() })
+            .where(and(eq(productOptions.id, id), eq(productOptions.groupId, groupId)));
+        } else {
+          await db.insert(productOptions).values({ groupId, ...option });
+        }
+      }
+    }
+
+    const currentOptions = await db
+      .select()
+      .from(productOptions)
+      .where(and(eq(productOptions.groupId, groupId), isNull(productOptions.deletedAt)));
+
+    await logAuditEvent(currentUser.id, 'PRODUCT_OPTION_GROUP_UPDATED', productId, {
+      groupId,
+      changes: groupData,
+      optionsReplaced: !!options
+    });
+
+    res.json({
+      success: true,
+      message: 'Option group updated successfully',
+      data: { ...group, options: currentOptions }
+    });
+  } catch (error) {
+    console.error('Update option group error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update option group'
+    });
+  }
+});
+
+// DELETE /api/products/:id/option-groups/:groupId - Remove an option group
+router.delete('/:id/option-groups/:groupId', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+    const groupId = parseInt(req.params.groupId);
+    const currentUser = req.user!;
+
+    if (isNaN(productId) || isNaN(groupId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product or option group ID'
+      });
+    }
+
+    const managed = await findManagedProduct(productId, currentUser);
+    if (!managed.product) {
+      return res.status(managed.status).json({
+        success: false,
+        message: managed.message
+      });
+    }
+
+    const [group] = await db
+      .update(productOptionGroups)
+      .set({ deletedAt: new Date(), isActive: false, updatedAt: new Date() })
+      .where(and(
+        eq(productOptionGroups.id, groupId),
+        eq(productOptionGroups.productId, productId),
+        isNull(productOptionGroups.deletedAt)
+      ))
+      .returning();
+
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Option group not found'
+      });
+    }
+
+    await logAuditEvent(currentUser.id, 'PRODUCT_OPTION_GROUP_DELETED', productId, {
+      groupId,
+      name: group.name
+    });
+
+    res.json({
+      success: true,
+      message: 'Option group deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete option group error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete option group'
+    });
+  }
+});
+
+export default router;
@@ -5,6 +5,8 @@ import { products, categories, users, auditLogs } from '../db/schema';
 import { eq, isNull, ilike, desc, and } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireRole } from '../utils/auth';
+import ProductVariantService from '../services/product-variants';
+import StockAlertService from '../services/stock-alerts';
 
 const router = express.Router();
 
@@ -19,6 +21,7 @@ const createProductSchema = z.object({
   unit: z.string().min(1),
   stockQuantity: z.number().int().min(0).default(0),
   stockLevel: z.number().int().min(0).default(0),
+  reorderThreshold: z.number().int().min(1).nullable().optional(),
   imageUrl: z.string().url().optional(),
   images: z.array(z.string().url()).default([]),
   isAvailable: z.boolean().default(true),
@@ -35,6 +38,7 @@ const updateProductSchema = z.object({
   unit: z.string().min(1).optional(),
   stockQuantity: z.number().int().min(0).optional(),
   stockLevel: z.number().int().min(0).optional(),
+  reorderThreshold: z.number().int().min(1).nullable().optional(),
   imageUrl: z.string().url().optional(),
   images: z.array(z.string().url()).optional(),
   isAvailable: z.boolean().optional(),
@@ -99,6 +103,7 @@ router.post('/', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, re
       unit: validatedData.unit,
       stockQuantity: validatedData.stockQuantity,
       stockLevel: validatedData.stockLevel,
+      reorderThreshold: validatedData.reorderThreshold ?? null,
       imageUrl: validatedData.imageUrl,
       images: validatedData.images,
       isAvailable: validatedData.isAvailable,
@@ -107,6 +112,8 @@ router.post('/', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req, re
       updatedAt: new Date()
     }).returning();
 
+    await StockAlertService.checkProducts([newProduct[0].id]);
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
@@ -251,6 +258,7 @@ router.get('/:id', async (req, res) => {
         unit: products.unit,
         stockQuantity: products.stockQuantity,
         stockLevel: products.stockLevel,
+        reorderThreshold: products.reorderThreshold,
         imageUrl: products.imageUrl,
         images: products.images,
         isAvailable: products.isAvailable,
@@ -279,9 +287,14 @@ router.get('/:id', async (req, res) => {
       });
     }
 
+    const catalogue = await ProductVariantService.getCatalogue([productId]);
+
     res.json({
       success: true,
-      data: product[0]
+      data: {
+        ...product[0],
+        ...catalogue.get(productId)
+      }
     });
   } catch (error) {
     console.error('Get product error:', error);
@@ -355,11 +368,15 @@ router.put('/:id', requireAuth, requireRole(['MERCHANT', 'ADMIN']), async (req,
       .update(products)
       .set({
         ...validatedData,
+        // Switching availability by hand overrides the automatic out-of-stock toggle
+        ...(validatedData.isAvailable !== undefined && { stockedOutAt: null }),
         updatedAt: new Date()
       })
       .where(eq(products.id, productId))
       .returning();
 
+    await StockAlertService.checkProducts([productId]);
+
     // Log audit event
     await logAuditEvent(
       currentUser.id,
@@ -0,0 +1,408 @@
+import express from 'express';
+import { db } from '../db/config';
+import { promotions, promotionRedemptions, users, auditLogs } from '../db/schema';
+import { eq, isNull, desc, and, ilike, or, count } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../utils/auth';
+import PromotionService, { DISCOUNT_TYPES, FUNDING_PARTIES } from '../services/promotions';
+
+const router = express.Router();
+
+// Validation schemas
+const promotionSchema = z.object({
+  code: z.string().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, digits, _ and -').optional(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  discountType: z.enum(DISCOUNT_TYPES),
+  value: z.number().min(0).default(0),
+  maxDiscountAmount: z.number().positive().optional(),
+  isAutomatic: z.boolean().default(false),
+  firstOrderOnly: z.boolean().default(false),
+  fundedBy: z.enum(FUNDING_PARTIES).default('PLATFORM'),
+  fundingMerchantId: z.number().int().positive().optional(),
+  merchantIds: z.array(z.number().int().positive()).default([]),
+  categoryIds: z.array(z.number().int().positive()).default([]),
+  minBasketAmount: z.number().positive().optional(),
+  usageLimit: z.number().int().positive().optional(),
+  perUserLimit: z.number().int().positive().nullable().default(1),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional(),
+  isActive: z.boolean().default(true)
+});
+
+const updatePromotionSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  value: z.number().min(0).optional(),
+  maxDiscountAmount: z.number().positive().nullable().optional(),
+  firstOrderOnly: z.boolean().optional(),
+  merchantIds: z.array(z.number().int().positive()).optional(),
+  categoryIds: z.array(z.number().int().positive()).optional(),
+  minBasketAmount: z.number().positive().nullable().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+// Rules that span several fields, checked on create and on the merged result of an update
+const findRuleViolation = (promotion: {
+  code?: string | null;
+  isAutomatic?: boolean | null;
+  discountType: string;
+  value: number;
+  fundedBy: string;
+  fundingMerchantId?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+}): string | null => {
+  if (!promotion.isAutomatic && !promotion.code) return 'A code is required unless the promotion is automatic';
+  if (promotion.isAutomatic && promotion.code) return 'Automatic campaigns do not have a code';
+  if (promotion.discountType === 'PERCENTAGE' && (promotion.value <= 0 || promotion.value > 100)) return 'Percentage must be between 0 and 100';
+  if (promotion.discountType === 'FIXED' && promotion.value <= 0) return 'Fixed discounts need a positive value';
+  if (promotion.fundedBy === 'MERCHANT' && !promotion.fundingMerchantId) return 'Merchant-funded promotions need a funding merchant';
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt <= promotion.startsAt) return 'End date must be after start date';
+  return null;
+};
+
+// Helper function to log audit events
+const logAuditEvent = async (userId: number, action: string, entityId: number, details: any = {}) => {
+  try {
+    await db.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'PROMOTION',
+      entityId,
+      details,
+      ipAddress: '',
+      userAgent: ''
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
+
+// POST /api/promotions - Create a promo code or automatic campaign (Admin only)
+router.post('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = promotionSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    const code = validatedData.code ? PromotionService.normalizeCode(validatedData.code) : null;
+    const startsAt = validatedData.startsAt ? new Date(validatedData.startsAt) : null;
+    const endsAt = validatedData.endsAt ? new Date(validatedData.endsAt) : null;
+
+    const violation = findRuleViolation({ ...validatedData, code, startsAt, endsAt });
+    if (violation) {
+      return res.status(400).json({
+        success: false,
+        message: violation
+      });
+    }
+
+    if (validatedData.fundingMerchantId) {
+      const [merchant] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.id, validatedData.fundingMerchantId), eq(users.role, 'MERCHANT'), isNull(users.deletedAt)))
+        .limit(1);
+
+      if (!merchant) {
+        return res.status(404).json({
+          success: false,
+          message: 'Funding merchant not found'
+        });
+      }
+    }
+
+    if (code) {
+      const [existing] = await db
+        .select({ id: promotions.id })
+        .from(promotions)
+        .where(eq(promotions.code, code))
+        .limit(1);
+
+      if (existing) {
+        return res.status(400).json({
+          success: false,
+          message: 'A promotion with this code already exists'
+        });
+      }
+    }
+
+    const [promotion] = await db
+      .insert(promotions)
+      .values({
+        code,
+        name: validatedData.name,
+        description: validatedData.description || null,
+        discountType: validatedData.discountType,
+        value: validatedData.value.toFixed(2),
+        maxDiscountAmount: validatedData.maxDiscountAmount?.toFixed(2) || null,
+        isAutomatic: validatedData.isAutomatic,
+        firstOrderOnly: validatedData.firstOrderOnly,
+        fundedBy: validatedData.fundedBy,
+        fundingMerchantId: validatedData.fundingMerchantId || null,
+        merchantIds: validatedData.merchantIds,
+        categoryIds: validatedData.categoryIds,
+        minBasketAmount: validatedData.minBasketAmount?.toFixed(2) || null,
+        usageLimit: validatedData.usageLimit || null,
+        perUserLimit: validatedData.perUserLimit,
+        startsAt,
+        endsAt,
+        isActive: validatedData.isActive,
+        createdBy: currentUser.id
+      })
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'PROMOTION_CREATED', promotion.id, {
+      code: promotion.code,
+      discountType: promotion.discountType,
+      value: promotion.value,
+      fundedBy: promotion.fundedBy
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Promotion created successfully',
+      data: promotion
+    });
+  } catch (error) {
+    console.error('Create promotion error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create promotion'
+    });
+  }
+});
+
+// GET /api/promotions - List promotions (Admin only)
+router.get('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const search = req.query.search as string;
+    const isActive = req.query.isActive as string;
+    const offset = (page - 1) * limit;
+
+    const conditions = [isNull(promotions.deletedAt)];
+    if (search) {
+      conditions.push(or(ilike(promotions.code, `%${search}%`), ilike(promotions.name, `%${search}%`))!);
+    }
+    if (isActive !== undefined) {
+      conditions.push(eq(promotions.isActive, isActive === 'true'));
+    }
+
+    const allPromotions = await db
+      .select()
+      .from(promotions)
+      .where(and(...conditions))
+      .orderBy(desc(promotions.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(promotions)
+      .where(and(...conditions));
+
+    res.json({
+      success: true,
+      data: allPromotions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get promotions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch promotions'
+    });
+  }
+});
+
+// GET /api/promotions/:id - Get a promotion with its recent redemptions (Admin only)
+router.get('/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const promotionId = parseInt(req.params.id);
+    if (isNaN(promotionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid promotion ID'
+      });
+    }
+
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.id, promotionId), isNull(promotions.deletedAt)))
+      .limit(1);
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    const redemptions = await db
+      .select()
+      .from(promotionRedemptions)
+      .where(eq(promotionRedemptions.promotionId, promotionId))
+      .orderBy(desc(promotionRedemptions.createdAt))
+      .limit(50);
+
+    res.json({
+      success: true,
+      data: { ...promotion, redemptions }
+    });
+  } catch (error) {
+    console.error('Get promotion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch promotion'
+    });
+  }
+});
+
+// PUT /api/promotions/:id - Update a promotion (Admin only)
+router.put('/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const promotionId = parseInt(req.params.id);
+    if (isNaN(promotionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid promotion ID'
+      });
+    }
+
+    const validatedData = updatePromotionSchema.parse(req.body);
+    const currentUser = req.user!;
+
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.id, promotionId), isNull(promotions.deletedAt)))
+      .limit(1);
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    const toDate = (value: string | null | undefined, current: Date | null) =>
+      value === undefined ? current : value === null ? null : new Date(value);
+    const toAmount = (value: number | null | undefined, current: string | null) =>
+      value === undefined ? current : value === null ? null : value.toFixed(2);
+
+    const updates = {
+      ...(validatedData.name !== undefined && { name: validatedData.name }),
+      ...(validatedData.description !== undefined && { description: validatedData.description }),
+      ...(validatedData.firstOrderOnly !== undefined && { firstOrderOnly: validatedData.firstOrderOnly }),
+      ...(validatedData.merchantIds !== undefined && { merchantIds: validatedData.merchantIds }),
+      ...(validatedData.categoryIds !== undefined && { categoryIds: validatedData.categoryIds }),
+      ...(validatedData.usageLimit !== undefined && { usageLimit: validatedData.usageLimit }),
+      ...(validatedData.perUserLimit !== undefined && { perUserLimit: validatedData.perUserLimit }),
+      ...(validatedData.isActive !== undefined && { isActive: validatedData.isActive }),
+      value: toAmount(validatedData.value, promotion.value)!,
+      maxDiscountAmount: toAmount(validatedData.maxDiscountAmount, promotion.maxDiscountAmount),
+      minBasketAmount: toAmount(validatedData.minBasketAmount, promotion.minBasketAmount),
+      startsAt: toDate(validatedData.startsAt, promotion.startsAt),
+      endsAt: toDate(validatedData.endsAt, promotion.endsAt)
+    };
+
+    const violation = findRuleViolation({ ...promotion, ...updates, value: Number(updates.value) });
+    if (violation) {
+      return res.status(400).json({
+        success: false,
+        message: violation
+      });
+    }
+
+    const [updated] = await db
+      .update(promotions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(promotions.id, promotionId))
+      .returning();
+
+    await logAuditEvent(currentUser.id, 'PROMOTION_UPDATED', promotionId, { updatedFields: Object.keys(validatedData) });
+
+    res.json({
+      success: true,
+      message: 'Promotion updated successfully',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Update promotion error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update promotion'
+    });
+  }
+});
+
+// DELETE /api/promotions/:id - Retire a promotion (Admin only)
+router.delete('/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const promotionId = parseInt(req.params.id);
+    if (isNaN(promotionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid promotion ID'
+      });
+    }
+
+    const [deleted] = await db
+      .update(promotions)
+      .set({ isActive: false, deletedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(promotions.id, promotionId), isNull(promotions.deletedAt)))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    await logAuditEvent(req.user!.id, 'PROMOTION_DELETED', promotionId, { code: deleted.code });
+
+    res.json({
+      success: true,
+      message: 'Promotion deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete promotion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete promotion'
+    });
+  }
+});
+
+export default router;
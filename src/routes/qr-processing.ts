@@ -1,25 +1,53 @@
 
 import { Router } from 'express';
 import { db } from '../db/config';
-import { orders } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { orders, tollGates, auditLogs } from '../db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth } from '../utils/auth';
-import crypto from 'crypto';
+import QrTokenService, { QR_PURPOSES, QR_PURPOSE_RULES } from '../services/qr-tokens';
+import { resolveTransition, sendTransitionConflict } from '../services/order-state-machine';
+import { recordStatusChange } from '../services/order-status-history';
+import DeliveryProofService, { sendMissingProofs, ProofType } from '../services/delivery-proof';
+import OutboxService from '../services/outbox';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = Router();
 
-// Generate QR code data for order
+const generateQrSchema = z.object({
+  orderId: z.number().int().positive(),
+  purpose: z.enum(QR_PURPOSES),
+  tollGateId: z.number().int().positive().optional()
+});
+
+const qrTokenSchema = z.object({
+  qrData: z.string().min(1)
+});
+
+const logAuditEvent = async (userId: number, action: string, entityId: number, details: any = {}) => {
+  try {
+    await db.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'ORDER',
+      entityId,
+      details
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
+
+// Generate a signed, short-lived QR code for an order handoff
 router.post('/generate', requireAuth, async (req, res) => {
   try {
-    const { orderId } = z.object({
-      orderId: z.number().int().positive()
-    }).parse(req.body);
+    const currentUser = req.user!;
+    const { orderId, purpose, tollGateId } = generateQrSchema.parse(req.body);
 
     const [order] = await db
       .select()
       .from(orders)
-      .where(eq(orders.id, orderId))
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
       .limit(1);
 
     if (!order) {
@@ -29,21 +57,54 @@ router.post('/generate', requireAuth, async (req, res) => {
       });
     }
 
-    // Generate QR data (encrypted order info)
-    const qrData = {
-      orderId: order.id,
-      timestamp: Date.now(),
-      hash: crypto.createHash('sha256')
-        .update(`${order.id}-${order.customerId}-${Date.now()}`)
-        .digest('hex')
-    };
+    if (!QrTokenService.canIssue(purpose, order, currentUser.id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot generate this QR code for the order'
+      });
+    }
+
+    if (purpose === 'TOLL_GATE') {
+      if (!tollGateId) {
+        return res.status(400).json({
+          success: false,
+          message: 'tollGateId is required for toll gate QR codes'
+        });
+      }
+
+      const [gate] = await db
+        .select({ id: tollGates.id })
+        .from(tollGates)
+        .where(and(eq(tollGates.id, tollGateId), isNull(tollGates.deletedAt), eq(tollGates.isActive, true)))
+        .limit(1);
+
+      if (!gate) {
+        return res.status(404).json({
+          success: false,
+          message: 'Toll gate not found'
+        });
+      }
+    }
+
+    const issued = await QrTokenService.issue(purpose, order, currentUser.id, purpose === 'TOLL_GATE' ? tollGateId : undefined);
 
     res.json({
       success: true,
-      qrData: Buffer.from(JSON.stringify(qrData)).toString('base64')
+      qrData: issued.token,
+      purpose: issued.purpose,
+      expiresAt: issued.expiresAt
     });
   } catch (error: any) {
     console.error('QR generation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to generate QR code'
@@ -51,82 +112,162 @@ router.post('/generate', requireAuth, async (req, res) => {
   }
 });
 
-// Verify QR code
+// Verify a QR code without using it up
 router.post('/verify', requireAuth, async (req, res) => {
   try {
-    const { qrData } = z.object({
-      qrData: z.string()
-    }).parse(req.body);
+    const { qrData } = qrTokenSchema.parse(req.body);
+    const currentUser = req.user!;
 
-    const decoded = JSON.parse(Buffer.from(qrData, 'base64').toString());
-
-    const [order] = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.id, decoded.orderId))
-      .limit(1);
-
-    if (!order) {
-      return res.status(404).json({
+    const verification = await QrTokenService.verify(qrData, currentUser);
+    if (!verification.valid) {
+      return res.status(verification.status).json({
         success: false,
-        message: 'Invalid QR code'
+        message: verification.message
       });
     }
 
+    const { order, payload } = verification;
+    const transition = resolveTransition(order!.status, QR_PURPOSE_RULES[payload!.purpose].targetStatus, currentUser.role);
+
     res.json({
       success: true,
+      purpose: payload!.purpose,
+      expiresAt: new Date(payload!.expiresAt),
       order: {
-        id: order.id,
-        status: order.status,
-        totalAmount: order.totalAmount
-      }
+        id: order!.id,
+        orderNumber: order!.orderNumber,
+        status: order!.status,
+        totalAmount: order!.totalAmount
+      },
+      nextStatus: transition.to,
+      transitionAllowed: transition.allowed
     });
   } catch (error: any) {
     console.error('QR verification error:', error);
-    res.status(400).json({
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
       success: false,
-      message: 'Invalid QR code format'
+      message: 'Failed to verify QR code'
     });
   }
 });
 
-// QR Code scanning endpoint
-router.post('/scan', async (req, res) => {
+// QR Code scanning endpoint - uses the code and applies the handoff it stands for
+router.post('/scan', requireAuth, async (req, res) => {
   try {
-    const { qrCode, type } = req.body;
+    const { qrData } = qrTokenSchema.parse(req.body);
+    const currentUser = req.user!;
 
-    if (!qrCode || !type) {
-      return res.status(400).json({
+    const verification = await QrTokenService.verify(qrData, currentUser);
+    if (!verification.valid) {
+      return res.status(verification.status).json({
         success: false,
-        message: 'QR code and type are required'
+        message: verification.message
       });
     }
 
-    let result;
-
-    switch (type) {
-      case 'delivery':
-        result = await processDeliveryQR(qrCode);
-        break;
-      case 'payment':
-        result = await processPaymentQR(qrCode);
-        break;
-      case 'toll':
-        result = await processTollQR(qrCode);
-        break;
-      default:
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid QR code type'
-        });
+    const { order, payload } = verification;
+    const targetStatus = QR_PURPOSE_RULES[payload!.purpose].targetStatus;
+
+    // Toll gates only move an order on when it has just been picked up; later passes are logged as-is
+    const changesStatus = payload!.purpose !== 'TOLL_GATE' || order!.status === 'PICKED_UP';
+    const transition = resolveTransition(order!.status, targetStatus, currentUser.role);
+    if (changesStatus && !transition.allowed) {
+      return sendTransitionConflict(res, transition);
+    }
+
+    // Scanning the customer's code stands in for the typed delivery code; other proofs still apply
+    let requiredProofs: ProofType[] = [];
+    if (payload!.purpose === 'CUSTOMER_DELIVERY') {
+      await DeliveryProofService.confirmCodeByScan(order!);
+      const proofCheck = await DeliveryProofService.checkRequirements(order!);
+      if (proofCheck.missingProofs.length) {
+        return sendMissingProofs(res, proofCheck);
+      }
+      requiredProofs = proofCheck.requiredProofs;
+    }
+
+    if (!await QrTokenService.consume(payload!.nonce, currentUser.id)) {
+      return res.status(409).json({
+        success: false,
+        message: 'QR code has already been used'
+      });
     }
 
+    let updatedOrder = order!;
+    if (changesStatus) {
+      // The status-change notifications are queued with the update
+      updatedOrder = await withTransaction(async (tx): Promise<typeof orders.$inferSelect> => {
+        const [updated] = await tx
+          .update(orders)
+          .set(transition.updates)
+          .where(eq(orders.id, order!.id))
+          .returning();
+
+        await OutboxService.enqueue(OutboxService.orderStatusMessages(order!, updated), tx);
+
+        return updated;
+      });
+
+      await recordStatusChange({
+        orderId: order!.id,
+        fromStatus: order!.status,
+        toStatus: targetStatus,
+        actorId: currentUser.id,
+        actorRole: currentUser.role,
+        reason: 'QR code scanned',
+        metadata: { purpose: payload!.purpose, ...(payload!.tollGateId && { tollGateId: payload!.tollGateId }) }
+      });
+    }
+
+    if (payload!.purpose === 'CUSTOMER_DELIVERY') {
+      await DeliveryProofService.markComplete(order!.id, requiredProofs);
+    }
+
+    await logAuditEvent(
+      currentUser.id,
+      'QR_CODE_SCANNED',
+      order!.id,
+      {
+        orderNumber: order!.orderNumber,
+        purpose: payload!.purpose,
+        issuedBy: verification.record!.issuedBy,
+        tollGateId: payload!.tollGateId || null,
+        statusChanged: changesStatus
+      }
+    );
+
     res.json({
       success: true,
-      data: result
+      data: {
+        purpose: payload!.purpose,
+        orderId: updatedOrder.id,
+        orderNumber: updatedOrder.orderNumber,
+        previousStatus: order!.status,
+        status: updatedOrder.status,
+        ...(payload!.tollGateId && { tollGateId: payload!.tollGateId }),
+        scannedAt: new Date().toISOString()
+      }
     });
   } catch (error) {
     console.error('QR scanning error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to process QR code'
@@ -134,31 +275,4 @@ router.post('/scan', async (req, res) => {
   }
 });
 
-async function processDeliveryQR(qrCode: string) {
-  return {
-    type: 'delivery',
-    orderId: qrCode,
-    status: 'verified',
-    timestamp: new Date().toISOString()
-  };
-}
-
-async function processPaymentQR(qrCode: string) {
-  return {
-    type: 'payment',
-    amount: 0,
-    reference: qrCode,
-    status: 'pending'
-  };
-}
-
-async function processTollQR(qrCode: string) {
-  return {
-    type: 'toll',
-    gateId: qrCode,
-    status: 'ready',
-    timestamp: new Date().toISOString()
-  };
-}
-
 export default router;
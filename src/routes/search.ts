@@ -1,10 +1,8 @@
 
 import express from 'express';
-import { db } from '../db/config';
-import { products, users, merchantProfiles, categories } from '../db/schema';
-import { eq, and, or, ilike, isNull, desc, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth } from '../utils/auth';
+import SearchService, { PRODUCT_SORTS, SearchLocation } from '../services/search';
 
 const router = express.Router();
 
@@ -13,7 +11,9 @@ const searchSchema = z.object({
   query: z.string().min(1, 'Search query is required'),
   type: z.enum(['all', 'products', 'merchants', 'categories']).optional().default('all'),
   page: z.string().optional().default('1'),
-  limit: z.string().optional().default('20')
+  limit: z.string().optional().default('20'),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional()
 });
 
 const productSearchSchema = z.object({
@@ -24,9 +24,20 @@ const productSearchSchema = z.object({
   merchantId: z.string().optional(),
   page: z.string().optional().default('1'),
   limit: z.string().optional().default('20'),
-  sortBy: z.enum(['name', 'price', 'rating', 'newest']).optional().default('name')
+  sortBy: z.enum(PRODUCT_SORTS).optional().default('relevance'),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional()
+});
+
+const suggestSchema = z.object({
+  q: z.string().trim().min(1, 'Search text is required').max(100),
+  limit: z.coerce.number().int().min(1).max(20).optional().default(10)
 });
 
+// Ranking by distance needs both coordinates
+const toLocation = (lat?: number, lng?: number): SearchLocation | undefined =>
+  lat !== undefined && lng !== undefined ? { latitude: lat, longitude: lng } : undefined;
+
 // GET /api/search - Global search
 router.get('/', requireAuth, async (req, res) => {
   try {
@@ -43,36 +54,16 @@ router.get('/', requireAuth, async (req, res) => {
       categories: []
     };
 
+    const location = toLocation(validatedQuery.lat, validatedQuery.lng);
+
     // Search products
     if (type === 'all' || type === 'products') {
-      const productResults = await db
-        .select({
-          id: products.id,
-          name: products.name,
-          description: products.description,
-          price: products.price,
-          imageUrl: products.imageUrl,
-          rating: products.rating,
-          totalReviews: products.totalReviews,
-          merchantName: users.fullName,
-          categoryName: categories.name
-        })
-        .from(products)
-        .leftJoin(users, eq(products.merchantId, users.id))
-        .leftJoin(categories, eq(products.categoryId, categories.id))
-        .where(
-          and(
-            or(
-              ilike(products.name, `%${query}%`),
-              ilike(products.description, `%${query}%`)
-            ),
-            isNull(products.deletedAt),
-            eq(products.isActive, true),
-            eq(products.isAvailable, true)
-          )
-        )
-        .limit(type === 'products' ? limitNum : 5)
-        .offset(type === 'products' ? offset : 0);
+      const { results: productResults } = await SearchService.searchProducts({
+        query,
+        location,
+        limit: type === 'products' ? limitNum : 5,
+        offset: type === 'products' ? offset : 0
+      });
 
       results.products = productResults.map(p => ({
         ...p,
@@ -82,36 +73,12 @@ router.get('/', requireAuth, async (req, res) => {
 
     // Search merchants
     if (type === 'all' || type === 'merchants') {
-      const merchantResults = await db
-        .select({
-          id: merchantProfiles.id,
-          businessName: merchantProfiles.businessName,
-          description: merchantProfiles.description,
-          businessType: merchantProfiles.businessType,
-          location: merchantProfiles.businessAddress,
-          isVerified: merchantProfiles.isVerified,
-          userDetails: {
-            fullName: users.fullName,
-            averageRating: users.averageRating,
-            totalRatings: users.totalRatings
-          }
-        })
-        .from(merchantProfiles)
-        .innerJoin(users, eq(merchantProfiles.userId, users.id))
-        .where(
-          and(
-            or(
-              ilike(merchantProfiles.businessName, `%${query}%`),
-              ilike(merchantProfiles.description, `%${query}%`),
-              ilike(merchantProfiles.businessType, `%${query}%`)
-            ),
-            isNull(merchantProfiles.deletedAt),
-            eq(merchantProfiles.isActive, true),
-            eq(merchantProfiles.isVerified, true)
-          )
-        )
-        .limit(type === 'merchants' ? limitNum : 5)
-        .offset(type === 'merchants' ? offset : 0);
+      const merchantResults = await SearchService.searchMerchants(
+        query,
+        type === 'merchants' ? limitNum : 5,
+        type === 'merchants' ? offset : 0,
+        location
+      );
 
       results.merchants = merchantResults.map(m => ({
         ...m,
@@ -121,23 +88,11 @@ router.get('/', requireAuth, async (req, res) => {
 
     // Search categories
     if (type === 'all' || type === 'categories') {
-      const categoryResults = await db
-        .select({
-          id: categories.id,
-          name: categories.name,
-          description: categories.description,
-          imageUrl: categories.imageUrl
-        })
-        .from(categories)
-        .where(
-          and(
-            ilike(categories.name, `%${query}%`),
-            isNull(categories.deletedAt),
-            eq(categories.isActive, true)
-          )
-        )
-        .limit(type === 'categories' ? limitNum : 5)
-        .offset(type === 'categories' ? offset : 0);
+      const categoryResults = await SearchService.searchCategories(
+        query,
+        type === 'categories' ? limitNum : 5,
+        type === 'categories' ? offset : 0
+      );
 
       results.categories = categoryResults.map(c => ({
         ...c,
@@ -145,14 +100,14 @@ router.get('/', requireAuth, async (req, res) => {
       }));
     }
 
-    // If searching all, combine results
+    // If searching all, combine results, best matches first
     let combinedResults = [];
     if (type === 'all') {
       combinedResults = [
         ...results.products,
         ...results.merchants,
         ...results.categories
-      ].slice(0, limitNum);
+      ].sort((a, b) => b.score - a.score).slice(0, limitNum);
     } else {
       combinedResults = results[type] || [];
     }
@@ -203,85 +158,28 @@ router.get('/products', requireAuth, async (req, res) => {
     const limitNum = parseInt(limit);
     const offset = (pageNum - 1) * limitNum;
 
-    // Build conditions
-    const conditions = [
-      or(
-        ilike(products.name, `%${query}%`),
-        ilike(products.description, `%${query}%`)
-      ),
-      isNull(products.deletedAt),
-      eq(products.isActive, true),
-      eq(products.isAvailable, true)
-    ];
-
-    if (categoryId) {
-      conditions.push(eq(products.categoryId, parseInt(categoryId)));
-    }
-
-    if (minPrice) {
-      conditions.push(sql`CAST(${products.price} AS DECIMAL) >= ${parseFloat(minPrice)}`);
-    }
-
-    if (maxPrice) {
-      conditions.push(sql`CAST(${products.price} AS DECIMAL) <= ${parseFloat(maxPrice)}`);
-    }
-
-    if (merchantId) {
-      conditions.push(eq(products.merchantId, parseInt(merchantId)));
-    }
-
-    // Define sort order
-    let orderBy;
-    switch (sortBy) {
-      case 'price':
-        orderBy = sql`CAST(${products.price} AS DECIMAL) ASC`;
-        break;
-      case 'rating':
-        orderBy = desc(products.rating);
-        break;
-      case 'newest':
-        orderBy = desc(products.createdAt);
-        break;
-      default:
-        orderBy = products.name;
-    }
-
-    const productResults = await db
-      .select({
-        id: products.id,
-        name: products.name,
-        description: products.description,
-        price: products.price,
-        unit: products.unit,
-        imageUrl: products.imageUrl,
-        images: products.images,
-        rating: products.rating,
-        totalReviews: products.totalReviews,
-        stockQuantity: products.stockQuantity,
-        merchantId: products.merchantId,
-        merchantName: users.fullName,
-        categoryId: products.categoryId,
-        categoryName: categories.name,
-        createdAt: products.createdAt
-      })
-      .from(products)
-      .leftJoin(users, eq(products.merchantId, users.id))
-      .leftJoin(categories, eq(products.categoryId, categories.id))
-      .where(and(...conditions))
-      .orderBy(orderBy)
-      .limit(limitNum)
-      .offset(offset);
+    const options = {
+      query,
+      categoryId: categoryId ? parseInt(categoryId) : undefined,
+      merchantId: merchantId ? parseInt(merchantId) : undefined,
+      minPrice: minPrice ? parseFloat(minPrice) : undefined,
+      maxPrice: maxPrice ? parseFloat(maxPrice) : undefined,
+      location: toLocation(validatedQuery.lat, validatedQuery.lng),
+      sortBy,
+      limit: limitNum,
+      offset
+    };
 
-    // Get total count for pagination
-    const [{ count }] = await db
-      .select({ count: sql`count(*)` })
-      .from(products)
-      .where(and(...conditions));
+    const [{ results: productResults, total }, facets] = await Promise.all([
+      SearchService.searchProducts(options),
+      SearchService.productFacets(options)
+    ]);
 
     res.json({
       success: true,
       query,
       products: productResults,
+      facets,
       filters: {
         categoryId,
         minPrice,
@@ -292,8 +190,8 @@ router.get('/products', requireAuth, async (req, res) => {
       pagination: {
         page: pageNum,
         limit: limitNum,
-        total: parseInt(count as string),
-        totalPages: Math.ceil(parseInt(count as string) / limitNum)
+        total,
+        totalPages: Math.ceil(total / limitNum)
       }
     });
   } catch (error) {
@@ -314,4 +212,34 @@ router.get('/products', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/search/suggest - Autocomplete suggestions for what has been typed so far
+router.get('/suggest', requireAuth, async (req, res) => {
+  try {
+    const { q, limit } = suggestSchema.parse(req.query);
+
+    const suggestions = await SearchService.suggest(q, limit);
+
+    res.json({
+      success: true,
+      query: q,
+      suggestions
+    });
+  } catch (error) {
+    console.error('Search suggestions error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get search suggestions'
+    });
+  }
+});
+
 export default router;
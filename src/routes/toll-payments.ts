@@ -4,6 +4,8 @@ import { db } from '../db/config';
 import { transactions, users, auditLogs, tollGates } from '../db/schema';
 import { eq, and, desc, isNull, count } from 'drizzle-orm';
 import { requireAuth } from '../utils/auth';
+import AccountingService from '../services/accounting';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
@@ -42,25 +44,30 @@ router.post('/', requireAuth, async (req, res) => {
     // Create transaction for toll payment
     const transactionRef = `TOLL-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
     
-    const [transaction] = await db
-      .insert(transactions)
-      .values({
-        userId,
-        amount: validatedData.amount.toString(),
-        currency: 'NGN',
-        type: 'TOLL_PAYMENT',
-        status: 'COMPLETED',
-        paymentMethod: validatedData.paymentMethod,
-        transactionRef,
-        metadata: {
-          tollGateId: validatedData.tollGateId,
-          tollGateName: tollGate.name,
-          vehicleType: validatedData.vehicleType,
-          vehiclePlate: validatedData.vehiclePlate,
-          location: tollGate.location
-        }
-      })
-      .returning();
+    const transaction = await withTransaction(async (tx) => {
+      const [created] = await tx
+        .insert(transactions)
+        .values({
+          userId,
+          amount: validatedData.amount.toString(),
+          currency: 'NGN',
+          type: 'TOLL_PAYMENT',
+          status: 'COMPLETED',
+          paymentMethod: validatedData.paymentMethod,
+          transactionRef,
+          metadata: {
+            tollGateId: validatedData.tollGateId,
+            tollGateName: tollGate.name,
+            vehicleType: validatedData.vehicleType,
+            vehiclePlate: validatedData.vehiclePlate,
+            location: tollGate.location
+          }
+        })
+        .returning();
+
+      await AccountingService.recordToll(created, tx);
+      return created;
+    });
 
     // Log audit
     await db.insert(auditLogs).values({
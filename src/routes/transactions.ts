@@ -4,6 +4,8 @@ import { transactions, users, orders, auditLogs } from '../db/schema';
 import { eq, isNull, desc, and, or, ilike, gte, lte } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireRole, requireAdmin } from '../utils/auth';
+import AccountingService from '../services/accounting';
+import { withTransaction } from '../utils/db-transaction';
 
 const router = express.Router();
 
@@ -588,25 +590,29 @@ router.post('/:id/refund', requireAuth, requireRole(['ADMIN', 'MERCHANT']), asyn
       .where(eq(transactions.id, transactionId))
       .returning();
 
-    // Create a refund transaction record
+    // Create a refund transaction record and book the money paid back
     const refundRef = generateTransactionRef();
-    await db.insert(transactions).values({
-      userId: existingTransaction[0].userId,
-      recipientId: currentUser.id,
-      amount: refundAmountNum.toString(),
-      netAmount: refundAmountNum.toString(),
-      currency: existingTransaction[0].currency,
-      type: 'REFUND',
-      status: 'COMPLETED',
-      paymentMethod: existingTransaction[0].paymentMethod,
-      transactionRef: refundRef,
-      description: `Refund for transaction ${existingTransaction[0].transactionRef}`,
-      metadata: {
-        originalTransactionId: transactionId,
-        refundReason: reason || 'Refund requested'
-      },
-      initiatedAt: new Date(),
-      completedAt: new Date()
+    await withTransaction(async (tx) => {
+      const [refund] = await tx.insert(transactions).values({
+        userId: existingTransaction[0].userId,
+        recipientId: currentUser.id,
+        amount: refundAmountNum.toString(),
+        netAmount: refundAmountNum.toString(),
+        currency: existingTransaction[0].currency,
+        type: 'REFUND',
+        status: 'COMPLETED',
+        paymentMethod: existingTransaction[0].paymentMethod,
+        transactionRef: refundRef,
+        description: `Refund for transaction ${existingTransaction[0].transactionRef}`,
+        metadata: {
+          originalTransactionId: transactionId,
+          refundReason: reason || 'Refund requested'
+        },
+        initiatedAt: new Date(),
+        completedAt: new Date()
+      }).returning();
+
+      await AccountingService.recordRefund(refund, tx);
     });
 
     // Log audit event
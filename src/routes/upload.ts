@@ -12,7 +12,7 @@ const uploadMetadataSchema = z.object({
   fileName: z.string().min(1),
   fileSize: z.number().positive(),
   mimeType: z.string().min(1),
-  purpose: z.enum(['profile', 'product', 'document', 'verification', 'other']),
+  purpose: z.enum(['profile', 'product', 'document', 'verification', 'delivery', 'other']),
   description: z.string().optional()
 });
 
@@ -61,6 +61,7 @@ router.post('/presigned-url', requireAuth, async (req, res) => {
       product: 10 * 1024 * 1024, // 10MB
       document: 20 * 1024 * 1024, // 20MB
       verification: 20 * 1024 * 1024, // 20MB
+      delivery: 10 * 1024 * 1024, // 10MB
       other: 5 * 1024 * 1024 // 5MB
     };
 
@@ -3,7 +3,7 @@ import express from 'express';
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import { db } from '../db/config';
-import { users, mfaTokens, auditLogs } from '../db/schema';
+import { users, mfaTokens, auditLogs, bankAccounts } from '../db/schema';
 import { eq, and, isNull, or, ilike, desc } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireAdmin, requireOwnershipOrAdmin, hashPassword } from '../utils/auth';
@@ -240,14 +240,16 @@ router.get('/:id', requireAuth, requireOwnershipOrAdmin, async (req, res) => {
         lastLoginAt: users.lastLoginAt,
         loginAttempts: users.loginAttempts,
         accountLockedUntil: users.accountLockedUntil,
-        paystackRecipientCode: users.paystackRecipientCode,
-        bankName: users.bankName,
-        accountNumber: users.accountNumber,
-        accountName: users.accountName,
+        // Payout details come from the user's live bank account
+        paystackRecipientCode: bankAccounts.paystackRecipientCode,
+        bankName: bankAccounts.bankName,
+        accountNumber: bankAccounts.accountNumber,
+        accountName: bankAccounts.accountName,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt
       })
       .from(users)
+      .leftJoin(bankAccounts, and(eq(bankAccounts.userId, users.id), isNull(bankAccounts.deletedAt)))
       .where(and(eq(users.id, userId), isNull(users.deletedAt)))
       .limit(1);
 
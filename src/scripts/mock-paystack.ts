@@ -0,0 +1,222 @@
+import express from 'express';
+import fs from 'fs';
+
+/**
+ * A local stand-in for the parts of the Paystack API this backend calls, so
+ * payments, payouts and reconciliation can be exercised without Paystack.
+ * Point the app at it with PAYSTACK_BASE_URL=http://localhost:4010 and seed
+ * it through the /__mock endpoints or a fixtures file.
+ *
+ *   npm run mock-paystack
+ *   MOCK_PAYSTACK_FIXTURES=fixtures.json npm run mock-paystack
+ */
+
+export interface MockTransaction {
+  id: number;
+  reference: string;
+  amount: number; // kobo
+  currency?: string;
+  status: string; // success, failed, abandoned, reversed, ongoing...
+  paid_at?: string | null;
+  created_at?: string;
+  customer?: { email: string };
+  settlementId?: number | null;
+}
+
+export interface MockSettlement {
+  id: number;
+  status: string;
+  total_amount: number; // kobo
+  settlement_date: string;
+  created_at?: string;
+}
+
+export interface MockPaystackFixtures {
+  transactions?: MockTransaction[];
+  settlements?: MockSettlement[];
+}
+
+const BANKS = [
+  { id: 1, name: 'Access Bank', code: '044', currency: 'NGN', country: 'Nigeria', active: true },
+  { id: 2, name: 'First Bank of Nigeria', code: '011', currency: 'NGN', country: 'Nigeria', active: true },
+  { id: 3, name: 'Guaranty Trust Bank', code: '058', currency: 'NGN', country: 'Nigeria', active: true },
+  { id: 4, name: 'United Bank For Africa', code: '033', currency: 'NGN', country: 'Nigeria', active: true },
+  { id: 5, name: 'Zenith Bank', code: '057', currency: 'NGN', country: 'Nigeria', active: true }
+];
+
+export function createMockPaystack(fixtures: MockPaystackFixtures = {}) {
+  const store = {
+    transactions: [] as MockTransaction[],
+    settlements: [] as MockSettlement[],
+    transfers: [] as any[],
+    recipients: [] as any[],
+    nextId: 1000
+  };
+
+  const seed = (data: MockPaystackFixtures) => {
+    store.transactions = [...(data.transactions || [])];
+    store.settlements = [...(data.settlements || [])];
+    store.transfers = [];
+    store.recipients = [];
+  };
+  seed(fixtures);
+
+  // Paystack's list envelope: filtered by from/to on the row's date, paged by page/perPage
+  const page = <T>(req: express.Request, rows: T[], dateOf?: (row: T) => string | undefined) => {
+    const from = req.query.from ? new Date(String(req.query.from)).getTime() : -Infinity;
+    const to = req.query.to ? new Date(String(req.query.to)).getTime() : Infinity;
+    const filtered = dateOf
+      ? rows.filter(row => {
+          const at = new Date(dateOf(row) || Date.now()).getTime();
+          return at >= from && at <= to;
+        })
+      : rows;
+
+    const perPage = Number(req.query.perPage) || 50;
+    const current = Number(req.query.page) || 1;
+
+    return {
+      status: true,
+      message: 'Retrieved',
+      data: filtered.slice((current - 1) * perPage, current * perPage),
+      meta: { total: filtered.length, perPage, page: current, pageCount: Math.ceil(filtered.length / perPage) }
+    };
+  };
+
+  const app = express();
+  app.use(express.json());
+
+  app.use((req, res, next) => {
+    if (req.path.startsWith('/__mock') || req.headers.authorization?.startsWith('Bearer ')) return next();
+    res.status(401).json({ status: false, message: 'No Authorization header was found' });
+  });
+
+  app.post('/transaction/initialize', (req, res) => {
+    const reference = req.body.reference || `mock_${store.nextId}`;
+    store.transactions.push({
+      id: store.nextId++,
+      reference,
+      amount: Number(req.body.amount),
+      currency: req.body.currency || 'NGN',
+      status: 'ongoing',
+      created_at: new Date().toISOString(),
+      customer: { email: req.body.email }
+    });
+
+    res.json({
+      status: true,
+      message: 'Authorization URL created',
+      data: { authorization_url: `http://localhost/mock-checkout/${reference}`, access_code: `access_${reference}`, reference }
+    });
+  });
+
+  app.get('/transaction/verify/:reference', (req, res) => {
+    const transaction = store.transactions.find(t => t.reference === req.params.reference);
+    if (!transaction) {
+      return res.status(404).json({ status: false, message: 'Transaction reference not found' });
+    }
+    res.json({ status: true, message: 'Verification successful', data: transaction });
+  });
+
+  app.get('/transaction', (req, res) => {
+    res.json(page(req, store.transactions, t => t.created_at));
+  });
+
+  app.get('/settlement', (req, res) => {
+    res.json(page(req, store.settlements, s => s.settlement_date));
+  });
+
+  app.get('/settlement/:id/transactions', (req, res) => {
+    const settled = store.transactions.filter(t => t.settlementId === Number(req.params.id));
+    res.json(page(req, settled));
+  });
+
+  app.post('/transferrecipient', (req, res) => {
+    const recipient = {
+      id: store.nextId++,
+      recipient_code: `RCP_mock${store.nextId}`,
+      type: req.body.type,
+      name: req.body.name,
+      details: { account_number: req.body.account_number, bank_code: req.body.bank_code }
+    };
+    store.recipients.push(recipient);
+    res.status(201).json({ status: true, message: 'Transfer recipient created successfully', data: recipient });
+  });
+
+  app.post('/transfer', (req, res) => {
+    const transfer = {
+      id: store.nextId++,
+      transfer_code: `TRF_mock${store.nextId}`,
+      reference: req.body.reference,
+      amount: Number(req.body.amount),
+      recipient: req.body.recipient,
+      status: 'pending'
+    };
+    store.transfers.push(transfer);
+    res.json({ status: true, message: 'Transfer has been queued', data: transfer });
+  });
+
+  app.get('/transfer/verify/:reference', (req, res) => {
+    const transfer = store.transfers.find(t => t.reference === req.params.reference);
+    if (!transfer) {
+      return res.status(404).json({ status: false, message: 'Transfer not found' });
+    }
+    res.json({ status: true, message: 'Transfer retrieved', data: transfer });
+  });
+
+  app.get('/bank', (req, res) => {
+    res.json({ status: true, message: 'Banks retrieved', data: BANKS });
+  });
+
+  app.get('/bank/resolve', (req, res) => {
+    const accountNumber = String(req.query.account_number || '');
+    if (!/^\d{10}$/.test(accountNumber) || !BANKS.some(bank => bank.code === req.query.bank_code)) {
+      return res.status(422).json({ status: false, message: 'Could not resolve account name. Check parameters or try again.' });
+    }
+    res.json({ status: true, message: 'Account number resolved', data: { account_number: accountNumber, account_name: 'MOCK ACCOUNT HOLDER' } });
+  });
+
+  // Test controls
+  app.post('/__mock/reset', (req, res) => {
+    seed(req.body || {});
+    res.json({ status: true });
+  });
+
+  app.post('/__mock/transactions', (req, res) => {
+    const transaction = { id: store.nextId++, created_at: new Date().toISOString(), ...req.body };
+    store.transactions.push(transaction);
+    res.status(201).json({ status: true, data: transaction });
+  });
+
+  app.patch('/__mock/transactions/:reference', (req, res) => {
+    const transaction = store.transactions.find(t => t.reference === req.params.reference);
+    if (!transaction) {
+      return res.status(404).json({ status: false, message: 'Transaction reference not found' });
+    }
+    Object.assign(transaction, req.body);
+    res.json({ status: true, data: transaction });
+  });
+
+  app.post('/__mock/settlements', (req, res) => {
+    const settlement = { id: store.nextId++, status: 'success', created_at: new Date().toISOString(), ...req.body };
+    store.settlements.push(settlement);
+    res.status(201).json({ status: true, data: settlement });
+  });
+
+  app.get('/__mock/transfers', (req, res) => {
+    res.json({ status: true, data: store.transfers });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_PAYSTACK_PORT) || 4010;
+  const fixtures = process.env.MOCK_PAYSTACK_FIXTURES
+    ? JSON.parse(fs.readFileSync(process.env.MOCK_PAYSTACK_FIXTURES, 'utf8'))
+    : {};
+
+  createMockPaystack(fixtures).listen(port, () => {
+    console.log(`🧪 Mock Paystack API running on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,123 @@
+import { AddressInfo } from 'net';
+import { createMockPaystack, MockPaystackFixtures } from './mock-paystack';
+
+/**
+ * Runs reconciliation against the mock Paystack API: one day of fixture
+ * transactions and a settlement are fetched through PaystackService, compared
+ * with a set of local payments, and the discrepancy report is checked.
+ * Needs no database; the local side stands in for what run() would query.
+ *
+ *   npm run test-reconciliation
+ */
+
+const DAY = '2024-03-10';
+const at = (time: string) => `${DAY}T${time}:00.000Z`;
+
+const fixtures: MockPaystackFixtures = {
+  transactions: [
+    { id: 1, reference: 'REF_MATCHED', amount: 500000, status: 'success', created_at: at('09:00'), customer: { email: 'ada@example.com' }, settlementId: 90 },
+    { id: 2, reference: 'REF_UNPAID_LOCALLY', amount: 300000, status: 'success', created_at: at('10:00') },
+    { id: 3, reference: 'REF_WRONG_AMOUNT', amount: 250000, status: 'success', created_at: at('11:00') },
+    { id: 4, reference: 'REF_NOT_OURS', amount: 100000, status: 'success', created_at: at('12:00') },
+    { id: 5, reference: 'REF_TWICE', amount: 100000, status: 'success', created_at: at('13:00') },
+    { id: 6, reference: 'REF_TWICE', amount: 100000, status: 'success', created_at: at('13:01') },
+    { id: 7, reference: 'REF_IN_FLIGHT', amount: 70000, status: 'ongoing', created_at: at('14:00') },
+    // Outside the day, so never fetched
+    { id: 8, reference: 'REF_OTHER_DAY', amount: 100000, status: 'success', created_at: '2024-03-12T10:00:00.000Z' }
+  ],
+  settlements: [
+    { id: 90, status: 'success', total_amount: 500000, settlement_date: '2024-03-11T08:00:00.000Z' }
+  ]
+};
+
+// Our side of the day: what run() would load from the transactions table
+const local = [
+  { id: 101, transactionRef: 'REF_MATCHED', amount: '5000.00', status: 'COMPLETED' },
+  { id: 102, transactionRef: 'REF_UNPAID_LOCALLY', amount: '3000.00', status: 'PENDING' },
+  { id: 103, transactionRef: 'REF_WRONG_AMOUNT', amount: '2000.00', status: 'COMPLETED' },
+  { id: 104, transactionRef: 'REF_TWICE', amount: '1000.00', status: 'COMPLETED' },
+  { id: 105, transactionRef: 'REF_IN_FLIGHT', amount: '700.00', status: 'PENDING' },
+  { id: 106, transactionRef: 'REF_NOT_AT_PAYSTACK', amount: '1500.00', status: 'COMPLETED' }
+].map(row => ({
+  userId: 1,
+  orderId: null,
+  recipientId: null,
+  netAmount: null,
+  currency: 'NGN',
+  type: 'PAYMENT' as const,
+  paymentMethod: 'card',
+  paymentGatewayRef: null,
+  paystackTransactionId: row.transactionRef,
+  description: null,
+  metadata: {},
+  initiatedAt: null,
+  completedAt: null,
+  failedAt: null,
+  createdAt: new Date(at('09:00')),
+  updatedAt: new Date(at('09:00')),
+  deletedAt: null,
+  ...row,
+  status: row.status as 'PENDING' | 'COMPLETED'
+}));
+
+const expected = [
+  'AMOUNT_MISMATCH REF_WRONG_AMOUNT',
+  'DUPLICATE REF_TWICE',
+  'MISSING_LOCAL REF_NOT_OURS',
+  'MISSING_REMOTE REF_NOT_AT_PAYSTACK',
+  'STATUS_MISMATCH REF_UNPAID_LOCALLY'
+];
+
+async function main() {
+  const server = createMockPaystack(fixtures).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+
+  // PaystackService reads these when it is loaded
+  process.env.PAYSTACK_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || 'sk_test_mock';
+  const ReconciliationService = require('../services/reconciliation').default;
+
+  let failures = 0;
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    console.log(`${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) {
+      failures++;
+      if (detail !== undefined) console.log('   got:', JSON.stringify(detail));
+    }
+  };
+
+  try {
+    const { start, end } = ReconciliationService.dayPeriod(DAY);
+    const remote = await ReconciliationService.fetchRemote(start, end);
+
+    check('Fetches only the day\'s Paystack transactions', remote.length === 7, remote.map((r: any) => r.reference));
+    check(
+      'Marks settled transactions with their settlement',
+      remote.find((r: any) => r.reference === 'REF_MATCHED')?.settlementId === '90'
+    );
+
+    const references = new Set(remote.map((r: any) => r.reference));
+    const matched = local.filter(t => references.has(t.transactionRef));
+    const report = ReconciliationService.compare(remote, matched, local);
+
+    const found = report.map((d: any) => `${d.type} ${d.reference}`).sort();
+    check('Reports each discrepancy once, and nothing else', JSON.stringify(found) === JSON.stringify(expected), found);
+
+    const mismatch = report.find((d: any) => d.type === 'AMOUNT_MISMATCH');
+    check(
+      'Amount mismatch carries both amounts',
+      mismatch?.localAmount === '2000.00' && mismatch?.remoteAmount === '2500.00',
+      mismatch
+    );
+  } catch (error) {
+    console.error('❌ Reconciliation check failed:', error);
+    failures++;
+  } finally {
+    server.close();
+  }
+
+  console.log(failures ? `\n${failures} check(s) failed` : '\n✨ Reconciliation matches the mock Paystack data');
+  process.exit(failures ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,376 @@
+import { db } from '../db/config';
+import { ledgerAccounts, journalEntries, journalLines, transactions, escrows, escrowAllocations, escrowMovements } from '../db/schema';
+import { eq, lte, asc, sql } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+
+type Transaction = typeof transactions.$inferSelect;
+type Escrow = typeof escrows.$inferSelect;
+type EscrowAllocation = typeof escrowAllocations.$inferSelect;
+type EscrowMovement = typeof escrowMovements.$inferSelect;
+type JournalEntry = typeof journalEntries.$inferSelect;
+
+// Accounts the platform itself holds; created on first use
+const PLATFORM_ACCOUNTS = {
+  PAYSTACK_CLEARING: { name: 'Paystack clearing', type: 'ASSET' },
+  CASH_COLLECTIONS: { name: 'Cash collections', type: 'ASSET' },
+  ESCROW_HOLDING: { name: 'Escrow holding', type: 'LIABILITY' },
+  PLATFORM_REVENUE: { name: 'Platform revenue', type: 'REVENUE' },
+  DISCOUNT_FUNDING: { name: 'Platform-funded discounts', type: 'EXPENSE' }
+} as const;
+
+// One of each per user: what the platform owes them
+const OWNER_ACCOUNTS = {
+  CUSTOMER: { name: 'Customer balance', type: 'LIABILITY' },
+  MERCHANT: { name: 'Merchant payable', type: 'LIABILITY' },
+  DRIVER: { name: 'Driver payable', type: 'LIABILITY' }
+} as const;
+
+export type PlatformAccount = keyof typeof PLATFORM_ACCOUNTS;
+export type OwnerAccountCategory = keyof typeof OWNER_ACCOUNTS;
+export type AccountRef = PlatformAccount | { category: OwnerAccountCategory; ownerId: number };
+
+// Assets grow with debits; liabilities and revenue with credits
+const DEBIT_NORMAL_TYPES = ['ASSET', 'EXPENSE'];
+
+export interface JournalLineInput {
+  account: AccountRef;
+  debit?: string;
+  credit?: string;
+}
+
+export interface JournalEntryInput {
+  reference: string;
+  description: string;
+  sourceType: 'PAYMENT' | 'PAYMENT_REVERSAL' | 'ESCROW_MOVEMENT' | 'PAYOUT' | 'PAYOUT_REVERSAL' | 'REFUND' | 'TOLL' | 'ADJUSTMENT';
+  sourceId?: number | null;
+  createdBy?: number | null;
+  lines: JournalLineInput[];
+}
+
+// Entries are checked in kobo so rounding can never unbalance them
+const toKobo = (amount: string | number | null | undefined) => Math.round(Number(amount || 0) * 100);
+const fromKobo = (kobo: number) => (kobo / 100).toFixed(2);
+
+export class AccountingService {
+  /**
+   * Posts a balanced journal entry. The reference identifies the business
+   * event, so posting the same event twice (a webhook delivered again, two
+   * handlers for one payment) leaves the first entry alone and returns null.
+   * Pass the surrounding transaction to post atomically with the change
+   * being recorded. Throws on an unbalanced or empty entry: that is a bug
+   * in the caller, not something to record.
+   */
+  static async post(entry: JournalEntryInput, executor?: any): Promise<JournalEntry | null> {
+    const lines = entry.lines.map(line => ({ account: line.account, debit: toKobo(line.debit), credit: toKobo(line.credit) }));
+
+    if (lines.length < 2 || lines.some(line => line.debit < 0 || line.credit < 0 || (line.debit > 0) === (line.credit > 0))) {
+      throw new Error(`Journal entry ${entry.reference} needs at least two lines, each either a debit or a credit`);
+    }
+
+    const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+    const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+    if (debits !== credits) {
+      throw new Error(`Journal entry ${entry.reference} does not balance: debits ${fromKobo(debits)}, credits ${fromKobo(credits)}`);
+    }
+
+    const run = async (tx: any): Promise<JournalEntry | null> => {
+      const [posted]: JournalEntry[] = await tx
+        .insert(journalEntries)
+        .values({
+          reference: entry.reference,
+          description: entry.description,
+          sourceType: entry.sourceType,
+          sourceId: entry.sourceId ?? null,
+          createdBy: entry.createdBy ?? null
+        })
+        .onConflictDoNothing({ target: journalEntries.reference })
+        .returning();
+
+      if (!posted) return null;
+
+      for (const line of lines) {
+        const accountId = await this.resolveAccount(tx, line.account);
+        await tx.insert(journalLines).values({
+          entryId: posted.id,
+          accountId,
+          debit: fromKobo(line.debit),
+          credit: fromKobo(line.credit)
+        });
+      }
+
+      return posted;
+    };
+
+    return executor ? run(executor) : withTransaction(run);
+  }
+
+  /**
+   * A customer's payment landed in Paystack: it is held for them until it
+   * funds an escrow or is paid back.
+   */
+  static async recordPayment(transaction: Transaction, executor?: any) {
+    if (toKobo(transaction.amount) <= 0) return null;
+
+    return this.post({
+      reference: `PAYMENT_${transaction.transactionRef}`,
+      description: `Payment ${transaction.transactionRef} received`,
+      sourceType: 'PAYMENT',
+      sourceId: transaction.id,
+      lines: [
+        { account: 'PAYSTACK_CLEARING', debit: transaction.amount },
+        { account: { category: 'CUSTOMER', ownerId: transaction.userId }, credit: transaction.amount }
+      ]
+    }, executor);
+  }
+
+  /**
+   * A payment booked as received turned out never to have arrived.
+   */
+  static async reversePayment(transaction: Transaction, executor?: any) {
+    if (!(await this.isPosted(`PAYMENT_${transaction.transactionRef}`, executor))) return null;
+
+    return this.post({
+      reference: `PAYMENT_REVERSAL_${transaction.transactionRef}`,
+      description: `Payment ${transaction.transactionRef} reversed`,
+      sourceType: 'PAYMENT_REVERSAL',
+      sourceId: transaction.id,
+      lines: [
+        { account: { category: 'CUSTOMER', ownerId: transaction.userId }, debit: transaction.amount },
+        { account: 'PAYSTACK_CLEARING', credit: transaction.amount }
+      ]
+    }, executor);
+  }
+
+  /**
+   * Whether an entry with this reference has been posted.
+   */
+  static async isPosted(reference: string, executor?: any): Promise<boolean> {
+    const [entry] = await (executor || db)
+      .select({ id: journalEntries.id })
+      .from(journalEntries)
+      .where(eq(journalEntries.reference, reference))
+      .limit(1);
+
+    return !!entry;
+  }
+
+  /**
+   * Mirrors an escrow movement: funding moves the customer's money into
+   * escrow, a release moves a share to the merchant, driver or platform,
+   * and a refund moves it back to the customer. A negative platform line
+   * is the platform paying for a discount it funded: its funding covers
+   * the customer's shortfall from discount funding, and its refund takes
+   * that back.
+   */
+  static async recordEscrowMovement(escrow: Escrow, allocation: EscrowAllocation, movement: EscrowMovement, executor?: any) {
+    const customer: AccountRef = { category: 'CUSTOMER', ownerId: escrow.payerId };
+    const topUp = fromKobo(-toKobo(movement.amount));
+
+    let lines: JournalLineInput[];
+    if (movement.type === 'FUND' && toKobo(movement.amount) < 0) {
+      lines = [
+        { account: 'DISCOUNT_FUNDING', debit: topUp },
+        { account: customer, credit: topUp }
+      ];
+    } else if (movement.type === 'REFUND' && toKobo(movement.amount) < 0) {
+      lines = [
+        { account: customer, debit: topUp },
+        { account: 'DISCOUNT_FUNDING', credit: topUp }
+      ];
+    } else if (movement.type === 'FUND') {
+      lines = [
+        { account: customer, debit: movement.amount },
+        { account: 'ESCROW_HOLDING', credit: movement.amount }
+      ];
+    } else if (movement.type === 'REFUND') {
+      lines = [
+        { account: 'ESCROW_HOLDING', debit: movement.amount },
+        { account: customer, credit: movement.amount }
+      ];
+    } else {
+      const payee: AccountRef = allocation.party === 'PLATFORM' || !allocation.payeeId
+        ? 'PLATFORM_REVENUE'
+        : { category: allocation.party as OwnerAccountCategory, ownerId: allocation.payeeId };
+      lines = [
+        { account: 'ESCROW_HOLDING', debit: movement.amount },
+        { account: payee, credit: movement.amount }
+      ];
+    }
+
+    return this.post({
+      reference: `ESCROW_MOVEMENT_${movement.id}`,
+      description: `Escrow #${escrow.id} ${movement.type.toLowerCase()} of the ${allocation.party.toLowerCase()} share`,
+      sourceType: 'ESCROW_MOVEMENT',
+      sourceId: movement.id,
+      createdBy: movement.actorId,
+      lines
+    }, executor);
+  }
+
+  /**
+   * A transfer to a merchant or driver went out of the Paystack balance.
+   */
+  static async recordPayout(transaction: Transaction, executor?: any) {
+    const party = this.payoutParty(transaction);
+    if (!party || toKobo(transaction.amount) <= 0) return null;
+
+    return this.post({
+      reference: `PAYOUT_${transaction.transactionRef}`,
+      description: `Payout ${transaction.transactionRef} to ${party.toLowerCase()} #${transaction.userId}`,
+      sourceType: 'PAYOUT',
+      sourceId: transaction.id,
+      lines: [
+        { account: { category: party, ownerId: transaction.userId }, debit: transaction.amount },
+        { account: 'PAYSTACK_CLEARING', credit: transaction.amount }
+      ]
+    }, executor);
+  }
+
+  /**
+   * A transfer failed or was reversed after it had been booked: the money is
+   * back in the Paystack balance and owed to the payee again.
+   */
+  static async reversePayout(transaction: Transaction, executor?: any) {
+    const party = this.payoutParty(transaction);
+    if (!party) return null;
+
+    if (!(await this.isPosted(`PAYOUT_${transaction.transactionRef}`, executor))) return null;
+
+    return this.post({
+      reference: `PAYOUT_REVERSAL_${transaction.transactionRef}`,
+      description: `Payout ${transaction.transactionRef} reversed`,
+      sourceType: 'PAYOUT_REVERSAL',
+      sourceId: transaction.id,
+      lines: [
+        { account: 'PAYSTACK_CLEARING', debit: transaction.amount },
+        { account: { category: party, ownerId: transaction.userId }, credit: transaction.amount }
+      ]
+    }, executor);
+  }
+
+  /**
+   * Money paid back to a customer out of the Paystack balance.
+   */
+  static async recordRefund(transaction: Transaction, executor?: any) {
+    if (toKobo(transaction.amount) <= 0) return null;
+
+    return this.post({
+      reference: `REFUND_${transaction.transactionRef}`,
+      description: `Refund ${transaction.transactionRef} paid to customer #${transaction.userId}`,
+      sourceType: 'REFUND',
+      sourceId: transaction.id,
+      lines: [
+        { account: { category: 'CUSTOMER', ownerId: transaction.userId }, debit: transaction.amount },
+        { account: 'PAYSTACK_CLEARING', credit: transaction.amount }
+      ]
+    }, executor);
+  }
+
+  /**
+   * A toll is platform revenue, paid by card, in cash at the gate, or from
+   * the customer's balance.
+   */
+  static async recordToll(transaction: Transaction, executor?: any) {
+    if (toKobo(transaction.amount) <= 0) return null;
+
+    const source: AccountRef = transaction.paymentMethod === 'CASH'
+      ? 'CASH_COLLECTIONS'
+      : transaction.paymentMethod === 'WALLET'
+        ? { category: 'CUSTOMER', ownerId: transaction.userId }
+        : 'PAYSTACK_CLEARING';
+
+    return this.post({
+      reference: `TOLL_${transaction.transactionRef}`,
+      description: `Toll payment ${transaction.transactionRef}`,
+      sourceType: 'TOLL',
+      sourceId: transaction.id,
+      createdBy: transaction.userId,
+      lines: [
+        { account: source, debit: transaction.amount },
+        { account: 'PLATFORM_REVENUE', credit: transaction.amount }
+      ]
+    }, executor);
+  }
+
+  /**
+   * Debit and credit totals of every account with activity up to asOf, each
+   * account's balance on its normal side, and whether the books balance.
+   */
+  static async trialBalance(asOf: Date = new Date()) {
+    const rows = await db
+      .select({
+        code: ledgerAccounts.code,
+        name: ledgerAccounts.name,
+        type: ledgerAccounts.type,
+        category: ledgerAccounts.category,
+        ownerId: ledgerAccounts.ownerId,
+        debit: sql<string>`COALESCE(SUM(${journalLines.debit}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${journalLines.credit}), 0)`
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(lte(journalEntries.postedAt, asOf))
+      .groupBy(ledgerAccounts.id)
+      .orderBy(asc(ledgerAccounts.type), asc(ledgerAccounts.category), asc(ledgerAccounts.ownerId));
+
+    const accounts = rows.map(row => {
+      const debit = toKobo(row.debit);
+      const credit = toKobo(row.credit);
+      return {
+        ...row,
+        debit: fromKobo(debit),
+        credit: fromKobo(credit),
+        balance: fromKobo(DEBIT_NORMAL_TYPES.includes(row.type) ? debit - credit : credit - debit)
+      };
+    });
+
+    const byType = new Map<string, number>();
+    for (const account of accounts) {
+      byType.set(account.type, (byType.get(account.type) || 0) + toKobo(account.balance));
+    }
+
+    const totalDebit = accounts.reduce((sum, account) => sum + toKobo(account.debit), 0);
+    const totalCredit = accounts.reduce((sum, account) => sum + toKobo(account.credit), 0);
+
+    return {
+      asOf,
+      accounts,
+      byType: Object.fromEntries(Array.from(byType, ([type, balance]) => [type, fromKobo(balance)])),
+      totals: { debit: fromKobo(totalDebit), credit: fromKobo(totalCredit) },
+      balanced: totalDebit === totalCredit
+    };
+  }
+
+  // Payout transfers record which party they pay
+  private static payoutParty(transaction: Transaction): OwnerAccountCategory | null {
+    if (transaction.type !== 'TRANSFER_OUT') return null;
+    const party = (transaction.metadata as any)?.party;
+    return party === 'MERCHANT' || party === 'DRIVER' ? party : null;
+  }
+
+  // The account's id, opening it on first use
+  private static async resolveAccount(tx: any, account: AccountRef): Promise<number> {
+    const values = typeof account === 'string'
+      ? { code: account, name: PLATFORM_ACCOUNTS[account].name, type: PLATFORM_ACCOUNTS[account].type, category: account, ownerId: null }
+      : {
+          code: `${account.category}_${account.ownerId}`,
+          name: `${OWNER_ACCOUNTS[account.category].name} #${account.ownerId}`,
+          type: OWNER_ACCOUNTS[account.category].type,
+          category: account.category,
+          ownerId: account.ownerId
+        };
+
+    await tx.insert(ledgerAccounts).values(values).onConflictDoNothing({ target: ledgerAccounts.code });
+
+    const [row] = await tx
+      .select({ id: ledgerAccounts.id })
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.code, values.code))
+      .limit(1);
+
+    return row.id;
+  }
+}
+
+export default AccountingService;
@@ -0,0 +1,266 @@
+import { db } from '../db/config';
+import { checkoutGroups, orders, orderItems, escrows, transactions, users } from '../db/schema';
+import { eq, and, isNull, inArray, asc } from 'drizzle-orm';
+import { resolveTransition } from './order-state-machine';
+import { recordStatusChange } from './order-status-history';
+import DriverDispatchService from './driver-dispatch';
+import StockReservationService from './stock-reservations';
+import EscrowLedgerService from './escrow-ledger';
+import OutboxService from './outbox';
+import PricingService from './pricing';
+import { withTransaction } from '../utils/db-transaction';
+
+type CheckoutGroup = typeof checkoutGroups.$inferSelect;
+type Order = typeof orders.$inferSelect;
+type Transaction = typeof transactions.$inferSelect;
+
+export interface PaymentSplit {
+  merchantAmount: string;
+  driverAmount: string;
+}
+
+export class CheckoutGroupService {
+  /**
+   * One status for the whole group, from the payment and its orders.
+   */
+  static summarizeStatus(group: CheckoutGroup, childOrders: Array<Pick<Order, 'status'>>): string {
+    if (group.paymentStatus === 'FAILED') return 'PAYMENT_FAILED';
+    if (group.paymentStatus !== 'PAID') return 'AWAITING_PAYMENT';
+
+    const statuses = childOrders.map(order => order.status);
+    if (statuses.every(status => status === 'CANCELLED')) return 'CANCELLED';
+    if (statuses.every(status => status === 'DELIVERED' || status === 'CANCELLED')) return 'COMPLETED';
+    if (statuses.some(status => status === 'DELIVERED')) return 'PARTIALLY_DELIVERED';
+    return 'IN_PROGRESS';
+  }
+
+  static async getByPaymentReference(reference: string): Promise<CheckoutGroup | null> {
+    const [group] = await db
+      .select()
+      .from(checkoutGroups)
+      .where(eq(checkoutGroups.paymentReference, reference))
+      .limit(1);
+
+    return group || null;
+  }
+
+  /**
+   * The combined payment came through: every order in the group is confirmed,
+   * gets its own escrow for its share of the payment, and is offered to a
+   * driver. Each step is safe to repeat, and the group is only marked PAID
+   * once every order has been through them; a failure is rethrown so the
+   * payment can be processed again.
+   */
+  static async confirmPayment(group: CheckoutGroup, reference: string) {
+    if (group.paymentStatus === 'PAID') return;
+
+    await StockReservationService.commit(group.groupNumber);
+
+    const childOrders = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.checkoutGroupId, group.id), isNull(orders.deletedAt)));
+
+    const failures: string[] = [];
+    for (const order of childOrders) {
+      try {
+        await this.confirmOrder(group, order, reference);
+      } catch (error) {
+        console.error(`Checkout group ${group.groupNumber}: failed to confirm order ${order.orderNumber}:`, error);
+        failures.push(order.orderNumber);
+      }
+    }
+
+    if (failures.length) {
+      throw new Error(`Checkout group ${group.groupNumber}: orders ${failures.join(', ')} could not be confirmed`);
+    }
+
+    await db
+      .update(checkoutGroups)
+      .set({ paymentStatus: 'PAID', paidAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(checkoutGroups.id, group.id), eq(checkoutGroups.paymentStatus, 'PENDING')));
+  }
+
+  private static async confirmOrder(group: CheckoutGroup, order: Order, reference: string) {
+    const transition = resolveTransition(order.status, 'CONFIRMED', 'SYSTEM');
+    if (transition.allowed) {
+      // The order's notifications are queued with the status change
+      const confirmed = await withTransaction(async (tx): Promise<Order | undefined> => {
+        const [updated] = await tx
+          .update(orders)
+          .set(transition.updates)
+          .where(and(eq(orders.id, order.id), eq(orders.status, 'PENDING')))
+          .returning();
+
+        if (updated) {
+          await OutboxService.enqueue(OutboxService.orderStatusMessages(order, updated), tx);
+        }
+        return updated;
+      });
+
+      if (confirmed) {
+        await recordStatusChange({
+          orderId: order.id,
+          fromStatus: order.status,
+          toStatus: 'CONFIRMED',
+          actorId: group.customerId,
+          actorRole: 'SYSTEM',
+          reason: 'Payment received',
+          metadata: { checkoutGroupId: group.id, paymentReference: reference }
+        });
+      }
+    }
+
+    if (order.merchantId) {
+      const findEscrow = () => db
+        .select({ id: escrows.id })
+        .from(escrows)
+        .where(and(eq(escrows.orderId, order.id), isNull(escrows.deletedAt)))
+        .limit(1);
+
+      let [escrow] = await findEscrow();
+      if (!escrow) {
+        // A concurrent delivery of the same payment inserting first wins on the transaction_ref index
+        await db.insert(escrows).values({
+          orderId: order.id,
+          payerId: order.customerId,
+          payeeId: order.merchantId,
+          amount: order.totalAmount,
+          status: 'HELD',
+          paystackEscrowId: reference,
+          // Payout transfers are keyed on this, so each order needs its own
+          transactionRef: `${reference}-${order.id}`,
+          createdAt: new Date()
+        }).onConflictDoNothing();
+
+        [escrow] = await findEscrow();
+      }
+
+      // Already allocated escrows are left as they are
+      await EscrowLedgerService.allocate(escrow.id);
+    }
+
+    await DriverDispatchService.dispatchOrder(order.id);
+  }
+
+  static async markPaymentFailed(group: CheckoutGroup) {
+    await this.abandon(group.groupNumber, 'PAYMENT_FAILED');
+  }
+
+  /**
+   * Winds up a checkout that will not be paid for: the stock hold, the quote
+   * and its promotion uses are given back, the pending orders are cancelled
+   * and the group is marked FAILED. A group already paid is left alone.
+   */
+  static async abandon(groupNumber: string, reason: string) {
+    await StockReservationService.release(groupNumber, reason);
+
+    const [group] = await db
+      .select()
+      .from(checkoutGroups)
+      .where(eq(checkoutGroups.groupNumber, groupNumber))
+      .limit(1);
+
+    if (group?.paymentStatus === 'PAID') return;
+
+    await PricingService.release(groupNumber);
+
+    if (!group) return;
+
+    await withTransaction(async (tx) => {
+      const cancelled: Order[] = await tx
+        .update(orders)
+        .set({ status: 'CANCELLED', updatedAt: new Date() })
+        .where(and(eq(orders.checkoutGroupId, group.id), eq(orders.status, 'PENDING')))
+        .returning();
+
+      for (const order of cancelled) {
+        await OutboxService.enqueue(OutboxService.orderStatusMessages({ ...order, status: 'PENDING' }, order), tx);
+      }
+
+      await tx
+        .update(checkoutGroups)
+        .set({ paymentStatus: 'FAILED', updatedAt: new Date() })
+        .where(and(eq(checkoutGroups.id, group.id), eq(checkoutGroups.paymentStatus, 'PENDING')));
+    });
+  }
+
+  /**
+   * The group's combined payment transaction and the part of it owed for one
+   * order, for releasing that order's escrow.
+   */
+  static async findOrderPayment(order: Order): Promise<{ transaction: Transaction; split: PaymentSplit } | null> {
+    if (!order.checkoutGroupId) return null;
+
+    const [group] = await db
+      .select()
+      .from(checkoutGroups)
+      .where(eq(checkoutGroups.id, order.checkoutGroupId))
+      .limit(1);
+
+    if (!group?.paymentReference) return null;
+
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.transactionRef, group.paymentReference))
+      .limit(1);
+
+    const split = (transaction?.metadata as any)?.splits?.[order.id];
+    if (!transaction || !split) return null;
+
+    return { transaction, split };
+  }
+
+  /**
+   * Everything the customer needs to follow a multi-merchant checkout: the
+   * group, and per merchant its order status, items, driver and escrow.
+   */
+  static async getGroupView(group: CheckoutGroup) {
+    const childOrders = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.checkoutGroupId, group.id), isNull(orders.deletedAt)))
+      .orderBy(asc(orders.id));
+
+    const orderIds = childOrders.map(order => order.id);
+    const userIds = Array.from(new Set(childOrders.flatMap(order => [order.merchantId, order.driverId]).filter((id): id is number => !!id)));
+
+    const [items, groupEscrows, people] = orderIds.length
+      ? await Promise.all([
+          db.select().from(orderItems).where(and(inArray(orderItems.orderId, orderIds), isNull(orderItems.deletedAt))),
+          db.select().from(escrows).where(and(inArray(escrows.orderId, orderIds), isNull(escrows.deletedAt))),
+          userIds.length
+            ? db.select({ id: users.id, fullName: users.fullName, phone: users.phone }).from(users).where(inArray(users.id, userIds))
+            : Promise.resolve([])
+        ])
+      : [[], [], []];
+
+    const person = (id: number | null) => people.find(p => p.id === id) || null;
+
+    return {
+      ...group,
+      status: this.summarizeStatus(group, childOrders),
+      orderCount: childOrders.length,
+      orders: childOrders.map(order => {
+        const escrow = groupEscrows.find(e => e.orderId === order.id);
+        return {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+          totalAmount: order.totalAmount,
+          pricing: (order.orderData as any)?.pricing || null,
+          merchant: person(order.merchantId),
+          driver: person(order.driverId),
+          items: items.filter(item => item.orderId === order.id),
+          escrow: escrow ? { id: escrow.id, status: escrow.status, amount: escrow.amount } : null,
+          acceptedAt: order.acceptedAt,
+          pickedUpAt: order.pickedUpAt,
+          deliveredAt: order.deliveredAt
+        };
+      })
+    };
+  }
+}
+
+export default CheckoutGroupService;
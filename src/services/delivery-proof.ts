@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+import { z } from 'zod';
+import { db } from '../db/config';
+import { orders, merchantProfiles, deliveryProofs } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+type Order = typeof orders.$inferSelect;
+type DeliveryProof = typeof deliveryProofs.$inferSelect;
+
+export const PROOF_TYPES = ['PHOTO', 'SIGNATURE', 'LOCATION', 'CODE'] as const;
+export type ProofType = typeof PROOF_TYPES[number];
+
+export const deliveryProofSettingsSchema = z.object({
+  requiredProofs: z.array(z.enum(PROOF_TYPES)).default([]),
+  codeLength: z.number().int().min(4).max(6).default(6)
+});
+
+export type DeliveryProofSettings = z.infer<typeof deliveryProofSettingsSchema>;
+
+export const submitProofSchema = z.object({
+  photoKeys: z.array(z.string().min(1)).max(5).optional(),
+  signatureKey: z.string().min(1).optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  code: z.string().regex(/^\d{4,6}$/, 'Delivery code must be 4 to 6 digits').optional()
+});
+
+export type ProofSubmission = z.infer<typeof submitProofSchema>;
+
+export interface ProofSubmissionResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  proof?: DeliveryProof;
+}
+
+export interface ProofCheck {
+  requiredProofs: ProofType[];
+  missingProofs: ProofType[];
+  proof: DeliveryProof | null;
+}
+
+const MAX_CODE_ATTEMPTS = 5;
+
+export class DeliveryProofService {
+  static async getSettings(merchantId: number | null): Promise<DeliveryProofSettings> {
+    if (!merchantId) {
+      return deliveryProofSettingsSchema.parse({});
+    }
+
+    const [profile] = await db
+      .select({ deliveryProofSettings: merchantProfiles.deliveryProofSettings })
+      .from(merchantProfiles)
+      .where(eq(merchantProfiles.userId, merchantId))
+      .limit(1);
+
+    // Stored settings are validated on write; fall back to defaults if they were edited by hand
+    const parsed = deliveryProofSettingsSchema.safeParse(profile?.deliveryProofSettings || {});
+    return parsed.success ? parsed.data : deliveryProofSettingsSchema.parse({});
+  }
+
+  static async getProof(orderId: number): Promise<DeliveryProof | null> {
+    const [proof] = await db
+      .select()
+      .from(deliveryProofs)
+      .where(eq(deliveryProofs.orderId, orderId))
+      .limit(1);
+
+    return proof || null;
+  }
+
+  /**
+   * Returns the order's proof record, creating it with a fresh delivery code
+   * (sized by the merchant's settings) the first time it is needed.
+   */
+  static async getOrCreateProof(order: Order): Promise<DeliveryProof> {
+    const existing = await this.getProof(order.id);
+    if (existing) return existing;
+
+    const settings = await this.getSettings(order.merchantId);
+
+    await db
+      .insert(deliveryProofs)
+      .values({
+        orderId: order.id,
+        deliveryCode: this.generateCode(settings.codeLength)
+      })
+      .onConflictDoNothing();
+
+    return (await this.getProof(order.id))!;
+  }
+
+  /**
+   * Merges the driver's submitted proofs into the order's record. Photo and
+   * signature keys must come from the driver's own uploads, and the delivery
+   * code is locked after too many wrong guesses.
+   */
+  static async submitProof(order: Order, driverId: number, submission: ProofSubmission): Promise<ProofSubmissionResult> {
+    const proof = await this.getOrCreateProof(order);
+
+    if (proof.completedAt) {
+      return { success: false, status: 409, message: 'Proof of delivery is already complete for this order' };
+    }
+
+    const uploadKeys = [...(submission.photoKeys || []), ...(submission.signatureKey ? [submission.signatureKey] : [])];
+    if (uploadKeys.some(key => !key.includes(`/${driverId}/`))) {
+      return { success: false, status: 403, message: 'Proof uploads must belong to the delivering driver' };
+    }
+
+    if ((submission.latitude === undefined) !== (submission.longitude === undefined)) {
+      return { success: false, status: 400, message: 'Latitude and longitude must be provided together' };
+    }
+
+    const updates: Partial<typeof deliveryProofs.$inferInsert> = {
+      driverId,
+      updatedAt: new Date()
+    };
+
+    if (submission.photoKeys?.length) {
+      const existingKeys = (proof.photoKeys || []) as string[];
+      updates.photoKeys = Array.from(new Set([...existingKeys, ...submission.photoKeys]));
+    }
+
+    if (submission.signatureKey) {
+      updates.signatureKey = submission.signatureKey;
+    }
+
+    if (submission.latitude !== undefined && submission.longitude !== undefined) {
+      updates.latitude = submission.latitude.toString();
+      updates.longitude = submission.longitude.toString();
+      updates.locationCapturedAt = new Date();
+    }
+
+    if (submission.code && !proof.codeVerifiedAt) {
+      if ((proof.codeAttempts || 0) >= MAX_CODE_ATTEMPTS) {
+        return { success: false, status: 429, message: 'Too many incorrect delivery codes. Contact support to complete this delivery' };
+      }
+
+      if (!this.codesMatch(submission.code, proof.deliveryCode)) {
+        await db
+          .update(deliveryProofs)
+          .set({ codeAttempts: (proof.codeAttempts || 0) + 1, updatedAt: new Date() })
+          .where(eq(deliveryProofs.id, proof.id));
+
+        return { success: false, status: 400, message: 'Incorrect delivery code' };
+      }
+
+      updates.codeVerifiedAt = new Date();
+    }
+
+    const [updated] = await db
+      .update(deliveryProofs)
+      .set(updates)
+      .where(eq(deliveryProofs.id, proof.id))
+      .returning();
+
+    return { success: true, proof: updated };
+  }
+
+  /**
+   * Confirms the delivery code without the digits, for handoffs where the
+   * driver scanned the customer's signed QR code instead.
+   */
+  static async confirmCodeByScan(order: Order) {
+    const proof = await this.getOrCreateProof(order);
+    if (proof.codeVerifiedAt) return;
+
+    await db
+      .update(deliveryProofs)
+      .set({ driverId: order.driverId, codeVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(deliveryProofs.id, proof.id));
+  }
+
+  /**
+   * Lists which of the merchant's mandatory proofs are still missing for the order.
+   */
+  static async checkRequirements(order: Order): Promise<ProofCheck> {
+    const [settings, proof] = await Promise.all([
+      this.getSettings(order.merchantId),
+      this.getProof(order.id)
+    ]);
+
+    const missingProofs = settings.requiredProofs.filter(type => !this.hasProof(proof, type));
+
+    return { requiredProofs: settings.requiredProofs, missingProofs, proof };
+  }
+
+  /**
+   * Seals the proof record once the order is delivered, keeping a snapshot of
+   * which proofs were mandatory at the time.
+   */
+  static async markComplete(orderId: number, requiredProofs: ProofType[]) {
+    await db
+      .update(deliveryProofs)
+      .set({ requiredProofs, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(deliveryProofs.orderId, orderId));
+  }
+
+  /**
+   * The proof as shown to drivers, merchants and admins: the delivery code
+   * itself is never exposed, only whether it was confirmed.
+   */
+  static toPublicView(proof: DeliveryProof | null) {
+    if (!proof) return null;
+
+    const { deliveryCode, codeAttempts, ...rest } = proof;
+    return {
+      ...rest,
+      latitude: proof.latitude ? parseFloat(proof.latitude) : null,
+      longitude: proof.longitude ? parseFloat(proof.longitude) : null,
+      codeVerified: !!proof.codeVerifiedAt
+    };
+  }
+
+  private static hasProof(proof: DeliveryProof | null, type: ProofType): boolean {
+    if (!proof) return false;
+
+    switch (type) {
+      case 'PHOTO':
+        return ((proof.photoKeys || []) as string[]).length > 0;
+      case 'SIGNATURE':
+        return !!proof.signatureKey;
+      case 'LOCATION':
+        return !!proof.locationCapturedAt;
+      case 'CODE':
+        return !!proof.codeVerifiedAt;
+    }
+  }
+
+  private static generateCode(length: number): string {
+    return crypto.randomInt(0, 10 ** length).toString().padStart(length, '0');
+  }
+
+  private static codesMatch(submitted: string, expected: string): boolean {
+    const a = Buffer.from(submitted);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
+
+export function hasSubmission(submission: ProofSubmission): boolean {
+  return !!(
+    submission.photoKeys?.length ||
+    submission.signatureKey ||
+    submission.code ||
+    (submission.latitude !== undefined && submission.longitude !== undefined)
+  );
+}
+
+// Uniform 409 response for a delivery attempted before the mandatory proofs are in
+export function sendMissingProofs(res: Response, check: ProofCheck) {
+  return res.status(409).json({
+    success: false,
+    message: `Proof of delivery required: ${check.missingProofs.join(', ')}`,
+    code: 'PROOF_OF_DELIVERY_REQUIRED',
+    requiredProofs: check.requiredProofs,
+    missingProofs: check.missingProofs
+  });
+}
+
+export default DeliveryProofService;
@@ -0,0 +1,629 @@
+import { db } from '../db/config';
+import { orders, driverProfiles, users, merchantProfiles, driverAssignmentOffers } from '../db/schema';
+import { eq, and, isNull, inArray, lt, ne, sql } from 'drizzle-orm';
+import GeolocationService from './geolocation';
+import { getWebSocketService } from './websocket';
+import { resolveTransition } from './order-state-machine';
+import { recordStatusChange } from './order-status-history';
+import { withTransaction } from '../utils/db-transaction';
+
+type Order = typeof orders.$inferSelect;
+type AssignmentOffer = typeof driverAssignmentOffers.$inferSelect;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DriverCandidate {
+  driverId: number;
+  driverName: string;
+  phone: string | null;
+  rating: number;
+  totalDeliveries: number;
+  activeOrders: number;
+  distance: number;
+  estimatedTravelTime: number;
+  vehicleType: string | null;
+  vehiclePlate: string | null;
+  currentLocation: unknown;
+  tier: string | null;
+  score: number;
+}
+
+interface CandidateSearchOptions {
+  radius?: number;
+  maxDrivers?: number;
+  excludeDriverIds?: number[];
+}
+
+export interface OfferResponseResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  offer?: AssignmentOffer;
+  order?: Order;
+  nextOffer?: AssignmentOffer | null;
+}
+
+const ACTIVE_ORDER_STATUSES = ['ACCEPTED', 'PICKED_UP', 'IN_TRANSIT'] as const;
+const TIER_BONUS: Record<string, number> = { STANDARD: 0, PREMIUM: 5, ELITE: 10 };
+
+export class DriverDispatchService {
+  static readonly OFFER_TIMEOUT_MS = 60 * 1000;
+  static readonly DEFAULT_RADIUS_KM = 10;
+  static readonly AVERAGE_SPEED_KMH = 30;
+  static readonly LOAD_PENALTY = 10;
+  static readonly BROADCAST_RINGS_KM = [3, 6, 10, 15];
+  static readonly RING_TIMEOUT_MS = 30 * 1000;
+  // Orders a driver can carry at once on a batched route
+  static readonly BATCH_CAPACITY = Number(process.env.DRIVER_BATCH_CAPACITY) || 3;
+
+  /**
+   * Resolves the delivery coordinates of an order, geocoding the address
+   * and saving the result when the order has none yet.
+   */
+  static async resolveDeliveryLocation(order: Order): Promise<Coordinates | null> {
+    const latitude = parseFloat(order.deliveryLatitude || '0');
+    const longitude = parseFloat(order.deliveryLongitude || '0');
+    if (latitude && longitude) {
+      return { latitude, longitude };
+    }
+
+    const addressResult = await GeolocationService.validateAddress(order.deliveryAddress || '');
+    if (!addressResult.isValid || !addressResult.coordinates) {
+      return null;
+    }
+
+    await db
+      .update(orders)
+      .set({
+        deliveryLatitude: addressResult.coordinates.latitude.toString(),
+        deliveryLongitude: addressResult.coordinates.longitude.toString()
+      })
+      .where(eq(orders.id, order.id));
+
+    return addressResult.coordinates;
+  }
+
+  /**
+   * Drivers are dispatched to where the goods are collected: the merchant's
+   * location when known, otherwise the delivery point.
+   */
+  static async resolvePickupLocation(order: Order): Promise<Coordinates | null> {
+    if (order.merchantId) {
+      const [merchant] = await db
+        .select({ latitude: merchantProfiles.latitude, longitude: merchantProfiles.longitude })
+        .from(merchantProfiles)
+        .where(eq(merchantProfiles.userId, order.merchantId))
+        .limit(1);
+
+      const latitude = parseFloat(merchant?.latitude || '0');
+      const longitude = parseFloat(merchant?.longitude || '0');
+      if (latitude && longitude) {
+        return { latitude, longitude };
+      }
+    }
+
+    return this.resolveDeliveryLocation(order);
+  }
+
+  /**
+   * Finds online, available, approved drivers within the radius of a point,
+   * scored and sorted best first.
+   */
+  static async findCandidateDrivers(origin: Coordinates, options: CandidateSearchOptions = {}): Promise<DriverCandidate[]> {
+    const radius = options.radius ?? this.DEFAULT_RADIUS_KM;
+    const excluded = new Set(options.excludeDriverIds || []);
+
+    const availableDrivers = await db
+      .select({
+        driver: driverProfiles,
+        user: {
+          id: users.id,
+          fullName: users.fullName,
+          phone: users.phone,
+          averageRating: users.averageRating,
+          totalRatings: users.totalRatings
+        }
+      })
+      .from(driverProfiles)
+      .innerJoin(users, eq(driverProfiles.userId, users.id))
+      .where(and(
+        eq(driverProfiles.isOnline, true),
+        eq(driverProfiles.isAvailable, true),
+        eq(driverProfiles.verificationStatus, 'APPROVED'),
+        isNull(driverProfiles.deletedAt),
+        isNull(users.deletedAt)
+      ));
+
+    const nearby: Array<{ data: typeof availableDrivers[number]; distance: number }> = [];
+    for (const driverData of availableDrivers) {
+      if (excluded.has(driverData.driver.userId)) continue;
+
+      const location = this.parseLocation(driverData.driver.currentLocation);
+      if (!location) continue;
+
+      const distance = GeolocationService.haversineDistance(origin, location);
+      if (distance <= radius) {
+        nearby.push({ data: driverData, distance });
+      }
+    }
+
+    if (!nearby.length) {
+      return [];
+    }
+
+    const workload = await this.getDriverWorkload(nearby.map(n => n.data.driver.userId));
+
+    const candidates = nearby
+      .filter(({ data }) => (workload.get(data.driver.userId)?.active || 0) < this.BATCH_CAPACITY)
+      .map(({ data, distance }) => {
+        const driver = data.driver;
+        const travelTime = (distance / this.AVERAGE_SPEED_KMH) * 60;
+        const rating = parseFloat(data.user.averageRating || '0');
+        const load = workload.get(driver.userId) || { active: 0, completed: 0 };
+
+        return {
+          driverId: driver.userId,
+          driverName: data.user.fullName,
+          phone: data.user.phone,
+          rating,
+          totalDeliveries: load.completed,
+          activeOrders: load.active,
+          distance: Math.round(distance * 100) / 100,
+          estimatedTravelTime: Math.round(travelTime),
+          vehicleType: driver.vehicleType,
+          vehiclePlate: driver.vehiclePlate,
+          currentLocation: driver.currentLocation,
+          tier: driver.tier,
+          score: this.calculateDriverScore(rating, load.completed, distance, travelTime, driver.tier, load.active)
+        };
+      });
+
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.maxDrivers ?? candidates.length);
+  }
+
+  static calculateDriverScore(
+    rating: number,
+    completedDeliveries: number,
+    distance: number,
+    travelTime: number,
+    tier: string | null = 'STANDARD',
+    activeOrders: number = 0
+  ): number {
+    // Base score from rating (0-50 points)
+    const ratingScore = rating * 10;
+
+    // Experience bonus (0-25 points)
+    const experienceScore = Math.min(completedDeliveries * 0.5, 25);
+
+    // Distance penalty (closer is better)
+    const distanceScore = Math.max(25 - distance * 2, 0);
+
+    // Time penalty (faster is better)
+    const timeScore = Math.max(15 - travelTime * 0.1, 0);
+
+    // Higher tiers get priority, busy drivers get pushed down
+    const tierScore = TIER_BONUS[tier || 'STANDARD'] || 0;
+    const loadPenalty = activeOrders * this.LOAD_PENALTY;
+
+    return Math.round((ratingScore + experienceScore + distanceScore + timeScore + tierScore - loadPenalty) * 100) / 100;
+  }
+
+  /**
+   * Offers the order to the best driver who has not been offered it yet.
+   * Returns the new offer, or null when no candidate is left.
+   */
+  static async dispatchOrder(orderId: number, radius: number = this.DEFAULT_RADIUS_KM): Promise<AssignmentOffer | null> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order || order.driverId || !['PENDING', 'CONFIRMED'].includes(order.status || 'PENDING')) {
+      return null;
+    }
+
+    const openOffer = await this.getOpenOffer(orderId);
+    if (openOffer) {
+      return openOffer;
+    }
+
+    const origin = await this.resolvePickupLocation(order);
+    if (!origin) {
+      return null;
+    }
+
+    const previousOffers = await db
+      .select({ driverId: driverAssignmentOffers.driverId })
+      .from(driverAssignmentOffers)
+      .where(eq(driverAssignmentOffers.orderId, orderId));
+
+    const [best] = await this.findCandidateDrivers(origin, {
+      radius,
+      maxDrivers: 1,
+      excludeDriverIds: previousOffers.map(o => o.driverId)
+    });
+
+    if (!best) {
+      return null;
+    }
+
+    const [offer] = await db
+      .insert(driverAssignmentOffers)
+      .values({
+        orderId,
+        driverId: best.driverId,
+        score: best.score.toString(),
+        distanceKm: best.distance.toString(),
+        expiresAt: new Date(Date.now() + this.OFFER_TIMEOUT_MS)
+      })
+      .returning();
+
+    const wsService = getWebSocketService();
+    if (wsService) {
+      await wsService.sendNotificationToUser(best.driverId.toString(), {
+        type: 'ORDER_ASSIGNMENT_OFFER',
+        title: 'New Delivery Offer',
+        message: `Order #${order.orderNumber} is ${best.distance}km away`,
+        offerId: offer.id,
+        orderId,
+        distance: best.distance,
+        estimatedTravelTime: best.estimatedTravelTime,
+        driverEarnings: order.driverEarnings,
+        expiresAt: offer.expiresAt
+      });
+    }
+
+    return offer;
+  }
+
+  /**
+   * Accepts or declines an offer on behalf of the driver it was made to.
+   * Declining passes the order on to the next candidate.
+   */
+  static async respondToOffer(offerId: number, driverId: number, driverRole: string, accept: boolean): Promise<OfferResponseResult> {
+    const [offer] = await db
+      .select()
+      .from(driverAssignmentOffers)
+      .where(eq(driverAssignmentOffers.id, offerId))
+      .limit(1);
+
+    if (!offer || offer.driverId !== driverId) {
+      return { success: false, status: 404, message: 'Offer not found' };
+    }
+
+    if (offer.status !== 'OFFERED' || offer.expiresAt < new Date()) {
+      return { success: false, status: 409, message: 'Offer is no longer available' };
+    }
+
+    if (!accept) {
+      const [declined] = await db
+        .update(driverAssignmentOffers)
+        .set({ status: 'DECLINED', respondedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(driverAssignmentOffers.id, offerId), eq(driverAssignmentOffers.status, 'OFFERED')))
+        .returning();
+
+      if (!declined) {
+        return { success: false, status: 409, message: 'Offer is no longer available' };
+      }
+
+      const [nextOffer] = await this.advanceDispatch(declined);
+      return { success: true, offer: declined, nextOffer: nextOffer || null };
+    }
+
+    // First accept wins: the order row stays locked until the driver is written
+    const claim = await withTransaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, offer.orderId), isNull(orders.deletedAt)))
+        .for('update');
+
+      const transition = order && resolveTransition(order.status, 'ACCEPTED', driverRole);
+      if (!order || order.driverId || !transition?.allowed) {
+        return null;
+      }
+
+      const [assignedOrder] = await tx
+        .update(orders)
+        .set({ ...transition.updates, driverId })
+        .where(eq(orders.id, order.id))
+        .returning();
+
+      const [accepted] = await tx
+        .update(driverAssignmentOffers)
+        .set({ status: 'ACCEPTED', respondedAt: new Date(), updatedAt: new Date() })
+        .where(eq(driverAssignmentOffers.id, offerId))
+        .returning();
+
+      const withdrawn = await tx
+        .update(driverAssignmentOffers)
+        .set({ status: 'WITHDRAWN', updatedAt: new Date() })
+        .where(and(
+          eq(driverAssignmentOffers.orderId, order.id),
+          eq(driverAssignmentOffers.status, 'OFFERED'),
+          ne(driverAssignmentOffers.id, offerId)
+        ))
+        .returning();
+
+      return { order, assignedOrder, accepted, withdrawn } as {
+        order: Order;
+        assignedOrder: Order;
+        accepted: AssignmentOffer;
+        withdrawn: AssignmentOffer[];
+      };
+    });
+
+    if (!claim) {
+      await this.closeOffer(offerId, 'WITHDRAWN');
+      return { success: false, status: 409, message: 'Order is no longer available' };
+    }
+
+    const { order, assignedOrder, accepted, withdrawn } = claim;
+    await this.notifyWithdrawn(withdrawn, 'ACCEPTED_BY_ANOTHER_DRIVER');
+
+    await this.markBusyIfFull(driverId);
+
+    await recordStatusChange({
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: 'ACCEPTED',
+      actorId: driverId,
+      actorRole: driverRole,
+      metadata: { offerId }
+    });
+
+    const wsService = getWebSocketService();
+    if (wsService) {
+      await wsService.sendNotificationToUser(order.customerId.toString(), {
+        type: 'ORDER_ACCEPTED',
+        title: 'Driver Assigned',
+        message: `A driver has accepted order #${order.orderNumber}`,
+        orderId: order.id
+      });
+    }
+
+    return { success: true, offer: accepted || offer, order: assignedOrder };
+  }
+
+  /**
+   * Expires offers past their deadline and moves each order on to the next driver.
+   */
+  static async expireStaleOffers() {
+    try {
+      const expired = await db
+        .update(driverAssignmentOffers)
+        .set({ status: 'EXPIRED', updatedAt: new Date() })
+        .where(and(
+          eq(driverAssignmentOffers.status, 'OFFERED'),
+          lt(driverAssignmentOffers.expiresAt, new Date())
+        ))
+        .returning();
+
+      await this.notifyWithdrawn(expired, 'EXPIRED');
+
+      // Offers of one broadcast ring expire together, so advance each order once
+      const latestByOrder = new Map<number, AssignmentOffer>();
+      for (const offer of expired) {
+        const current = latestByOrder.get(offer.orderId);
+        if (!current || (offer.ring ?? -1) > (current.ring ?? -1)) {
+          latestByOrder.set(offer.orderId, offer);
+        }
+      }
+
+      for (const offer of latestByOrder.values()) {
+        try {
+          await this.advanceDispatch(offer);
+        } catch (error) {
+          console.error(`Error re-dispatching order ${offer.orderId}:`, error);
+        }
+      }
+
+      return { success: true, processed: expired.length };
+    } catch (error) {
+      console.error('Error in expireStaleOffers:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Offers the order to every candidate inside the given ring around the
+   * pickup point. Empty rings are skipped; returns no offers once the last
+   * ring has been tried.
+   */
+  static async broadcastOrder(orderId: number, ring: number = 0): Promise<AssignmentOffer[]> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order || order.driverId || !['PENDING', 'CONFIRMED'].includes(order.status || 'PENDING')) {
+      return [];
+    }
+
+    const origin = await this.resolvePickupLocation(order);
+    if (!origin) {
+      return [];
+    }
+
+    const previousOffers = await db
+      .select({ driverId: driverAssignmentOffers.driverId })
+      .from(driverAssignmentOffers)
+      .where(eq(driverAssignmentOffers.orderId, orderId));
+    const excludeDriverIds = previousOffers.map(o => o.driverId);
+
+    for (let current = ring; current < this.BROADCAST_RINGS_KM.length; current++) {
+      const radius = this.BROADCAST_RINGS_KM[current];
+      const candidates = await this.findCandidateDrivers(origin, { radius, excludeDriverIds });
+      if (!candidates.length) continue;
+
+      const expiresAt = new Date(Date.now() + this.RING_TIMEOUT_MS);
+      const offers = await db
+        .insert(driverAssignmentOffers)
+        .values(candidates.map(candidate => ({
+          orderId,
+          driverId: candidate.driverId,
+          score: candidate.score.toString(),
+          distanceKm: candidate.distance.toString(),
+          ring: current,
+          expiresAt
+        })))
+        .returning();
+
+      const wsService = getWebSocketService();
+      if (wsService) {
+        for (const offer of offers) {
+          const candidate = candidates.find(c => c.driverId === offer.driverId)!;
+          await wsService.sendOrderOffer(offer.driverId, {
+            offerId: offer.id,
+            orderId,
+            orderNumber: order.orderNumber,
+            pickup: origin,
+            distance: candidate.distance,
+            estimatedTravelTime: candidate.estimatedTravelTime,
+            driverEarnings: order.driverEarnings,
+            radius,
+            expiresAt
+          });
+        }
+      }
+
+      return offers;
+    }
+
+    return [];
+  }
+
+  /**
+   * Moves an order on after an offer was declined or expired: broadcast
+   * offers widen to the next ring, single offers go to the next candidate.
+   * Nothing happens while other offers for the order are still open.
+   */
+  private static async advanceDispatch(offer: AssignmentOffer): Promise<AssignmentOffer[]> {
+    const openOffer = await this.getOpenOffer(offer.orderId);
+    if (openOffer) {
+      return [];
+    }
+
+    if (offer.ring !== null && offer.ring !== undefined) {
+      return this.broadcastOrder(offer.orderId, offer.ring + 1);
+    }
+
+    const nextOffer = await this.dispatchOrder(offer.orderId);
+    return nextOffer ? [nextOffer] : [];
+  }
+
+  /**
+   * Takes a driver out of new offers once they carry a full batch; below
+   * that they stay available for orders that can join their route.
+   */
+  static async markBusyIfFull(driverId: number) {
+    const workload = await this.getDriverWorkload([driverId]);
+    if ((workload.get(driverId)?.active || 0) < this.BATCH_CAPACITY) return;
+
+    await db
+      .update(driverProfiles)
+      .set({ isAvailable: false, updatedAt: new Date() })
+      .where(eq(driverProfiles.userId, driverId));
+  }
+
+  private static async notifyWithdrawn(offers: AssignmentOffer[], reason: string) {
+    const wsService = getWebSocketService();
+    if (!wsService) return;
+
+    for (const offer of offers) {
+      await wsService.sendOrderOfferWithdrawn(offer.driverId, {
+        offerId: offer.id,
+        orderId: offer.orderId,
+        reason
+      }).catch(error => {
+        console.error(`Offer ${offer.id} withdrawal notification error:`, error);
+      });
+    }
+  }
+
+  static async getOpenOffer(orderId: number): Promise<AssignmentOffer | null> {
+    const [offer] = await db
+      .select()
+      .from(driverAssignmentOffers)
+      .where(and(
+        eq(driverAssignmentOffers.orderId, orderId),
+        eq(driverAssignmentOffers.status, 'OFFERED')
+      ))
+      .limit(1);
+
+    return offer || null;
+  }
+
+  private static async closeOffer(offerId: number, status: 'ACCEPTED' | 'WITHDRAWN') {
+    const [offer] = await db
+      .update(driverAssignmentOffers)
+      .set({ status, respondedAt: new Date(), updatedAt: new Date() })
+      .where(eq(driverAssignmentOffers.id, offerId))
+      .returning();
+
+    return offer;
+  }
+
+  private static async getDriverWorkload(driverIds: number[]) {
+    const rows = await db
+      .select({
+        driverId: orders.driverId,
+        active: sql<number>`count(*) filter (where ${inArray(orders.status, [...ACTIVE_ORDER_STATUSES])})`,
+        completed: sql<number>`count(*) filter (where ${orders.status} = 'DELIVERED')`
+      })
+      .from(orders)
+      .where(and(inArray(orders.driverId, driverIds), isNull(orders.deletedAt)))
+      .groupBy(orders.driverId);
+
+    const workload = new Map<number, { active: number; completed: number }>();
+    for (const row of rows) {
+      if (row.driverId) {
+        workload.set(row.driverId, { active: Number(row.active), completed: Number(row.completed) });
+      }
+    }
+    return workload;
+  }
+
+  static parseLocation(location: unknown): Coordinates | null {
+    const value = typeof location === 'string' ? this.safeParse(location) : location;
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+
+    const latitude = Number((value as any).latitude ?? (value as any).lat);
+    const longitude = Number((value as any).longitude ?? (value as any).lng);
+    if (isNaN(latitude) || isNaN(longitude) || (!latitude && !longitude)) {
+      return null;
+    }
+    return { latitude, longitude };
+  }
+
+  private static safeParse(value: string) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Sweep expired offers so orders fall through to the next candidate
+export function startDriverDispatchService() {
+  setInterval(() => {
+    DriverDispatchService.expireStaleOffers();
+  }, 15 * 1000);
+
+  console.log('✅ Driver dispatch service started');
+}
+
+export default DriverDispatchService;
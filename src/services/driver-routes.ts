@@ -0,0 +1,215 @@
+import { db } from '../db/config';
+import { orders, driverProfiles, driverRoutes, driverRouteStops } from '../db/schema';
+import { eq, and, isNull, inArray, desc, asc } from 'drizzle-orm';
+import RouteOptimizationService, { DeliveryPoint, BatchRoute } from './routeOptimization';
+import DriverDispatchService, { Coordinates } from './driver-dispatch';
+
+type Order = typeof orders.$inferSelect;
+type RouteStop = typeof driverRouteStops.$inferSelect;
+
+const BATCHED_STATUSES = ['ACCEPTED', 'PICKED_UP', 'IN_TRANSIT'] as const;
+
+// Default vehicle assumptions until drivers can configure their own
+const DEFAULT_CONSTRAINTS = {
+  maxDistance: 150,
+  maxDuration: 8 * 60,
+  vehicleType: 'MOTORCYCLE',
+  fuelEfficiency: 30,
+  fuelPrice: 700,
+  workingHours: { start: '07:00', end: '21:00' }
+};
+
+const PICKUP_SERVICE_MINUTES = 5;
+const DELIVERY_SERVICE_MINUTES = 5;
+
+export class DriverRouteService {
+  /**
+   * Plans a route over the driver's accepted orders and stores it as the
+   * driver's active route, superseding any previous one.
+   */
+  static async planRoute(driverId: number, location?: Coordinates) {
+    const start = location || await this.getDriverLocation(driverId);
+    if (!start) {
+      return { success: false, message: 'Driver location not available' };
+    }
+
+    const batch = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.driverId, driverId),
+        inArray(orders.status, [...BATCHED_STATUSES]),
+        isNull(orders.deletedAt)
+      ));
+
+    const points: DeliveryPoint[] = [];
+    const skipped: number[] = [];
+
+    for (const order of batch) {
+      const orderPoints = await this.buildOrderPoints(order);
+      if (!orderPoints.length) {
+        skipped.push(order.id);
+        continue;
+      }
+      points.push(...orderPoints);
+    }
+
+    if (!points.length) {
+      return { success: false, message: 'No active orders with known locations to route' };
+    }
+
+    const optimized = RouteOptimizationService.optimizeBatchRoute(start, points, DEFAULT_CONSTRAINTS);
+    const route = await this.saveRoute(driverId, start, optimized);
+
+    return { success: true, route, optimized, skippedOrderIds: skipped };
+  }
+
+  static async getActiveRoute(driverId: number) {
+    const [route] = await db
+      .select()
+      .from(driverRoutes)
+      .where(and(eq(driverRoutes.driverId, driverId), eq(driverRoutes.status, 'ACTIVE')))
+      .orderBy(desc(driverRoutes.createdAt))
+      .limit(1);
+
+    if (!route) {
+      return null;
+    }
+
+    const stops = await db
+      .select()
+      .from(driverRouteStops)
+      .where(eq(driverRouteStops.routeId, route.id))
+      .orderBy(asc(driverRouteStops.sequence));
+
+    return { ...route, stops };
+  }
+
+  /**
+   * Remaining stops of the active route that contains the order's delivery,
+   * with stops already completed dropped. Null when the order is not batched.
+   */
+  static async getRemainingStopsForOrder(orderId: number): Promise<RouteStop[] | null> {
+    const [entry] = await db
+      .select({ routeId: driverRouteStops.routeId })
+      .from(driverRouteStops)
+      .innerJoin(driverRoutes, eq(driverRouteStops.routeId, driverRoutes.id))
+      .where(and(
+        eq(driverRouteStops.orderId, orderId),
+        eq(driverRouteStops.stopType, 'DELIVERY'),
+        eq(driverRoutes.status, 'ACTIVE')
+      ))
+      .orderBy(desc(driverRoutes.createdAt))
+      .limit(1);
+
+    if (!entry) {
+      return null;
+    }
+
+    const stops = await db
+      .select()
+      .from(driverRouteStops)
+      .where(eq(driverRouteStops.routeId, entry.routeId))
+      .orderBy(asc(driverRouteStops.sequence));
+
+    const statuses = await db
+      .select({ id: orders.id, status: orders.status })
+      .from(orders)
+      .where(inArray(orders.id, stops.map(s => s.orderId)));
+    const statusById = new Map(statuses.map(o => [o.id, o.status]));
+
+    return stops.filter(stop => {
+      const status = statusById.get(stop.orderId);
+      if (status === 'DELIVERED' || status === 'CANCELLED') return false;
+      if (stop.stopType === 'PICKUP' && status !== 'ACCEPTED') return false;
+      return true;
+    });
+  }
+
+  private static async buildOrderPoints(order: Order): Promise<DeliveryPoint[]> {
+    const orderData = (order.orderData || {}) as any;
+    const points: DeliveryPoint[] = [];
+
+    // Orders that are not picked up yet need a pickup stop first
+    if (order.status === 'ACCEPTED') {
+      const pickup = await DriverDispatchService.resolvePickupLocation(order);
+      if (!pickup) return [];
+
+      points.push({
+        id: order.id * 2,
+        orderId: order.id,
+        address: order.pickupAddress || '',
+        latitude: pickup.latitude,
+        longitude: pickup.longitude,
+        priority: 'MEDIUM',
+        timeWindow: orderData.pickupWindow,
+        estimatedDuration: PICKUP_SERVICE_MINUTES,
+        type: 'PICKUP'
+      });
+    }
+
+    const delivery = await DriverDispatchService.resolveDeliveryLocation(order);
+    if (!delivery) return [];
+
+    points.push({
+      id: order.id * 2 + 1,
+      orderId: order.id,
+      address: order.deliveryAddress,
+      latitude: delivery.latitude,
+      longitude: delivery.longitude,
+      priority: orderData.priority || 'MEDIUM',
+      timeWindow: orderData.deliveryWindow,
+      estimatedDuration: DELIVERY_SERVICE_MINUTES,
+      type: 'DELIVERY'
+    });
+
+    return points;
+  }
+
+  private static async getDriverLocation(driverId: number): Promise<Coordinates | null> {
+    const [profile] = await db
+      .select({ currentLocation: driverProfiles.currentLocation })
+      .from(driverProfiles)
+      .where(eq(driverProfiles.userId, driverId))
+      .limit(1);
+
+    return profile ? DriverDispatchService.parseLocation(profile.currentLocation) : null;
+  }
+
+  private static async saveRoute(driverId: number, start: Coordinates, optimized: BatchRoute) {
+    await db
+      .update(driverRoutes)
+      .set({ status: 'SUPERSEDED', updatedAt: new Date() })
+      .where(and(eq(driverRoutes.driverId, driverId), eq(driverRoutes.status, 'ACTIVE')));
+
+    const [route] = await db
+      .insert(driverRoutes)
+      .values({
+        driverId,
+        startLatitude: start.latitude.toString(),
+        startLongitude: start.longitude.toString(),
+        totalDistance: optimized.totalDistance.toFixed(2),
+        totalDuration: optimized.totalDuration.toFixed(2),
+        warnings: optimized.warnings
+      })
+      .returning();
+
+    const stops = await db
+      .insert(driverRouteStops)
+      .values(optimized.schedule.map(stop => ({
+        routeId: route.id,
+        orderId: stop.point.orderId,
+        stopType: stop.point.type,
+        sequence: stop.sequence,
+        latitude: stop.point.latitude.toString(),
+        longitude: stop.point.longitude.toString(),
+        plannedArrival: stop.arrival,
+        minutesLate: stop.minutesLate
+      })))
+      .returning();
+
+    return { ...route, stops };
+  }
+}
+
+export default DriverRouteService;
@@ -2,6 +2,7 @@
 import { db } from '../db/config';
 import { orders, escrows } from '../db/schema';
 import { eq, and, isNull, lt } from 'drizzle-orm';
+import EscrowLedgerService from './escrow-ledger';
 
 // Auto-release escrow after 48 hours if consumer doesn't confirm
 export async function checkAndReleaseExpiredEscrows() {
@@ -36,12 +37,16 @@ export async function checkAndReleaseExpiredEscrows() {
         if (escrow) {
           console.log(`Auto-releasing escrow for order ${order.orderNumber}`);
 
-          await db
-            .update(escrows)
-            .set({ status: 'RELEASED', releasedAt: new Date() })
-            .where(eq(escrows.id, escrow.id));
+          const release = await EscrowLedgerService.release(escrow.id, null, {
+            actorId: null,
+            reason: 'Confirmation deadline passed'
+          });
 
-          console.log(`Successfully auto-released escrow for order ${order.orderNumber}`);
+          if (release.success) {
+            console.log(`Successfully auto-released escrow for order ${order.orderNumber}`);
+          } else {
+            console.log(`Escrow for order ${order.orderNumber} not auto-released: ${release.message}`);
+          }
         }
       } catch (error) {
         console.error(`Error processing order ${order.orderNumber}:`, error);
@@ -0,0 +1,493 @@
+import { db } from '../db/config';
+import { escrows, escrowAllocations, escrowMovements, orders, transactions } from '../db/schema';
+import { eq, and, isNull, asc, inArray } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+import PromotionService from './promotions';
+import CheckoutGroupService, { PaymentSplit } from './checkout-groups';
+import AccountingService from './accounting';
+
+type Escrow = typeof escrows.$inferSelect;
+type Order = typeof orders.$inferSelect;
+type EscrowAllocation = typeof escrowAllocations.$inferSelect;
+type EscrowMovement = typeof escrowMovements.$inferSelect;
+
+export const ESCROW_PARTIES = ['MERCHANT', 'DRIVER', 'PLATFORM'] as const;
+export type EscrowParty = typeof ESCROW_PARTIES[number];
+
+// One party's line to settle; without an amount, everything still held on it
+export interface SettlementRequest {
+  party: EscrowParty;
+  amount?: string;
+}
+
+export interface SettlementOptions {
+  actorId: number | null;
+  reason: string;
+  // Releasing a disputed escrow is how an admin resolves the dispute in the payee's favour
+  allowDisputed?: boolean;
+}
+
+export interface SettlementResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  escrow?: Escrow;
+  allocations?: EscrowAllocation[];
+  movements?: EscrowMovement[];
+}
+
+// Money is settled in kobo so partial amounts always add back up
+const toKobo = (amount: string | number | null | undefined) => Math.round(Number(amount || 0) * 100);
+const fromKobo = (kobo: number) => (kobo / 100).toFixed(2);
+
+// Negative on a platform line that tops the escrow up for a discount the platform funded
+const heldKobo = (allocation: EscrowAllocation) =>
+  toKobo(allocation.amount) - toKobo(allocation.releasedAmount) - toKobo(allocation.refundedAmount);
+
+// What escrow holding actually has for the line; a top-up holds nothing of its own
+const fundedKobo = (allocation: EscrowAllocation) => Math.max(heldKobo(allocation), 0);
+
+const lineStatus = (amount: number, released: number, refunded: number) => {
+  if (released === 0 && refunded === 0) return 'HELD';
+  if (released + refunded < amount) return 'PARTIALLY_SETTLED';
+  if (refunded === 0) return 'RELEASED';
+  if (released === 0) return 'REFUNDED';
+  return 'SETTLED';
+};
+
+export class EscrowLedgerService {
+  /**
+   * Splits an escrow into its merchant, driver and platform lines and logs
+   * the funding of each. Escrows created before allocation lines existed
+   * get theirs on first use; if they were already settled, that settlement
+   * is logged too. Safe to call repeatedly.
+   */
+  static async allocate(escrowId: number): Promise<EscrowAllocation[]> {
+    const existing = await this.getAllocations(escrowId);
+    if (existing.length) return existing;
+
+    const [escrow] = await db.select().from(escrows).where(eq(escrows.id, escrowId)).limit(1);
+    if (!escrow) return [];
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, escrow.orderId)).limit(1);
+    const lines = await this.planAllocations(escrow, order || null);
+    if (!lines.length) return [];
+
+    return withTransaction(async (tx) => {
+      await tx.select({ id: escrows.id }).from(escrows).where(eq(escrows.id, escrowId)).for('update');
+
+      const allocated = await tx
+        .select()
+        .from(escrowAllocations)
+        .where(eq(escrowAllocations.escrowId, escrowId))
+        .orderBy(asc(escrowAllocations.id));
+      if (allocated.length) return allocated;
+
+      const inserted: EscrowAllocation[] = await tx
+        .insert(escrowAllocations)
+        .values(lines.map(line => ({
+          escrowId,
+          party: line.party,
+          payeeId: line.payeeId,
+          amount: fromKobo(line.amount)
+        })))
+        .returning();
+
+      let escrowBalance = 0;
+      for (const allocation of inserted) {
+        // The platform's top-up is booked from its discount funding; it moves nothing into escrow holding
+        const amount = Math.max(toKobo(allocation.amount), 0);
+        const [movement]: EscrowMovement[] = await tx.insert(escrowMovements).values({
+          escrowId,
+          allocationId: allocation.id,
+          type: 'FUND',
+          amount: allocation.amount,
+          balanceBefore: '0.00',
+          balanceAfter: allocation.amount,
+          escrowBalanceBefore: fromKobo(escrowBalance),
+          escrowBalanceAfter: fromKobo(escrowBalance + amount),
+          reason: amount > 0 ? 'Payment held in escrow' : 'Platform-funded discount covered by the platform',
+          reference: escrow.transactionRef
+        }).returning();
+        await AccountingService.recordEscrowMovement(escrow, allocation, movement, tx);
+        escrowBalance += amount;
+      }
+
+      if (escrow.status !== 'RELEASED' && escrow.status !== 'REFUNDED') return inserted;
+
+      // Settled before allocation lines existed: record it so the balances read true
+      const type = escrow.status === 'RELEASED' ? 'RELEASE' : 'REFUND';
+      const settled: EscrowAllocation[] = [];
+      for (const allocation of inserted) {
+        const amount = toKobo(allocation.amount);
+        if (amount <= 0) {
+          settled.push(allocation);
+          continue;
+        }
+
+        const [row] = await tx
+          .update(escrowAllocations)
+          .set({
+            releasedAmount: type === 'RELEASE' ? allocation.amount : '0.00',
+            refundedAmount: type === 'REFUND' ? allocation.amount : '0.00',
+            status: type === 'RELEASE' ? 'RELEASED' : 'REFUNDED',
+            updatedAt: new Date()
+          })
+          .where(eq(escrowAllocations.id, allocation.id))
+          .returning();
+
+        const [movement]: EscrowMovement[] = await tx.insert(escrowMovements).values({
+          escrowId,
+          allocationId: allocation.id,
+          type,
+          amount: allocation.amount,
+          balanceBefore: allocation.amount,
+          balanceAfter: '0.00',
+          escrowBalanceBefore: fromKobo(escrowBalance),
+          escrowBalanceAfter: fromKobo(escrowBalance - amount),
+          reason: 'Settled before allocation lines were recorded'
+        }).returning();
+        await AccountingService.recordEscrowMovement(escrow, row, movement, tx);
+        escrowBalance -= amount;
+        settled.push(row);
+      }
+
+      return settled;
+    });
+  }
+
+  /**
+   * Pays out some or all of what is held for the given parties (every line
+   * with a balance when none are given).
+   */
+  static async release(escrowId: number, requests: SettlementRequest[] | null, options: SettlementOptions) {
+    return this.settle(escrowId, 'RELEASE', requests, options);
+  }
+
+  /**
+   * Returns some or all of what is held on the given lines to the customer.
+   */
+  static async refund(escrowId: number, requests: SettlementRequest[] | null, options: SettlementOptions) {
+    return this.settle(escrowId, 'REFUND', requests, options);
+  }
+
+  static async getAllocations(escrowId: number): Promise<EscrowAllocation[]> {
+    return db
+      .select()
+      .from(escrowAllocations)
+      .where(eq(escrowAllocations.escrowId, escrowId))
+      .orderBy(asc(escrowAllocations.id));
+  }
+
+  static async getMovements(escrowId: number): Promise<EscrowMovement[]> {
+    return db
+      .select()
+      .from(escrowMovements)
+      .where(eq(escrowMovements.escrowId, escrowId))
+      .orderBy(asc(escrowMovements.id));
+  }
+
+  /**
+   * Where each party stands: allocated, released, refunded and still held.
+   */
+  static describeParties(allocations: EscrowAllocation[]) {
+    return allocations.map(allocation => ({
+      party: allocation.party,
+      payeeId: allocation.payeeId,
+      allocated: allocation.amount,
+      released: allocation.releasedAmount,
+      refunded: allocation.refundedAmount,
+      held: fromKobo(heldKobo(allocation)),
+      status: allocation.status
+    }));
+  }
+
+  static totals(allocations: EscrowAllocation[]) {
+    return {
+      allocated: fromKobo(allocations.reduce((sum, a) => sum + toKobo(a.amount), 0)),
+      released: fromKobo(allocations.reduce((sum, a) => sum + toKobo(a.releasedAmount), 0)),
+      refunded: fromKobo(allocations.reduce((sum, a) => sum + toKobo(a.refundedAmount), 0)),
+      held: fromKobo(allocations.reduce((sum, a) => sum + fundedKobo(a), 0))
+    };
+  }
+
+  /**
+   * What the customer is owed for each refund movement. When the platform
+   * took back its discount top-up (a negative platform refund), that comes
+   * off the last refunds, so the customer never gets back more than they paid.
+   */
+  static customerRefunds(movements: EscrowMovement[]) {
+    const refunds = movements.filter(movement => movement.type === 'REFUND');
+    let reclaimed = refunds
+      .filter(movement => toKobo(movement.amount) < 0)
+      .reduce((sum, movement) => sum - toKobo(movement.amount), 0);
+
+    return refunds
+      .filter(movement => toKobo(movement.amount) > 0)
+      .reverse()
+      .map(movement => {
+        const deducted = Math.min(reclaimed, toKobo(movement.amount));
+        reclaimed -= deducted;
+        return { movement, amount: fromKobo(toKobo(movement.amount) - deducted) };
+      })
+      .reverse()
+      .filter(refund => toKobo(refund.amount) > 0);
+  }
+
+  private static async settle(
+    escrowId: number,
+    type: 'RELEASE' | 'REFUND',
+    requests: SettlementRequest[] | null,
+    options: SettlementOptions
+  ): Promise<SettlementResult> {
+    await this.allocate(escrowId);
+
+    return withTransaction(async (tx): Promise<SettlementResult> => {
+      const [escrow]: Escrow[] = await tx
+        .select()
+        .from(escrows)
+        .where(and(eq(escrows.id, escrowId), isNull(escrows.deletedAt)))
+        .for('update');
+
+      if (!escrow) {
+        return { success: false, status: 404, message: 'Escrow not found' };
+      }
+
+      if (type === 'RELEASE' && escrow.status === 'DISPUTED' && !options.allowDisputed) {
+        return { success: false, status: 409, message: 'Escrow is under dispute and can only be released by an admin' };
+      }
+
+      const allocations: EscrowAllocation[] = await tx
+        .select()
+        .from(escrowAllocations)
+        .where(eq(escrowAllocations.escrowId, escrowId))
+        .orderBy(asc(escrowAllocations.id))
+        .for('update');
+
+      const [order] = await tx.select().from(orders).where(eq(orders.id, escrow.orderId)).limit(1);
+
+      // Every line is checked before any balance moves
+      const wanted: SettlementRequest[] = requests || allocations
+        .filter(allocation => heldKobo(allocation) > 0)
+        // With no driver assigned yet there is no one to pay; their share stays held
+        .filter(allocation => type === 'REFUND' || allocation.party !== 'DRIVER' || allocation.payeeId || order?.driverId)
+        .map(allocation => ({ party: allocation.party as EscrowParty }));
+
+      if (new Set(wanted.map(request => request.party)).size !== wanted.length) {
+        return { success: false, status: 400, message: 'Each party can only be listed once' };
+      }
+
+      const plan: Array<{ allocation: EscrowAllocation; amount: number; payeeId: number | null }> = [];
+      for (const request of wanted) {
+        const allocation = allocations.find(a => a.party === request.party);
+        if (!allocation) {
+          return { success: false, status: 404, message: `This escrow has no ${request.party.toLowerCase()} allocation` };
+        }
+
+        const held = heldKobo(allocation);
+        const amount = request.amount !== undefined ? toKobo(request.amount) : held;
+        if (amount <= 0) {
+          return { success: false, status: 400, message: `Nothing is held for the ${request.party.toLowerCase()}` };
+        }
+        if (amount > held) {
+          return { success: false, status: 400, message: `Only ${fromKobo(held)} is still held for the ${request.party.toLowerCase()}` };
+        }
+
+        const payeeId = allocation.party === 'DRIVER' ? allocation.payeeId || order?.driverId || null : allocation.payeeId;
+        if (type === 'RELEASE' && allocation.party === 'DRIVER' && !payeeId) {
+          return { success: false, status: 409, message: 'No driver is assigned to receive the delivery fee yet' };
+        }
+
+        plan.push({ allocation, amount, payeeId });
+      }
+
+      if (!plan.length) {
+        return { success: false, status: 400, message: `Nothing is left to ${type === 'RELEASE' ? 'release' : 'refund'}` };
+      }
+
+      const priorMovements: EscrowMovement[] = await tx
+        .select()
+        .from(escrowMovements)
+        .where(and(
+          eq(escrowMovements.escrowId, escrowId),
+          inArray(escrowMovements.allocationId, plan.map(line => line.allocation.id)),
+          eq(escrowMovements.type, type)
+        ));
+
+      let escrowBalance = allocations.reduce((sum, allocation) => sum + fundedKobo(allocation), 0);
+      const updatedAllocations = [...allocations];
+      const movements: EscrowMovement[] = [];
+
+      for (const { allocation, amount, payeeId } of plan) {
+        const before = heldKobo(allocation);
+        const released = toKobo(allocation.releasedAmount) + (type === 'RELEASE' ? amount : 0);
+        const refunded = toKobo(allocation.refundedAmount) + (type === 'REFUND' ? amount : 0);
+
+        const [updated]: EscrowAllocation[] = await tx
+          .update(escrowAllocations)
+          .set({
+            payeeId,
+            releasedAmount: fromKobo(released),
+            refundedAmount: fromKobo(refunded),
+            status: lineStatus(toKobo(allocation.amount), released, refunded),
+            updatedAt: new Date()
+          })
+          .where(eq(escrowAllocations.id, allocation.id))
+          .returning();
+
+        // Transfer and refund references follow the original MERCHANT_<ref> style, numbered after the first
+        const sequence = priorMovements.filter(m => m.allocationId === allocation.id).length + 1;
+        const prefix = type === 'RELEASE' ? allocation.party : `REFUND_${allocation.party}`;
+        const baseReference = `${prefix}_${escrow.transactionRef || `ESC${escrow.id}`}`;
+
+        const [movement]: EscrowMovement[] = await tx
+          .insert(escrowMovements)
+          .values({
+            escrowId,
+            allocationId: allocation.id,
+            type,
+            amount: fromKobo(amount),
+            balanceBefore: fromKobo(before),
+            balanceAfter: fromKobo(before - amount),
+            escrowBalanceBefore: fromKobo(escrowBalance),
+            escrowBalanceAfter: fromKobo(escrowBalance - amount),
+            actorId: options.actorId,
+            reason: options.reason,
+            reference: sequence === 1 ? baseReference : `${baseReference}_${sequence}`
+          })
+          .returning();
+
+        // Booked in the same transaction, so the books can never disagree with the movement log
+        await AccountingService.recordEscrowMovement(escrow, updated, movement, tx);
+
+        escrowBalance -= amount;
+        updatedAllocations[updatedAllocations.findIndex(a => a.id === updated.id)] = updated;
+        movements.push(movement);
+      }
+
+      // Refunds beyond what the customer paid take back the platform's top-up instead
+      const topUp = updatedAllocations.find(a => a.party === 'PLATFORM' && heldKobo(a) < 0);
+      if (type === 'REFUND' && topUp) {
+        const refunded = updatedAllocations.reduce((sum, a) => sum + toKobo(a.refundedAmount), 0);
+        const reclaim = Math.min(refunded - toKobo(escrow.amount), -heldKobo(topUp));
+
+        if (reclaim > 0) {
+          const before = heldKobo(topUp);
+          const refundedAmount = toKobo(topUp.refundedAmount) - reclaim;
+
+          const [updated]: EscrowAllocation[] = await tx
+            .update(escrowAllocations)
+            .set({
+              refundedAmount: fromKobo(refundedAmount),
+              status: before + reclaim === 0 ? 'REFUNDED' : 'PARTIALLY_SETTLED',
+              updatedAt: new Date()
+            })
+            .where(eq(escrowAllocations.id, topUp.id))
+            .returning();
+
+          const sequence = (await tx
+            .select({ id: escrowMovements.id })
+            .from(escrowMovements)
+            .where(and(eq(escrowMovements.allocationId, topUp.id), eq(escrowMovements.type, 'REFUND')))).length + 1;
+          const baseReference = `REFUND_PLATFORM_${escrow.transactionRef || `ESC${escrow.id}`}`;
+
+          const [movement]: EscrowMovement[] = await tx
+            .insert(escrowMovements)
+            .values({
+              escrowId,
+              allocationId: topUp.id,
+              type,
+              amount: fromKobo(-reclaim),
+              balanceBefore: fromKobo(before),
+              balanceAfter: fromKobo(before + reclaim),
+              escrowBalanceBefore: fromKobo(escrowBalance),
+              escrowBalanceAfter: fromKobo(escrowBalance),
+              actorId: options.actorId,
+              reason: 'Platform-funded discount returned to the platform',
+              reference: sequence === 1 ? baseReference : `${baseReference}_${sequence}`
+            })
+            .returning();
+
+          await AccountingService.recordEscrowMovement(escrow, updated, movement, tx);
+
+          updatedAllocations[updatedAllocations.findIndex(a => a.id === updated.id)] = updated;
+          movements.push(movement);
+        }
+      }
+
+      // The escrow stays held (or disputed) until every line is settled
+      let status = escrow.status;
+      if (escrowBalance === 0) {
+        status = updatedAllocations.some(a => toKobo(a.releasedAmount) > 0) ? 'RELEASED' : 'REFUNDED';
+      }
+
+      const [updatedEscrow]: Escrow[] = await tx
+        .update(escrows)
+        .set({
+          status,
+          releasedAt: status === 'RELEASED' ? new Date() : escrow.releasedAt,
+          updatedAt: new Date()
+        })
+        .where(eq(escrows.id, escrowId))
+        .returning();
+
+      return { success: true, escrow: updatedEscrow, allocations: updatedAllocations, movements };
+    });
+  }
+
+  /**
+   * The merchant gets their share less any discount they funded, the driver
+   * the delivery fee, and the platform whatever is left (fees and tax). A
+   * discount the platform funded comes out of the platform's line only; when
+   * it is larger than the fees the line goes negative and the platform tops
+   * the escrow up, so the merchant and driver are still paid in full.
+   */
+  private static async planAllocations(escrow: Escrow, order: Order | null) {
+    const total = toKobo(escrow.amount);
+    const split = await this.findSplit(escrow, order);
+
+    let driver = split ? toKobo(split.driverAmount) : toKobo(order?.driverEarnings);
+    let merchant = split ? toKobo(split.merchantAmount) : total - driver;
+
+    if (order?.merchantId) {
+      merchant -= toKobo(await PromotionService.merchantFundedAmount(order.id, order.merchantId));
+    }
+
+    merchant = Math.max(merchant, 0);
+    // Without a recorded split, the driver's earnings never exceed what was paid
+    driver = split ? Math.max(driver, 0) : Math.min(Math.max(driver, 0), total);
+
+    const lines: Array<{ party: EscrowParty; payeeId: number | null; amount: number }> = [
+      { party: 'MERCHANT', payeeId: escrow.payeeId, amount: merchant },
+      { party: 'DRIVER', payeeId: order?.driverId || null, amount: driver },
+      { party: 'PLATFORM', payeeId: null, amount: total - merchant - driver }
+    ];
+
+    return lines.filter(line => line.amount !== 0);
+  }
+
+  // The merchant/driver split recorded with the payment, if there is one
+  private static async findSplit(escrow: Escrow, order: Order | null): Promise<PaymentSplit | null> {
+    if (escrow.transactionRef) {
+      const [transaction] = await db
+        .select()
+        .from(transactions)
+        .where(eq(transactions.transactionRef, escrow.transactionRef))
+        .limit(1);
+
+      const metadata = (transaction?.metadata || {}) as any;
+      if (metadata.merchantAmount || metadata.driverAmount) {
+        return { merchantAmount: metadata.merchantAmount || '0', driverAmount: metadata.driverAmount || '0' };
+      }
+    }
+
+    if (order) {
+      const groupPayment = await CheckoutGroupService.findOrderPayment(order);
+      if (groupPayment) return groupPayment.split;
+    }
+
+    return null;
+  }
+}
+
+export default EscrowLedgerService;
@@ -0,0 +1,366 @@
+import { db } from '../db/config';
+import { tracking, orders, merchantProfiles, etaSpeedStats } from '../db/schema';
+import { eq, and, gte, isNull, isNotNull, inArray, asc } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+import GeolocationService from './geolocation';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+interface SpeedStat {
+  avgSpeedKmh: number;
+  stdDevKmh: number;
+  sampleCount: number;
+}
+
+interface SpeedSample {
+  speedKmh: number;
+  at: Date;
+  midpoint: Coordinates;
+}
+
+export interface LegEstimate {
+  distanceKm: number;
+  speedKmh: number;
+  minutes: number;
+  lowMinutes: number;
+  highMinutes: number;
+  sampleCount: number;
+}
+
+// Welford accumulator for mean and variance
+class RunningStat {
+  count = 0;
+  mean = 0;
+  m2 = 0;
+
+  push(value: number) {
+    this.count++;
+    const delta = value - this.mean;
+    this.mean += delta / this.count;
+    this.m2 += delta * (value - this.mean);
+  }
+
+  get stdDev() {
+    return this.count > 1 ? Math.sqrt(this.m2 / (this.count - 1)) : 0;
+  }
+}
+
+export class EtaModelService {
+  // Same as the old fixed assumption: 40 km/h slowed by a 1.3 traffic multiplier
+  static readonly DEFAULT_SPEED_KMH = 40 / 1.3;
+  static readonly DEFAULT_CV = 0.35;
+  static readonly CELL_SIZE_DEGREES = 0.05; // roughly 5.5 km
+  static readonly MIN_SPEED_KMH = 3;
+  static readonly MAX_SPEED_KMH = 120;
+  // Buckets with few samples are pulled towards the global speed
+  static readonly SHRINKAGE_SAMPLES = 20;
+  static readonly INTERVAL_Z = 1.28; // 80% interval
+  static readonly TRACKING_LOOKBACK_DAYS = 30;
+  static readonly ORDER_LOOKBACK_DAYS = 90;
+
+  private static global: SpeedStat | null = null;
+  private static hourOfWeek = new Map<string, SpeedStat>();
+  private static cells = new Map<string, SpeedStat>();
+
+  static hourOfWeekKey(date: Date): string {
+    return String(date.getDay() * 24 + date.getHours());
+  }
+
+  static cellKey(point: Coordinates): string {
+    const size = this.CELL_SIZE_DEGREES;
+    return `${Math.floor(point.latitude / size)}:${Math.floor(point.longitude / size)}`;
+  }
+
+  /**
+   * Estimates travel time for one leg from the learned speed tables,
+   * with an interval from the spread of speeds in the matching buckets.
+   */
+  static estimateLeg(from: Coordinates, to: Coordinates, departure: Date = new Date()): LegEstimate {
+    const distanceKm = GeolocationService.haversineDistance(from, to);
+    const global = this.global;
+    const baseSpeed = global?.avgSpeedKmh || this.DEFAULT_SPEED_KMH;
+
+    // Each bucket scales the global speed by its own ratio, shrunk by sample size
+    let speed = baseSpeed;
+    let cv = global && global.avgSpeedKmh > 0 ? global.stdDevKmh / global.avgSpeedKmh : this.DEFAULT_CV;
+    let sampleCount = global?.sampleCount || 0;
+
+    const buckets = [
+      this.hourOfWeek.get(this.hourOfWeekKey(departure)),
+      this.cells.get(this.cellKey(from)),
+      this.cells.get(this.cellKey(to))
+    ];
+    const seen = new Set<SpeedStat>();
+
+    for (const bucket of buckets) {
+      if (!bucket || seen.has(bucket) || bucket.avgSpeedKmh <= 0) continue;
+      seen.add(bucket);
+
+      const weight = bucket.sampleCount / (bucket.sampleCount + this.SHRINKAGE_SAMPLES);
+      speed *= 1 + weight * (bucket.avgSpeedKmh / baseSpeed - 1);
+      cv = (1 - weight) * cv + weight * (bucket.stdDevKmh / bucket.avgSpeedKmh);
+      sampleCount = Math.min(sampleCount || bucket.sampleCount, bucket.sampleCount);
+    }
+
+    speed = Math.min(Math.max(speed, this.MIN_SPEED_KMH), this.MAX_SPEED_KMH);
+    const fastSpeed = Math.min(speed * (1 + this.INTERVAL_Z * cv), this.MAX_SPEED_KMH);
+    const slowSpeed = Math.max(speed * (1 - this.INTERVAL_Z * cv), this.MIN_SPEED_KMH);
+
+    return {
+      distanceKm,
+      speedKmh: speed,
+      minutes: (distanceKm / speed) * 60,
+      lowMinutes: (distanceKm / fastSpeed) * 60,
+      highMinutes: (distanceKm / slowSpeed) * 60,
+      sampleCount
+    };
+  }
+
+  /**
+   * Confidence in an estimate, from how much data backs it and how
+   * wide its interval is relative to the estimate.
+   */
+  static confidence(minutes: number, lowMinutes: number, highMinutes: number, sampleCount: number): number {
+    if (minutes <= 0) return 0.95;
+    const dataScore = sampleCount / (sampleCount + this.SHRINKAGE_SAMPLES);
+    const spread = (highMinutes - lowMinutes) / minutes;
+    const confidence = 0.5 + 0.3 * dataScore + 0.15 * Math.max(0, 1 - spread);
+    return Math.max(0.5, Math.min(0.95, confidence));
+  }
+
+  static async loadSpeedTables() {
+    try {
+      const rows = await db.select().from(etaSpeedStats);
+      this.applyRows(rows);
+      console.log(`ETA model loaded ${rows.length} speed buckets`);
+    } catch (error) {
+      console.error('Error loading ETA speed tables:', error);
+    }
+  }
+
+  /**
+   * Rebuilds the speed tables from recent tracking points and from the
+   * accepted -> picked up -> delivered gaps of finished orders.
+   */
+  static async recomputeSpeedTables() {
+    try {
+      const samples = [
+        ...await this.collectTrackingSamples(),
+        ...await this.collectOrderLegSamples()
+      ];
+
+      const global = new RunningStat();
+      const hourOfWeek = new Map<string, RunningStat>();
+      const cells = new Map<string, RunningStat>();
+
+      for (const sample of samples) {
+        global.push(sample.speedKmh);
+        this.bucketFor(hourOfWeek, this.hourOfWeekKey(sample.at)).push(sample.speedKmh);
+        this.bucketFor(cells, this.cellKey(sample.midpoint)).push(sample.speedKmh);
+      }
+
+      const computedAt = new Date();
+      const toRow = (bucketType: string, bucketKey: string, stat: RunningStat) => ({
+        bucketType,
+        bucketKey,
+        avgSpeedKmh: stat.mean.toFixed(2),
+        stdDevKmh: stat.stdDev.toFixed(2),
+        sampleCount: stat.count,
+        computedAt
+      });
+
+      const rows = [
+        ...(global.count ? [toRow('GLOBAL', 'ALL', global)] : []),
+        ...Array.from(hourOfWeek.entries()).map(([key, stat]) => toRow('HOUR_OF_WEEK', key, stat)),
+        ...Array.from(cells.entries()).map(([key, stat]) => toRow('CELL', key, stat))
+      ];
+
+      await withTransaction(async (tx) => {
+        await tx.delete(etaSpeedStats);
+        for (let i = 0; i < rows.length; i += 500) {
+          await tx.insert(etaSpeedStats).values(rows.slice(i, i + 500));
+        }
+      });
+
+      this.applyRows(rows);
+
+      return { success: true, samples: samples.length, buckets: rows.length };
+    } catch (error) {
+      console.error('Error in recomputeSpeedTables:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private static async collectTrackingSamples(): Promise<SpeedSample[]> {
+    const since = new Date(Date.now() - this.TRACKING_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const points = await db
+      .select()
+      .from(tracking)
+      .where(gte(tracking.createdAt, since))
+      .orderBy(asc(tracking.orderId), asc(tracking.createdAt));
+
+    const samples: SpeedSample[] = [];
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const curr = points[i];
+      if (prev.orderId !== curr.orderId || prev.driverId !== curr.driverId) continue;
+      if (!prev.createdAt || !curr.createdAt) continue;
+
+      const from = { latitude: parseFloat(prev.latitude), longitude: parseFloat(prev.longitude) };
+      const to = { latitude: parseFloat(curr.latitude), longitude: parseFloat(curr.longitude) };
+      const sample = this.toSample(from, to, prev.createdAt, curr.createdAt, 30, 30 * 60);
+      if (sample) samples.push(sample);
+    }
+    return samples;
+  }
+
+  private static async collectOrderLegSamples(): Promise<SpeedSample[]> {
+    const since = new Date(Date.now() - this.ORDER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const finished = await db
+      .select({
+        id: orders.id,
+        acceptedAt: orders.acceptedAt,
+        pickedUpAt: orders.pickedUpAt,
+        deliveredAt: orders.deliveredAt,
+        deliveryLatitude: orders.deliveryLatitude,
+        deliveryLongitude: orders.deliveryLongitude,
+        merchantLatitude: merchantProfiles.latitude,
+        merchantLongitude: merchantProfiles.longitude
+      })
+      .from(orders)
+      .leftJoin(merchantProfiles, eq(orders.merchantId, merchantProfiles.userId))
+      .where(and(
+        eq(orders.status, 'DELIVERED'),
+        gte(orders.deliveredAt, since),
+        isNotNull(orders.pickedUpAt),
+        isNull(orders.deletedAt)
+      ));
+
+    if (!finished.length) {
+      return [];
+    }
+
+    // The driver's first tracked position stands in for where they accepted from
+    const firstPoints = new Map<number, Coordinates>();
+    const orderIds = finished.map(o => o.id);
+    for (let i = 0; i < orderIds.length; i += 500) {
+      const points = await db
+        .select()
+        .from(tracking)
+        .where(inArray(tracking.orderId, orderIds.slice(i, i + 500)))
+        .orderBy(asc(tracking.createdAt));
+      for (const point of points) {
+        if (!firstPoints.has(point.orderId)) {
+          firstPoints.set(point.orderId, { latitude: parseFloat(point.latitude), longitude: parseFloat(point.longitude) });
+        }
+      }
+    }
+
+    const samples: SpeedSample[] = [];
+    for (const order of finished) {
+      const pickup = order.merchantLatitude && order.merchantLongitude
+        ? { latitude: parseFloat(order.merchantLatitude), longitude: parseFloat(order.merchantLongitude) }
+        : null;
+      const dropoff = order.deliveryLatitude && order.deliveryLongitude
+        ? { latitude: parseFloat(order.deliveryLatitude), longitude: parseFloat(order.deliveryLongitude) }
+        : null;
+      const start = firstPoints.get(order.id);
+
+      if (start && pickup && order.acceptedAt && order.pickedUpAt) {
+        const sample = this.toSample(start, pickup, order.acceptedAt, order.pickedUpAt, 60, 3 * 60 * 60);
+        if (sample) samples.push(sample);
+      }
+      if (pickup && dropoff && order.pickedUpAt && order.deliveredAt) {
+        const sample = this.toSample(pickup, dropoff, order.pickedUpAt, order.deliveredAt, 60, 3 * 60 * 60);
+        if (sample) samples.push(sample);
+      }
+    }
+    return samples;
+  }
+
+  private static toSample(
+    from: Coordinates,
+    to: Coordinates,
+    startedAt: Date,
+    endedAt: Date,
+    minSeconds: number,
+    maxSeconds: number
+  ): SpeedSample | null {
+    const seconds = (endedAt.getTime() - startedAt.getTime()) / 1000;
+    if (seconds < minSeconds || seconds > maxSeconds) return null;
+
+    const distanceKm = GeolocationService.haversineDistance(from, to);
+    if (distanceKm < 0.05) return null;
+
+    const speedKmh = distanceKm / (seconds / 3600);
+    if (speedKmh < this.MIN_SPEED_KMH || speedKmh > this.MAX_SPEED_KMH) return null;
+
+    return {
+      speedKmh,
+      at: startedAt,
+      midpoint: {
+        latitude: (from.latitude + to.latitude) / 2,
+        longitude: (from.longitude + to.longitude) / 2
+      }
+    };
+  }
+
+  private static bucketFor(map: Map<string, RunningStat>, key: string): RunningStat {
+    let stat = map.get(key);
+    if (!stat) {
+      stat = new RunningStat();
+      map.set(key, stat);
+    }
+    return stat;
+  }
+
+  private static applyRows(rows: Array<{ bucketType: string; bucketKey: string; avgSpeedKmh: string; stdDevKmh: string; sampleCount: number }>) {
+    const hourOfWeek = new Map<string, SpeedStat>();
+    const cells = new Map<string, SpeedStat>();
+    let global: SpeedStat | null = null;
+
+    for (const row of rows) {
+      const stat = {
+        avgSpeedKmh: parseFloat(row.avgSpeedKmh),
+        stdDevKmh: parseFloat(row.stdDevKmh),
+        sampleCount: row.sampleCount
+      };
+      if (row.bucketType === 'GLOBAL') global = stat;
+      else if (row.bucketType === 'HOUR_OF_WEEK') hourOfWeek.set(row.bucketKey, stat);
+      else if (row.bucketType === 'CELL') cells.set(row.bucketKey, stat);
+    }
+
+    this.global = global;
+    this.hourOfWeek = hourOfWeek;
+    this.cells = cells;
+  }
+}
+
+// Load the current tables, then recompute them every night at 02:00
+export function startEtaModelService() {
+  EtaModelService.loadSpeedTables();
+
+  const now = new Date();
+  const nextRun = new Date(now);
+  nextRun.setHours(2, 0, 0, 0);
+  if (nextRun <= now) {
+    nextRun.setDate(nextRun.getDate() + 1);
+  }
+
+  setTimeout(() => {
+    EtaModelService.recomputeSpeedTables();
+    setInterval(() => {
+      EtaModelService.recomputeSpeedTables();
+    }, 24 * 60 * 60 * 1000);
+  }, nextRun.getTime() - now.getTime());
+
+  console.log('✅ ETA model service started');
+}
+
+export default EtaModelService;
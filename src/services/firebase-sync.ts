@@ -375,6 +375,18 @@ class FirebaseSyncService {
     console.log('✅ Manual Firebase sync completed');
   }
 
+  // Outbound direction: mirrors a Postgres change into the Realtime Database for the apps.
+  // Delivered through the outbox, so errors are thrown for it to retry.
+  async pushToRealtimeDatabase(path: string, data: Record<string, any>, merge = true) {
+    if (!adminRealtimeDb) {
+      console.warn(`⚠️ Firebase Realtime Database not available - skipping write to ${path}`);
+      return;
+    }
+
+    const ref = adminRealtimeDb.ref(path);
+    await (merge ? ref.update(data) : ref.set(data));
+  }
+
   cleanup() {
     console.log('🧹 Cleaning up Firebase sync listeners...');
     this.syncListeners.forEach(unsubscribe => unsubscribe());
@@ -0,0 +1,444 @@
+import { db } from '../db/config';
+import { fuelOrders, fuelOrderSchedules, notifications } from '../db/schema';
+import { eq, and, lte, gt, isNull, inArray, asc } from 'drizzle-orm';
+import { getWebSocketService } from './websocket';
+import { resolveTransition } from './order-state-machine';
+import { recordStatusChange } from './order-status-history';
+import FuelStationService from './fuel-stations';
+import { withTransaction } from '../utils/db-transaction';
+
+type Schedule = typeof fuelOrderSchedules.$inferSelect;
+type FuelOrder = typeof fuelOrders.$inferSelect;
+
+export type ScheduleRule = Pick<Schedule,
+  'frequency' | 'daysOfWeek' | 'dayOfMonth' | 'timeOfDay' | 'utcOffsetMinutes' | 'startDate' | 'endDate'>;
+
+export interface ScheduleActionResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  schedule?: Schedule;
+  skippedOccurrence?: Date;
+  cancelledFuelOrderIds?: number[];
+}
+
+// Orders are created this far ahead so customers can see and skip them
+const MATERIALIZE_LEAD_MS = 24 * 60 * 60 * 1000;
+const REMINDER_LEAD_MS = 2 * 60 * 60 * 1000;
+const CONFIRMATION_WINDOW_MS = 48 * 60 * 60 * 1000;
+// Monthly rules repeat within 31 days; two months covers any start date
+const MAX_LOOKAHEAD_DAYS = 62;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UPCOMING_STATUSES = ['PENDING', 'CONFIRMED', 'ACCEPTED'] as const;
+
+export class FuelScheduleService {
+  /**
+   * First delivery time strictly after `after` (and not before the start
+   * date) that matches the rule, or null once the rule has ended.
+   */
+  static nextOccurrence(rule: ScheduleRule, after: Date): Date | null {
+    const [hours, minutes] = rule.timeOfDay.split(':').map(Number);
+    const offsetMs = (rule.utcOffsetMinutes ?? 60) * 60 * 1000;
+    const earliest = Math.max(after.getTime() + 1, rule.startDate.getTime());
+    const daysOfWeek = (rule.daysOfWeek || []) as number[];
+
+    // Walk local calendar days; UTC getters on the shifted time give the local date
+    const local = new Date(earliest + offsetMs);
+    const firstDay = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+
+    for (let d = 0; d <= MAX_LOOKAHEAD_DAYS; d++) {
+      const day = new Date(firstDay + d * DAY_MS);
+
+      const matches = rule.frequency === 'DAILY'
+        || (rule.frequency === 'WEEKLY' && daysOfWeek.includes(day.getUTCDay()))
+        || (rule.frequency === 'MONTHLY' && day.getUTCDate() === rule.dayOfMonth);
+      if (!matches) continue;
+
+      const occurrence = new Date(day.getTime() + (hours * 60 + minutes) * 60 * 1000 - offsetMs);
+      if (occurrence.getTime() < earliest) continue;
+      if (rule.endDate && occurrence > rule.endDate) return null;
+
+      return occurrence;
+    }
+
+    return null;
+  }
+
+  /**
+   * Turns every active schedule's occurrences inside the lead window into
+   * real fuel orders and moves the schedule's cursor past them.
+   */
+  static async materializeDueSchedules() {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + MATERIALIZE_LEAD_MS);
+
+    const due = await db
+      .select()
+      .from(fuelOrderSchedules)
+      .where(and(
+        eq(fuelOrderSchedules.status, 'ACTIVE'),
+        lte(fuelOrderSchedules.nextRunAt, horizon)
+      ));
+
+    let created = 0;
+    for (const schedule of due) {
+      try {
+        created += await this.materializeSchedule(schedule, now, horizon);
+      } catch (error) {
+        console.error(`Error materialising fuel schedule ${schedule.id}:`, error);
+      }
+    }
+
+    return { schedules: due.length, created };
+  }
+
+  /**
+   * Sends the pre-delivery reminder for scheduled fuel orders coming up soon,
+   * whether materialised from a schedule or booked for a later time directly.
+   * Each order is claimed before notifying so a reminder goes out once.
+   */
+  static async sendDueReminders() {
+    const now = new Date();
+
+    const reminded = await db
+      .update(fuelOrders)
+      .set({ reminderSentAt: now })
+      .where(and(
+        isNull(fuelOrders.reminderSentAt),
+        isNull(fuelOrders.deletedAt),
+        inArray(fuelOrders.status, [...UPCOMING_STATUSES]),
+        gt(fuelOrders.scheduledDeliveryTime, now),
+        lte(fuelOrders.scheduledDeliveryTime, new Date(now.getTime() + REMINDER_LEAD_MS))
+      ))
+      .returning();
+
+    for (const fuelOrder of reminded) {
+      await this.notifyCustomer(fuelOrder.customerId, {
+        type: 'FUEL_DELIVERY_REMINDER',
+        title: 'Fuel delivery coming up',
+        message: `Your scheduled ${fuelOrder.quantity}L ${fuelOrder.fuelType} delivery is due at ${fuelOrder.scheduledDeliveryTime!.toISOString()}`,
+        metadata: { fuelOrderId: fuelOrder.id, scheduleId: fuelOrder.scheduleId }
+      });
+    }
+
+    return reminded.length;
+  }
+
+  static async pause(schedule: Schedule): Promise<ScheduleActionResult> {
+    if (schedule.status !== 'ACTIVE') {
+      return { success: false, status: 409, message: `Cannot pause a ${schedule.status.toLowerCase()} schedule` };
+    }
+
+    const [updated] = await db
+      .update(fuelOrderSchedules)
+      .set({ status: 'PAUSED', updatedAt: new Date() })
+      .where(eq(fuelOrderSchedules.id, schedule.id))
+      .returning();
+
+    return { success: true, schedule: updated };
+  }
+
+  /**
+   * Reactivates a paused schedule from the next occurrence after now;
+   * deliveries that fell inside the pause are not back-filled.
+   */
+  static async resume(schedule: Schedule): Promise<ScheduleActionResult> {
+    if (schedule.status !== 'PAUSED') {
+      return { success: false, status: 409, message: 'Only paused schedules can be resumed' };
+    }
+
+    const nextRunAt = this.nextOccurrence(schedule, new Date());
+
+    const [updated] = await db
+      .update(fuelOrderSchedules)
+      .set({
+        status: nextRunAt ? 'ACTIVE' : 'COMPLETED',
+        nextRunAt,
+        updatedAt: new Date()
+      })
+      .where(eq(fuelOrderSchedules.id, schedule.id))
+      .returning();
+
+    return { success: true, schedule: updated };
+  }
+
+  /**
+   * Skips one delivery. If it was already materialised the fuel order is
+   * cancelled, otherwise the occurrence is remembered so it never is.
+   * Without an explicit occurrence the next upcoming delivery is skipped.
+   */
+  static async skip(schedule: Schedule, actor: { id: number; role: string }, occurrence?: Date): Promise<ScheduleActionResult> {
+    if (schedule.status !== 'ACTIVE' && schedule.status !== 'PAUSED') {
+      return { success: false, status: 409, message: `Cannot skip deliveries of a ${schedule.status.toLowerCase()} schedule` };
+    }
+
+    const now = new Date();
+    const conditions = [
+      eq(fuelOrders.scheduleId, schedule.id),
+      inArray(fuelOrders.status, [...UPCOMING_STATUSES]),
+      gt(fuelOrders.scheduledDeliveryTime, now),
+      isNull(fuelOrders.deletedAt)
+    ];
+    if (occurrence) {
+      conditions.push(eq(fuelOrders.scheduledDeliveryTime, occurrence));
+    }
+
+    const [materialized] = await db
+      .select()
+      .from(fuelOrders)
+      .where(and(...conditions))
+      .orderBy(asc(fuelOrders.scheduledDeliveryTime))
+      .limit(1);
+
+    if (materialized) {
+      const cancelled = await this.cancelFuelOrder(materialized, actor, 'Skipped scheduled delivery');
+      if (!cancelled) {
+        return { success: false, status: 409, message: 'This delivery is already under way and can no longer be skipped' };
+      }
+      return { success: true, schedule, skippedOccurrence: materialized.scheduledDeliveryTime!, cancelledFuelOrderIds: [materialized.id] };
+    }
+
+    const target = occurrence || schedule.nextRunAt;
+    if (!target || target <= now) {
+      return { success: false, status: 409, message: 'No upcoming delivery to skip' };
+    }
+
+    // Only real occurrences of the rule can be skipped
+    const matching = this.nextOccurrence(schedule, new Date(target.getTime() - 1));
+    if (!matching || matching.getTime() !== target.getTime()) {
+      return { success: false, status: 400, message: 'Not a scheduled delivery time for this schedule' };
+    }
+
+    const skipped = new Set((schedule.skippedOccurrences || []) as string[]);
+    skipped.add(target.toISOString());
+
+    const isNextRun = schedule.nextRunAt && schedule.nextRunAt.getTime() === target.getTime();
+    const nextRunAt = isNextRun ? this.nextOccurrence(schedule, target) : schedule.nextRunAt;
+
+    const [updated] = await db
+      .update(fuelOrderSchedules)
+      .set({
+        skippedOccurrences: Array.from(skipped),
+        nextRunAt,
+        ...(!nextRunAt && { status: 'COMPLETED' }),
+        updatedAt: now
+      })
+      .where(eq(fuelOrderSchedules.id, schedule.id))
+      .returning();
+
+    return { success: true, schedule: updated, skippedOccurrence: target };
+  }
+
+  /**
+   * Cancels the schedule along with any materialised orders no driver has picked up yet.
+   */
+  static async cancel(schedule: Schedule, actor: { id: number; role: string }): Promise<ScheduleActionResult> {
+    if (schedule.status === 'CANCELLED' || schedule.status === 'COMPLETED') {
+      return { success: false, status: 409, message: `Schedule is already ${schedule.status.toLowerCase()}` };
+    }
+
+    const [updated] = await db
+      .update(fuelOrderSchedules)
+      .set({ status: 'CANCELLED', nextRunAt: null, updatedAt: new Date() })
+      .where(eq(fuelOrderSchedules.id, schedule.id))
+      .returning();
+
+    const upcoming = await db
+      .select()
+      .from(fuelOrders)
+      .where(and(
+        eq(fuelOrders.scheduleId, schedule.id),
+        inArray(fuelOrders.status, [...UPCOMING_STATUSES]),
+        gt(fuelOrders.scheduledDeliveryTime, new Date()),
+        isNull(fuelOrders.deletedAt)
+      ));
+
+    const cancelledFuelOrderIds: number[] = [];
+    for (const fuelOrder of upcoming) {
+      if (await this.cancelFuelOrder(fuelOrder, actor, 'Schedule cancelled')) {
+        cancelledFuelOrderIds.push(fuelOrder.id);
+      }
+    }
+
+    return { success: true, schedule: updated, cancelledFuelOrderIds };
+  }
+
+  private static async materializeSchedule(schedule: Schedule, now: Date, horizon: Date): Promise<number> {
+    const skipped = new Set((schedule.skippedOccurrences || []) as string[]);
+    let occurrence = schedule.nextRunAt;
+    let created = 0;
+
+    while (occurrence && occurrence <= horizon) {
+      // Occurrences missed while the service was down are dropped rather than delivered late
+      if (occurrence > now && !skipped.has(occurrence.toISOString())) {
+        const fuelOrder = await this.createFuelOrder(schedule, occurrence);
+        if (fuelOrder) {
+          created++;
+          await this.notifyCustomer(schedule.customerId, {
+            type: 'FUEL_ORDER_SCHEDULED',
+            title: 'Scheduled fuel order created',
+            message: `Your ${schedule.quantity}L ${schedule.fuelType} delivery for ${occurrence.toISOString()} has been booked. You can still skip it.`,
+            metadata: { fuelOrderId: fuelOrder.id, scheduleId: schedule.id }
+          });
+        }
+      }
+      occurrence = this.nextOccurrence(schedule, occurrence);
+    }
+
+    await db
+      .update(fuelOrderSchedules)
+      .set({
+        nextRunAt: occurrence,
+        ...(!occurrence && { status: 'COMPLETED' }),
+        // Skips in the past have served their purpose
+        skippedOccurrences: Array.from(skipped).filter(iso => new Date(iso) > now),
+        lastMaterializedAt: now,
+        updatedAt: now
+      })
+      .where(and(
+        eq(fuelOrderSchedules.id, schedule.id),
+        eq(fuelOrderSchedules.status, 'ACTIVE')
+      ));
+
+    return created;
+  }
+
+  private static async createFuelOrder(schedule: Schedule, occurrence: Date): Promise<FuelOrder | null> {
+    const quantity = parseFloat(schedule.quantity);
+
+    // Each delivery is priced from the station's price when it is booked
+    const quote = await FuelStationService.quote(schedule.stationId, schedule.fuelType, quantity);
+
+    let reserved = false;
+    let fuelOrder: FuelOrder | null = null;
+    if (quote.success) {
+      fuelOrder = await withTransaction(async (tx) => {
+        reserved = await FuelStationService.reserveStock(tx, schedule.stationId, schedule.fuelType, quantity);
+        if (!reserved) return null;
+
+        // The unique (schedule, delivery time) index makes this safe to run from several instances
+        const [inserted] = await tx
+          .insert(fuelOrders)
+          .values({
+            customerId: schedule.customerId,
+            stationId: schedule.stationId,
+            fuelType: schedule.fuelType,
+            quantity: schedule.quantity,
+            unitPrice: quote.unitPrice,
+            totalAmount: quote.totalAmount,
+            deliveryAddress: schedule.deliveryAddress,
+            deliveryLatitude: schedule.deliveryLatitude,
+            deliveryLongitude: schedule.deliveryLongitude,
+            scheduledDeliveryTime: occurrence,
+            notes: schedule.notes,
+            scheduleId: schedule.id,
+            confirmationDeadline: new Date(occurrence.getTime() + CONFIRMATION_WINDOW_MS)
+          })
+          .onConflictDoNothing()
+          .returning();
+
+        if (!inserted) {
+          await FuelStationService.releaseStock(tx, schedule.stationId, schedule.fuelType, quantity);
+          return null;
+        }
+        return inserted;
+      });
+    }
+
+    // The occurrence is dropped rather than retried; the customer can order it by hand
+    if (!reserved) {
+      await this.notifyCustomer(schedule.customerId, {
+        type: 'FUEL_ORDER_SCHEDULE_FAILED',
+        title: 'Scheduled fuel order could not be booked',
+        message: `Your ${schedule.quantity}L ${schedule.fuelType} delivery for ${occurrence.toISOString()} could not be booked: ${quote.message || 'not enough fuel left at the station'}.`,
+        metadata: { scheduleId: schedule.id, occurrence: occurrence.toISOString() }
+      });
+      return null;
+    }
+
+    if (!fuelOrder) return null;
+
+    await recordStatusChange({
+      fuelOrderId: fuelOrder.id,
+      fromStatus: null,
+      toStatus: 'PENDING',
+      actorId: schedule.customerId,
+      actorRole: 'SYSTEM',
+      reason: 'Created from recurring schedule',
+      metadata: { scheduleId: schedule.id }
+    });
+
+    return fuelOrder;
+  }
+
+  private static async cancelFuelOrder(fuelOrder: FuelOrder, actor: { id: number; role: string }, reason: string): Promise<boolean> {
+    const transition = resolveTransition(fuelOrder.status, 'CANCELLED', actor.role);
+    if (!transition.allowed) return false;
+
+    await db
+      .update(fuelOrders)
+      .set(transition.updates)
+      .where(eq(fuelOrders.id, fuelOrder.id));
+
+    await FuelStationService.releaseForOrder(fuelOrder);
+
+    await recordStatusChange({
+      fuelOrderId: fuelOrder.id,
+      fromStatus: fuelOrder.status,
+      toStatus: 'CANCELLED',
+      actorId: actor.id,
+      actorRole: actor.role,
+      reason,
+      metadata: { scheduleId: fuelOrder.scheduleId }
+    });
+
+    return true;
+  }
+
+  private static async notifyCustomer(userId: number, notification: { type: string; title: string; message: string; metadata: Record<string, any> }) {
+    try {
+      await db.insert(notifications).values({
+        userId,
+        title: notification.title,
+        message: notification.message,
+        type: notification.type,
+        metadata: notification.metadata
+      });
+
+      const wsService = getWebSocketService();
+      if (wsService) {
+        await wsService.sendNotificationToUser(userId.toString(), {
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          data: notification.metadata
+        });
+      }
+    } catch (error) {
+      console.error('Fuel schedule notification error:', error);
+    }
+  }
+}
+
+// Materialise upcoming deliveries and send reminders every 15 minutes
+export function startFuelScheduleService() {
+  const run = async () => {
+    try {
+      const { created } = await FuelScheduleService.materializeDueSchedules();
+      const reminded = await FuelScheduleService.sendDueReminders();
+      if (created || reminded) {
+        console.log(`Fuel schedules: ${created} orders created, ${reminded} reminders sent`);
+      }
+    } catch (error) {
+      console.error('Fuel schedule run error:', error);
+    }
+  };
+
+  run();
+  setInterval(run, 15 * 60 * 1000);
+
+  console.log('✅ Fuel schedule service started');
+}
+
+export default FuelScheduleService;
@@ -0,0 +1,247 @@
+import { db } from '../db/config';
+import { fuelStations, fuelStationStock, fuelPrices, fuelOrders } from '../db/schema';
+import { eq, and, isNull, lte, gte, desc, inArray, sql } from 'drizzle-orm';
+import GeolocationService from './geolocation';
+
+type FuelStation = typeof fuelStations.$inferSelect;
+type FuelPrice = typeof fuelPrices.$inferSelect;
+type FuelOrder = typeof fuelOrders.$inferSelect;
+
+export const FUEL_TYPES = ['PMS', 'AGO', 'DPK'] as const;
+export type FuelType = typeof FUEL_TYPES[number];
+
+export interface FuelQuote {
+  success: boolean;
+  status?: number;
+  message?: string;
+  station?: FuelStation;
+  priceId?: number;
+  unitPrice?: string;
+  totalAmount?: string;
+  availableLitres?: number;
+}
+
+export interface StationOffer {
+  fuelType: string;
+  pricePerLitre: number | null;
+  priceEffectiveFrom: Date | null;
+  availableLitres: number;
+}
+
+export class FuelStationService {
+  static async getStation(stationId: number): Promise<FuelStation | null> {
+    const [station] = await db
+      .select()
+      .from(fuelStations)
+      .where(and(eq(fuelStations.id, stationId), isNull(fuelStations.deletedAt)))
+      .limit(1);
+
+    return station || null;
+  }
+
+  /**
+   * Price in force at the given time: the latest entry whose effective-from
+   * has passed. Future-dated entries take over on their own.
+   */
+  static async getCurrentPrice(stationId: number, fuelType: string, at: Date = new Date()): Promise<FuelPrice | null> {
+    const [price] = await db
+      .select()
+      .from(fuelPrices)
+      .where(and(
+        eq(fuelPrices.stationId, stationId),
+        eq(fuelPrices.fuelType, fuelType),
+        lte(fuelPrices.effectiveFrom, at)
+      ))
+      .orderBy(desc(fuelPrices.effectiveFrom), desc(fuelPrices.id))
+      .limit(1);
+
+    return price || null;
+  }
+
+  /**
+   * Current price and stock for every fuel type a set of stations carries.
+   */
+  static async getOffers(stationIds: number[]): Promise<Map<number, StationOffer[]>> {
+    const offers = new Map<number, StationOffer[]>();
+    if (!stationIds.length) return offers;
+
+    const now = new Date();
+    const [stock, prices] = await Promise.all([
+      db.select().from(fuelStationStock).where(inArray(fuelStationStock.stationId, stationIds)),
+      db
+        .selectDistinctOn([fuelPrices.stationId, fuelPrices.fuelType])
+        .from(fuelPrices)
+        .where(and(inArray(fuelPrices.stationId, stationIds), lte(fuelPrices.effectiveFrom, now)))
+        .orderBy(fuelPrices.stationId, fuelPrices.fuelType, desc(fuelPrices.effectiveFrom), desc(fuelPrices.id))
+    ]);
+
+    for (const stationId of stationIds) {
+      const fuelTypes = new Set([
+        ...stock.filter(s => s.stationId === stationId).map(s => s.fuelType),
+        ...prices.filter(p => p.stationId === stationId).map(p => p.fuelType)
+      ]);
+
+      offers.set(stationId, Array.from(fuelTypes).sort().map(fuelType => {
+        const level = stock.find(s => s.stationId === stationId && s.fuelType === fuelType);
+        const price = prices.find(p => p.stationId === stationId && p.fuelType === fuelType);
+        return {
+          fuelType,
+          pricePerLitre: price ? parseFloat(price.pricePerLitre) : null,
+          priceEffectiveFrom: price?.effectiveFrom || null,
+          availableLitres: level ? parseFloat(level.quantityLitres) : 0
+        };
+      }));
+    }
+
+    return offers;
+  }
+
+  /**
+   * Prices an order from the station's current price and checks it against
+   * stock. Stock is only checked here; reserveStock() takes it. heldLitres
+   * counts litres the order already holds at this station, when re-pricing.
+   */
+  static async quote(stationId: number, fuelType: string, quantity: number, heldLitres: number = 0): Promise<FuelQuote> {
+    const station = await this.getStation(stationId);
+    if (!station || !station.isActive) {
+      return { success: false, status: 404, message: 'Fuel station not found' };
+    }
+
+    const price = await this.getCurrentPrice(stationId, fuelType);
+    if (!price) {
+      return { success: false, status: 409, message: `${station.name} does not currently sell ${fuelType}` };
+    }
+
+    const [level] = await db
+      .select({ quantityLitres: fuelStationStock.quantityLitres })
+      .from(fuelStationStock)
+      .where(and(eq(fuelStationStock.stationId, stationId), eq(fuelStationStock.fuelType, fuelType)))
+      .limit(1);
+
+    const availableLitres = (level ? parseFloat(level.quantityLitres) : 0) + heldLitres;
+    if (quantity > availableLitres) {
+      return {
+        success: false,
+        status: 409,
+        message: `Only ${availableLitres}L of ${fuelType} is available at ${station.name}`,
+        availableLitres
+      };
+    }
+
+    const unitPrice = parseFloat(price.pricePerLitre);
+
+    return {
+      success: true,
+      station,
+      priceId: price.id,
+      unitPrice: unitPrice.toFixed(2),
+      totalAmount: (unitPrice * quantity).toFixed(2),
+      availableLitres
+    };
+  }
+
+  /**
+   * Takes litres out of a station's stock, only if enough is left. Returns
+   * false when another order got the stock first.
+   */
+  static async reserveStock(tx: any, stationId: number, fuelType: string, quantity: number): Promise<boolean> {
+    const reserved = await tx
+      .update(fuelStationStock)
+      .set({
+        quantityLitres: sql`${fuelStationStock.quantityLitres} - ${quantity}`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(fuelStationStock.stationId, stationId),
+        eq(fuelStationStock.fuelType, fuelType),
+        gte(fuelStationStock.quantityLitres, quantity.toString())
+      ))
+      .returning({ id: fuelStationStock.id });
+
+    return reserved.length > 0;
+  }
+
+  static async releaseStock(tx: any, stationId: number, fuelType: string, quantity: number) {
+    await tx
+      .update(fuelStationStock)
+      .set({
+        quantityLitres: sql`${fuelStationStock.quantityLitres} + ${quantity}`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(fuelStationStock.stationId, stationId),
+        eq(fuelStationStock.fuelType, fuelType)
+      ));
+  }
+
+  /**
+   * Returns a cancelled fuel order's litres to its station.
+   */
+  static async releaseForOrder(fuelOrder: FuelOrder) {
+    if (!fuelOrder.stationId) return;
+
+    try {
+      await this.releaseStock(db, fuelOrder.stationId, fuelOrder.fuelType, parseFloat(fuelOrder.quantity));
+    } catch (error) {
+      console.error('Fuel stock release error:', error);
+    }
+  }
+
+  static async setStock(stationId: number, fuelType: string, quantityLitres: number) {
+    const [level] = await db
+      .insert(fuelStationStock)
+      .values({ stationId, fuelType, quantityLitres: quantityLitres.toString() })
+      .onConflictDoUpdate({
+        target: [fuelStationStock.stationId, fuelStationStock.fuelType],
+        set: { quantityLitres: quantityLitres.toString(), updatedAt: new Date() }
+      })
+      .returning();
+
+    return level;
+  }
+
+  /**
+   * Active stations within the radius, nearest first, with their current
+   * offers. A bounding box narrows the query before the exact distance check.
+   */
+  static async findNearby(latitude: number, longitude: number, radiusKm: number, fuelType?: string) {
+    const latDelta = radiusKm / 111;
+    const lngDelta = radiusKm / (111 * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+
+    const candidates = await db
+      .select()
+      .from(fuelStations)
+      .where(and(
+        eq(fuelStations.isActive, true),
+        isNull(fuelStations.deletedAt),
+        sql`${fuelStations.latitude} BETWEEN ${latitude - latDelta} AND ${latitude + latDelta}`,
+        sql`${fuelStations.longitude} BETWEEN ${longitude - lngDelta} AND ${longitude + lngDelta}`
+      ));
+
+    const inRange = candidates
+      .map(station => ({
+        station,
+        distance: GeolocationService.haversineDistance(
+          { latitude, longitude },
+          { latitude: parseFloat(station.latitude!), longitude: parseFloat(station.longitude!) }
+        )
+      }))
+      .filter(({ distance }) => distance <= radiusKm);
+
+    const offers = await this.getOffers(inRange.map(({ station }) => station.id));
+
+    return inRange
+      .map(({ station, distance }) => ({
+        ...station,
+        distance: Math.round(distance * 100) / 100,
+        offers: offers.get(station.id) || []
+      }))
+      // Only stations that can actually sell the requested fuel right now
+      .filter(station => !fuelType || station.offers.some(o =>
+        o.fuelType === fuelType && o.pricePerLitre !== null && o.availableLitres > 0
+      ))
+      .sort((a, b) => a.distance - b.distance);
+  }
+}
+
+export default FuelStationService;
@@ -0,0 +1,152 @@
+import { db } from '../db/config';
+import { orders, merchantProfiles, geofenceEvents } from '../db/schema';
+import { eq, and, isNull, inArray } from 'drizzle-orm';
+import GeolocationService from './geolocation';
+import { getWebSocketService } from './websocket';
+import { getAllowedTransitions, OrderStatus } from './order-state-machine';
+
+type Fence = 'PICKUP' | 'DROPOFF';
+type FenceEvent = 'ARRIVING' | 'ARRIVED';
+
+export interface GeofenceHit {
+  orderId: number;
+  fence: Fence;
+  event: FenceEvent;
+  distanceMeters: number;
+  suggestedStatus: OrderStatus | null;
+}
+
+const ACTIVE_STATUSES = ['ACCEPTED', 'PICKED_UP', 'IN_TRANSIT'] as const;
+
+export class GeofenceService {
+  static readonly ARRIVING_RADIUS_M = 500;
+  static readonly ARRIVED_RADIUS_M = 75;
+
+  /**
+   * Checks a driver's new position against the fences of their active orders:
+   * the merchant's location until pickup, the delivery point afterwards.
+   * Each fence fires ARRIVING and ARRIVED at most once per order. Errors are
+   * logged and swallowed so location updates never fail because of them.
+   */
+  static async checkDriverLocation(driverId: number, latitude: number, longitude: number): Promise<GeofenceHit[]> {
+    try {
+      const activeOrders = await db
+        .select({
+          order: orders,
+          merchantLatitude: merchantProfiles.latitude,
+          merchantLongitude: merchantProfiles.longitude
+        })
+        .from(orders)
+        .leftJoin(merchantProfiles, eq(orders.merchantId, merchantProfiles.userId))
+        .where(and(
+          eq(orders.driverId, driverId),
+          inArray(orders.status, [...ACTIVE_STATUSES]),
+          isNull(orders.deletedAt)
+        ));
+
+      const hits: GeofenceHit[] = [];
+
+      for (const { order, merchantLatitude, merchantLongitude } of activeOrders) {
+        const fence: Fence = order.status === 'ACCEPTED' ? 'PICKUP' : 'DROPOFF';
+        const target = fence === 'PICKUP'
+          ? this.toCoordinates(merchantLatitude, merchantLongitude)
+          : this.toCoordinates(order.deliveryLatitude, order.deliveryLongitude);
+        if (!target) continue;
+
+        const distanceMeters = Math.round(
+          GeolocationService.haversineDistance({ latitude, longitude }, target) * 1000
+        );
+        if (distanceMeters > this.ARRIVING_RADIUS_M) continue;
+
+        // A driver who jumps straight inside the inner fence still gets both events
+        const events: FenceEvent[] = distanceMeters <= this.ARRIVED_RADIUS_M ? ['ARRIVING', 'ARRIVED'] : ['ARRIVING'];
+
+        for (const event of events) {
+          const [recorded] = await db
+            .insert(geofenceEvents)
+            .values({
+              orderId: order.id,
+              driverId,
+              fence,
+              event,
+              distanceMeters,
+              latitude: latitude.toString(),
+              longitude: longitude.toString()
+            })
+            .onConflictDoNothing()
+            .returning();
+
+          if (!recorded) continue;
+
+          const hit: GeofenceHit = {
+            orderId: order.id,
+            fence,
+            event,
+            distanceMeters,
+            suggestedStatus: event === 'ARRIVED' ? this.suggestNextStatus(order.status, fence) : null
+          };
+          hits.push(hit);
+          await this.notify(order, driverId, hit);
+        }
+      }
+
+      return hits;
+    } catch (error) {
+      console.error('Geofence check error:', error);
+      return [];
+    }
+  }
+
+  private static suggestNextStatus(status: OrderStatus | null, fence: Fence): OrderStatus | null {
+    const next: OrderStatus = fence === 'PICKUP' ? 'PICKED_UP' : 'DELIVERED';
+    return getAllowedTransitions(status, 'DRIVER').includes(next) ? next : null;
+  }
+
+  private static async notify(order: typeof orders.$inferSelect, driverId: number, hit: GeofenceHit) {
+    const wsService = getWebSocketService();
+    if (!wsService) return;
+
+    const type = hit.event === 'ARRIVED' ? 'driver_arrived' : 'driver_arriving';
+    const payload = {
+      type,
+      data: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        fence: hit.fence,
+        distanceMeters: hit.distanceMeters
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    await wsService.broadcastToUser(order.customerId.toString(), payload);
+    if (hit.fence === 'PICKUP' && order.merchantId) {
+      await wsService.broadcastToUser(order.merchantId.toString(), payload);
+    }
+
+    if (hit.suggestedStatus) {
+      await wsService.broadcastToUser(driverId.toString(), {
+        type: 'status_suggestion',
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          fence: hit.fence,
+          currentStatus: order.status,
+          suggestedStatus: hit.suggestedStatus,
+          action: hit.suggestedStatus === 'PICKED_UP'
+            ? `/api/orders/${order.id}/pickup`
+            : `/api/orders/${order.id}/deliver`
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private static toCoordinates(latitude: string | null, longitude: string | null) {
+    const lat = parseFloat(latitude || '');
+    const lng = parseFloat(longitude || '');
+    if (isNaN(lat) || isNaN(lng)) return null;
+    return { latitude: lat, longitude: lng };
+  }
+}
+
+export default GeofenceService;
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+
+// Merchants trade on West Africa Time unless their schedule says otherwise
+const DEFAULT_TIMEZONE = 'Africa/Lagos';
+
+// How far ahead to look for the next opening before giving up
+const LOOKAHEAD_DAYS = 14;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const timeSchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Times must be HH:MM (24-hour)');
+
+// A close at or before the open runs past midnight into the next day
+const shiftSchema = z.object({
+  open: timeSchema,
+  close: timeSchema
+})
+  .refine(shift => shift.open !== '24:00', { message: 'A shift cannot open at 24:00; use 00:00' })
+  .refine(shift => shift.open !== shift.close, { message: 'A shift cannot open and close at the same time' });
+
+const dayShiftsSchema = z.array(shiftSchema).max(6).default([]);
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const operatingHoursSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, { message: 'Unknown timezone' }).default(DEFAULT_TIMEZONE),
+  weekly: z.object({
+    monday: dayShiftsSchema,
+    tuesday: dayShiftsSchema,
+    wednesday: dayShiftsSchema,
+    thursday: dayShiftsSchema,
+    friday: dayShiftsSchema,
+    saturday: dayShiftsSchema,
+    sunday: dayShiftsSchema
+  }),
+  // A dated override replaces that day's weekly shifts: closed all day, or special hours
+  holidays: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD'),
+    shifts: z.array(shiftSchema).max(6).default([]),
+    note: z.string().max(200).optional()
+  })).max(366).default([])
+});
+
+export type OperatingHours = z.infer<typeof operatingHoursSchema>;
+
+export interface OpeningStatus {
+  openNow: boolean;
+  reason: 'OPEN' | 'NO_SCHEDULE' | 'CLOSED_BY_MERCHANT' | 'HOLIDAY' | 'OUTSIDE_HOURS';
+  closesAt: Date | null;
+  nextOpenAt: Date | null;
+  note?: string;
+}
+
+type MerchantHours = { isOpen: boolean | null; operatingHours: unknown };
+
+export class OperatingHoursService {
+  /**
+   * Whether a merchant takes orders at the given moment, when it closes if
+   * open, and when it next opens if not. A merchant who switched isOpen off
+   * is closed whatever the schedule says; one with no schedule is open
+   * whenever isOpen is on, as before schedules existed.
+   */
+  static getStatus(merchant: MerchantHours, at: Date = new Date()): OpeningStatus {
+    if (merchant.isOpen === false) {
+      return { openNow: false, reason: 'CLOSED_BY_MERCHANT', closesAt: null, nextOpenAt: null };
+    }
+
+    const schedule = this.parse(merchant.operatingHours);
+    if (!schedule) {
+      return { openNow: true, reason: 'NO_SCHEDULE', closesAt: null, nextOpenAt: null };
+    }
+
+    const shifts = this.shiftsAround(schedule, at);
+    const current = shifts.find(shift => shift.start <= at.getTime() && at.getTime() < shift.end);
+
+    if (current) {
+      // Back-to-back shifts (e.g. 18:00-24:00 then 00:00-02:00) read as one
+      let closesAt = current.end;
+      for (const shift of shifts) {
+        if (shift.start <= closesAt && shift.end > closesAt) closesAt = shift.end;
+      }
+      return { openNow: true, reason: 'OPEN', closesAt: new Date(closesAt), nextOpenAt: null };
+    }
+
+    const next = shifts.find(shift => shift.start > at.getTime());
+    const holiday = schedule.holidays.find(h => h.date === this.localDate(at, schedule.timezone));
+
+    return {
+      openNow: false,
+      reason: holiday ? 'HOLIDAY' : 'OUTSIDE_HOURS',
+      closesAt: null,
+      nextOpenAt: next ? new Date(next.start) : null,
+      ...(holiday?.note ? { note: holiday.note } : {})
+    };
+  }
+
+  /**
+   * Adds openNow/closesAt/nextOpenAt to each merchant row for listings.
+   */
+  static annotate<T extends MerchantHours>(merchants: T[], at: Date = new Date()) {
+    return merchants.map(merchant => {
+      const { openNow, closesAt, nextOpenAt } = this.getStatus(merchant, at);
+      return { ...merchant, openNow, closesAt, nextOpenAt };
+    });
+  }
+
+  /**
+   * The stored schedule, or null for profiles that never set one (the
+   * column defaults to {} and used to accept anything).
+   */
+  static parse(operatingHours: unknown): OperatingHours | null {
+    const result = operatingHoursSchema.safeParse(operatingHours);
+    return result.success ? result.data : null;
+  }
+
+  // Every shift starting from yesterday (which may run past midnight) to the lookahead, as UTC instants
+  private static shiftsAround(schedule: OperatingHours, at: Date) {
+    const [year, month, day] = this.localDate(at, schedule.timezone).split('-').map(Number);
+    const shifts: Array<{ start: number; end: number }> = [];
+
+    for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+      const date = new Date(Date.UTC(year, month - 1, day + offset));
+      const dateKey = date.toISOString().slice(0, 10);
+      const holiday = schedule.holidays.find(h => h.date === dateKey);
+      const dayShifts = holiday ? holiday.shifts : schedule.weekly[WEEKDAYS[date.getUTCDay()]];
+
+      for (const shift of dayShifts) {
+        const overnight = shift.close <= shift.open;
+        const closeDate = new Date(Date.UTC(year, month - 1, day + offset + (overnight ? 1 : 0))).toISOString().slice(0, 10);
+        shifts.push({
+          start: this.toInstant(dateKey, shift.open, schedule.timezone),
+          end: this.toInstant(closeDate, shift.close, schedule.timezone)
+        });
+      }
+    }
+
+    return shifts.sort((a, b) => a.start - b.start);
+  }
+
+  private static localParts(at: Date, timezone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(at);
+    const value = (type: string) => Number(parts.find(part => part.type === type)!.value);
+    return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second') };
+  }
+
+  private static localDate(at: Date, timezone: string): string {
+    const { year, month, day } = this.localParts(at, timezone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  // Milliseconds the zone is ahead of UTC at that instant
+  private static zoneOffset(instant: number, timezone: string): number {
+    const p = this.localParts(new Date(instant), timezone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+  }
+
+  // The UTC instant of a wall-clock time in the zone, corrected once for DST changes
+  private static toInstant(date: string, time: string, timezone: string): number {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const guess = wallClock - this.zoneOffset(wallClock, timezone);
+    return wallClock - this.zoneOffset(guess, timezone);
+  }
+}
+
+export default OperatingHoursService;
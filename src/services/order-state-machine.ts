@@ -0,0 +1,92 @@
+import { Response } from 'express';
+import { orderStatusEnum } from '../db/schema';
+
+export type OrderStatus = typeof orderStatusEnum.enumValues[number];
+export type TransitionTimestamp = 'acceptedAt' | 'pickedUpAt' | 'deliveredAt';
+
+interface TransitionEdge {
+  from: OrderStatus[];
+  to: OrderStatus;
+  roles: string[];
+  timestamp?: TransitionTimestamp;
+}
+
+interface TransitionResult {
+  allowed: boolean;
+  from: OrderStatus;
+  to: OrderStatus;
+  allowedTransitions: OrderStatus[];
+  updates: Partial<Record<TransitionTimestamp, Date>> & { status: OrderStatus; updatedAt: Date };
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['PENDING', 'CONFIRMED', 'ACCEPTED', 'PICKED_UP', 'IN_TRANSIT'];
+
+// Allowed edges of orderStatusEnum, shared by orders and fuel orders.
+// DELIVERED and CANCELLED are terminal: nothing leaves them.
+export const ORDER_STATUS_TRANSITIONS: TransitionEdge[] = [
+  // Payment for the order is received (fired by the system once Paystack confirms it)
+  { from: ['PENDING'], to: 'CONFIRMED', roles: ['SYSTEM', 'ADMIN'] },
+  // Merchant or driver takes the order
+  { from: ['PENDING', 'CONFIRMED'], to: 'ACCEPTED', roles: ['MERCHANT', 'DRIVER', 'ADMIN'], timestamp: 'acceptedAt' },
+  // Admin puts the order back up for reassignment; once picked up the goods are with a driver
+  { from: ['PENDING', 'CONFIRMED', 'ACCEPTED'], to: 'PENDING', roles: ['ADMIN'] },
+  // Merchant marks the order ready, or the driver heads out after pickup
+  { from: ['CONFIRMED', 'ACCEPTED'], to: 'IN_TRANSIT', roles: ['MERCHANT', 'ADMIN'] },
+  { from: ['PICKED_UP'], to: 'IN_TRANSIT', roles: ['DRIVER', 'ADMIN'] },
+  // Driver collects the goods
+  { from: ['ACCEPTED'], to: 'PICKED_UP', roles: ['DRIVER', 'ADMIN'], timestamp: 'pickedUpAt' },
+  // Driver hands over the goods
+  { from: ['PICKED_UP', 'IN_TRANSIT'], to: 'DELIVERED', roles: ['DRIVER', 'ADMIN'], timestamp: 'deliveredAt' },
+  // Any party may cancel an order that is still open
+  { from: OPEN_STATUSES, to: 'CANCELLED', roles: ['CONSUMER', 'MERCHANT', 'DRIVER', 'ADMIN'] }
+];
+
+/**
+ * Lists the statuses an order can move to from its current status.
+ * When a role is given, only edges that role may fire are returned.
+ */
+export function getAllowedTransitions(from: OrderStatus | null, role?: string): OrderStatus[] {
+  const current = from || 'PENDING';
+  const next = ORDER_STATUS_TRANSITIONS
+    .filter(edge => edge.from.includes(current) && (!role || edge.roles.includes(role)))
+    .map(edge => edge.to);
+
+  return Array.from(new Set(next));
+}
+
+/**
+ * Checks a requested status change against the transition table and builds
+ * the column updates (status, timestamp, updatedAt) to apply when allowed.
+ */
+export function resolveTransition(from: OrderStatus | null, to: OrderStatus, role: string): TransitionResult {
+  const current = from || 'PENDING';
+  const edge = ORDER_STATUS_TRANSITIONS.find(
+    e => e.to === to && e.from.includes(current) && e.roles.includes(role)
+  );
+
+  const now = new Date();
+  const updates: TransitionResult['updates'] = { status: to, updatedAt: now };
+  if (edge?.timestamp) {
+    updates[edge.timestamp] = now;
+  }
+
+  return {
+    allowed: !!edge,
+    from: current,
+    to,
+    allowedTransitions: getAllowedTransitions(current, role),
+    updates
+  };
+}
+
+// Uniform 409 response for a rejected status change
+export function sendTransitionConflict(res: Response, result: TransitionResult) {
+  return res.status(409).json({
+    success: false,
+    message: `Cannot change status from ${result.from} to ${result.to}`,
+    code: 'INVALID_STATUS_TRANSITION',
+    currentStatus: result.from,
+    requestedStatus: result.to,
+    allowedTransitions: result.allowedTransitions
+  });
+}
@@ -0,0 +1,134 @@
+import { db } from '../db/config';
+import { orderStatusHistory, tracking, escrows, geofenceEvents } from '../db/schema';
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import { OrderStatus } from './order-state-machine';
+
+interface StatusChangeEntry {
+  orderId?: number;
+  fuelOrderId?: number;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorId?: number;
+  actorRole?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface TimelineEvent {
+  type: 'STATUS_CHANGE' | 'LOCATION_UPDATE' | 'GEOFENCE' | 'ESCROW';
+  at: Date;
+  data: Record<string, any>;
+}
+
+/**
+ * Records a status transition for an order or fuel order.
+ * Failures are logged and swallowed so they never fail the request.
+ */
+export async function recordStatusChange(entry: StatusChangeEntry) {
+  try {
+    await db.insert(orderStatusHistory).values({
+      orderId: entry.orderId,
+      fuelOrderId: entry.fuelOrderId,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      actorId: entry.actorId,
+      actorRole: entry.actorRole,
+      reason: entry.reason,
+      metadata: entry.metadata || {}
+    });
+  } catch (error) {
+    console.error('Status history error:', error);
+  }
+}
+
+/**
+ * Builds a single chronological feed for an order from its status history,
+ * tracking points, geofence events and escrow events.
+ */
+export async function getOrderTimeline(orderId: number): Promise<TimelineEvent[]> {
+  const [history, trackingPoints, orderEscrows, fenceEvents] = await Promise.all([
+    db.select().from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt)),
+    db.select().from(tracking)
+      .where(eq(tracking.orderId, orderId))
+      .orderBy(asc(tracking.createdAt)),
+    db.select().from(escrows)
+      .where(and(eq(escrows.orderId, orderId), isNull(escrows.deletedAt))),
+    db.select().from(geofenceEvents)
+      .where(eq(geofenceEvents.orderId, orderId))
+  ]);
+
+  const events: TimelineEvent[] = [];
+
+  for (const entry of history) {
+    events.push({
+      type: 'STATUS_CHANGE',
+      at: entry.createdAt || new Date(0),
+      data: {
+        fromStatus: entry.fromStatus,
+        toStatus: entry.toStatus,
+        actorId: entry.actorId,
+        actorRole: entry.actorRole,
+        reason: entry.reason,
+        metadata: entry.metadata
+      }
+    });
+  }
+
+  for (const point of trackingPoints) {
+    events.push({
+      type: 'LOCATION_UPDATE',
+      at: point.createdAt || new Date(0),
+      data: {
+        driverId: point.driverId,
+        latitude: parseFloat(point.latitude),
+        longitude: parseFloat(point.longitude),
+        status: point.status
+      }
+    });
+  }
+
+  for (const fenceEvent of fenceEvents) {
+    events.push({
+      type: 'GEOFENCE',
+      at: fenceEvent.createdAt || new Date(0),
+      data: {
+        driverId: fenceEvent.driverId,
+        fence: fenceEvent.fence,
+        event: fenceEvent.event,
+        distanceMeters: fenceEvent.distanceMeters
+      }
+    });
+  }
+
+  for (const escrow of orderEscrows) {
+    const base = { escrowId: escrow.id, amount: escrow.amount };
+
+    events.push({
+      type: 'ESCROW',
+      at: escrow.createdAt || new Date(0),
+      data: { ...base, event: 'HELD' }
+    });
+
+    if (escrow.releasedAt) {
+      events.push({
+        type: 'ESCROW',
+        at: escrow.releasedAt,
+        data: { ...base, event: 'RELEASED' }
+      });
+    } else if (escrow.status === 'REFUNDED' || escrow.status === 'DISPUTED') {
+      events.push({
+        type: 'ESCROW',
+        at: escrow.updatedAt || escrow.createdAt || new Date(0),
+        data: {
+          ...base,
+          event: escrow.status,
+          ...(escrow.disputeReason && { reason: escrow.disputeReason })
+        }
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
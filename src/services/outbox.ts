@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import { db } from '../db/config';
+import { outboxEvents, orders, auditLogs } from '../db/schema';
+import { eq, and, lte, lt, asc, desc, inArray, count, sql } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+import EmailService from './email';
+import SMSService from './sms';
+import { firebaseSyncService } from './firebase-sync';
+import { getWebSocketService } from './websocket';
+
+type OutboxEvent = typeof outboxEvents.$inferSelect;
+type Order = typeof orders.$inferSelect;
+
+const MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10');
+const DISPATCH_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 50;
+
+// Retries back off from 30 seconds, doubling up to an hour
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// A delivery still PROCESSING after this long died with its worker; it is sent again
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export const OUTBOX_CHANNELS = ['WEBSOCKET', 'EMAIL', 'SMS', 'FIREBASE', 'WEBHOOK'] as const;
+export type OutboxChannel = typeof OUTBOX_CHANNELS[number];
+
+export const OUTBOX_STATUSES = ['PENDING', 'PROCESSING', 'DELIVERED', 'DEAD'] as const;
+
+interface ChannelPayloads {
+  WEBSOCKET: { userId: number; message: Record<string, any> };
+  EMAIL: { to: string; subject: string; html: string };
+  SMS: { to: string; message: string };
+  FIREBASE: { path: string; data: Record<string, any>; merge?: boolean };
+  WEBHOOK: { url: string; event: string; data: Record<string, any> };
+}
+
+export type OutboxMessage = {
+  [C in OutboxChannel]: {
+    channel: C;
+    eventType: string;
+    aggregateType?: string;
+    aggregateId?: number;
+    payload: ChannelPayloads[C];
+  }
+}[OutboxChannel];
+
+let dispatching = false;
+
+export class OutboxService {
+  /**
+   * Records side effects to deliver once the caller's transaction commits.
+   * Pass the transaction that makes the business change: if it rolls back
+   * nothing is sent, and once it commits delivery survives a crash.
+   * Delivery is at-least-once, so a message can arrive twice.
+   */
+  static async enqueue(messages: OutboxMessage | OutboxMessage[], executor: any = db) {
+    const list = Array.isArray(messages) ? messages : [messages];
+    if (!list.length) return [];
+
+    const rows: OutboxEvent[] = await executor
+      .insert(outboxEvents)
+      .values(list.map(message => ({
+        channel: message.channel,
+        eventType: message.eventType,
+        aggregateType: message.aggregateType,
+        aggregateId: message.aggregateId,
+        payload: message.payload
+      })))
+      .returning();
+
+    return rows;
+  }
+
+  /**
+   * One WEBHOOK message per endpoint in OUTBOUND_WEBHOOK_URLS, so each
+   * endpoint is retried on its own.
+   */
+  static webhooks(event: string, data: Record<string, any>, aggregate: { type: string; id: number }): OutboxMessage[] {
+    const urls = (process.env.OUTBOUND_WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+
+    return urls.map(url => ({
+      channel: 'WEBHOOK' as const,
+      eventType: event,
+      aggregateType: aggregate.type,
+      aggregateId: aggregate.id,
+      payload: { url, event, data }
+    }));
+  }
+
+  /**
+   * What an order status change sends: a WebSocket notification to everyone
+   * on the order (before and after the change, so a merchant or driver who
+   * rejected it still hears), the order's Realtime Database node, and the
+   * order.status_changed webhook.
+   */
+  static orderStatusMessages(previous: Order, order: Order): OutboxMessage[] {
+    const aggregate = { aggregateType: 'ORDER', aggregateId: order.id };
+    const data = {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      previousStatus: previous.status,
+      driverId: order.driverId,
+      updatedAt: (order.updatedAt || new Date()).toISOString()
+    };
+
+    const participants = new Set(
+      [order.customerId, order.merchantId, order.driverId, previous.merchantId, previous.driverId]
+        .filter((id): id is number => !!id)
+    );
+
+    return [
+      ...Array.from(participants).map(userId => ({
+        channel: 'WEBSOCKET' as const,
+        eventType: 'order.status_changed',
+        ...aggregate,
+        payload: { userId, message: { type: 'ORDER_STATUS_CHANGED', data } }
+      })),
+      {
+        channel: 'FIREBASE' as const,
+        eventType: 'order.status_changed',
+        ...aggregate,
+        payload: { path: `orders/${order.id}`, data }
+      },
+      ...this.webhooks('order.status_changed', data, { type: 'ORDER', id: order.id })
+    ];
+  }
+
+  /**
+   * Claims a batch of due messages and delivers them. Claiming skips rows
+   * another dispatcher holds, so several server instances can run it.
+   */
+  static async dispatch(limit: number = BATCH_SIZE) {
+    await db
+      .update(outboxEvents)
+      .set({ status: 'PENDING', lockedAt: null })
+      .where(and(
+        eq(outboxEvents.status, 'PROCESSING'),
+        lt(outboxEvents.lockedAt, new Date(Date.now() - STALE_LOCK_MS))
+      ));
+
+    const claimed = await withTransaction(async (tx): Promise<OutboxEvent[]> => {
+      const due: { id: number }[] = await tx
+        .select({ id: outboxEvents.id })
+        .from(outboxEvents)
+        .where(and(
+          eq(outboxEvents.status, 'PENDING'),
+          lte(outboxEvents.nextAttemptAt, new Date())
+        ))
+        .orderBy(asc(outboxEvents.id))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      if (!due.length) return [];
+
+      return tx
+        .update(outboxEvents)
+        .set({
+          status: 'PROCESSING',
+          lockedAt: new Date(),
+          attempts: sql`${outboxEvents.attempts} + 1`
+        })
+        .where(inArray(outboxEvents.id, due.map(row => row.id)))
+        .returning();
+    });
+
+    let delivered = 0;
+    for (const event of claimed.sort((a, b) => a.id - b.id)) {
+      if (await this.deliver(event)) delivered++;
+    }
+
+    return { claimed: claimed.length, delivered };
+  }
+
+  /**
+   * Sends a claimed message. A failure is retried with backoff until
+   * OUTBOX_MAX_ATTEMPTS, then the message is dead-lettered for an admin.
+   */
+  private static async deliver(event: OutboxEvent): Promise<boolean> {
+    try {
+      await this.send(event);
+
+      await db
+        .update(outboxEvents)
+        .set({ status: 'DELIVERED', deliveredAt: new Date(), lockedAt: null, lastError: null })
+        .where(eq(outboxEvents.id, event.id));
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = event.attempts || 1;
+      const dead = attempts >= MAX_ATTEMPTS;
+
+      console.error(`Outbox ${event.channel} delivery ${event.id} failed (attempt ${attempts}):`, message);
+
+      await db
+        .update(outboxEvents)
+        .set(dead
+          ? { status: 'DEAD', deadAt: new Date(), lockedAt: null, lastError: message }
+          : {
+              status: 'PENDING',
+              lockedAt: null,
+              lastError: message,
+              nextAttemptAt: new Date(Date.now() + Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS))
+            })
+        .where(eq(outboxEvents.id, event.id));
+
+      return false;
+    }
+  }
+
+  private static async send(event: OutboxEvent) {
+    const payload = event.payload as any;
+
+    switch (event.channel as OutboxChannel) {
+      case 'WEBSOCKET': {
+        const wsService = getWebSocketService();
+        if (!wsService) {
+          throw new Error('WebSocket server not initialized');
+        }
+        // Users who are offline pick the change up on their next fetch
+        await wsService.sendNotificationToUser(String(payload.userId), payload.message);
+        return;
+      }
+
+      case 'EMAIL': {
+        const result = await EmailService.sendEmail(payload.to, payload.subject, payload.html);
+        if (!result.success) {
+          throw new Error(result.error || 'Email not sent');
+        }
+        return;
+      }
+
+      case 'SMS': {
+        const result = await SMSService.sendSMS(payload.to, payload.message);
+        if (!result.success) {
+          throw new Error(result.error || 'SMS not sent');
+        }
+        return;
+      }
+
+      case 'FIREBASE':
+        await firebaseSyncService.pushToRealtimeDatabase(payload.path, payload.data, payload.merge ?? true);
+        return;
+
+      case 'WEBHOOK': {
+        const body = JSON.stringify({ id: event.id, event: payload.event, createdAt: event.createdAt, data: payload.data });
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          // The same id on every attempt, so receivers can drop repeats
+          'x-brill-delivery': String(event.id)
+        };
+
+        const secret = process.env.OUTBOUND_WEBHOOK_SECRET;
+        if (secret) {
+          headers['x-brill-signature'] = crypto.createHmac('sha512', secret).update(body).digest('hex');
+        }
+
+        const response = await fetch(payload.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+
+        if (!response.ok) {
+          throw new Error(`Webhook endpoint responded ${response.status}`);
+        }
+        return;
+      }
+
+      default:
+        throw new Error(`Unknown outbox channel ${event.channel}`);
+    }
+  }
+
+  /**
+   * Puts a dead-lettered message back in the queue with a fresh set of attempts.
+   */
+  static async retry(eventId: number, actorId: number) {
+    const [event]: OutboxEvent[] = await db
+      .update(outboxEvents)
+      .set({ status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), deadAt: null })
+      .where(and(eq(outboxEvents.id, eventId), eq(outboxEvents.status, 'DEAD')))
+      .returning();
+
+    if (!event) return null;
+
+    await db.insert(auditLogs).values({
+      userId: actorId,
+      action: 'OUTBOX_EVENT_RETRIED',
+      entityType: 'OUTBOX_EVENT',
+      entityId: event.id,
+      details: { channel: event.channel, eventType: event.eventType, lastError: event.lastError }
+    });
+
+    return event;
+  }
+
+  static async list(filters: { status?: string; channel?: string; eventType?: string }, limit: number, offset: number) {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(outboxEvents.status, filters.status));
+    if (filters.channel) conditions.push(eq(outboxEvents.channel, filters.channel));
+    if (filters.eventType) conditions.push(eq(outboxEvents.eventType, filters.eventType));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const events = await db
+      .select()
+      .from(outboxEvents)
+      .where(where)
+      .orderBy(desc(outboxEvents.id))
+      .limit(limit)
+      .offset(offset);
+
+    const [total] = await db.select({ count: count() }).from(outboxEvents).where(where);
+
+    return { events, total: Number(total?.count) || 0 };
+  }
+
+  static async getEvent(eventId: number) {
+    const [event] = await db.select().from(outboxEvents).where(eq(outboxEvents.id, eventId)).limit(1);
+    return event || null;
+  }
+
+  // Message counts by channel and status, for spotting a backlog or a failing channel
+  static async stats() {
+    const rows = await db
+      .select({ channel: outboxEvents.channel, status: outboxEvents.status, count: count() })
+      .from(outboxEvents)
+      .groupBy(outboxEvents.channel, outboxEvents.status);
+
+    const [oldestPending] = await db
+      .select({ createdAt: outboxEvents.createdAt })
+      .from(outboxEvents)
+      .where(eq(outboxEvents.status, 'PENDING'))
+      .orderBy(asc(outboxEvents.id))
+      .limit(1);
+
+    return {
+      byChannel: OUTBOX_CHANNELS.map(channel => ({
+        channel,
+        ...Object.fromEntries(OUTBOX_STATUSES.map(status => [
+          status,
+          Number(rows.find(row => row.channel === channel && row.status === status)?.count) || 0
+        ]))
+      })),
+      oldestPendingAt: oldestPending?.createdAt || null
+    };
+  }
+}
+
+export function startOutboxDispatcher() {
+  setInterval(async () => {
+    // A slow batch must not overlap the next tick
+    if (dispatching) return;
+    dispatching = true;
+
+    try {
+      await OutboxService.dispatch();
+    } catch (error) {
+      console.error('Outbox dispatch error:', error);
+    } finally {
+      dispatching = false;
+    }
+  }, DISPATCH_INTERVAL_MS);
+
+  console.log('✅ Outbox dispatcher started');
+}
+
+export default OutboxService;
@@ -0,0 +1,585 @@
+import { db } from '../db/config';
+import { payouts, payoutItems, bankAccounts, escrowMovements, escrowAllocations, escrows, orders, transactions, notifications, auditLogs } from '../db/schema';
+import { eq, and, or, inArray, isNull, isNotNull, lte, gt, desc, asc, count, sql } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+import PaystackService from './paystack';
+import AccountingService from './accounting';
+import { getWebSocketService } from './websocket';
+
+type Payout = typeof payouts.$inferSelect;
+type BankAccount = typeof bankAccounts.$inferSelect;
+
+// Each payee is paid at most once per interval, once their balance reaches the minimum (NGN)
+const PAYOUT_INTERVAL_HOURS = Number(process.env.PAYOUT_INTERVAL_HOURS) || 24;
+const PAYOUT_MINIMUM_AMOUNT = Number(process.env.PAYOUT_MINIMUM_AMOUNT) || 1000;
+
+// Failed transfers are retried with doubling waits, then flagged for an admin
+const PAYOUT_MAX_ATTEMPTS = Number(process.env.PAYOUT_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_MINUTES = 30;
+
+// A transfer still PROCESSING after this long is looked up on Paystack
+const PROCESSING_TIMEOUT_MINUTES = 30;
+
+const PAYOUT_PARTIES = ['MERCHANT', 'DRIVER'];
+
+const toKobo = (amount: string | number | null | undefined) => Math.round(Number(amount || 0) * 100);
+const fromKobo = (kobo: number) => (kobo / 100).toFixed(2);
+
+export interface PayoutRunResult {
+  created: number;
+  skipped: Array<{ payeeId: number; reason: string }>;
+}
+
+export class PayoutService {
+  /**
+   * Batches every payee's released, unpaid escrow shares into one payout
+   * and starts its transfer. Payees paid within the interval, below the
+   * minimum, or without a verified bank account wait for a later run;
+   * force ignores the interval and minimum.
+   */
+  static async runBatch(options: { force?: boolean; payeeId?: number } = {}): Promise<PayoutRunResult> {
+    const unpaid = await this.unpaidReleases(options.payeeId);
+    const result: PayoutRunResult = { created: 0, skipped: [] };
+
+    const byPayee = new Map<string, typeof unpaid>();
+    for (const release of unpaid) {
+      const key = `${release.payeeId}:${release.party}`;
+      byPayee.set(key, [...(byPayee.get(key) || []), release]);
+    }
+
+    for (const releases of byPayee.values()) {
+      const { payeeId, party } = releases[0];
+      try {
+        const total = releases.reduce((sum, release) => sum + toKobo(release.amount), 0);
+
+        if (!options.force) {
+          if (total < PAYOUT_MINIMUM_AMOUNT * 100) {
+            result.skipped.push({ payeeId, reason: `Balance is below the ${PAYOUT_MINIMUM_AMOUNT} minimum` });
+            continue;
+          }
+
+          const [recent] = await db
+            .select({ id: payouts.id })
+            .from(payouts)
+            .where(and(
+              eq(payouts.payeeId, payeeId),
+              gt(payouts.createdAt, new Date(Date.now() - PAYOUT_INTERVAL_HOURS * 60 * 60 * 1000))
+            ))
+            .limit(1);
+          if (recent) {
+            result.skipped.push({ payeeId, reason: 'Already paid out this period' });
+            continue;
+          }
+        }
+
+        const bankAccount = await this.liveBankAccount(payeeId);
+        if (!bankAccount) {
+          result.skipped.push({ payeeId, reason: 'No verified bank account' });
+          continue;
+        }
+
+        // The unique index on escrow_movement_id makes a concurrent batch of the same releases fail here
+        const payout = await withTransaction(async (tx) => {
+          const [created]: Payout[] = await tx
+            .insert(payouts)
+            .values({ payeeId, party, bankAccountId: bankAccount.id, amount: fromKobo(total) })
+            .returning();
+
+          await tx.insert(payoutItems).values(releases.map(release => ({
+            payoutId: created.id,
+            escrowMovementId: release.movementId,
+            orderId: release.orderId,
+            amount: release.amount
+          })));
+
+          return created;
+        });
+
+        result.created++;
+        await this.attempt(payout.id);
+      } catch (error) {
+        console.error(`Payout batch error for payee ${payeeId}:`, error);
+        result.skipped.push({ payeeId, reason: 'Batch failed' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Starts the transfer for a payout that is new or due a retry, to the
+   * payee's current bank account (so a corrected account is picked up). The
+   * payout is claimed with a conditional update, so two workers never send
+   * the same payout twice.
+   */
+  static async attempt(payoutId: number): Promise<void> {
+    const now = new Date();
+    const [payout]: Payout[] = await db
+      .update(payouts)
+      .set({
+        status: 'PROCESSING',
+        attempts: sql`${payouts.attempts} + 1`,
+        // Paystack wants a fresh lowercase reference for every transfer
+        reference: sql`'brill_payout_' || lpad(${payouts.id}::text, 8, '0') || '_' || (${payouts.attempts} + 1)`,
+        transferCode: null,
+        lastError: null,
+        nextAttemptAt: null,
+        initiatedAt: now,
+        updatedAt: now
+      })
+      .where(and(
+        eq(payouts.id, payoutId),
+        inArray(payouts.status, ['PENDING', 'FAILED']),
+        or(isNull(payouts.nextAttemptAt), lte(payouts.nextAttemptAt, now))
+      ))
+      .returning();
+
+    if (!payout) return;
+
+    const bankAccount = await this.liveBankAccount(payout.payeeId);
+    if (!bankAccount) {
+      await this.fail(payout, 'No verified bank account');
+      return;
+    }
+
+    const recipientCode = await this.ensureRecipient(bankAccount);
+    if (!recipientCode.success) {
+      await this.fail(payout, recipientCode.error || 'Could not create the transfer recipient');
+      return;
+    }
+
+    const [transfer] = await db.insert(transactions).values({
+      userId: payout.payeeId,
+      amount: payout.amount,
+      netAmount: payout.amount,
+      currency: 'NGN',
+      type: 'TRANSFER_OUT',
+      status: 'PENDING',
+      paymentMethod: 'PAYSTACK_TRANSFER',
+      transactionRef: payout.reference!,
+      description: `Payout #${payout.id}`,
+      metadata: { payoutId: payout.id, party: payout.party, attempt: payout.attempts, bankAccountId: bankAccount.id },
+      initiatedAt: now
+    }).returning();
+
+    await db
+      .update(payouts)
+      .set({ bankAccountId: bankAccount.id, updatedAt: new Date() })
+      .where(eq(payouts.id, payout.id));
+
+    const result = await PaystackService.initiateTransfer({
+      source: 'balance',
+      amount: toKobo(payout.amount),
+      recipient: recipientCode.code!,
+      reason: `Brill payout #${payout.id}`,
+      reference: payout.reference!
+    });
+
+    // No answer, or a server error: Paystack may have queued the transfer, so
+    // sending again under a new reference could pay twice. It stays PROCESSING
+    // until confirmStale looks the reference up.
+    if (result.unknown) {
+      await db
+        .update(payouts)
+        .set({ lastError: `Transfer outcome unknown: ${result.message || 'no response'}`, updatedAt: new Date() })
+        .where(eq(payouts.id, payout.id));
+      await this.logEvent(payout, 'PAYOUT_OUTCOME_UNKNOWN', { reference: payout.reference, reason: result.message });
+      return;
+    }
+
+    // 'otp' means the Paystack account still requires OTP for transfers; nothing was sent
+    if (!result.status || result.data?.status === 'otp' || result.data?.status === 'failed') {
+      await db
+        .update(transactions)
+        .set({ status: 'FAILED', failedAt: new Date(), updatedAt: new Date() })
+        .where(eq(transactions.id, transfer.id));
+      await this.fail(payout, result.message || `Transfer ${result.data?.status || 'was not accepted'}`);
+      return;
+    }
+
+    await this.markAccepted(payout, transfer, result.data);
+  }
+
+  /**
+   * Payouts stuck in PROCESSING, because the transfer's outcome was unknown
+   * when it was sent or its webhook never came, are looked up on Paystack by
+   * the same reference. A transfer Paystack never received is failed and
+   * retried; one still on its way is left for the next sweep.
+   */
+  static async confirmStale() {
+    const stale = await db
+      .select()
+      .from(payouts)
+      .where(and(
+        eq(payouts.status, 'PROCESSING'),
+        lte(payouts.initiatedAt, new Date(Date.now() - PROCESSING_TIMEOUT_MINUTES * 60 * 1000))
+      ))
+      .orderBy(asc(payouts.id))
+      .limit(100);
+
+    for (const payout of stale) {
+      await this.confirm(payout).catch(error => {
+        console.error(`Payout ${payout.id} confirmation error:`, error);
+      });
+    }
+  }
+
+  private static async confirm(payout: Payout) {
+    if (!payout.reference) return;
+
+    const verification = await PaystackService.verifyTransfer(payout.reference);
+
+    const [transfer] = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.transactionRef, payout.reference))
+      .limit(1);
+
+    if (!verification.success) {
+      if (!verification.notFound) return;
+
+      // Never reached Paystack, so a retry under a new reference is safe
+      if (transfer) {
+        await db
+          .update(transactions)
+          .set({ status: 'FAILED', failedAt: new Date(), updatedAt: new Date() })
+          .where(eq(transactions.id, transfer.id));
+      }
+      await this.fail(payout, 'Transfer never reached Paystack');
+      return;
+    }
+
+    const status = verification.data?.status;
+
+    if (status === 'success') {
+      if (transfer) {
+        await withTransaction(async (tx) => {
+          const [completed] = await tx
+            .update(transactions)
+            .set({ status: 'COMPLETED', completedAt: new Date(), updatedAt: new Date() })
+            .where(eq(transactions.id, transfer.id))
+            .returning();
+
+          await AccountingService.recordPayout(completed, tx);
+        });
+      }
+      await this.handleTransferSuccess(payout.reference);
+    } else if (['failed', 'reversed', 'otp', 'abandoned'].includes(status)) {
+      if (transfer) {
+        await withTransaction(async (tx) => {
+          await tx
+            .update(transactions)
+            .set({ status: 'FAILED', failedAt: new Date(), updatedAt: new Date() })
+            .where(eq(transactions.id, transfer.id));
+
+          // Only undoes a payout that was booked when the transfer was queued
+          await AccountingService.reversePayout(transfer, tx);
+        });
+      }
+      await this.handleTransferFailure(payout.reference, verification.data?.reason || `Transfer ${status}`);
+    } else if (transfer && !payout.transferCode) {
+      // Queued after all; it completes through the webhook or a later sweep
+      await this.markAccepted(payout, transfer, verification.data);
+    }
+  }
+
+  // Paystack took the transfer: keep its code and book the payout
+  private static async markAccepted(payout: Payout, transfer: typeof transactions.$inferSelect, data: any) {
+    await withTransaction(async (tx) => {
+      await tx
+        .update(payouts)
+        .set({ transferCode: data?.transfer_code || null, lastError: null, updatedAt: new Date() })
+        .where(eq(payouts.id, payout.id));
+
+      // Booked once Paystack accepts it; a failed or reversed transfer books it back
+      await AccountingService.recordPayout(transfer, tx);
+    });
+
+    if (data?.status === 'success') {
+      await this.handleTransferSuccess(payout.reference!);
+    }
+  }
+
+  /**
+   * transfer.success: the payout reached the payee.
+   */
+  static async handleTransferSuccess(reference: string) {
+    const [paid]: Payout[] = await db
+      .update(payouts)
+      .set({ status: 'PAID', paidAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(payouts.reference, reference), eq(payouts.status, 'PROCESSING')))
+      .returning();
+
+    if (!paid) return;
+
+    await this.logEvent(paid, 'PAYOUT_PAID', { reference });
+    await this.notifyPayee(paid, 'PAYOUT_PAID', 'Payout sent', `₦${Number(paid.amount).toLocaleString()} has been sent to your bank account`);
+  }
+
+  /**
+   * transfer.failed or transfer.reversed: schedule a retry, or flag the
+   * payout once it has run out of attempts. Only the latest attempt's
+   * reference counts; a late event for an earlier attempt is ignored.
+   */
+  static async handleTransferFailure(reference: string, reason: string) {
+    const [payout] = await db
+      .select()
+      .from(payouts)
+      .where(and(eq(payouts.reference, reference), inArray(payouts.status, ['PROCESSING', 'PAID'])))
+      .limit(1);
+
+    if (!payout) return;
+
+    await this.fail(payout, reason || 'Transfer failed');
+  }
+
+  /**
+   * Settles payouts stuck in PROCESSING, retries failed payouts whose wait is
+   * over, starts any payout left pending, then batches new balances.
+   */
+  static async processDue() {
+    try {
+      await this.confirmStale();
+
+      const due = await db
+        .select({ id: payouts.id })
+        .from(payouts)
+        .where(or(
+          eq(payouts.status, 'PENDING'),
+          and(eq(payouts.status, 'FAILED'), lte(payouts.nextAttemptAt, new Date()))
+        ))
+        .orderBy(asc(payouts.id))
+        .limit(100);
+
+      for (const payout of due) {
+        await this.attempt(payout.id).catch(error => {
+          console.error(`Payout ${payout.id} attempt error:`, error);
+        });
+      }
+
+      await this.runBatch();
+    } catch (error) {
+      console.error('Payout processing error:', error);
+    }
+  }
+
+  /**
+   * Admin retry of a failed or flagged payout, straight away.
+   */
+  static async retry(payoutId: number, actorId: number) {
+    const [payout]: Payout[] = await db
+      .update(payouts)
+      .set({ status: 'PENDING', nextAttemptAt: null, flaggedAt: null, updatedAt: new Date() })
+      .where(and(eq(payouts.id, payoutId), inArray(payouts.status, ['FAILED', 'FLAGGED'])))
+      .returning();
+
+    if (!payout) return null;
+
+    await this.logEvent(payout, 'PAYOUT_RETRY_REQUESTED', { requestedBy: actorId }, actorId);
+    await this.attempt(payout.id);
+
+    return this.getPayout(payout.id);
+  }
+
+  static async getPayout(payoutId: number) {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.id, payoutId)).limit(1);
+    if (!payout) return null;
+
+    const items = await db
+      .select({
+        escrowMovementId: payoutItems.escrowMovementId,
+        orderId: payoutItems.orderId,
+        orderNumber: orders.orderNumber,
+        amount: payoutItems.amount,
+        releasedAt: escrowMovements.createdAt
+      })
+      .from(payoutItems)
+      .innerJoin(escrowMovements, eq(payoutItems.escrowMovementId, escrowMovements.id))
+      .leftJoin(orders, eq(payoutItems.orderId, orders.id))
+      .where(eq(payoutItems.payoutId, payoutId))
+      .orderBy(asc(payoutItems.id));
+
+    return { ...payout, items };
+  }
+
+  /**
+   * A payee's payouts, newest first.
+   */
+  static async history(payeeId: number | null, options: { status?: string; limit: number; offset: number }) {
+    const conditions = [];
+    if (payeeId) conditions.push(eq(payouts.payeeId, payeeId));
+    if (options.status) conditions.push(eq(payouts.status, options.status));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const rows = await db
+      .select()
+      .from(payouts)
+      .where(where)
+      .orderBy(desc(payouts.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    const [total] = await db.select({ count: count() }).from(payouts).where(where);
+
+    return { payouts: rows, total: Number(total?.count) || 0 };
+  }
+
+  /**
+   * Released shares not yet in a payout, and when the next one can go out.
+   */
+  static async pendingBalance(payeeId: number) {
+    const unpaid = await this.unpaidReleases(payeeId);
+
+    const [last] = await db
+      .select({ createdAt: payouts.createdAt })
+      .from(payouts)
+      .where(eq(payouts.payeeId, payeeId))
+      .orderBy(desc(payouts.createdAt))
+      .limit(1);
+
+    const nextPayoutAfter = last?.createdAt
+      ? new Date(last.createdAt.getTime() + PAYOUT_INTERVAL_HOURS * 60 * 60 * 1000)
+      : null;
+
+    return {
+      amount: fromKobo(unpaid.reduce((sum, release) => sum + toKobo(release.amount), 0)),
+      releases: unpaid.length,
+      minimumAmount: fromKobo(PAYOUT_MINIMUM_AMOUNT * 100),
+      nextPayoutAfter
+    };
+  }
+
+  // Escrow releases to merchants and drivers that no payout covers yet. Releases recorded
+  // for escrows settled before the ledger carry no reference; they were paid back then.
+  private static async unpaidReleases(payeeId?: number) {
+    const rows = await db
+      .select({
+        movementId: escrowMovements.id,
+        amount: escrowMovements.amount,
+        payeeId: escrowAllocations.payeeId,
+        party: escrowAllocations.party,
+        orderId: escrows.orderId
+      })
+      .from(escrowMovements)
+      .innerJoin(escrowAllocations, eq(escrowMovements.allocationId, escrowAllocations.id))
+      .innerJoin(escrows, eq(escrowMovements.escrowId, escrows.id))
+      .leftJoin(payoutItems, eq(payoutItems.escrowMovementId, escrowMovements.id))
+      .where(and(
+        eq(escrowMovements.type, 'RELEASE'),
+        isNotNull(escrowMovements.reference),
+        inArray(escrowAllocations.party, PAYOUT_PARTIES),
+        payeeId ? eq(escrowAllocations.payeeId, payeeId) : isNotNull(escrowAllocations.payeeId),
+        isNull(payoutItems.id)
+      ))
+      .orderBy(asc(escrowMovements.id));
+
+    return rows.map(row => ({ ...row, payeeId: row.payeeId! }));
+  }
+
+  private static async liveBankAccount(userId: number): Promise<BankAccount | null> {
+    const [account] = await db
+      .select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.userId, userId), isNull(bankAccounts.deletedAt)))
+      .limit(1);
+
+    return account || null;
+  }
+
+  // The Paystack transfer recipient for a bank account, created the first time it is paid
+  private static async ensureRecipient(bankAccount: BankAccount): Promise<{ success: boolean; code?: string; error?: string }> {
+    if (bankAccount.paystackRecipientCode) {
+      return { success: true, code: bankAccount.paystackRecipientCode };
+    }
+
+    if (!bankAccount.bankCode) {
+      return { success: false, error: 'Bank account has no bank code, it needs to be verified again' };
+    }
+
+    const recipient = await PaystackService.createTransferRecipient({
+      type: 'nuban',
+      name: bankAccount.accountName,
+      account_number: bankAccount.accountNumber,
+      bank_code: bankAccount.bankCode,
+      currency: 'NGN',
+      description: `Payout account of user ${bankAccount.userId}`
+    });
+
+    if (!recipient.success || !recipient.recipient_code) {
+      return { success: false, error: recipient.error };
+    }
+
+    await db
+      .update(bankAccounts)
+      .set({ paystackRecipientCode: recipient.recipient_code, updatedAt: new Date() })
+      .where(eq(bankAccounts.id, bankAccount.id));
+
+    return { success: true, code: recipient.recipient_code };
+  }
+
+  private static async fail(payout: Payout, reason: string) {
+    const flagged = payout.attempts >= PAYOUT_MAX_ATTEMPTS;
+    const now = new Date();
+
+    await db
+      .update(payouts)
+      .set({
+        status: flagged ? 'FLAGGED' : 'FAILED',
+        lastError: reason,
+        nextAttemptAt: flagged ? null : new Date(now.getTime() + RETRY_BASE_MINUTES * 60 * 1000 * 2 ** Math.max(payout.attempts - 1, 0)),
+        flaggedAt: flagged ? now : null,
+        updatedAt: now
+      })
+      .where(eq(payouts.id, payout.id));
+
+    await this.logEvent(payout, flagged ? 'PAYOUT_FLAGGED' : 'PAYOUT_FAILED', { reference: payout.reference, attempts: payout.attempts, reason });
+
+    if (flagged) {
+      await this.notifyPayee(
+        payout,
+        'PAYOUT_FLAGGED',
+        'Payout on hold',
+        `We could not send ₦${Number(payout.amount).toLocaleString()} to your bank account. Please check your payout account details; our team has been alerted.`
+      );
+    }
+  }
+
+  private static async notifyPayee(payout: Payout, type: string, title: string, message: string) {
+    const metadata = { payoutId: payout.id, amount: payout.amount, reference: payout.reference };
+
+    try {
+      await db.insert(notifications).values({ userId: payout.payeeId, title, message, type, metadata });
+
+      const wsService = getWebSocketService();
+      if (wsService) {
+        await wsService.sendNotificationToUser(payout.payeeId.toString(), { type, title, message, data: metadata });
+      }
+    } catch (error) {
+      console.error('Payout notification error:', error);
+    }
+  }
+
+  private static async logEvent(payout: Payout, action: string, details: Record<string, any>, userId?: number) {
+    try {
+      await db.insert(auditLogs).values({
+        userId: userId ?? payout.payeeId,
+        action,
+        entityType: 'PAYOUT',
+        entityId: payout.id,
+        details: { amount: payout.amount, ...details }
+      });
+    } catch (error) {
+      console.error('Payout audit log error:', error);
+    }
+  }
+}
+
+export function startPayoutService() {
+  setInterval(() => {
+    PayoutService.processDue();
+  }, 15 * 60 * 1000);
+
+  console.log('✅ Payout service started');
+}
+
+export default PayoutService;
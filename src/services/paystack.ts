@@ -2,6 +2,11 @@ import crypto from 'crypto';
 import { db } from '../db/config';
 import { transactions, orders, auditLogs, escrows } from '../db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
+import CheckoutGroupService from './checkout-groups';
+import EscrowLedgerService from './escrow-ledger';
+import AccountingService from './accounting';
+import PayoutService from './payouts';
+import { withTransaction } from '../utils/db-transaction';
 
 interface PaystackWebhookEvent {
   event: string;
@@ -26,6 +31,8 @@ interface PaystackWebhookEvent {
 class PaystackService {
   private static readonly SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
   private static readonly WEBHOOK_SECRET = process.env.PAYSTACK_WEBHOOK_SECRET;
+  // Overridable so local runs can point at the mock API (src/scripts/mock-paystack.ts)
+  private static readonly BASE_URL = process.env.PAYSTACK_BASE_URL || 'https://api.paystack.co';
 
   // Verify webhook signature
   static verifyWebhookSignature(payload: string, signature: string): boolean {
@@ -91,15 +98,31 @@ class PaystackService {
         throw new Error('Transaction not found');
       }
 
-      await db
-        .update(transactions)
-        .set({
-          status: 'COMPLETED',
-          completedAt: new Date(),
-          paymentGatewayRef: verification.data.reference,
-          metadata: verification.data
-        })
-        .where(eq(transactions.id, transaction.id));
+      // Keep what checkout stored (order splits, checkout group) alongside Paystack's data
+      const existingMetadata = transaction.metadata as Record<string, any> | null;
+      const metadata = (typeof existingMetadata === 'object' && existingMetadata !== null) ? existingMetadata : {};
+
+      await withTransaction(async (tx) => {
+        const [completed] = await tx
+          .update(transactions)
+          .set({
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            paymentGatewayRef: verification.data.reference,
+            metadata: { ...metadata, ...verification.data }
+          })
+          .where(eq(transactions.id, transaction.id))
+          .returning();
+
+        // A redelivered webhook finds the payment already booked
+        await AccountingService.recordPayment(completed, tx);
+      });
+
+      // A multi-merchant checkout pays for several orders at once
+      const checkoutGroup = await CheckoutGroupService.getByPaymentReference(reference);
+      if (checkoutGroup) {
+        await CheckoutGroupService.confirmPayment(checkoutGroup, reference);
+      }
 
       // If this is an order payment, create escrow to hold funds
       if (transaction.orderId) {
@@ -109,10 +132,17 @@ class PaystackService {
           .where(eq(orders.id, transaction.orderId))
           .limit(1);
 
-        if (order && order.merchantId) {
+        // The webhook and a verify call both land here for the same payment
+        const [existingEscrow] = await db
+          .select({ id: escrows.id })
+          .from(escrows)
+          .where(and(eq(escrows.orderId, transaction.orderId), isNull(escrows.deletedAt)))
+          .limit(1);
+
+        if (order && order.merchantId && !existingEscrow) {
           // Create escrow - funds are held until delivery is confirmed
           // Payout will be triggered to merchant's bank account when escrow is released
-          await db.insert(escrows).values({
+          const [escrow] = await db.insert(escrows).values({
             orderId: order.id,
             payerId: transaction.userId,
             payeeId: order.merchantId,
@@ -120,21 +150,31 @@ class PaystackService {
             status: 'HELD',
             transactionRef: reference,
             paystackEscrowId: verification.data.id?.toString()
-          });
-
-          // Log audit trail
-          await db.insert(auditLogs).values({
-            userId: transaction.userId,
-            action: 'ESCROW_CREATED',
-            entityType: 'ESCROW',
-            entityId: order.id,
-            details: {
-              orderId: order.id,
-              amount: transaction.amount,
-              merchantId: order.merchantId,
-              paymentMethod: transaction.metadata?.paymentMethod || 'card'
-            }
-          });
+          })
+            // A concurrent call that inserted first wins on the transaction_ref index
+            .onConflictDoNothing()
+            .returning();
+
+          if (escrow) {
+            // Merchant, driver and platform shares of the payment
+            await EscrowLedgerService.allocate(escrow.id).catch(error => {
+              console.error('Escrow allocation error:', error);
+            });
+
+            // Log audit trail
+            await db.insert(auditLogs).values({
+              userId: transaction.userId,
+              action: 'ESCROW_CREATED',
+              entityType: 'ESCROW',
+              entityId: order.id,
+              details: {
+                orderId: order.id,
+                amount: transaction.amount,
+                merchantId: order.merchantId,
+                paymentMethod: transaction.metadata?.paymentMethod || 'card'
+              }
+            });
+          }
         }
       }
 
@@ -188,6 +228,11 @@ class PaystackService {
           .where(eq(orders.id, transaction.orderId));
       }
 
+      const checkoutGroup = await CheckoutGroupService.getByPaymentReference(data.reference);
+      if (checkoutGroup) {
+        await CheckoutGroupService.markPaymentFailed(checkoutGroup);
+      }
+
       // Log audit event
       await db.insert(auditLogs).values({
         userId: transaction.userId,
@@ -221,13 +266,20 @@ class PaystackService {
         .limit(1);
 
       if (transaction) {
-        await db
-          .update(transactions)
-          .set({
-            status: 'COMPLETED',
-            completedAt: new Date()
-          })
-          .where(eq(transactions.id, transaction.id));
+        await withTransaction(async (tx) => {
+          const [completed] = await tx
+            .update(transactions)
+            .set({
+              status: 'COMPLETED',
+              completedAt: new Date()
+            })
+            .where(eq(transactions.id, transaction.id))
+            .returning();
+
+          await AccountingService.recordPayout(completed, tx);
+        });
+
+        await PayoutService.handleTransferSuccess(reference);
 
         // Log audit event
         await db.insert(auditLogs).values({
@@ -261,12 +313,19 @@ class PaystackService {
         .limit(1);
 
       if (transaction) {
-        await db
-          .update(transactions)
-          .set({
-            status: 'FAILED'
-          })
-          .where(eq(transactions.id, transaction.id));
+        await withTransaction(async (tx) => {
+          await tx
+            .update(transactions)
+            .set({
+              status: 'FAILED'
+            })
+            .where(eq(transactions.id, transaction.id));
+
+          // Only undoes a payout that was booked when the transfer was queued
+          await AccountingService.reversePayout(transaction, tx);
+        });
+
+        await PayoutService.handleTransferFailure(reference, data.reason || data.message || 'Transfer failed');
 
         // Log audit event
         await db.insert(auditLogs).values({
@@ -300,12 +359,18 @@ class PaystackService {
         .limit(1);
 
       if (transaction) {
-        await db
-          .update(transactions)
-          .set({
-            status: 'REFUNDED'
-          })
-          .where(eq(transactions.id, transaction.id));
+        await withTransaction(async (tx) => {
+          await tx
+            .update(transactions)
+            .set({
+              status: 'REFUNDED'
+            })
+            .where(eq(transactions.id, transaction.id));
+
+          await AccountingService.reversePayout(transaction, tx);
+        });
+
+        await PayoutService.handleTransferFailure(reference, 'Transfer reversed');
 
         // Log audit event
         await db.insert(auditLogs).values({
@@ -338,7 +403,7 @@ class PaystackService {
         throw new Error('Paystack secret key not configured');
       }
 
-      const response = await fetch('https://api.paystack.co/transaction/initialize', {
+      const response = await fetch(`${this.BASE_URL}/transaction/initialize`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${this.SECRET_KEY}`,
@@ -379,7 +444,7 @@ class PaystackService {
         throw new Error('Paystack secret key not configured');
       }
 
-      const response = await fetch('https://api.paystack.co/transferrecipient', {
+      const response = await fetch(`${this.BASE_URL}/transferrecipient`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${this.SECRET_KEY}`,
@@ -411,13 +476,13 @@ class PaystackService {
     recipient: string;
     reason?: string;
     reference?: string;
-  }): Promise<{ status: boolean; message?: string; data?: any }> {
-    try {
-      if (!this.SECRET_KEY) {
-        throw new Error('Paystack secret key not configured');
-      }
+  }): Promise<{ status: boolean; message?: string; data?: any; unknown?: boolean }> {
+    if (!this.SECRET_KEY) {
+      return { status: false, message: 'Paystack secret key not configured' };
+    }
 
-      const response = await fetch('https://api.paystack.co/transfer', {
+    try {
+      const response = await fetch(`${this.BASE_URL}/transfer`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${this.SECRET_KEY}`,
@@ -426,10 +491,40 @@ class PaystackService {
         body: JSON.stringify(data),
       });
 
-      return await response.json() as { status: boolean; message?: string; data?: any };
+      const result = await response.json() as { status: boolean; message?: string; data?: any };
+
+      // A server error says nothing about whether the transfer was queued
+      return response.status >= 500 ? { ...result, status: false, unknown: true } : result;
     } catch (error) {
+      // The request may have reached Paystack before the connection failed
       console.error('Initiate transfer error:', error);
-      return { status: false, message: error instanceof Error ? error.message : 'Unknown error' };
+      return { status: false, unknown: true, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Look up a transfer by our reference; notFound means Paystack never received it
+  static async verifyTransfer(reference: string): Promise<{ success: boolean; data?: any; notFound?: boolean; error?: string }> {
+    try {
+      if (!this.SECRET_KEY) {
+        throw new Error('Paystack secret key not configured');
+      }
+
+      const response = await fetch(`${this.BASE_URL}/transfer/verify/${encodeURIComponent(reference)}`, {
+        headers: {
+          Authorization: `Bearer ${this.SECRET_KEY}`,
+        },
+      });
+
+      const result = await response.json() as { status: boolean; message?: string; data?: any };
+
+      if (!result.status) {
+        return { success: false, notFound: response.status === 404, error: result.message || 'Transfer verification failed' };
+      }
+
+      return { success: true, data: result.data };
+    } catch (error) {
+      console.error('Verify transfer error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
@@ -440,7 +535,7 @@ class PaystackService {
         throw new Error('Paystack secret key not configured');
       }
 
-      const response = await fetch(`https://api.paystack.co/bank?country=${country}`, {
+      const response = await fetch(`${this.BASE_URL}/bank?country=${country}`, {
         headers: {
           Authorization: `Bearer ${this.SECRET_KEY}`,
         },
@@ -467,7 +562,7 @@ class PaystackService {
       }
 
       const response = await fetch(
-        `https://api.paystack.co/bank/resolve?account_number=${accountNumber}&bank_code=${bankCode}`,
+        `${this.BASE_URL}/bank/resolve?account_number=${accountNumber}&bank_code=${bankCode}`,
         {
           headers: {
             Authorization: `Bearer ${this.SECRET_KEY}`,
@@ -492,6 +587,53 @@ class PaystackService {
     }
   }
 
+  // List transactions created in a period (one page)
+  static async listTransactions(params: { from: Date; to: Date; page?: number; perPage?: number }): Promise<{ success: boolean; data?: any[]; meta?: any; error?: string }> {
+    return this.list('/transaction', params);
+  }
+
+  // List settlements paid out in a period (one page)
+  static async listSettlements(params: { from: Date; to: Date; page?: number; perPage?: number }): Promise<{ success: boolean; data?: any[]; meta?: any; error?: string }> {
+    return this.list('/settlement', params);
+  }
+
+  // List the transactions a settlement paid out (one page)
+  static async listSettlementTransactions(settlementId: number | string, params: { page?: number; perPage?: number } = {}): Promise<{ success: boolean; data?: any[]; meta?: any; error?: string }> {
+    return this.list(`/settlement/${settlementId}/transactions`, params);
+  }
+
+  private static async list(path: string, params: { from?: Date; to?: Date; page?: number; perPage?: number }) {
+    try {
+      if (!this.SECRET_KEY) {
+        throw new Error('Paystack secret key not configured');
+      }
+
+      const query = new URLSearchParams({
+        page: String(params.page || 1),
+        perPage: String(params.perPage || 100),
+        ...(params.from ? { from: params.from.toISOString() } : {}),
+        ...(params.to ? { to: params.to.toISOString() } : {})
+      });
+
+      const response = await fetch(`${this.BASE_URL}${path}?${query}`, {
+        headers: {
+          Authorization: `Bearer ${this.SECRET_KEY}`,
+        },
+      });
+
+      const result = await response.json() as { status: boolean; message?: string; data?: any[]; meta?: any };
+
+      if (!result.status) {
+        return { success: false, error: result.message || `Failed to list ${path}` };
+      }
+
+      return { success: true, data: result.data || [], meta: result.meta };
+    } catch (error) {
+      console.error(`Paystack list ${path} error:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   // Verify payment
   static async verifyPayment(reference: string): Promise<any> {
     try {
@@ -500,7 +642,7 @@ class PaystackService {
       }
 
       const response = await fetch(
-        `https://api.paystack.co/transaction/verify/${reference}`,
+        `${this.BASE_URL}/transaction/verify/${reference}`,
         {
           headers: {
             Authorization: `Bearer ${this.SECRET_KEY}`,
@@ -524,7 +666,7 @@ class PaystackService {
   // Initialize transaction wrapper
   static async initializeTransaction(email: string, amount: number, metadata?: any) {
     try {
-      const response = await fetch('https://api.paystack.co/transaction/initialize', {
+      const response = await fetch(`${PaystackService.BASE_URL}/transaction/initialize`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${PaystackService.SECRET_KEY}`,
@@ -563,7 +705,7 @@ class PaystackService {
   // Verify transaction wrapper
   static async verifyTransaction(reference: string) {
     try {
-      const response = await fetch(`https://api.paystack.co/transaction/verify/${reference}`, {
+      const response = await fetch(`${PaystackService.BASE_URL}/transaction/verify/${reference}`, {
         headers: {
           'Authorization': `Bearer ${PaystackService.SECRET_KEY}`
         }
@@ -0,0 +1,392 @@
+import crypto from 'crypto';
+import { db } from '../db/config';
+import { orders, driverProfiles, merchantProfiles, priceQuotes } from '../db/schema';
+import { eq, and, isNull, inArray, gt, sql } from 'drizzle-orm';
+import GeolocationService from './geolocation';
+import DriverDispatchService, { Coordinates } from './driver-dispatch';
+import PromotionService, { AppliedDiscount } from './promotions';
+import { withTransaction } from '../utils/db-transaction';
+
+type PriceQuote = typeof priceQuotes.$inferSelect;
+
+export const VEHICLE_TYPES = ['MOTORCYCLE', 'CAR', 'VAN', 'TRUCK'] as const;
+export type VehicleType = typeof VEHICLE_TYPES[number];
+
+export interface CartLine {
+  productId: number;
+  variantId?: number | null;
+  optionIds?: number[];
+  name: string;
+  price: string;
+  quantity: number;
+  merchantId: number | null;
+  categoryId?: number | null;
+}
+
+export interface DeliveryFeeBreakdown {
+  distanceKm: number | null;
+  baseFee: number;
+  distanceFee: number;
+  timeOfDayMultiplier: number;
+  surgeMultiplier: number;
+  minimumApplied: boolean;
+  fee: number;
+}
+
+export interface MerchantQuote {
+  merchantId: number | null;
+  items: Array<{ productId: number; name: string; unitPrice: string; quantity: number; lineTotal: string }>;
+  subtotal: string;
+  delivery: DeliveryFeeBreakdown;
+  deliveryFee: string;
+  serviceFee: string;
+  tax: string;
+  discounts: AppliedDiscount[];
+  discount: string;
+  total: string;
+}
+
+export interface QuoteResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  quote?: PriceQuote;
+}
+
+export interface QuoteRedemption {
+  success: boolean;
+  status?: number;
+  message?: string;
+  quote?: PriceQuote;
+}
+
+// Statuses of orders still waiting for a driver, which count towards demand
+const WAITING_STATUSES = ['PENDING', 'CONFIRMED'] as const;
+
+export class PricingService {
+  static readonly VEHICLE_RATES: Record<VehicleType, { baseFee: number; perKm: number }> = {
+    MOTORCYCLE: { baseFee: 300, perKm: 50 },
+    CAR: { baseFee: 500, perKm: 80 },
+    VAN: { baseFee: 800, perKm: 120 },
+    TRUCK: { baseFee: 1500, perKm: 200 }
+  };
+  static readonly MINIMUM_DELIVERY_FEE = 500; // NGN
+  static readonly MAX_DELIVERY_RADIUS_KM = 50;
+  static readonly SERVICE_FEE_RATE = 0.05;
+  // VAT is charged on the platform's own fees, after any delivery discount, not on the merchant's goods
+  static readonly VAT_RATE = 0.075;
+  static readonly PEAK_MULTIPLIER = 1.2;
+  static readonly NIGHT_MULTIPLIER = 1.3;
+  static readonly LOCAL_UTC_OFFSET_MINUTES = 60; // West Africa Time
+  static readonly SURGE_RADIUS_KM = 10;
+  static readonly SURGE_STEP = 0.25;
+  static readonly MAX_SURGE_MULTIPLIER = 2;
+  static readonly DEMAND_WINDOW_MS = 60 * 60 * 1000;
+  static readonly QUOTE_TTL_MS = 15 * 60 * 1000;
+
+  static getConfig() {
+    return {
+      currency: 'NGN',
+      maxDeliveryRadius: this.MAX_DELIVERY_RADIUS_KM,
+      minimumDeliveryFee: this.MINIMUM_DELIVERY_FEE,
+      vehicleRates: this.VEHICLE_RATES,
+      serviceFeeRate: this.SERVICE_FEE_RATE,
+      vatRate: this.VAT_RATE,
+      peakMultiplier: this.PEAK_MULTIPLIER,
+      nightMultiplier: this.NIGHT_MULTIPLIER,
+      maxSurgeMultiplier: this.MAX_SURGE_MULTIPLIER,
+      quoteTtlSeconds: this.QUOTE_TTL_MS / 1000
+    };
+  }
+
+  /**
+   * Rush hours (07:00-10:00, 16:00-20:00) and nights (22:00-06:00), local time.
+   */
+  static timeOfDayMultiplier(at: Date): number {
+    const localHour = new Date(at.getTime() + this.LOCAL_UTC_OFFSET_MINUTES * 60 * 1000).getUTCHours();
+
+    if (localHour >= 22 || localHour < 6) return this.NIGHT_MULTIPLIER;
+    if ((localHour >= 7 && localHour < 10) || (localHour >= 16 && localHour < 20)) return this.PEAK_MULTIPLIER;
+    return 1;
+  }
+
+  /**
+   * Orders waiting for a driver near the pickup point against drivers free to
+   * take them. Each extra waiting order per driver adds a step, up to the cap.
+   */
+  static async surgeMultiplier(origin: Coordinates): Promise<number> {
+    const radius = this.SURGE_RADIUS_KM;
+    const latDelta = radius / 111;
+    const lngDelta = radius / (111 * Math.max(Math.cos(origin.latitude * Math.PI / 180), 0.01));
+
+    const [[{ waiting }], drivers] = await Promise.all([
+      db
+        .select({ waiting: sql<number>`count(*)::int` })
+        .from(orders)
+        .where(and(
+          inArray(orders.status, [...WAITING_STATUSES]),
+          isNull(orders.driverId),
+          isNull(orders.deletedAt),
+          gt(orders.createdAt, new Date(Date.now() - this.DEMAND_WINDOW_MS)),
+          sql`${orders.deliveryLatitude} BETWEEN ${origin.latitude - latDelta} AND ${origin.latitude + latDelta}`,
+          sql`${orders.deliveryLongitude} BETWEEN ${origin.longitude - lngDelta} AND ${origin.longitude + lngDelta}`
+        )),
+      db
+        .select({ currentLocation: driverProfiles.currentLocation })
+        .from(driverProfiles)
+        .where(and(
+          eq(driverProfiles.isOnline, true),
+          eq(driverProfiles.isAvailable, true),
+          eq(driverProfiles.verificationStatus, 'APPROVED'),
+          isNull(driverProfiles.deletedAt)
+        ))
+    ]);
+
+    const nearbyDrivers = drivers.filter(driver => {
+      const location = DriverDispatchService.parseLocation(driver.currentLocation);
+      return location && GeolocationService.haversineDistance(origin, location) <= radius;
+    }).length;
+
+    const ratio = waiting / Math.max(nearbyDrivers, 1);
+    if (ratio <= 1) return 1;
+
+    return Math.min(this.MAX_SURGE_MULTIPLIER, Math.round((1 + (ratio - 1) * this.SURGE_STEP) * 100) / 100);
+  }
+
+  static async deliveryFee(
+    pickup: Coordinates | null,
+    destination: Coordinates,
+    vehicleType: VehicleType,
+    at: Date = new Date()
+  ): Promise<DeliveryFeeBreakdown> {
+    const rates = this.VEHICLE_RATES[vehicleType];
+    const timeOfDayMultiplier = this.timeOfDayMultiplier(at);
+
+    let distanceKm: number | null = null;
+    let surgeMultiplier = 1;
+    if (pickup) {
+      // Road distance when the maps API answers, straight-line otherwise
+      const route = await GeolocationService.calculateDistance(pickup, destination, 'driving');
+      distanceKm = Math.round((route?.distance ?? GeolocationService.haversineDistance(pickup, destination)) * 100) / 100;
+      surgeMultiplier = await this.surgeMultiplier(pickup);
+    }
+
+    const distanceFee = (distanceKm ?? 0) * rates.perKm;
+    const computed = (rates.baseFee + distanceFee) * timeOfDayMultiplier * surgeMultiplier;
+    const fee = Math.max(computed, this.MINIMUM_DELIVERY_FEE);
+
+    return {
+      distanceKm,
+      baseFee: rates.baseFee,
+      distanceFee: Math.round(distanceFee * 100) / 100,
+      timeOfDayMultiplier,
+      surgeMultiplier,
+      minimumApplied: computed < this.MINIMUM_DELIVERY_FEE,
+      fee: Math.round(fee * 100) / 100
+    };
+  }
+
+  /**
+   * Prices a cart for delivery to the destination, applies the promo code and
+   * any automatic campaign, and stores the quote so checkout charges exactly
+   * what the customer was shown. Each merchant's goods travel as a separate
+   * order, so each carries its own delivery fee.
+   */
+  static async createQuote(
+    customerId: number,
+    cart: CartLine[],
+    destination: Coordinates,
+    vehicleType: VehicleType,
+    promoCode?: string
+  ): Promise<QuoteResult> {
+    const groups = new Map<number | null, CartLine[]>();
+    for (const line of cart) {
+      groups.set(line.merchantId, [...(groups.get(line.merchantId) || []), line]);
+    }
+
+    const pickups = await this.getMerchantLocations(Array.from(groups.keys()).filter((id): id is number => id !== null));
+
+    // No quote for a merchant the destination is out of delivery range of
+    const outOfRange = Array.from(pickups.values())
+      .some(pickup => GeolocationService.haversineDistance(pickup, destination) > this.MAX_DELIVERY_RADIUS_KM);
+    if (outOfRange) {
+      return {
+        success: false,
+        status: 422,
+        message: `The delivery address is more than ${this.MAX_DELIVERY_RADIUS_KM} km from a merchant in your cart`
+      };
+    }
+
+    const now = new Date();
+
+    const priced = [];
+    for (const [merchantId, lines] of groups) {
+      const delivery = await this.deliveryFee(merchantId ? pickups.get(merchantId) || null : null, destination, vehicleType, now);
+      priced.push({ merchantId, lines, deliveryFee: delivery.fee, delivery });
+    }
+
+    const evaluation = await PromotionService.evaluate(customerId, priced, promoCode, now);
+    if (!evaluation.success) {
+      return { success: false, status: evaluation.status, message: evaluation.message };
+    }
+
+    const breakdown: MerchantQuote[] = priced.map(({ merchantId, lines, delivery }, i) => {
+      const discounts = evaluation.groupDiscounts![i];
+      const subtotal = lines.reduce((sum, line) => sum + Number(line.price) * line.quantity, 0);
+      const deliveryDiscount = discounts
+        .filter(discount => discount.discountType === 'FREE_DELIVERY')
+        .reduce((sum, discount) => sum + Number(discount.amount), 0);
+      const discount = discounts.reduce((sum, d) => sum + Number(d.amount), 0);
+      const serviceFee = subtotal * this.SERVICE_FEE_RATE;
+      const tax = (delivery.fee - deliveryDiscount + serviceFee) * this.VAT_RATE;
+
+      return {
+        merchantId,
+        items: lines.map(line => ({
+          productId: line.productId,
+          variantId: line.variantId || null,
+          name: line.name,
+          unitPrice: line.price,
+          quantity: line.quantity,
+          lineTotal: (Number(line.price) * line.quantity).toFixed(2)
+        })),
+        subtotal: subtotal.toFixed(2),
+        delivery,
+        deliveryFee: delivery.fee.toFixed(2),
+        serviceFee: serviceFee.toFixed(2),
+        tax: tax.toFixed(2),
+        discounts,
+        discount: discount.toFixed(2),
+        total: (subtotal + delivery.fee + serviceFee + tax - discount).toFixed(2)
+      };
+    });
+
+    const sum = (field: 'subtotal' | 'deliveryFee' | 'serviceFee' | 'tax' | 'discount' | 'total') =>
+      breakdown.reduce((total, group) => total + Number(group[field]), 0).toFixed(2);
+
+    const [quote] = await db
+      .insert(priceQuotes)
+      .values({
+        quoteId: `q_${crypto.randomBytes(16).toString('hex')}`,
+        customerId,
+        vehicleType,
+        deliveryLatitude: destination.latitude.toString(),
+        deliveryLongitude: destination.longitude.toString(),
+        items: this.cartSnapshot(cart),
+        breakdown,
+        subtotal: sum('subtotal'),
+        deliveryFee: sum('deliveryFee'),
+        serviceFee: sum('serviceFee'),
+        tax: sum('tax'),
+        discount: sum('discount'),
+        total: sum('total'),
+        promoCode: promoCode ? PromotionService.normalizeCode(promoCode) : null,
+        expiresAt: new Date(now.getTime() + this.QUOTE_TTL_MS)
+      })
+      .returning();
+
+    return { success: true, quote };
+  }
+
+  /**
+   * Uses up the customer's quote for checkout. The cart must still hold the
+   * same products, quantities and prices it was quoted for, and every
+   * promotion on the quote must still have a use left.
+   */
+  static async redeem(quoteId: string, customerId: number, cart: CartLine[], orderNumber: string): Promise<QuoteRedemption> {
+    return withTransaction(async (tx) => {
+      const [quote] = await tx
+        .select()
+        .from(priceQuotes)
+        .where(and(eq(priceQuotes.quoteId, quoteId), eq(priceQuotes.customerId, customerId)))
+        .for('update');
+
+      if (!quote) {
+        return { success: false, status: 404, message: 'Quote not found' };
+      }
+
+      if (quote.redeemedAt) {
+        return { success: false, status: 409, message: 'Quote has already been used' };
+      }
+
+      if (quote.expiresAt <= new Date()) {
+        return { success: false, status: 410, message: 'Quote has expired, please request a new one' };
+      }
+
+      if (JSON.stringify(quote.items) !== JSON.stringify(this.cartSnapshot(cart))) {
+        return { success: false, status: 409, message: 'Your cart or prices changed since this quote, please request a new one' };
+      }
+
+      const discounts = (quote.breakdown as MerchantQuote[]).flatMap(group => group.discounts || []);
+      const claim = await PromotionService.claim(tx, quote.quoteId, customerId, discounts, orderNumber);
+      if (!claim.success) {
+        return { success: false, status: claim.status, message: claim.message };
+      }
+
+      const [redeemed] = await tx
+        .update(priceQuotes)
+        .set({ redeemedAt: new Date(), orderNumber })
+        .where(eq(priceQuotes.id, quote.id))
+        .returning();
+
+      return { success: true, quote: redeemed };
+    });
+  }
+
+  /**
+   * Undoes the redemption made for a checkout that will not be paid for, so
+   * the quote and its promotion uses are available again.
+   */
+  static async release(orderNumber: string) {
+    await withTransaction(async (tx) => {
+      const [quote] = await tx
+        .select()
+        .from(priceQuotes)
+        .where(eq(priceQuotes.orderNumber, orderNumber))
+        .for('update');
+
+      if (!quote || !quote.redeemedAt) return;
+
+      await PromotionService.unclaim(tx, quote.quoteId);
+
+      await tx
+        .update(priceQuotes)
+        .set({ redeemedAt: null, orderNumber: null })
+        .where(eq(priceQuotes.id, quote.id));
+    });
+  }
+
+  private static cartSnapshot(cart: CartLine[]) {
+    return cart
+      .map(line => ({
+        productId: line.productId,
+        variantId: line.variantId || null,
+        optionIds: (line.optionIds || []).slice().sort((a, b) => a - b),
+        quantity: line.quantity,
+        price: Number(line.price).toFixed(2)
+      }))
+      .sort((a, b) => a.productId - b.productId || (a.variantId || 0) - (b.variantId || 0) || a.optionIds.join().localeCompare(b.optionIds.join()));
+  }
+
+  private static async getMerchantLocations(merchantIds: number[]): Promise<Map<number, Coordinates>> {
+    const locations = new Map<number, Coordinates>();
+    if (!merchantIds.length) return locations;
+
+    const merchants = await db
+      .select({ userId: merchantProfiles.userId, latitude: merchantProfiles.latitude, longitude: merchantProfiles.longitude })
+      .from(merchantProfiles)
+      .where(inArray(merchantProfiles.userId, merchantIds));
+
+    for (const merchant of merchants) {
+      const latitude = parseFloat(merchant.latitude || '0');
+      const longitude = parseFloat(merchant.longitude || '0');
+      if (latitude && longitude) {
+        locations.set(merchant.userId, { latitude, longitude });
+      }
+    }
+
+    return locations;
+  }
+}
+
+export default PricingService;
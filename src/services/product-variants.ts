@@ -0,0 +1,222 @@
+import { db } from '../db/config';
+import { products, productVariants, productOptionGroups, productOptions } from '../db/schema';
+import { eq, and, isNull, inArray, asc } from 'drizzle-orm';
+
+type ProductVariant = typeof productVariants.$inferSelect;
+type ProductOptionGroup = typeof productOptionGroups.$inferSelect;
+type ProductOption = typeof productOptions.$inferSelect;
+
+// An add-on as chosen, kept on cart lines and order items
+export interface SelectedOption {
+  optionId: number;
+  groupId: number;
+  groupName: string;
+  name: string;
+  priceDelta: string;
+}
+
+// What a cart line actually is: the product, its variant and add-ons, priced
+export interface ResolvedSelection {
+  productId: number;
+  productName: string;
+  merchantId: number | null;
+  categoryId: number | null;
+  commodityId: number | null;
+  imageUrl: string | null;
+  variantId: number | null;
+  variantName: string | null;
+  sku: string | null;
+  options: SelectedOption[];
+  unitPrice: string;
+  stockQuantity: number;
+}
+
+export interface SelectionResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  selection?: ResolvedSelection;
+}
+
+export interface ProductCatalogue {
+  variants: ProductVariant[];
+  optionGroups: Array<ProductOptionGroup & { options: ProductOption[] }>;
+}
+
+export class ProductVariantService {
+  /**
+   * Checks a product/variant/add-on choice against the live catalogue and
+   * prices it. A product with variants must have one chosen, and every
+   * option group's min/max selections must be met.
+   */
+  static async resolveSelection(productId: number | null, variantId: number | null, optionIds: number[] = []): Promise<SelectionResult> {
+    let variant: ProductVariant | null = null;
+    if (variantId) {
+      [variant] = await db
+        .select()
+        .from(productVariants)
+        .where(and(eq(productVariants.id, variantId), isNull(productVariants.deletedAt)))
+        .limit(1);
+
+      if (!variant || !variant.isActive) {
+        return { success: false, status: 404, message: 'Variant not found or no longer available' };
+      }
+
+      if (productId && variant.productId !== productId) {
+        return { success: false, status: 400, message: 'Variant does not belong to this product' };
+      }
+
+      productId = variant.productId;
+    }
+
+    if (!productId) {
+      return { success: false, status: 400, message: 'A product or variant is required' };
+    }
+
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(
+        eq(products.id, productId),
+        isNull(products.deletedAt),
+        eq(products.isActive, true),
+        eq(products.isAvailable, true)
+      ))
+      .limit(1);
+
+    if (!product) {
+      return { success: false, status: 404, message: 'Product not found or unavailable' };
+    }
+
+    const { variants, optionGroups } = (await this.getCatalogue([productId])).get(productId)!;
+
+    if (!variant && variants.length) {
+      return { success: false, status: 400, message: `Choose one of the options for ${product.name}: ${variants.map(v => v.name).join(', ')}` };
+    }
+
+    const chosen = Array.from(new Set(optionIds));
+    const options: SelectedOption[] = [];
+    for (const optionId of chosen) {
+      const group = optionGroups.find(g => g.options.some(option => option.id === optionId));
+      const option = group?.options.find(o => o.id === optionId);
+      if (!group || !option) {
+        return { success: false, status: 400, message: `Option ${optionId} is not available for ${product.name}` };
+      }
+
+      options.push({
+        optionId: option.id,
+        groupId: group.id,
+        groupName: group.name,
+        name: option.name,
+        priceDelta: option.priceDelta
+      });
+    }
+
+    for (const group of optionGroups) {
+      const count = options.filter(option => option.groupId === group.id).length;
+      if (count < group.minSelections) {
+        return { success: false, status: 400, message: `Choose at least ${group.minSelections} from ${group.name}` };
+      }
+      if (count > group.maxSelections) {
+        return { success: false, status: 400, message: `Choose at most ${group.maxSelections} from ${group.name}` };
+      }
+    }
+
+    const basePrice = Number(variant ? variant.price : product.price);
+    const unitPrice = options.reduce((sum, option) => sum + Number(option.priceDelta), basePrice);
+
+    return {
+      success: true,
+      selection: {
+        productId: product.id,
+        productName: product.name,
+        merchantId: product.merchantId,
+        categoryId: product.categoryId,
+        commodityId: product.commodityId,
+        imageUrl: product.imageUrl,
+        variantId: variant?.id || null,
+        variantName: variant?.name || null,
+        sku: variant?.sku || null,
+        options: options.sort((a, b) => a.optionId - b.optionId),
+        unitPrice: unitPrice.toFixed(2),
+        stockQuantity: variant ? variant.stockQuantity : product.stockQuantity || 0
+      }
+    };
+  }
+
+  /**
+   * The live variants and option groups (with their available options) of
+   * each product, for listings and for validating a choice.
+   */
+  static async getCatalogue(productIds: number[]): Promise<Map<number, ProductCatalogue>> {
+    const catalogue = new Map<number, ProductCatalogue>(productIds.map(id => [id, { variants: [], optionGroups: [] }]));
+    if (!productIds.length) return catalogue;
+
+    const [variants, groups] = await Promise.all([
+      db
+        .select()
+        .from(productVariants)
+        .where(and(
+          inArray(productVariants.productId, productIds),
+          eq(productVariants.isActive, true),
+          isNull(productVariants.deletedAt)
+        ))
+        .orderBy(asc(productVariants.sortOrder), asc(productVariants.id)),
+      db
+        .select()
+        .from(productOptionGroups)
+        .where(and(
+          inArray(productOptionGroups.productId, productIds),
+          eq(productOptionGroups.isActive, true),
+          isNull(productOptionGroups.deletedAt)
+        ))
+        .orderBy(asc(productOptionGroups.sortOrder), asc(productOptionGroups.id))
+    ]);
+
+    const options = groups.length
+      ? await db
+          .select()
+          .from(productOptions)
+          .where(and(
+            inArray(productOptions.groupId, groups.map(g => g.id)),
+            eq(productOptions.isAvailable, true),
+            isNull(productOptions.deletedAt)
+          ))
+          .orderBy(asc(productOptions.sortOrder), asc(productOptions.id))
+      : [];
+
+    for (const variant of variants) {
+      catalogue.get(variant.productId)!.variants.push(variant);
+    }
+
+    for (const group of groups) {
+      catalogue.get(group.productId)!.optionGroups.push({
+        ...group,
+        options: options.filter(option => option.groupId === group.id)
+      });
+    }
+
+    return catalogue;
+  }
+
+  /**
+   * Two cart lines are the same item when product, variant and add-ons match.
+   */
+  static sameSelection(
+    a: { productId: number | null; variantId: number | null; selectedOptions: unknown },
+    b: { productId: number | null; variantId: number | null; selectedOptions: unknown }
+  ): boolean {
+    const key = (ids: unknown) => JSON.stringify(((ids || []) as number[]).slice().sort((x, y) => x - y));
+    return a.productId === b.productId && a.variantId === b.variantId && key(a.selectedOptions) === key(b.selectedOptions);
+  }
+
+  /**
+   * How the choice reads to a person, e.g. "Large, Extra cheese".
+   */
+  static describe(selection: Pick<ResolvedSelection, 'variantName' | 'options'>): string | null {
+    const parts = [selection.variantName, ...selection.options.map(option => option.name)].filter(Boolean);
+    return parts.length ? parts.join(', ') : null;
+  }
+}
+
+export default ProductVariantService;
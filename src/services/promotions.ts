@@ -0,0 +1,368 @@
+import { db } from '../db/config';
+import { promotions, promotionRedemptions, orderDiscounts, orders } from '../db/schema';
+import { eq, and, isNull, ne, sql } from 'drizzle-orm';
+
+type Promotion = typeof promotions.$inferSelect;
+
+export const DISCOUNT_TYPES = ['PERCENTAGE', 'FIXED', 'FREE_DELIVERY'] as const;
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+
+export const FUNDING_PARTIES = ['PLATFORM', 'MERCHANT'] as const;
+
+// One merchant's share of the basket, as priced before any discount
+export interface DiscountableGroup {
+  merchantId: number | null;
+  lines: Array<{ productId: number; price: string; quantity: number; categoryId?: number | null }>;
+  deliveryFee: number;
+}
+
+export interface AppliedDiscount {
+  promotionId: number;
+  code: string | null;
+  name: string;
+  discountType: string;
+  amount: string;
+  fundedBy: string;
+  fundingMerchantId: number | null;
+}
+
+export interface DiscountEvaluation {
+  success: boolean;
+  status?: number;
+  message?: string;
+  // Discounts per group, in the order the groups were given
+  groupDiscounts?: AppliedDiscount[][];
+}
+
+export interface PromotionClaim {
+  success: boolean;
+  status?: number;
+  message?: string;
+}
+
+interface Eligibility {
+  eligible: boolean;
+  message?: string;
+  amounts?: number[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class PromotionService {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Works out the discounts for a basket: the entered promo code, if any, and
+   * then the best automatic campaign on what is left. A code that does not
+   * apply is an error so the customer knows why; campaigns that do not apply
+   * are simply skipped.
+   */
+  static async evaluate(customerId: number, groups: DiscountableGroup[], promoCode?: string, now: Date = new Date()): Promise<DiscountEvaluation> {
+    const groupDiscounts: AppliedDiscount[][] = groups.map(() => []);
+    // What is still left to discount in each group, goods and delivery separately
+    const remaining = groups.map(group => ({
+      goods: group.lines.reduce((sum, line) => sum + Number(line.price) * line.quantity, 0),
+      delivery: group.deliveryFee
+    }));
+
+    const apply = (promotion: Promotion, amounts: number[]) => {
+      amounts.forEach((amount, i) => {
+        if (amount <= 0) return;
+        if (promotion.discountType === 'FREE_DELIVERY') {
+          remaining[i].delivery = round(remaining[i].delivery - amount);
+        } else {
+          remaining[i].goods = round(remaining[i].goods - amount);
+        }
+        groupDiscounts[i].push(this.toAppliedDiscount(promotion, amount));
+      });
+    };
+
+    let codePromotionId: number | null = null;
+    if (promoCode) {
+      const [promotion] = await db
+        .select()
+        .from(promotions)
+        .where(and(eq(promotions.code, this.normalizeCode(promoCode)), isNull(promotions.deletedAt)))
+        .limit(1);
+
+      if (!promotion) {
+        return { success: false, status: 404, message: 'Promo code not found' };
+      }
+
+      const eligibility = await this.checkEligibility(promotion, customerId, groups, remaining, now);
+      if (!eligibility.eligible) {
+        return { success: false, status: 409, message: eligibility.message };
+      }
+
+      apply(promotion, eligibility.amounts!);
+      codePromotionId = promotion.id;
+    }
+
+    const campaigns = await db
+      .select()
+      .from(promotions)
+      .where(and(
+        eq(promotions.isAutomatic, true),
+        eq(promotions.isActive, true),
+        isNull(promotions.deletedAt)
+      ));
+
+    let best: { promotion: Promotion; amounts: number[]; total: number } | null = null;
+    for (const campaign of campaigns) {
+      if (campaign.id === codePromotionId) continue;
+
+      const eligibility = await this.checkEligibility(campaign, customerId, groups, remaining, now);
+      if (!eligibility.eligible) continue;
+
+      const total = eligibility.amounts!.reduce((sum, amount) => sum + amount, 0);
+      if (total > 0 && (!best || total > best.total)) {
+        best = { promotion: campaign, amounts: eligibility.amounts!, total };
+      }
+    }
+
+    if (best) {
+      apply(best.promotion, best.amounts);
+    }
+
+    return { success: true, groupDiscounts };
+  }
+
+  /**
+   * Takes one use of each promotion on a quote at checkout. Runs inside the
+   * quote's redemption transaction; rows are locked and every check passes
+   * before anything is written, so a failure leaves nothing to undo.
+   */
+  static async claim(tx: any, quoteId: string, customerId: number, discounts: AppliedDiscount[], orderNumber: string): Promise<PromotionClaim> {
+    const totals = new Map<number, number>();
+    for (const discount of discounts) {
+      totals.set(discount.promotionId, round((totals.get(discount.promotionId) || 0) + Number(discount.amount)));
+    }
+
+    const now = new Date();
+    for (const promotionId of totals.keys()) {
+      const [promotion] = await tx
+        .select()
+        .from(promotions)
+        .where(eq(promotions.id, promotionId))
+        .for('update');
+
+      const usable = promotion && await this.checkUsable(promotion, customerId, now, tx);
+      if (!usable || !usable.eligible) {
+        return { success: false, status: 409, message: `${promotion?.name || 'A promotion'} on this quote is no longer available, please request a new quote` };
+      }
+    }
+
+    for (const [promotionId, amount] of totals) {
+      await tx
+        .update(promotions)
+        .set({ usageCount: sql`${promotions.usageCount} + 1`, updatedAt: now })
+        .where(eq(promotions.id, promotionId));
+
+      await tx.insert(promotionRedemptions).values({
+        promotionId,
+        userId: customerId,
+        quoteId,
+        orderNumber,
+        amount: amount.toFixed(2)
+      });
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Gives back the promotion uses a quote claimed, for a checkout that failed
+   * before payment. Runs inside the quote's release transaction.
+   */
+  static async unclaim(tx: any, quoteId: string) {
+    const redemptions = await tx
+      .delete(promotionRedemptions)
+      .where(eq(promotionRedemptions.quoteId, quoteId))
+      .returning();
+
+    for (const redemption of redemptions) {
+      await tx
+        .update(promotions)
+        .set({ usageCount: sql`GREATEST(${promotions.usageCount} - 1, 0)`, updatedAt: new Date() })
+        .where(eq(promotions.id, redemption.promotionId));
+    }
+  }
+
+  /**
+   * Stores a group's discounts as line items on the order it became.
+   */
+  static async recordOrderDiscounts(orderId: number, discounts: AppliedDiscount[]) {
+    if (!discounts.length) return;
+
+    await db.insert(orderDiscounts).values(discounts.map(discount => ({
+      orderId,
+      promotionId: discount.promotionId,
+      code: discount.code,
+      description: discount.name,
+      discountType: discount.discountType,
+      amount: discount.amount,
+      fundedBy: discount.fundedBy,
+      fundingMerchantId: discount.fundingMerchantId
+    })));
+  }
+
+  static async getOrderDiscounts(orderId: number) {
+    return db
+      .select()
+      .from(orderDiscounts)
+      .where(eq(orderDiscounts.orderId, orderId));
+  }
+
+  /**
+   * Discounts on the order that come out of the merchant's payout rather
+   * than the platform's margin.
+   */
+  static async merchantFundedAmount(orderId: number, merchantId: number): Promise<number> {
+    const [row] = await db
+      .select({ total: sql<string>`coalesce(sum(${orderDiscounts.amount}), 0)` })
+      .from(orderDiscounts)
+      .where(and(
+        eq(orderDiscounts.orderId, orderId),
+        eq(orderDiscounts.fundedBy, 'MERCHANT'),
+        eq(orderDiscounts.fundingMerchantId, merchantId)
+      ));
+
+    return Number(row?.total || 0);
+  }
+
+  private static async checkEligibility(
+    promotion: Promotion,
+    customerId: number,
+    groups: DiscountableGroup[],
+    remaining: Array<{ goods: number; delivery: number }>,
+    now: Date
+  ): Promise<Eligibility> {
+    const usable = await this.checkUsable(promotion, customerId, now);
+    if (!usable.eligible) return usable;
+
+    if (promotion.firstOrderOnly) {
+      const [{ previousOrders }] = await db
+        .select({ previousOrders: sql<number>`count(*)::int` })
+        .from(orders)
+        .where(and(
+          eq(orders.customerId, customerId),
+          ne(orders.status, 'CANCELLED'),
+          isNull(orders.deletedAt)
+        ));
+
+      if (previousOrders > 0) {
+        return { eligible: false, message: `${promotion.name} is only for your first order` };
+      }
+    }
+
+    // Goods in scope per group, capped at what earlier discounts left over
+    const merchantScope = (promotion.merchantIds || []) as number[];
+    const categoryScope = (promotion.categoryIds || []) as number[];
+    const eligibleGoods = groups.map((group, i) => {
+      if (promotion.fundedBy === 'MERCHANT' && group.merchantId !== promotion.fundingMerchantId) return 0;
+      if (merchantScope.length && !merchantScope.includes(group.merchantId!)) return 0;
+
+      const inScope = group.lines
+        .filter(line => !categoryScope.length || (line.categoryId && categoryScope.includes(line.categoryId)))
+        .reduce((sum, line) => sum + Number(line.price) * line.quantity, 0);
+      return Math.min(inScope, remaining[i].goods);
+    });
+
+    const basket = eligibleGoods.reduce((sum, amount) => sum + amount, 0);
+    if (basket <= 0) {
+      return { eligible: false, message: `${promotion.name} does not apply to the items in your cart` };
+    }
+
+    if (promotion.minBasketAmount && basket < Number(promotion.minBasketAmount)) {
+      return { eligible: false, message: `${promotion.name} needs at least ₦${promotion.minBasketAmount} of eligible items` };
+    }
+
+    const value = Number(promotion.value);
+    const cap = promotion.maxDiscountAmount ? Number(promotion.maxDiscountAmount) : Infinity;
+
+    let weights: number[];
+    let total: number;
+    switch (promotion.discountType) {
+      case 'PERCENTAGE':
+        weights = eligibleGoods;
+        total = Math.min(basket * value / 100, cap);
+        break;
+      case 'FIXED':
+        weights = eligibleGoods;
+        total = Math.min(value, basket, cap);
+        break;
+      case 'FREE_DELIVERY':
+        weights = remaining.map((r, i) => eligibleGoods[i] > 0 ? r.delivery : 0);
+        total = Math.min(weights.reduce((sum, fee) => sum + fee, 0), cap);
+        break;
+      default:
+        return { eligible: false, message: `${promotion.name} is not available` };
+    }
+
+    return { eligible: true, amounts: this.allocate(round(total), weights) };
+  }
+
+  /**
+   * Status, validity window and usage limits: everything that can change
+   * between quoting and checkout.
+   */
+  private static async checkUsable(promotion: Promotion, customerId: number, now: Date, tx: any = db): Promise<Eligibility> {
+    if (!promotion.isActive || promotion.deletedAt) {
+      return { eligible: false, message: `${promotion.name} is not available` };
+    }
+
+    if ((promotion.startsAt && promotion.startsAt > now) || (promotion.endsAt && promotion.endsAt <= now)) {
+      return { eligible: false, message: `${promotion.name} is not valid at this time` };
+    }
+
+    if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+      return { eligible: false, message: `${promotion.name} has been fully redeemed` };
+    }
+
+    if (promotion.perUserLimit !== null) {
+      const [{ used }] = await tx
+        .select({ used: sql<number>`count(*)::int` })
+        .from(promotionRedemptions)
+        .where(and(
+          eq(promotionRedemptions.promotionId, promotion.id),
+          eq(promotionRedemptions.userId, customerId)
+        ));
+
+      if (used >= promotion.perUserLimit) {
+        return { eligible: false, message: `You have already used ${promotion.name}` };
+      }
+    }
+
+    return { eligible: true };
+  }
+
+  /**
+   * Splits a total across groups in proportion to the weights, in kobo, with
+   * the rounding remainder on the largest share.
+   */
+  private static allocate(total: number, weights: number[]): number[] {
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weightSum <= 0 || total <= 0) return weights.map(() => 0);
+
+    const shares = weights.map(weight => round(total * weight / weightSum));
+    const largest = weights.indexOf(Math.max(...weights));
+    shares[largest] = round(shares[largest] + total - shares.reduce((sum, share) => sum + share, 0));
+    return shares;
+  }
+
+  private static toAppliedDiscount(promotion: Promotion, amount: number): AppliedDiscount {
+    return {
+      promotionId: promotion.id,
+      code: promotion.code,
+      name: promotion.name,
+      discountType: promotion.discountType,
+      amount: amount.toFixed(2),
+      fundedBy: promotion.fundedBy,
+      fundingMerchantId: promotion.fundingMerchantId
+    };
+  }
+}
+
+export default PromotionService;
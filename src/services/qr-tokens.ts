@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { db } from '../db/config';
+import { orders, qrTokens } from '../db/schema';
+import { eq, and, isNull, gt } from 'drizzle-orm';
+import { OrderStatus } from './order-state-machine';
+
+type Order = typeof orders.$inferSelect;
+type QrTokenRecord = typeof qrTokens.$inferSelect;
+
+export const QR_PURPOSES = ['MERCHANT_PICKUP', 'CUSTOMER_DELIVERY', 'TOLL_GATE'] as const;
+export type QrPurpose = typeof QR_PURPOSES[number];
+
+interface PurposeRule {
+  // Order party allowed to show the code
+  issuer: 'MERCHANT' | 'CONSUMER' | 'DRIVER';
+  scannerRole: 'DRIVER' | 'ADMIN';
+  ttlSeconds: number;
+  // Status the order moves to when the code is scanned
+  targetStatus: OrderStatus;
+}
+
+export const QR_PURPOSE_RULES: Record<QrPurpose, PurposeRule> = {
+  // Merchant shows the code, the assigned driver scans it when collecting the goods
+  MERCHANT_PICKUP: { issuer: 'MERCHANT', scannerRole: 'DRIVER', ttlSeconds: 10 * 60, targetStatus: 'PICKED_UP' },
+  // Customer shows the code, the assigned driver scans it at handoff
+  CUSTOMER_DELIVERY: { issuer: 'CONSUMER', scannerRole: 'DRIVER', ttlSeconds: 10 * 60, targetStatus: 'DELIVERED' },
+  // Driver shows the code, the toll gate operator scans it as the order passes through
+  TOLL_GATE: { issuer: 'DRIVER', scannerRole: 'ADMIN', ttlSeconds: 5 * 60, targetStatus: 'IN_TRANSIT' }
+};
+
+const TOKEN_VERSION = 'v1';
+
+const QR_SIGNING_SECRET = process.env.QR_SIGNING_SECRET || process.env.JWT_SECRET || 'default-qr-signing-secret';
+if (process.env.NODE_ENV === 'production' && QR_SIGNING_SECRET === 'default-qr-signing-secret') {
+  throw new Error('QR_SIGNING_SECRET must be set in environment variables for production');
+}
+
+interface QrTokenPayload {
+  purpose: QrPurpose;
+  orderId: number;
+  scannerRole: string;
+  tollGateId?: number;
+  nonce: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface QrVerification {
+  valid: boolean;
+  status?: number;
+  message?: string;
+  payload?: QrTokenPayload;
+  order?: Order;
+  record?: QrTokenRecord;
+}
+
+export class QrTokenService {
+  /**
+   * Checks whether the user is the party of the order allowed to show a code for this purpose.
+   */
+  static canIssue(purpose: QrPurpose, order: Order, userId: number): boolean {
+    switch (QR_PURPOSE_RULES[purpose].issuer) {
+      case 'MERCHANT':
+        return order.merchantId === userId;
+      case 'CONSUMER':
+        return order.customerId === userId;
+      case 'DRIVER':
+        return order.driverId === userId;
+    }
+  }
+
+  /**
+   * Issues a signed, single-use token for the order and records its nonce so
+   * the token can be consumed exactly once before it expires.
+   */
+  static async issue(purpose: QrPurpose, order: Order, issuedBy: number, tollGateId?: number) {
+    const rule = QR_PURPOSE_RULES[purpose];
+    const issuedAt = Date.now();
+    const payload: QrTokenPayload = {
+      purpose,
+      orderId: order.id,
+      scannerRole: rule.scannerRole,
+      ...(tollGateId && { tollGateId }),
+      nonce: crypto.randomBytes(16).toString('hex'),
+      issuedAt,
+      expiresAt: issuedAt + rule.ttlSeconds * 1000
+    };
+
+    await db.insert(qrTokens).values({
+      nonce: payload.nonce,
+      purpose,
+      orderId: order.id,
+      issuedBy,
+      scannerRole: rule.scannerRole,
+      tollGateId: tollGateId || null,
+      expiresAt: new Date(payload.expiresAt)
+    });
+
+    return {
+      token: this.sign(payload),
+      purpose,
+      expiresAt: new Date(payload.expiresAt)
+    };
+  }
+
+  /**
+   * Validates a token for the scanning user without consuming it: signature,
+   * expiry, scanner role, unused nonce and, for driver scans, that the
+   * scanner is the order's assigned driver.
+   */
+  static async verify(token: string, scanner: { id: number; role: string }): Promise<QrVerification> {
+    const payload = this.decode(token);
+    if (!payload) {
+      return { valid: false, status: 400, message: 'Invalid QR code' };
+    }
+
+    if (payload.expiresAt <= Date.now()) {
+      return { valid: false, status: 410, message: 'QR code has expired' };
+    }
+
+    if (payload.scannerRole !== scanner.role) {
+      return { valid: false, status: 403, message: 'This QR code cannot be scanned by your account' };
+    }
+
+    const [record] = await db
+      .select()
+      .from(qrTokens)
+      .where(eq(qrTokens.nonce, payload.nonce))
+      .limit(1);
+
+    // The nonce row is the source of truth for what was issued
+    if (!record || record.orderId !== payload.orderId || record.purpose !== payload.purpose) {
+      return { valid: false, status: 400, message: 'Invalid QR code' };
+    }
+
+    if (record.usedAt) {
+      return { valid: false, status: 409, message: 'QR code has already been used' };
+    }
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, payload.orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order) {
+      return { valid: false, status: 404, message: 'Order not found' };
+    }
+
+    if (payload.scannerRole === 'DRIVER' && order.driverId !== scanner.id) {
+      return { valid: false, status: 403, message: 'Only the assigned driver can scan this QR code' };
+    }
+
+    return { valid: true, payload, order, record };
+  }
+
+  /**
+   * Marks the nonce used. Returns false if another scan got there first or the
+   * token expired in the meantime.
+   */
+  static async consume(nonce: string, usedBy: number): Promise<boolean> {
+    const consumed = await db
+      .update(qrTokens)
+      .set({ usedAt: new Date(), usedBy })
+      .where(and(
+        eq(qrTokens.nonce, nonce),
+        isNull(qrTokens.usedAt),
+        gt(qrTokens.expiresAt, new Date())
+      ))
+      .returning({ id: qrTokens.id });
+
+    return consumed.length > 0;
+  }
+
+  private static sign(payload: QrTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${TOKEN_VERSION}.${body}.${this.hmac(`${TOKEN_VERSION}.${body}`)}`;
+  }
+
+  private static decode(token: string): QrTokenPayload | null {
+    const [version, body, signature] = token.split('.');
+    if (version !== TOKEN_VERSION || !body || !signature) return null;
+
+    const expected = Buffer.from(this.hmac(`${version}.${body}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+      return QR_PURPOSES.includes(payload.purpose) ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static hmac(data: string): string {
+    return crypto.createHmac('sha256', QR_SIGNING_SECRET).update(data).digest('base64url');
+  }
+}
+
+export default QrTokenService;
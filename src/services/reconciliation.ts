@@ -0,0 +1,596 @@
+import { db } from '../db/config';
+import { reconciliationRuns, reconciliationDiscrepancies, transactions, escrows, users, auditLogs } from '../db/schema';
+import { eq, and, or, ne, inArray, isNull, isNotNull, gte, lt, desc, count } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+import PaystackService from './paystack';
+import AccountingService from './accounting';
+
+type Transaction = typeof transactions.$inferSelect;
+type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+type Discrepancy = typeof reconciliationDiscrepancies.$inferSelect;
+
+// Days are cut at midnight West Africa Time (UTC+1 all year)
+const WAT_OFFSET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The daily run waits for Paystack's morning settlement of the previous day
+const DAILY_RUN_AFTER_HOUR = 6;
+
+// A day's payments are settled within a few days of it
+const SETTLEMENT_LAG_DAYS = 3;
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 200;
+
+export const DISCREPANCY_TYPES = ['MISSING_LOCAL', 'MISSING_REMOTE', 'DUPLICATE', 'AMOUNT_MISMATCH', 'STATUS_MISMATCH'] as const;
+export type DiscrepancyType = typeof DISCREPANCY_TYPES[number];
+
+export const RESOLUTIONS = ['APPLY_PAYMENT', 'MARK_FAILED', 'IMPORT', 'CORRECT_AMOUNT', 'DISMISS'] as const;
+export type Resolution = typeof RESOLUTIONS[number];
+
+// A Paystack transaction, reduced to what reconciliation compares
+export interface RemoteTransaction {
+  id: string;
+  reference: string;
+  amount: number; // kobo
+  status: string;
+  currency?: string | null;
+  paidAt?: string | null;
+  customerEmail?: string | null;
+  settlementId?: string | null;
+}
+
+export interface FoundDiscrepancy {
+  type: DiscrepancyType;
+  reference: string;
+  transactionId: number | null;
+  paystackId: string | null;
+  localAmount: string | null;
+  remoteAmount: string | null;
+  localStatus: string | null;
+  remoteStatus: string | null;
+  details: Record<string, any>;
+}
+
+export interface ResolutionResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  discrepancy?: Discrepancy;
+}
+
+// Paystack statuses still in flight; nothing to compare yet
+const IN_FLIGHT_STATUSES = ['ongoing', 'pending', 'processing', 'queued'];
+
+// The local statuses that agree with each settled Paystack status
+const AGREEING_STATUSES: Record<string, string[]> = {
+  success: ['COMPLETED', 'REFUNDED'],
+  reversed: ['REFUNDED'],
+  failed: ['PENDING', 'FAILED'],
+  abandoned: ['PENDING', 'FAILED']
+};
+
+const toKobo = (amount: string | number | null | undefined) => Math.round(Number(amount || 0) * 100);
+const fromKobo = (kobo: number) => (kobo / 100).toFixed(2);
+
+export class ReconciliationService {
+  /**
+   * Compares Paystack's records with ours for one period and stores what
+   * disagrees. A discrepancy already open (or dismissed) from an earlier run
+   * is not reported again. A Paystack outage fails the run, to be retried.
+   */
+  static async run(
+    periodStart: Date,
+    periodEnd: Date,
+    trigger: 'SCHEDULED' | 'MANUAL' = 'SCHEDULED',
+    triggeredBy: number | null = null
+  ): Promise<ReconciliationRun> {
+    const [run]: ReconciliationRun[] = await db
+      .insert(reconciliationRuns)
+      .values({ periodStart, periodEnd, trigger, triggeredBy })
+      .returning();
+
+    try {
+      const remote = await this.fetchRemote(periodStart, periodEnd);
+
+      const references = Array.from(new Set(remote.map(record => record.reference)));
+      const matched: Transaction[] = [];
+      for (let i = 0; i < references.length; i += 500) {
+        const chunk = references.slice(i, i + 500);
+        matched.push(...await db
+          .select()
+          .from(transactions)
+          .where(and(
+            isNull(transactions.deletedAt),
+            or(inArray(transactions.transactionRef, chunk), inArray(transactions.paymentGatewayRef, chunk))
+          )));
+      }
+
+      // Our Paystack-initialised payments of the period; checkout and the payments API set paystackTransactionId
+      const inPeriod = await db
+        .select()
+        .from(transactions)
+        .where(and(
+          eq(transactions.type, 'PAYMENT'),
+          isNotNull(transactions.paystackTransactionId),
+          gte(transactions.createdAt, periodStart),
+          lt(transactions.createdAt, periodEnd),
+          isNull(transactions.deletedAt)
+        ));
+
+      const found = this.compare(remote, matched, inPeriod);
+
+      const known = found.length
+        ? await db
+            .select({ type: reconciliationDiscrepancies.type, reference: reconciliationDiscrepancies.reference })
+            .from(reconciliationDiscrepancies)
+            .where(and(
+              inArray(reconciliationDiscrepancies.status, ['OPEN', 'DISMISSED']),
+              inArray(reconciliationDiscrepancies.reference, Array.from(new Set(found.map(d => d.reference))))
+            ))
+        : [];
+      const fresh = found.filter(d => !known.some(k => k.type === d.type && k.reference === d.reference));
+
+      if (fresh.length) {
+        await db.insert(reconciliationDiscrepancies).values(fresh.map(d => ({ ...d, runId: run.id })));
+      }
+
+      const byType = Object.fromEntries(DISCREPANCY_TYPES.map(type => [type, fresh.filter(d => d.type === type).length]));
+
+      const [completed]: ReconciliationRun[] = await db
+        .update(reconciliationRuns)
+        .set({
+          status: 'COMPLETED',
+          summary: {
+            paystackRecords: remote.length,
+            localRecords: inPeriod.length,
+            discrepancies: fresh.length,
+            alreadyOpen: found.length - fresh.length,
+            byType
+          },
+          completedAt: new Date()
+        })
+        .where(eq(reconciliationRuns.id, run.id))
+        .returning();
+
+      return completed;
+    } catch (error) {
+      console.error(`Reconciliation run ${run.id} error:`, error);
+
+      const [failed]: ReconciliationRun[] = await db
+        .update(reconciliationRuns)
+        .set({
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        })
+        .where(eq(reconciliationRuns.id, run.id))
+        .returning();
+
+      return failed;
+    }
+  }
+
+  /**
+   * Reconciles yesterday (WAT) once it has been settled, unless a scheduled
+   * run already covered it. A failed run is tried again on the next tick.
+   */
+  static async runDaily(now: Date = new Date()) {
+    try {
+      const local = new Date(now.getTime() + WAT_OFFSET_MS);
+      if (local.getUTCHours() < DAILY_RUN_AFTER_HOUR) return null;
+
+      const { start, end } = this.dayPeriod(new Date(local.getTime() - DAY_MS).toISOString().slice(0, 10));
+
+      const [existing] = await db
+        .select({ id: reconciliationRuns.id })
+        .from(reconciliationRuns)
+        .where(and(
+          eq(reconciliationRuns.periodStart, start),
+          eq(reconciliationRuns.trigger, 'SCHEDULED'),
+          ne(reconciliationRuns.status, 'FAILED')
+        ))
+        .limit(1);
+
+      if (existing) return null;
+
+      return await this.run(start, end);
+    } catch (error) {
+      console.error('Daily reconciliation error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Matches Paystack's records with ours by reference (our transactionRef or
+   * the gateway reference stored on payment) and lists every disagreement:
+   * money Paystack took that we have no record of, payments we completed that
+   * Paystack does not have, references recorded twice, and amounts or
+   * statuses that differ. Pure, so it can be run against mock data.
+   */
+  static compare(remote: RemoteTransaction[], matched: Transaction[], inPeriod: Transaction[]): FoundDiscrepancy[] {
+    const localByReference = new Map<string, Transaction[]>();
+    for (const transaction of [...matched, ...inPeriod]) {
+      const keys = new Set([transaction.transactionRef, transaction.paymentGatewayRef].filter(Boolean) as string[]);
+      for (const key of keys) {
+        const list = localByReference.get(key) || [];
+        if (!list.some(t => t.id === transaction.id)) list.push(transaction);
+        localByReference.set(key, list);
+      }
+    }
+
+    const remoteByReference = new Map<string, RemoteTransaction[]>();
+    for (const record of remote) {
+      const list = remoteByReference.get(record.reference) || [];
+      if (!list.some(r => r.id === record.id)) list.push(record);
+      remoteByReference.set(record.reference, list);
+    }
+
+    const found: FoundDiscrepancy[] = [];
+    const seen = new Set<number>();
+
+    for (const [reference, records] of remoteByReference) {
+      const record = records[0];
+      const locals = localByReference.get(reference) || [];
+      const local = locals[0];
+      locals.forEach(t => seen.add(t.id));
+
+      const base = {
+        reference,
+        transactionId: local?.id ?? null,
+        paystackId: record.id,
+        localAmount: local?.amount ?? null,
+        remoteAmount: fromKobo(record.amount),
+        localStatus: local?.status ?? null,
+        remoteStatus: record.status,
+        details: {
+          settlementId: record.settlementId ?? null,
+          customerEmail: record.customerEmail ?? null,
+          currency: record.currency ?? null,
+          paidAt: record.paidAt ?? null
+        }
+      };
+
+      if (records.length > 1) {
+        found.push({ ...base, type: 'DUPLICATE', details: { ...base.details, side: 'PAYSTACK', paystackIds: records.map(r => r.id) } });
+      }
+      if (locals.length > 1) {
+        found.push({ ...base, type: 'DUPLICATE', details: { ...base.details, side: 'LOCAL', transactionIds: locals.map(t => t.id) } });
+      }
+
+      if (IN_FLIGHT_STATUSES.includes(record.status)) continue;
+
+      if (!local) {
+        if (record.status === 'success') found.push({ ...base, type: 'MISSING_LOCAL' });
+        continue;
+      }
+
+      if (AGREEING_STATUSES[record.status] && !AGREEING_STATUSES[record.status].includes(local.status || 'PENDING')) {
+        found.push({ ...base, type: 'STATUS_MISMATCH' });
+      }
+
+      if (record.status === 'success' && toKobo(local.amount) !== record.amount) {
+        found.push({ ...base, type: 'AMOUNT_MISMATCH' });
+      }
+    }
+
+    for (const transaction of inPeriod) {
+      if (seen.has(transaction.id) || (transaction.status !== 'COMPLETED' && transaction.status !== 'REFUNDED')) continue;
+
+      found.push({
+        type: 'MISSING_REMOTE',
+        reference: transaction.transactionRef,
+        transactionId: transaction.id,
+        paystackId: null,
+        localAmount: transaction.amount,
+        remoteAmount: null,
+        localStatus: transaction.status,
+        remoteStatus: null,
+        details: {}
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Applies an admin's fix to one open discrepancy:
+   * APPLY_PAYMENT completes a payment Paystack took but we still show unpaid,
+   * MARK_FAILED fails (and books back) a payment Paystack never took,
+   * IMPORT records a payment we have no row for, CORRECT_AMOUNT takes
+   * Paystack's amount and books the difference, and DISMISS records why
+   * nothing needs to change.
+   */
+  static async resolve(discrepancyId: number, action: Resolution, actorId: number, note?: string): Promise<ResolutionResult> {
+    return withTransaction(async (tx): Promise<ResolutionResult> => {
+      const [discrepancy]: Discrepancy[] = await tx
+        .select()
+        .from(reconciliationDiscrepancies)
+        .where(eq(reconciliationDiscrepancies.id, discrepancyId))
+        .for('update');
+
+      if (!discrepancy) {
+        return { success: false, status: 404, message: 'Discrepancy not found' };
+      }
+
+      if (discrepancy.status !== 'OPEN') {
+        return { success: false, status: 409, message: 'Discrepancy has already been resolved' };
+      }
+
+      const applies = {
+        APPLY_PAYMENT: discrepancy.type === 'STATUS_MISMATCH' && discrepancy.remoteStatus === 'success',
+        MARK_FAILED: (discrepancy.type === 'STATUS_MISMATCH' && ['failed', 'abandoned'].includes(discrepancy.remoteStatus || ''))
+          || discrepancy.type === 'MISSING_REMOTE',
+        IMPORT: discrepancy.type === 'MISSING_LOCAL',
+        CORRECT_AMOUNT: discrepancy.type === 'AMOUNT_MISMATCH',
+        DISMISS: true
+      }[action];
+
+      if (!applies) {
+        return { success: false, status: 400, message: `${action} does not apply to a ${discrepancy.type} discrepancy` };
+      }
+
+      if (action === 'DISMISS' && !note) {
+        return { success: false, status: 400, message: 'Say why the discrepancy is being dismissed' };
+      }
+
+      // APPLY_PAYMENT completes the row on its own connection, so it must not be locked here
+      const [transaction]: Transaction[] = !discrepancy.transactionId
+        ? []
+        : action === 'APPLY_PAYMENT'
+          ? await tx.select().from(transactions).where(eq(transactions.id, discrepancy.transactionId))
+          : await tx.select().from(transactions).where(eq(transactions.id, discrepancy.transactionId)).for('update');
+
+      if (action !== 'DISMISS' && action !== 'IMPORT' && !transaction) {
+        return { success: false, status: 404, message: 'The local transaction no longer exists' };
+      }
+
+      let outcome: Record<string, any> = {};
+
+      if (action === 'APPLY_PAYMENT') {
+        if (transaction.status === 'COMPLETED') {
+          return { success: false, status: 409, message: 'The payment is already completed; re-run reconciliation' };
+        }
+        // The webhook path: verifies with Paystack, completes, funds the escrow and books it
+        await PaystackService.handleSuccessfulPayment(transaction.transactionRef);
+      }
+
+      if (action === 'MARK_FAILED') {
+        const [escrow] = await tx
+          .select({ id: escrows.id })
+          .from(escrows)
+          .where(and(
+            eq(escrows.transactionRef, transaction.transactionRef),
+            ne(escrows.status, 'REFUNDED'),
+            isNull(escrows.deletedAt)
+          ))
+          .limit(1);
+
+        if (escrow) {
+          return { success: false, status: 409, message: `Escrow #${escrow.id} still holds this payment; refund it first` };
+        }
+
+        await tx
+          .update(transactions)
+          .set({
+            status: 'FAILED',
+            failedAt: new Date(),
+            metadata: { ...(transaction.metadata as Record<string, any> || {}), reconciliation: { discrepancyId, markedFailedBy: actorId } },
+            updatedAt: new Date()
+          })
+          .where(eq(transactions.id, transaction.id));
+
+        await AccountingService.reversePayment(transaction, tx);
+      }
+
+      if (action === 'IMPORT') {
+        const details = (discrepancy.details || {}) as Record<string, any>;
+
+        const [existing] = await tx
+          .select({ id: transactions.id })
+          .from(transactions)
+          .where(or(eq(transactions.transactionRef, discrepancy.reference), eq(transactions.paymentGatewayRef, discrepancy.reference)))
+          .limit(1);
+        if (existing) {
+          return { success: false, status: 409, message: 'A transaction with this reference now exists; re-run reconciliation' };
+        }
+
+        const [customer] = details.customerEmail
+          ? await tx.select({ id: users.id }).from(users).where(eq(users.email, details.customerEmail)).limit(1)
+          : [];
+        if (!customer) {
+          return { success: false, status: 409, message: 'No user has the email Paystack recorded for this payment' };
+        }
+
+        const [imported]: Transaction[] = await tx
+          .insert(transactions)
+          .values({
+            userId: customer.id,
+            amount: discrepancy.remoteAmount!,
+            currency: details.currency || 'NGN',
+            type: 'PAYMENT',
+            status: 'COMPLETED',
+            paymentMethod: 'PAYSTACK',
+            paymentGatewayRef: discrepancy.reference,
+            paystackTransactionId: discrepancy.paystackId,
+            transactionRef: discrepancy.reference,
+            description: 'Payment recorded from Paystack reconciliation',
+            metadata: { reconciliation: { discrepancyId, importedBy: actorId }, paidAt: details.paidAt },
+            completedAt: details.paidAt ? new Date(details.paidAt) : new Date()
+          })
+          .returning();
+
+        await AccountingService.recordPayment(imported, tx);
+        outcome = { transactionId: imported.id };
+      }
+
+      if (action === 'CORRECT_AMOUNT') {
+        const difference = toKobo(discrepancy.remoteAmount) - toKobo(transaction.amount);
+
+        await tx
+          .update(transactions)
+          .set({
+            amount: discrepancy.remoteAmount!,
+            metadata: {
+              ...(transaction.metadata as Record<string, any> || {}),
+              reconciliation: { discrepancyId, correctedBy: actorId, previousAmount: transaction.amount }
+            },
+            updatedAt: new Date()
+          })
+          .where(eq(transactions.id, transaction.id));
+
+        // The payment was booked at the old amount; book the difference
+        if (difference !== 0 && await AccountingService.isPosted(`PAYMENT_${transaction.transactionRef}`, tx)) {
+          const customer = { category: 'CUSTOMER' as const, ownerId: transaction.userId };
+          await AccountingService.post({
+            reference: `RECONCILIATION_${discrepancy.id}`,
+            description: `Payment ${transaction.transactionRef} corrected to Paystack's amount`,
+            sourceType: 'ADJUSTMENT',
+            sourceId: discrepancy.id,
+            createdBy: actorId,
+            lines: difference > 0
+              ? [{ account: 'PAYSTACK_CLEARING', debit: fromKobo(difference) }, { account: customer, credit: fromKobo(difference) }]
+              : [{ account: customer, debit: fromKobo(-difference) }, { account: 'PAYSTACK_CLEARING', credit: fromKobo(-difference) }]
+          }, tx);
+        }
+
+        outcome = { previousAmount: transaction.amount, amount: discrepancy.remoteAmount };
+      }
+
+      const [resolved]: Discrepancy[] = await tx
+        .update(reconciliationDiscrepancies)
+        .set({
+          status: action === 'DISMISS' ? 'DISMISSED' : 'RESOLVED',
+          resolution: action,
+          resolutionNote: note || null,
+          resolvedBy: actorId,
+          resolvedAt: new Date()
+        })
+        .where(eq(reconciliationDiscrepancies.id, discrepancyId))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        userId: actorId,
+        action: 'RECONCILIATION_DISCREPANCY_RESOLVED',
+        entityType: 'RECONCILIATION_DISCREPANCY',
+        entityId: discrepancyId,
+        details: { type: discrepancy.type, reference: discrepancy.reference, resolution: action, note, ...outcome }
+      });
+
+      return { success: true, discrepancy: resolved };
+    });
+  }
+
+  static async listRuns(limit: number, offset: number) {
+    const runs = await db
+      .select()
+      .from(reconciliationRuns)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(limit)
+      .offset(offset);
+
+    const [total] = await db.select({ count: count() }).from(reconciliationRuns);
+
+    return { runs, total: Number(total?.count) || 0 };
+  }
+
+  static async getRun(runId: number) {
+    const [run] = await db.select().from(reconciliationRuns).where(eq(reconciliationRuns.id, runId)).limit(1);
+    return run || null;
+  }
+
+  static async listDiscrepancies(filters: { runId?: number; type?: string; status?: string }, limit: number, offset: number) {
+    const conditions = [];
+    if (filters.runId) conditions.push(eq(reconciliationDiscrepancies.runId, filters.runId));
+    if (filters.type) conditions.push(eq(reconciliationDiscrepancies.type, filters.type));
+    if (filters.status) conditions.push(eq(reconciliationDiscrepancies.status, filters.status));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const discrepancies = await db
+      .select()
+      .from(reconciliationDiscrepancies)
+      .where(where)
+      .orderBy(desc(reconciliationDiscrepancies.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const [total] = await db.select({ count: count() }).from(reconciliationDiscrepancies).where(where);
+
+    return { discrepancies, total: Number(total?.count) || 0 };
+  }
+
+  /**
+   * The UTC bounds of a WAT calendar day (YYYY-MM-DD).
+   */
+  static dayPeriod(date: string) {
+    const start = new Date(new Date(`${date}T00:00:00Z`).getTime() - WAT_OFFSET_MS);
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+
+  // Paystack's transactions of the period plus those settled in the days after it
+  static async fetchRemote(from: Date, to: Date): Promise<RemoteTransaction[]> {
+    const records = new Map<string, RemoteTransaction>();
+
+    const listed = await this.fetchAll(page => PaystackService.listTransactions({ from, to, page, perPage: PAGE_SIZE }));
+    for (const transaction of listed) {
+      records.set(String(transaction.id), this.toRemote(transaction));
+    }
+
+    const settlements = await this.fetchAll(page => PaystackService.listSettlements({
+      from,
+      to: new Date(to.getTime() + SETTLEMENT_LAG_DAYS * DAY_MS),
+      page,
+      perPage: PAGE_SIZE
+    }));
+
+    for (const settlement of settlements) {
+      const settled = await this.fetchAll(page => PaystackService.listSettlementTransactions(settlement.id, { page, perPage: PAGE_SIZE }));
+      for (const transaction of settled) {
+        const id = String(transaction.id);
+        records.set(id, { ...(records.get(id) || this.toRemote(transaction)), settlementId: String(settlement.id) });
+      }
+    }
+
+    return Array.from(records.values());
+  }
+
+  private static async fetchAll(fetchPage: (page: number) => Promise<{ success: boolean; data?: any[]; meta?: any; error?: string }>) {
+    const rows: any[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const result = await fetchPage(page);
+      if (!result.success) {
+        throw new Error(result.error || 'Paystack listing failed');
+      }
+
+      rows.push(...(result.data || []));
+
+      const pageCount = Number(result.meta?.pageCount) || 0;
+      if ((result.data || []).length < PAGE_SIZE || (pageCount && page >= pageCount)) break;
+    }
+
+    return rows;
+  }
+
+  private static toRemote(transaction: any): RemoteTransaction {
+    return {
+      id: String(transaction.id),
+      reference: transaction.reference,
+      amount: Number(transaction.amount),
+      status: transaction.status,
+      currency: transaction.currency ?? null,
+      paidAt: transaction.paid_at ?? transaction.paidAt ?? null,
+      customerEmail: transaction.customer?.email ?? null
+    };
+  }
+}
+
+export function startReconciliationService() {
+  setInterval(() => {
+    ReconciliationService.runDaily();
+  }, 60 * 60 * 1000);
+
+  console.log('✅ Paystack reconciliation service started');
+}
+
+export default ReconciliationService;
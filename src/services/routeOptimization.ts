@@ -1,7 +1,8 @@
 
 import GeolocationService from './geolocation';
+import EtaModelService from './eta-model';
 
-interface DeliveryPoint {
+export interface DeliveryPoint {
   id: number;
   orderId: number;
   address: string;
@@ -16,7 +17,7 @@ interface DeliveryPoint {
   type: 'PICKUP' | 'DELIVERY';
 }
 
-interface OptimizedRoute {
+export interface OptimizedRoute {
   points: DeliveryPoint[];
   totalDistance: number;
   totalDuration: number;
@@ -25,6 +26,26 @@ interface OptimizedRoute {
   warnings: string[];
 }
 
+export interface ScheduledStop {
+  point: DeliveryPoint;
+  sequence: number;
+  arrival: Date;
+  minutesLate: number;
+}
+
+export interface BatchRoute extends OptimizedRoute {
+  schedule: ScheduledStop[];
+  totalLateness: number;
+}
+
+interface RouteEvaluation {
+  cost: number;
+  distance: number;
+  duration: number;
+  lateness: number;
+  arrivals: number[];
+}
+
 interface RouteConstraints {
   maxDistance: number;
   maxDuration: number;
@@ -40,6 +61,8 @@ interface RouteConstraints {
 class RouteOptimizationService {
   private static readonly TRAFFIC_MULTIPLIER = 1.3; // Account for traffic
   private static readonly SAFETY_BUFFER = 0.15; // 15% time buffer
+  private static readonly LATENESS_WEIGHT = 5; // A late minute costs as much as 5 driving minutes
+  private static readonly MAX_IMPROVEMENT_PASSES = 50;
 
   static async optimizeDeliveryRoute(
     driverLocation: { latitude: number; longitude: number },
@@ -279,6 +302,215 @@ class RouteOptimizationService {
     return hours * 60 + minutes;
   }
 
+  /**
+   * Builds a route over a driver's batched orders. Each order's PICKUP must
+   * come before its DELIVERY; time windows ("HH:MM" on the start day) add a
+   * wait when early and a weighted penalty when late. A greedy construction
+   * is improved with or-opt moves and 2-opt reversals until neither helps.
+   */
+  static optimizeBatchRoute(
+    driverLocation: { latitude: number; longitude: number },
+    points: DeliveryPoint[],
+    constraints: RouteConstraints,
+    startTime: Date = new Date()
+  ): BatchRoute {
+    if (points.length === 0) {
+      throw new Error('No delivery points provided');
+    }
+
+    const startMinutes = startTime.getHours() * 60 + startTime.getMinutes();
+    let route = this.constructFeasibleRoute(driverLocation, points, startMinutes);
+    let best = this.evaluateRoute(driverLocation, route, startMinutes);
+
+    for (let pass = 0; pass < this.MAX_IMPROVEMENT_PASSES; pass++) {
+      const improved = this.improveRoute(driverLocation, route, best.cost, startMinutes);
+      if (!improved) break;
+      route = improved.route;
+      best = improved.evaluation;
+    }
+
+    const schedule = route.map((point, index) => {
+      const windowEnd = point.timeWindow ? this.timeStringToMinutes(point.timeWindow.end) : Infinity;
+      return {
+        point,
+        sequence: index + 1,
+        arrival: new Date(startTime.getTime() + (best.arrivals[index] - startMinutes) * 60 * 1000),
+        minutesLate: Math.max(0, Math.round(best.arrivals[index] - windowEnd))
+      };
+    });
+
+    const totalDuration = best.duration * (1 + this.SAFETY_BUFFER);
+    const fuelCost = (best.distance / constraints.fuelEfficiency) * constraints.fuelPrice;
+    const deliveries = route.filter(p => p.type === 'DELIVERY').length;
+    const metrics = {
+      totalDistance: best.distance,
+      totalDuration,
+      fuelCost,
+      efficiency: deliveries / Math.max(best.distance, 1)
+    };
+
+    const warnings = this.generateWarnings(route, metrics, constraints);
+    const lateStops = schedule.filter(stop => stop.minutesLate > 0);
+    if (lateStops.length > 0) {
+      warnings.push(`${lateStops.length} stop(s) will miss their time window`);
+    }
+
+    return {
+      points: route,
+      totalDistance: best.distance,
+      totalDuration,
+      estimatedFuelCost: fuelCost,
+      routeEfficiency: metrics.efficiency,
+      warnings,
+      schedule,
+      totalLateness: best.lateness
+    };
+  }
+
+  private static travelMinutes(
+    from: { latitude: number; longitude: number },
+    to: { latitude: number; longitude: number }
+  ): number {
+    return EtaModelService.estimateLeg(from, to).minutes;
+  }
+
+  // Greedy start: always go to the cheapest stop whose pickup is already done
+  private static constructFeasibleRoute(
+    start: { latitude: number; longitude: number },
+    points: DeliveryPoint[],
+    startMinutes: number
+  ): DeliveryPoint[] {
+    const route: DeliveryPoint[] = [];
+    const remaining = [...points];
+    let current = start;
+    let clock = startMinutes;
+
+    while (remaining.length > 0) {
+      let bestIndex = -1;
+      let bestScore = Infinity;
+      let bestArrival = clock;
+
+      for (let i = 0; i < remaining.length; i++) {
+        const point = remaining[i];
+        if (point.type === 'DELIVERY' && remaining.some(p => p.type === 'PICKUP' && p.orderId === point.orderId)) {
+          continue;
+        }
+
+        let arrival = clock + this.travelMinutes(current, point);
+        let lateness = 0;
+        if (point.timeWindow) {
+          arrival = Math.max(arrival, this.timeStringToMinutes(point.timeWindow.start));
+          lateness = Math.max(0, arrival - this.timeStringToMinutes(point.timeWindow.end));
+        }
+
+        const score = arrival + lateness * this.LATENESS_WEIGHT;
+        if (score < bestScore) {
+          bestScore = score;
+          bestIndex = i;
+          bestArrival = arrival;
+        }
+      }
+
+      const selected = remaining.splice(bestIndex, 1)[0];
+      route.push(selected);
+      clock = bestArrival + selected.estimatedDuration;
+      current = { latitude: selected.latitude, longitude: selected.longitude };
+    }
+
+    return route;
+  }
+
+  private static evaluateRoute(
+    start: { latitude: number; longitude: number },
+    route: DeliveryPoint[],
+    startMinutes: number
+  ): RouteEvaluation {
+    let current = start;
+    let clock = startMinutes;
+    let distance = 0;
+    let lateness = 0;
+    const arrivals: number[] = [];
+
+    for (const point of route) {
+      distance += GeolocationService.haversineDistance(current, point);
+      clock += this.travelMinutes(current, point);
+
+      if (point.timeWindow) {
+        clock = Math.max(clock, this.timeStringToMinutes(point.timeWindow.start));
+        lateness += Math.max(0, clock - this.timeStringToMinutes(point.timeWindow.end));
+      }
+
+      arrivals.push(clock);
+      clock += point.estimatedDuration;
+      current = { latitude: point.latitude, longitude: point.longitude };
+    }
+
+    const duration = clock - startMinutes;
+    return {
+      cost: duration + lateness * this.LATENESS_WEIGHT,
+      distance,
+      duration,
+      lateness,
+      arrivals
+    };
+  }
+
+  private static respectsPrecedence(route: DeliveryPoint[]): boolean {
+    const pickedUp = new Set<number>();
+    const hasPickup = new Set(route.filter(p => p.type === 'PICKUP').map(p => p.orderId));
+
+    for (const point of route) {
+      if (point.type === 'PICKUP') {
+        pickedUp.add(point.orderId);
+      } else if (hasPickup.has(point.orderId) && !pickedUp.has(point.orderId)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // One local-search step: returns the first improving or-opt or 2-opt move
+  private static improveRoute(
+    start: { latitude: number; longitude: number },
+    route: DeliveryPoint[],
+    currentCost: number,
+    startMinutes: number
+  ): { route: DeliveryPoint[]; evaluation: RouteEvaluation } | null {
+    const n = route.length;
+    const tryCandidate = (candidate: DeliveryPoint[]) => {
+      if (!this.respectsPrecedence(candidate)) return null;
+      const evaluation = this.evaluateRoute(start, candidate, startMinutes);
+      return evaluation.cost < currentCost - 1e-6 ? { route: candidate, evaluation } : null;
+    };
+
+    // Or-opt: move a single stop elsewhere in the route
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const candidate = [...route];
+        const [moved] = candidate.splice(i, 1);
+        candidate.splice(j, 0, moved);
+        const result = tryCandidate(candidate);
+        if (result) return result;
+      }
+    }
+
+    // 2-opt: reverse a segment of the route
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const candidate = [
+          ...route.slice(0, i),
+          ...route.slice(i, j + 1).reverse(),
+          ...route.slice(j + 1)
+        ];
+        const result = tryCandidate(candidate);
+        if (result) return result;
+      }
+    }
+
+    return null;
+  }
+
   // Real-time route adjustment based on traffic
   static async adjustRouteForTraffic(
     currentRoute: DeliveryPoint[],
@@ -319,7 +551,7 @@ class RouteOptimizationService {
     return adjusted;
   }
 
-  // Calculate ETA for specific delivery
+  // Calculate ETA for specific delivery from the learned speed tables
   static async calculateDeliveryETA(
     currentLocation: { latitude: number; longitude: number },
     deliveryPoint: DeliveryPoint,
@@ -328,6 +560,7 @@ class RouteOptimizationService {
     eta: Date;
     estimatedTravelTime: number;
     confidence: number;
+    etaRange: { earliest: Date; latest: Date };
   }> {
     // Find position of delivery point in route
     const pointIndex = routePoints.findIndex(p => p.id === deliveryPoint.id);
@@ -336,45 +569,49 @@ class RouteOptimizationService {
       throw new Error('Delivery point not found in route');
     }
 
+    const now = Date.now();
     let totalTime = 0;
+    let lowTime = 0;
+    let highTime = 0;
+    let minSamples = Infinity;
     let currentPos = currentLocation;
 
     // Calculate time to reach this point
     for (let i = 0; i <= pointIndex; i++) {
       const point = routePoints[i];
-      const distance = GeolocationService.haversineDistance(
+      const leg = EtaModelService.estimateLeg(
         currentPos,
-        { latitude: point.latitude, longitude: point.longitude }
+        { latitude: point.latitude, longitude: point.longitude },
+        new Date(now + totalTime * 60 * 1000)
       );
 
-      const travelTime = (distance / 35) * 60 * this.TRAFFIC_MULTIPLIER; // 35 km/h in city
-      totalTime += travelTime;
+      totalTime += leg.minutes;
+      lowTime += leg.lowMinutes;
+      highTime += leg.highMinutes;
+      minSamples = Math.min(minSamples, leg.sampleCount);
 
       if (i < pointIndex) {
-        totalTime += point.estimatedDuration; // Add service time for intermediate stops
+        // Add service time for intermediate stops
+        totalTime += point.estimatedDuration;
+        lowTime += point.estimatedDuration;
+        highTime += point.estimatedDuration;
         currentPos = { latitude: point.latitude, longitude: point.longitude };
       }
     }
 
-    // Calculate ETA
-    const eta = new Date(Date.now() + totalTime * 60 * 1000);
-
-    // Calculate confidence based on various factors
-    let confidence = 0.8; // Base confidence
-    
-    // Reduce confidence for longer routes
-    if (totalTime > 120) confidence -= 0.1;
+    let confidence = EtaModelService.confidence(totalTime, lowTime, highTime, minSamples);
+    // Every extra stop adds uncertainty
     if (pointIndex > 5) confidence -= 0.1;
-    
-    // Increase confidence for short routes
-    if (totalTime < 30) confidence += 0.1;
-    
     confidence = Math.max(0.5, Math.min(0.95, confidence));
 
     return {
-      eta,
+      eta: new Date(now + totalTime * 60 * 1000),
       estimatedTravelTime: totalTime,
-      confidence
+      confidence,
+      etaRange: {
+        earliest: new Date(now + lowTime * 60 * 1000),
+        latest: new Date(now + highTime * 60 * 1000)
+      }
     };
   }
 }
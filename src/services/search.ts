@@ -0,0 +1,371 @@
+import { db } from '../db/config';
+import { products, merchantProfiles, categories, users } from '../db/schema';
+import { eq, and, isNull, gte, lte, desc, asc, sql, SQL, AnyColumn } from 'drizzle-orm';
+import OperatingHoursService from './operating-hours';
+
+// Trigram word similarity a name needs to count as a (possibly misspelt) match
+const SIMILARITY_THRESHOLD = 0.35;
+
+// Blended ranking: text relevance, plus up to this much for a 5-star rating...
+const RATING_WEIGHT = 0.3;
+// ...plus up to this much for being close, halving every DISTANCE_HALF_KM
+const DISTANCE_WEIGHT = 0.5;
+const DISTANCE_HALF_KM = 5;
+
+const FACET_LIMIT = 20;
+
+export const PRICE_BUCKETS = [
+  { key: 'UNDER_1000', min: 0, max: 1000 },
+  { key: '1000_5000', min: 1000, max: 5000 },
+  { key: '5000_20000', min: 5000, max: 20000 },
+  { key: '20000_100000', min: 20000, max: 100000 },
+  { key: 'OVER_100000', min: 100000, max: null }
+] as const;
+
+export const PRODUCT_SORTS = ['relevance', 'name', 'price', 'rating', 'newest'] as const;
+
+export interface SearchLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ProductSearchOptions {
+  query: string;
+  categoryId?: number;
+  merchantId?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  location?: SearchLocation;
+  sortBy?: typeof PRODUCT_SORTS[number];
+  limit: number;
+  offset: number;
+}
+
+export interface SearchSuggestion {
+  text: string;
+  type: 'product' | 'merchant' | 'category';
+  id: number;
+  score: number;
+}
+
+type ProductFacet = 'category' | 'merchant' | 'price';
+
+// The generated tsvector columns are not in the Drizzle model, so they are named directly
+const vectorOf = (table: 'products' | 'merchant_profiles' | 'categories') => sql.raw(`"${table}"."search_vector"`);
+
+const tsQuery = (query: string) => sql`websearch_to_tsquery('english', ${query})`;
+
+// Whole words through the tsvector, misspellings and partial words through trigrams
+const textMatch = (vector: SQL, name: AnyColumn, query: string) =>
+  sql`(${vector} @@ ${tsQuery(query)} OR word_similarity(${query}, ${name}) >= ${sql.raw(String(SIMILARITY_THRESHOLD))})`;
+
+const textRelevance = (vector: SQL, name: AnyColumn, query: string) =>
+  sql`(ts_rank_cd(${vector}, ${tsQuery(query)}) + word_similarity(${query}, ${name}))`;
+
+// Great-circle distance in km, as GeolocationService.haversineDistance does it
+const distanceKm = (from: SearchLocation, latitude: AnyColumn, longitude: AnyColumn) => sql`(6371 * 2 * asin(sqrt(
+  power(sin(radians(${latitude}::float8 - ${from.latitude}::float8) / 2), 2) +
+  cos(radians(${from.latitude}::float8)) * cos(radians(${latitude}::float8)) *
+  power(sin(radians(${longitude}::float8 - ${from.longitude}::float8) / 2), 2)
+)))`;
+
+const blendedScore = (relevance: SQL, rating: SQL, distance: SQL | null) => sql`(
+  ${relevance}
+  + coalesce(${rating}::float8, 0) / 5 * ${sql.raw(String(RATING_WEIGHT))}
+  ${distance ? sql`+ coalesce(${sql.raw(String(DISTANCE_WEIGHT))} / (1 + ${distance} / ${sql.raw(String(DISTANCE_HALF_KM))}), 0)` : sql``}
+)`;
+
+// Constants only, so the same text can be selected and grouped on
+const priceBucket = sql.raw(`CASE ${PRICE_BUCKETS.map(bucket =>
+  `WHEN "products"."price" >= ${bucket.min}${bucket.max !== null ? ` AND "products"."price" < ${bucket.max}` : ''} THEN '${bucket.key}'`
+).join(' ')} END`);
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+export class SearchService {
+  /**
+   * Ranked product search: full-text and typo-tolerant matching on name and
+   * description, ordered by relevance blended with rating and, when the
+   * searcher's location is known, closeness of the merchant.
+   */
+  static async searchProducts(options: ProductSearchOptions) {
+    const { query, location, limit, offset } = options;
+    const relevance = textRelevance(vectorOf('products'), products.name, query);
+    const distance = location ? distanceKm(location, merchantProfiles.latitude, merchantProfiles.longitude) : null;
+    const score = blendedScore(relevance, sql`${products.rating}`, distance);
+    const conditions = this.productConditions(options);
+
+    let orderBy: SQL[];
+    switch (options.sortBy) {
+      case 'price':
+        orderBy = [asc(products.price)];
+        break;
+      case 'rating':
+        orderBy = [desc(products.rating)];
+        break;
+      case 'newest':
+        orderBy = [desc(products.createdAt)];
+        break;
+      case 'name':
+        orderBy = [asc(products.name)];
+        break;
+      default:
+        orderBy = [desc(score), asc(products.id)];
+    }
+
+    const results = await db
+      .select({
+        id: products.id,
+        name: products.name,
+        description: products.description,
+        price: products.price,
+        unit: products.unit,
+        imageUrl: products.imageUrl,
+        images: products.images,
+        rating: products.rating,
+        totalReviews: products.totalReviews,
+        stockQuantity: products.stockQuantity,
+        merchantId: products.merchantId,
+        merchantName: users.fullName,
+        businessName: merchantProfiles.businessName,
+        categoryId: products.categoryId,
+        categoryName: categories.name,
+        createdAt: products.createdAt,
+        distance: distance ? sql<number | null>`round(${distance}::numeric, 2)::float8` : sql<null>`null`,
+        score: sql<number>`round(${score}::numeric, 4)::float8`
+      })
+      .from(products)
+      .leftJoin(users, eq(products.merchantId, users.id))
+      .leftJoin(merchantProfiles, and(eq(merchantProfiles.userId, products.merchantId), isNull(merchantProfiles.deletedAt)))
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .where(and(...conditions))
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(products)
+      .where(and(...conditions));
+
+    return { results, total };
+  }
+
+  /**
+   * Counts of the matching products per category, merchant and price bucket.
+   * Each facet ignores its own filter, so choosing a category still shows
+   * how many matches the other categories have.
+   */
+  static async productFacets(options: ProductSearchOptions) {
+    const [byCategory, byMerchant, byPrice] = await Promise.all([
+      db
+        .select({
+          categoryId: products.categoryId,
+          name: categories.name,
+          count: sql<number>`count(*)::int`
+        })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .where(and(...this.productConditions(options, 'category')))
+        .groupBy(products.categoryId, categories.name)
+        .orderBy(desc(sql`count(*)`))
+        .limit(FACET_LIMIT),
+      db
+        .select({
+          merchantId: products.merchantId,
+          name: sql<string>`coalesce(${merchantProfiles.businessName}, ${users.fullName})`,
+          count: sql<number>`count(*)::int`
+        })
+        .from(products)
+        .leftJoin(users, eq(products.merchantId, users.id))
+        .leftJoin(merchantProfiles, and(eq(merchantProfiles.userId, products.merchantId), isNull(merchantProfiles.deletedAt)))
+        .where(and(...this.productConditions(options, 'merchant')))
+        .groupBy(products.merchantId, merchantProfiles.businessName, users.fullName)
+        .orderBy(desc(sql`count(*)`))
+        .limit(FACET_LIMIT),
+      db
+        .select({
+          bucket: sql<string>`${priceBucket}`,
+          count: sql<number>`count(*)::int`
+        })
+        .from(products)
+        .where(and(...this.productConditions(options, 'price')))
+        .groupBy(priceBucket)
+    ]);
+
+    return {
+      categories: byCategory,
+      merchants: byMerchant,
+      priceRanges: PRICE_BUCKETS.map(bucket => ({
+        ...bucket,
+        count: byPrice.find(row => row.bucket === bucket.key)?.count || 0
+      }))
+    };
+  }
+
+  /**
+   * Ranked merchant search over business name, type and description; open
+   * merchants are listed ahead of closed ones.
+   */
+  static async searchMerchants(query: string, limit: number, offset: number, location?: SearchLocation) {
+    const relevance = textRelevance(vectorOf('merchant_profiles'), merchantProfiles.businessName, query);
+    const distance = location ? distanceKm(location, merchantProfiles.latitude, merchantProfiles.longitude) : null;
+    const score = blendedScore(relevance, sql`${users.averageRating}`, distance);
+
+    const merchants = await db
+      .select({
+        id: merchantProfiles.id,
+        businessName: merchantProfiles.businessName,
+        description: merchantProfiles.description,
+        businessType: merchantProfiles.businessType,
+        location: merchantProfiles.businessAddress,
+        isVerified: merchantProfiles.isVerified,
+        isOpen: merchantProfiles.isOpen,
+        operatingHours: merchantProfiles.operatingHours,
+        userDetails: {
+          fullName: users.fullName,
+          averageRating: users.averageRating,
+          totalRatings: users.totalRatings
+        },
+        distance: distance ? sql<number | null>`round(${distance}::numeric, 2)::float8` : sql<null>`null`,
+        score: sql<number>`round(${score}::numeric, 4)::float8`
+      })
+      .from(merchantProfiles)
+      .innerJoin(users, eq(merchantProfiles.userId, users.id))
+      .where(and(
+        textMatch(vectorOf('merchant_profiles'), merchantProfiles.businessName, query),
+        isNull(merchantProfiles.deletedAt),
+        eq(merchantProfiles.isActive, true),
+        eq(merchantProfiles.isVerified, true)
+      ))
+      .orderBy(desc(score), asc(merchantProfiles.id))
+      .limit(limit)
+      .offset(offset);
+
+    return OperatingHoursService.annotate(merchants)
+      .sort((a, b) => Number(b.openNow) - Number(a.openNow))
+      .map(({ operatingHours, ...merchant }) => merchant);
+  }
+
+  static async searchCategories(query: string, limit: number, offset: number) {
+    const relevance = textRelevance(vectorOf('categories'), categories.name, query);
+
+    return db
+      .select({
+        id: categories.id,
+        name: categories.name,
+        description: categories.description,
+        imageUrl: categories.imageUrl,
+        score: sql<number>`round(${relevance}::numeric, 4)::float8`
+      })
+      .from(categories)
+      .where(and(
+        textMatch(vectorOf('categories'), categories.name, query),
+        isNull(categories.deletedAt),
+        eq(categories.isActive, true)
+      ))
+      .orderBy(desc(relevance), asc(categories.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Autocomplete: product, merchant and category names that start with (or
+   * have a word starting with) what has been typed so far.
+   */
+  static async suggest(prefix: string, limit: number): Promise<SearchSuggestion[]> {
+    const words = prefix.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    if (!words.length) return [];
+
+    const prefixQuery = sql`to_tsquery('english', ${words.map(word => `${word}:*`).join(' & ')})`;
+    const startsWith = `${escapeLike(prefix.trim())}%`;
+    const suggestionScore = (name: AnyColumn) =>
+      sql<number>`((${name} ILIKE ${startsWith})::int + similarity(${name}, ${prefix}))::float8`;
+
+    const productScore = suggestionScore(products.name);
+    const merchantScore = suggestionScore(merchantProfiles.businessName);
+    const categoryScore = suggestionScore(categories.name);
+
+    const [productRows, merchantRows, categoryRows] = await Promise.all([
+      db
+        .select({ id: products.id, text: products.name, score: productScore })
+        .from(products)
+        .where(and(
+          sql`(${vectorOf('products')} @@ ${prefixQuery} OR ${products.name} ILIKE ${startsWith})`,
+          isNull(products.deletedAt),
+          eq(products.isActive, true),
+          eq(products.isAvailable, true)
+        ))
+        .orderBy(desc(productScore), desc(products.rating))
+        .limit(limit * 2),
+      db
+        .select({ id: merchantProfiles.id, text: merchantProfiles.businessName, score: merchantScore })
+        .from(merchantProfiles)
+        .where(and(
+          sql`(${vectorOf('merchant_profiles')} @@ ${prefixQuery} OR ${merchantProfiles.businessName} ILIKE ${startsWith})`,
+          isNull(merchantProfiles.deletedAt),
+          eq(merchantProfiles.isActive, true),
+          eq(merchantProfiles.isVerified, true)
+        ))
+        .orderBy(desc(merchantScore))
+        .limit(limit),
+      db
+        .select({ id: categories.id, text: categories.name, score: categoryScore })
+        .from(categories)
+        .where(and(
+          sql`(${vectorOf('categories')} @@ ${prefixQuery} OR ${categories.name} ILIKE ${startsWith})`,
+          isNull(categories.deletedAt),
+          eq(categories.isActive, true)
+        ))
+        .orderBy(desc(categoryScore))
+        .limit(limit)
+    ]);
+
+    const suggestions: SearchSuggestion[] = [
+      ...productRows.map(row => ({ ...row, type: 'product' as const })),
+      ...merchantRows.map(row => ({ ...row, type: 'merchant' as const })),
+      ...categoryRows.map(row => ({ ...row, type: 'category' as const }))
+    ].sort((a, b) => b.score - a.score);
+
+    // Several merchants often sell a product under the same name
+    const seen = new Set<string>();
+    return suggestions
+      .filter(suggestion => {
+        const key = `${suggestion.type}:${suggestion.text.toLowerCase()}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit);
+  }
+
+  private static productConditions(options: ProductSearchOptions, omit?: ProductFacet): SQL[] {
+    const conditions: SQL[] = [
+      textMatch(vectorOf('products'), products.name, options.query),
+      isNull(products.deletedAt),
+      eq(products.isActive, true),
+      eq(products.isAvailable, true)
+    ];
+
+    if (options.categoryId && omit !== 'category') {
+      conditions.push(eq(products.categoryId, options.categoryId));
+    }
+
+    if (options.merchantId && omit !== 'merchant') {
+      conditions.push(eq(products.merchantId, options.merchantId));
+    }
+
+    if (omit !== 'price') {
+      if (options.minPrice !== undefined) {
+        conditions.push(gte(products.price, options.minPrice.toString()));
+      }
+      if (options.maxPrice !== undefined) {
+        conditions.push(lte(products.price, options.maxPrice.toString()));
+      }
+    }
+
+    return conditions;
+  }
+}
+
+export default SearchService;
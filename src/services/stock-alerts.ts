@@ -0,0 +1,129 @@
+import { db } from '../db/config';
+import { products, notifications } from '../db/schema';
+import { eq, and, or, lte, gt, isNull, isNotNull, sql } from 'drizzle-orm';
+import { getWebSocketService } from './websocket';
+
+type Product = typeof products.$inferSelect;
+
+export class StockAlertService {
+  /**
+   * Reacts to stock having moved on these products: takes a product off sale
+   * when it runs out and back on when restocked, and tells the merchant once
+   * each time stock falls below the product's reorder threshold. Never
+   * throws; a failed check must not fail the order or edit that moved stock.
+   */
+  static async checkProducts(productIds: number[]) {
+    for (const productId of new Set(productIds)) {
+      try {
+        await this.checkProduct(productId);
+      } catch (error) {
+        console.error(`Stock alert check error for product ${productId}:`, error);
+      }
+    }
+  }
+
+  // Each step is a conditional update, so concurrent checks act (and notify) once
+  private static async checkProduct(productId: number) {
+    const now = new Date();
+
+    const [stockedOut] = await db
+      .update(products)
+      .set({ isAvailable: false, stockedOutAt: now, updatedAt: now })
+      .where(and(
+        eq(products.id, productId),
+        lte(products.stockQuantity, 0),
+        eq(products.isAvailable, true),
+        isNull(products.stockedOutAt),
+        isNull(products.deletedAt)
+      ))
+      .returning();
+
+    if (stockedOut) {
+      await this.notifyMerchant(stockedOut, {
+        type: 'PRODUCT_OUT_OF_STOCK',
+        title: 'Out of stock',
+        message: `${stockedOut.name} is out of stock and has been hidden from customers until you restock it`
+      });
+    }
+
+    // Only what running out took off sale comes back; a product the merchant
+    // switched off stays off
+    await db
+      .update(products)
+      .set({ isAvailable: true, stockedOutAt: null, updatedAt: now })
+      .where(and(
+        eq(products.id, productId),
+        gt(products.stockQuantity, 0),
+        isNotNull(products.stockedOutAt)
+      ));
+
+    const [lowStock] = await db
+      .update(products)
+      .set({ lowStockAlertedAt: now })
+      .where(and(
+        eq(products.id, productId),
+        isNotNull(products.reorderThreshold),
+        gt(products.stockQuantity, 0),
+        sql`${products.stockQuantity} < ${products.reorderThreshold}`,
+        isNull(products.lowStockAlertedAt),
+        isNull(products.deletedAt)
+      ))
+      .returning();
+
+    if (lowStock) {
+      await this.notifyMerchant(lowStock, {
+        type: 'PRODUCT_LOW_STOCK',
+        title: 'Low stock',
+        message: `${lowStock.name} is down to ${lowStock.stockQuantity} (reorder level ${lowStock.reorderThreshold})`
+      });
+    }
+
+    // Back at or above the threshold: the next dip alerts again
+    await db
+      .update(products)
+      .set({ lowStockAlertedAt: null })
+      .where(and(
+        eq(products.id, productId),
+        isNotNull(products.lowStockAlertedAt),
+        or(
+          isNull(products.reorderThreshold),
+          sql`${products.stockQuantity} >= ${products.reorderThreshold}`
+        )
+      ));
+  }
+
+  private static async notifyMerchant(product: Product, notification: { type: string; title: string; message: string }) {
+    if (!product.merchantId) return;
+
+    const metadata = {
+      productId: product.id,
+      sku: product.sku,
+      stockQuantity: product.stockQuantity,
+      reorderThreshold: product.reorderThreshold
+    };
+
+    try {
+      await db.insert(notifications).values({
+        userId: product.merchantId,
+        title: notification.title,
+        message: notification.message,
+        type: notification.type,
+        metadata
+      });
+
+      const wsService = getWebSocketService();
+      if (wsService) {
+        await wsService.sendNotificationToUser(product.merchantId.toString(), {
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          data: metadata
+        });
+      }
+    } catch (error) {
+      console.error('Stock alert notification error:', error);
+    }
+  }
+}
+
+export default StockAlertService;
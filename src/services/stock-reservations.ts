@@ -0,0 +1,289 @@
+import { db } from '../db/config';
+import { stockReservations, products, productVariants, auditLogs } from '../db/schema';
+import { eq, and, inArray, lt, gte, asc, sql } from 'drizzle-orm';
+import { withTransaction } from '../utils/db-transaction';
+import StockAlertService from './stock-alerts';
+
+type StockReservation = typeof stockReservations.$inferSelect;
+
+// How long a checkout holds its stock while the customer pays
+const RESERVATION_TTL_MINUTES = 30;
+
+export interface ReservationLine {
+  productId: number;
+  variantId?: number | null;
+  quantity: number;
+}
+
+export interface ReservationResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  expiresAt?: Date;
+  unavailableItems?: Array<{ productId: number; variantId: number | null; name: string; requested: number; available: number }>;
+}
+
+export class StockReservationService {
+  /**
+   * Takes the stock for a checkout out of the products (or, for a chosen
+   * variant, out of that variant), all or nothing. The rows are locked and
+   * every line checked before any stock moves, so two buyers can never both
+   * get the last unit.
+   */
+  static async reserve(userId: number, reference: string, lines: ReservationLine[]): Promise<ReservationResult> {
+    const requested = new Map<string, ReservationLine>();
+    for (const line of lines) {
+      const key = `${line.productId}:${line.variantId || ''}`;
+      requested.set(key, { ...line, quantity: (requested.get(key)?.quantity || 0) + line.quantity });
+    }
+
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+    const wanted = Array.from(requested.values());
+    const productIds = wanted.filter(line => !line.variantId).map(line => line.productId);
+    const variantIds = wanted.filter(line => line.variantId).map(line => line.variantId!);
+
+    const result = await withTransaction(async (tx): Promise<ReservationResult> => {
+      // Locked in id order so concurrent checkouts cannot deadlock
+      const lockedProducts = productIds.length
+        ? await tx
+            .select({ id: products.id, name: products.name, stockQuantity: products.stockQuantity })
+            .from(products)
+            .where(inArray(products.id, productIds))
+            .orderBy(asc(products.id))
+            .for('update')
+        : [];
+
+      const lockedVariants = variantIds.length
+        ? await tx
+            .select({ id: productVariants.id, name: productVariants.name, stockQuantity: productVariants.stockQuantity })
+            .from(productVariants)
+            .where(inArray(productVariants.id, variantIds))
+            .orderBy(asc(productVariants.id))
+            .for('update')
+        : [];
+
+      const unavailableItems = wanted
+        .map(line => {
+          const row = line.variantId
+            ? lockedVariants.find((v: any) => v.id === line.variantId)
+            : lockedProducts.find((p: any) => p.id === line.productId);
+          return {
+            productId: line.productId,
+            variantId: line.variantId || null,
+            name: row?.name || '',
+            requested: line.quantity,
+            available: row?.stockQuantity || 0
+          };
+        })
+        .filter(item => item.available < item.requested);
+
+      if (unavailableItems.length) {
+        return { success: false, status: 409, message: 'Some items are out of stock', unavailableItems };
+      }
+
+      for (const line of wanted) {
+        await this.adjustStock(tx, line, -line.quantity);
+      }
+
+      await tx.insert(stockReservations).values(wanted.map(line => ({
+        reference,
+        productId: line.productId,
+        variantId: line.variantId || null,
+        userId,
+        quantity: line.quantity,
+        expiresAt
+      })));
+
+      return { success: true, expiresAt };
+    });
+
+    if (result.success) {
+      await this.logEvent(userId, 'STOCK_RESERVED', reference, {
+        items: wanted.map(line => ({ productId: line.productId, variantId: line.variantId || null, quantity: line.quantity })),
+        expiresAt
+      });
+      await StockAlertService.checkProducts(productIds);
+    }
+
+    return result;
+  }
+
+  /**
+   * Payment arrived: the held stock is sold. A hold that already expired gave
+   * its stock back, so it is taken again if still there; if not, the order
+   * is oversold and logged for the merchant to sort out.
+   */
+  static async commit(reference: string) {
+    const now = new Date();
+    const committed = await db
+      .update(stockReservations)
+      .set({ status: 'COMMITTED', committedAt: now, updatedAt: now })
+      .where(and(eq(stockReservations.reference, reference), eq(stockReservations.status, 'HELD')))
+      .returning();
+
+    const expired = await db
+      .select()
+      .from(stockReservations)
+      .where(and(eq(stockReservations.reference, reference), eq(stockReservations.status, 'EXPIRED')));
+
+    const oversold: Array<{ productId: number; variantId: number | null; quantity: number }> = [];
+    for (const reservation of expired) {
+      const retaken = await withTransaction(async (tx) => {
+        const [claimed] = await tx
+          .update(stockReservations)
+          .set({ status: 'COMMITTED', committedAt: now, updatedAt: now })
+          .where(and(eq(stockReservations.id, reservation.id), eq(stockReservations.status, 'EXPIRED')))
+          .returning();
+
+        if (!claimed) return null;
+
+        return this.adjustStock(tx, reservation, -reservation.quantity);
+      });
+
+      if (retaken === null) continue;
+
+      committed.push(reservation);
+      if (!retaken) {
+        oversold.push({ productId: reservation.productId, variantId: reservation.variantId, quantity: reservation.quantity });
+      }
+    }
+
+    if (!committed.length) return;
+
+    await this.logEvent(committed[0].userId, 'STOCK_RESERVATION_COMMITTED', reference, {
+      items: committed.map(r => ({ productId: r.productId, variantId: r.variantId, quantity: r.quantity }))
+    });
+
+    if (oversold.length) {
+      await this.logEvent(committed[0].userId, 'STOCK_OVERSOLD', reference, { items: oversold });
+    }
+
+    await StockAlertService.checkProducts(expired.filter(r => !r.variantId).map(r => r.productId));
+  }
+
+  /**
+   * Payment failed or the checkout was abandoned: held stock goes back on sale.
+   */
+  static async release(reference: string, reason: string) {
+    const held = await db
+      .select()
+      .from(stockReservations)
+      .where(and(eq(stockReservations.reference, reference), eq(stockReservations.status, 'HELD')));
+
+    const released = await this.returnStock(held, 'RELEASED');
+    if (!released.length) return;
+
+    await this.logEvent(released[0].userId, 'STOCK_RESERVATION_RELEASED', reference, {
+      reason,
+      items: released.map(r => ({ productId: r.productId, variantId: r.variantId, quantity: r.quantity }))
+    });
+  }
+
+  /**
+   * Gives back the stock of every hold whose payment never arrived in time,
+   * and abandons the checkouts they were held for.
+   */
+  static async expireStale() {
+    try {
+      const stale = await db
+        .select()
+        .from(stockReservations)
+        .where(and(eq(stockReservations.status, 'HELD'), lt(stockReservations.expiresAt, new Date())))
+        .limit(500);
+
+      const expired = await this.returnStock(stale, 'EXPIRED');
+
+      const byReference = new Map<string, StockReservation[]>();
+      for (const reservation of expired) {
+        byReference.set(reservation.reference, [...(byReference.get(reservation.reference) || []), reservation]);
+      }
+
+      // The reference is the checkout group number; its quote, promotions and orders go too
+      const CheckoutGroupService = (await import('./checkout-groups')).default;
+
+      for (const [reference, reservations] of byReference) {
+        await this.logEvent(reservations[0].userId, 'STOCK_RESERVATION_EXPIRED', reference, {
+          items: reservations.map(r => ({ productId: r.productId, variantId: r.variantId, quantity: r.quantity }))
+        });
+
+        await CheckoutGroupService.abandon(reference, 'RESERVATION_EXPIRED').catch(error => {
+          console.error(`Abandon checkout ${reference} error:`, error);
+        });
+      }
+    } catch (error) {
+      console.error('Stock reservation expiry error:', error);
+    }
+  }
+
+  /**
+   * Moves held reservations to their final status and puts their stock back.
+   * Each is claimed with a conditional update, so a reservation committed or
+   * swept concurrently is never returned twice.
+   */
+  private static async returnStock(reservations: StockReservation[], status: 'RELEASED' | 'EXPIRED'): Promise<StockReservation[]> {
+    const returned: StockReservation[] = [];
+
+    for (const reservation of reservations) {
+      const claimed = await withTransaction(async (tx) => {
+        const now = new Date();
+        const [row] = await tx
+          .update(stockReservations)
+          .set({ status, releasedAt: now, updatedAt: now })
+          .where(and(eq(stockReservations.id, reservation.id), eq(stockReservations.status, 'HELD')))
+          .returning();
+
+        if (!row) return null;
+
+        await this.adjustStock(tx, reservation, reservation.quantity);
+
+        return row;
+      });
+
+      if (claimed) returned.push(claimed);
+    }
+
+    await StockAlertService.checkProducts(returned.filter(r => !r.variantId).map(r => r.productId));
+
+    return returned;
+  }
+
+  /**
+   * Moves stock on the variant when there is one, otherwise on the product.
+   * Taking stock only succeeds if enough is left.
+   */
+  private static async adjustStock(tx: any, line: { productId: number; variantId?: number | null }, delta: number): Promise<boolean> {
+    const table = line.variantId ? productVariants : products;
+    const id = line.variantId || line.productId;
+
+    const updated = await tx
+      .update(table)
+      .set({ stockQuantity: sql`${table.stockQuantity} + ${delta}`, updatedAt: new Date() })
+      .where(and(eq(table.id, id), ...(delta < 0 ? [gte(table.stockQuantity, -delta)] : [])))
+      .returning({ id: table.id });
+
+    return updated.length > 0;
+  }
+
+  private static async logEvent(userId: number, action: string, reference: string, details: Record<string, any>) {
+    try {
+      await db.insert(auditLogs).values({
+        userId,
+        action,
+        entityType: 'STOCK_RESERVATION',
+        details: { reference, ...details }
+      });
+    } catch (error) {
+      console.error('Stock reservation audit log error:', error);
+    }
+  }
+}
+
+export function startStockReservationService() {
+  setInterval(() => {
+    StockReservationService.expireStale();
+  }, 60 * 1000);
+
+  console.log('✅ Stock reservation service started');
+}
+
+export default StockReservationService;
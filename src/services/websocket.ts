@@ -198,6 +198,9 @@ export class WebSocketService {
         case 'leave_call':
           await this.handleLeaveCall(ws, message.data);
           break;
+        case 'order_offer_response':
+          await this.handleOrderOfferResponse(ws, message.data);
+          break;
         default:
           ws.send(JSON.stringify({ type: 'error', data: { message: 'Unknown message type' } }));
       }
@@ -226,12 +229,39 @@ export class WebSocketService {
         console.warn('⚠️ Firebase not configured - location tracking disabled');
         ws.send(JSON.stringify({ type: 'warning', data: { message: 'Location tracking temporarily unavailable' } }));
       }
+
+      // Geofence events are pushed to the customer and driver by the service itself
+      const { GeofenceService } = await import('./geofence');
+      await GeofenceService.checkDriverLocation(parseInt(ws.userId!), Number(latitude), Number(longitude));
     } catch (error) {
       console.error('Location update error:', error);
       ws.send(JSON.stringify({ type: 'error', data: { message: 'Failed to update location' } }));
     }
   }
 
+  private async handleOrderOfferResponse(ws: AuthenticatedWebSocket, data: any) {
+    if (ws.userRole !== 'DRIVER') {
+      ws.send(JSON.stringify({ type: 'error', data: { message: 'Only drivers can respond to order offers.' } }));
+      return;
+    }
+
+    try {
+      const { offerId, accept } = data;
+      const { DriverDispatchService } = await import('./driver-dispatch');
+      const result = await DriverDispatchService.respondToOffer(parseInt(offerId), parseInt(ws.userId!), 'DRIVER', !!accept);
+
+      ws.send(JSON.stringify({
+        type: 'order_offer_result',
+        data: result.success
+          ? { success: true, offerId, accepted: !!accept, orderId: result.offer?.orderId }
+          : { success: false, offerId, message: result.message }
+      }));
+    } catch (error) {
+      console.error('Order offer response error:', error);
+      ws.send(JSON.stringify({ type: 'error', data: { message: 'Failed to respond to order offer' } }));
+    }
+  }
+
   private async handleCallSignal(ws: AuthenticatedWebSocket, data: any) {
     try {
       const { peerId, signalType, signalData } = data;
@@ -314,6 +344,20 @@ export class WebSocketService {
     console.log('📱 WebSocket disconnected');
   }
 
+  /**
+   * Pushes a delivery offer to a driver. The first driver to accept wins.
+   */
+  public async sendOrderOffer(driverId: number, offer: any) {
+    await this.broadcastToUser(driverId.toString(), { type: 'order_offer', data: offer, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Tells a driver an offer can no longer be accepted.
+   */
+  public async sendOrderOfferWithdrawn(driverId: number, data: { offerId: number; orderId: number; reason: string }) {
+    await this.broadcastToUser(driverId.toString(), { type: 'order_offer_withdrawn', data, timestamp: new Date().toISOString() });
+  }
+
   public async broadcastToUser(userId: string, payload: any) {
     const userClients = this.clients.get(userId);
     if (userClients) {